@@ -84,14 +84,140 @@ gcloud scheduler jobs create http britepulse-daily-brief \
   --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
   --message-body="{}"
 
+# Step 6: Create retention sweep job
+echo "Step 6: Creating retention sweep job..."
+
+gcloud scheduler jobs delete britepulse-retention-sweep --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-retention-sweep \
+  --location=$REGION \
+  --schedule="0 3 * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/retention/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 7: Create silent installation check job
+echo "Step 7: Creating silent installation check job..."
+
+gcloud scheduler jobs delete britepulse-silent-installations --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-silent-installations \
+  --location=$REGION \
+  --schedule="0 * * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/installation-health/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 8: Create duplicate detection job
+echo "Step 8: Creating duplicate detection job..."
+
+gcloud scheduler jobs delete britepulse-duplicate-detection --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-duplicate-detection \
+  --location=$REGION \
+  --schedule="30 */6 * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/duplicates/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 9: Create priority refresh job
+echo "Step 9: Creating priority refresh job..."
+
+gcloud scheduler jobs delete britepulse-priority-refresh --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-priority-refresh \
+  --location=$REGION \
+  --schedule="15 * * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/priority/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 10: Create snooze wake-up job
+echo "Step 10: Creating snooze wake-up job..."
+
+gcloud scheduler jobs delete britepulse-snooze-wake --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-snooze-wake \
+  --location=$REGION \
+  --schedule="*/15 * * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/snooze/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 11: Create outbound webhook retry job
+echo "Step 11: Creating outbound webhook retry job..."
+
+gcloud scheduler jobs delete britepulse-webhook-retry --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-webhook-retry \
+  --location=$REGION \
+  --schedule="*/5 * * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/webhook-retries/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
+# Step 12: Create AI triage job queue runner
+echo "Step 12: Creating AI triage job queue runner..."
+
+gcloud scheduler jobs delete britepulse-ai-jobs --location=$REGION --quiet 2>/dev/null || true
+
+gcloud scheduler jobs create http britepulse-ai-jobs \
+  --location=$REGION \
+  --schedule="* * * * *" \
+  --time-zone="America/Chicago" \
+  --uri="${API_URL}/jobs/ai-triage/trigger" \
+  --http-method=POST \
+  --headers="Authorization=Bearer ${SCHEDULER_TOKEN},Content-Type=application/json" \
+  --message-body="{}"
+
 echo ""
 echo "=== Setup Complete ==="
 echo ""
-echo "Cloud Scheduler job created:"
+echo "Cloud Scheduler jobs created:"
 echo "  Name: britepulse-daily-brief"
 echo "  Schedule: 8:00 AM Central, daily"
 echo "  Endpoint: ${API_URL}/briefs/trigger"
 echo ""
+echo "  Name: britepulse-retention-sweep"
+echo "  Schedule: 3:00 AM Central, daily"
+echo "  Endpoint: ${API_URL}/jobs/retention/trigger"
+echo ""
+echo "  Name: britepulse-silent-installations"
+echo "  Schedule: hourly"
+echo "  Endpoint: ${API_URL}/jobs/installation-health/trigger"
+echo ""
+echo "  Name: britepulse-duplicate-detection"
+echo "  Schedule: every 6 hours"
+echo "  Endpoint: ${API_URL}/jobs/duplicates/trigger"
+echo ""
+echo "  Name: britepulse-priority-refresh"
+echo "  Schedule: hourly"
+echo "  Endpoint: ${API_URL}/jobs/priority/trigger"
+echo ""
+echo "  Name: britepulse-snooze-wake"
+echo "  Schedule: every 15 minutes"
+echo "  Endpoint: ${API_URL}/jobs/snooze/trigger"
+echo ""
+echo "  Name: britepulse-webhook-retry"
+echo "  Schedule: every 5 minutes"
+echo "  Endpoint: ${API_URL}/jobs/webhook-retries/trigger"
+echo ""
+echo "  Name: britepulse-ai-jobs"
+echo "  Schedule: every minute"
+echo "  Endpoint: ${API_URL}/jobs/ai-triage/trigger"
+echo ""
 echo "To test the scheduler manually:"
 echo "  gcloud scheduler jobs run britepulse-daily-brief --location=$REGION"
 echo ""
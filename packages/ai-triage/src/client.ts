@@ -1,33 +1,45 @@
 /**
- * Claude API Client
- * Wrapper for Anthropic Claude API
+ * Model Client
+ * Holds the active provider and validates structured completions
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import type { AIUsage } from '@britepulse/shared';
+import { createAnthropicProvider, type AIProvider, type ModelPricing } from './provider.js';
+import type { OutputCheck } from './validation.js';
 
-let client: Anthropic | null = null;
+// One call plus one retry with the validation errors
+const MAX_ATTEMPTS = 2;
+const MAX_ECHOED_RESPONSE_CHARS = 8000;
+
+let provider: AIProvider | null = null;
 
 /**
- * Initialize Claude client
+ * Initialize the Anthropic provider
+ * pricing is required for models without list pricing
  */
-export function initClient(apiKey: string): void {
-  client = new Anthropic({
-    apiKey,
-  });
+export function initClient(apiKey: string, model?: string, pricing?: ModelPricing): void {
+  provider = createAnthropicProvider({ apiKey, model, pricing });
 }
 
 /**
- * Get the Claude client instance
+ * Use a specific provider (another model, or the stub in tests)
  */
-export function getClient(): Anthropic {
-  if (!client) {
-    throw new Error('Claude client not initialized. Call initClient first.');
+export function setProvider(next: AIProvider): void {
+  provider = next;
+}
+
+/**
+ * Get the active provider
+ */
+export function getProvider(): AIProvider {
+  if (!provider) {
+    throw new Error('AI provider not initialized. Call initClient or setProvider first.');
   }
-  return client;
+  return provider;
 }
 
 /**
- * Generate a completion using Claude
+ * Generate a completion
  */
 export async function generateCompletion(
   systemPrompt: string,
@@ -35,63 +47,122 @@ export async function generateCompletion(
   options: {
     maxTokens?: number;
     temperature?: number;
-    model?: string;
   } = {}
-): Promise<string> {
-  const anthropic = getClient();
-
-  const {
-    maxTokens = 4096,
-    temperature = 0.3,
-    model = 'claude-sonnet-4-20250514',
-  } = options;
-
-  const response = await anthropic.messages.create({
-    model,
-    max_tokens: maxTokens,
-    temperature,
+): Promise<{ text: string; usage: AIUsage }> {
+  const { maxTokens = 4096, temperature = 0.3 } = options;
+
+  return getProvider().complete({
     system: systemPrompt,
-    messages: [
-      {
-        role: 'user',
-        content: userMessage,
-      },
-    ],
+    user: userMessage,
+    maxTokens,
+    temperature,
   });
+}
 
-  // Extract text from response
-  const textContent = response.content.find((block) => block.type === 'text');
-  if (!textContent || textContent.type !== 'text') {
-    throw new Error('No text content in response');
+/**
+ * Error from a call that reached the model, carrying what it cost
+ */
+export class CompletionError extends Error {
+  constructor(
+    message: string,
+    public readonly usage: AIUsage
+  ) {
+    super(message);
+    this.name = 'CompletionError';
   }
-
-  return textContent.text;
 }
 
 /**
- * Generate a structured JSON completion
+ * Generate a JSON completion that passes check
+ * A response that doesn't parse or fails the check is sent back once with its
+ * errors; usage covers every call made
  */
-export async function generateStructuredCompletion<T>(
+export async function generateValidatedCompletion<T>(
   systemPrompt: string,
   userMessage: string,
+  check: (raw: unknown) => OutputCheck<T>,
   options: {
     maxTokens?: number;
     temperature?: number;
-    model?: string;
   } = {}
-): Promise<T> {
-  const text = await generateCompletion(systemPrompt, userMessage, options);
-
-  // Extract JSON from response (handle markdown code blocks)
-  let jsonStr = text;
-  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-  if (jsonMatch) {
-    jsonStr = jsonMatch[1];
+): Promise<{ data: T; usage: AIUsage; attempts: number; repairs: string[] }> {
+  let message = userMessage;
+  let usage: AIUsage | undefined;
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let completion: { text: string; usage: AIUsage };
+    try {
+      completion = await generateCompletion(systemPrompt, message, options);
+    } catch (error) {
+      // The first call still has to be paid for
+      if (!usage) throw error;
+      throw new CompletionError(error instanceof Error ? error.message : 'Unknown error', usage);
+    }
+    usage = usage ? addUsage(usage, completion.usage) : completion.usage;
+
+    const extracted = extractJson(completion.text);
+    const result: OutputCheck<T> = extracted.ok
+      ? check(extracted.value)
+      : { ok: false, errors: [extracted.error] };
+    if (result.ok) {
+      return { data: result.data, usage, attempts: attempt, repairs: result.repairs };
+    }
+
+    errors = result.errors;
+    message = buildCorrectionMessage(userMessage, completion.text, errors);
   }
 
-  try {
-    return JSON.parse(jsonStr) as T;
-  } catch (error) {
-    throw new Error(`Failed to parse JSON response: ${error}`);
+  throw new CompletionError(`Response failed validation: ${errors.slice(0, 5).join('; ')}`, usage!);
+}
+
+/**
+ * Pull the JSON object out of a model response
+ * Tries a code fence, the whole text, then the outermost braces, each also
+ * without trailing commas
+ */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const candidates: string[] = [];
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) candidates.push(fenced[1]);
+  candidates.push(text.trim());
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+  let lastError = 'empty response';
+  for (const candidate of candidates) {
+    for (const json of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return { ok: true, value: JSON.parse(json) };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
   }
+
+  return { ok: false, error: `Response is not valid JSON: ${lastError}` };
+}
+
+function buildCorrectionMessage(userMessage: string, response: string, errors: string[]): string {
+  return [
+    userMessage,
+    '',
+    '## Your Previous Response',
+    response.slice(0, MAX_ECHOED_RESPONSE_CHARS),
+    '',
+    '## Problems With That Response',
+    ...errors.map((error) => `- ${error}`),
+    '',
+    'Respond again with the complete, corrected JSON object only.',
+  ].join('\n');
+}
+
+function addUsage(a: AIUsage, b: AIUsage): AIUsage {
+  return {
+    ...b,
+    input_tokens: a.input_tokens + b.input_tokens,
+    output_tokens: a.output_tokens + b.output_tokens,
+    cost_usd: Math.round((a.cost_usd + b.cost_usd) * 1_000_000) / 1_000_000,
+  };
 }
@@ -3,11 +3,16 @@
  * Prepares sanitized context for AI triage
  */
 
-import type {
-  Issue,
-  Event,
-  AIAnalysisInput,
-  CodeExcerpt,
+import {
+  AI_INPUT_CATEGORIES,
+  type Issue,
+  type Event,
+  type AIAnalysisInput,
+  type AIInputCategory,
+  type CodeExcerpt,
+  type FeedbackAnalysisInput,
+  type RelatedIssueCandidate,
+  type UserSegment,
 } from '@britepulse/shared';
 
 /**
@@ -19,10 +24,13 @@ const LIMITS = {
   maxCodeExcerpts: 5,
   maxRoutes: 10,
   maxVersions: 5,
+  maxFeedbackReports: 10,
+  maxRelatedCandidates: 8,
 };
 
 /**
  * Build AI analysis input from issue and events
+ * Evidence categories missing from allowedInputs are left out entirely
  */
 export function buildAnalysisInput(
   issue: Issue,
@@ -31,9 +39,15 @@ export function buildAnalysisInput(
   options: {
     codeExcerpts?: CodeExcerpt[];
     previousOccurrences24h?: number;
+    allowedInputs?: AIInputCategory[];
   } = {}
 ): AIAnalysisInput {
-  const { codeExcerpts = [], previousOccurrences24h } = options;
+  const {
+    codeExcerpts = [],
+    previousOccurrences24h = issue.counts.occurrences_prev_24h,
+    allowedInputs = AI_INPUT_CATEGORIES,
+  } = options;
+  const allowed = new Set(allowedInputs);
 
   // Calculate trend direction
   let trendDirection: 'increasing' | 'stable' | 'decreasing' = 'stable';
@@ -44,21 +58,31 @@ export function buildAnalysisInput(
     else if (change < -10) trendDirection = 'decreasing';
   }
 
-  // Extract feedback from events
+  // Extract feedback from events, keeping the event IDs so evidence can cite them
   const feedbackEvents = events.filter((e) => e.event_type === 'feedback');
-  const sanitizedFeedback = feedbackEvents
+  const feedback = (allowed.has('sanitized_feedback') ? feedbackEvents : [])
     .slice(0, LIMITS.maxFeedback)
-    .map((e) => extractFeedbackText(e))
-    .filter((f): f is string => f !== null);
+    .flatMap((e) => {
+      const text = extractFeedbackText(e);
+      return text === null ? [] : [{ event_id: e.event_id, text }];
+    });
 
   // Extract stack traces from error events
   const errorEvents = events.filter(
     (e) => e.event_type === 'frontend_error' || e.event_type === 'backend_error'
   );
-  const sanitizedStackTraces = errorEvents
+  const stackTraces = (allowed.has('sanitized_stack') ? errorEvents : [])
     .slice(0, LIMITS.maxStackTraces)
-    .map((e) => extractStackTrace(e))
-    .filter((s): s is string => s !== null);
+    .flatMap((e) => {
+      const stack = extractStackTrace(e);
+      return stack === null ? [] : [{ event_id: e.event_id, stack }];
+    });
+
+  // Code is scrubbed line by line so a single suspicious constant doesn't cost the whole excerpt
+  const scrubbedExcerpts = (allowed.has('retrieved_code_excerpts') ? codeExcerpts : [])
+    .map((excerpt) => scrubCodeExcerpt(excerpt))
+    .filter((e): e is CodeExcerpt => e !== null)
+    .slice(0, LIMITS.maxCodeExcerpts);
 
   // Extract affected routes
   const routes = [...new Set(events.map((e) => e.route_or_url))].slice(0, LIMITS.maxRoutes);
@@ -72,16 +96,20 @@ export function buildAnalysisInput(
   return {
     issue_id: issue.issue_id,
     issue_title: issue.title,
-    issue_description: issue.description,
+    issue_description: redactIssueDescription(issue.description, allowed),
     issue_type: issue.issue_type,
     current_severity: issue.severity,
-    occurrences_total: issue.counts.occurrences_total,
-    occurrences_24h: issue.counts.occurrences_24h,
-    unique_users_24h_est: issue.counts.unique_users_24h_est,
-    trend_direction: trendDirection,
-    sanitized_feedback: sanitizedFeedback.length > 0 ? sanitizedFeedback : undefined,
-    sanitized_stack_traces: sanitizedStackTraces.length > 0 ? sanitizedStackTraces : undefined,
-    retrieved_code_excerpts: codeExcerpts.length > 0 ? codeExcerpts.slice(0, LIMITS.maxCodeExcerpts) : undefined,
+    ...(allowed.has('metrics_summary') && {
+      occurrences_total: issue.counts.occurrences_total,
+      occurrences_24h: issue.counts.occurrences_24h,
+      unique_users_24h_est: issue.counts.unique_users_24h_est,
+      trend_direction: trendDirection,
+    }),
+    sanitized_feedback: feedback.length > 0 ? feedback.map((f) => f.text) : undefined,
+    sanitized_stack_traces: stackTraces.length > 0 ? stackTraces.map((s) => s.stack) : undefined,
+    retrieved_code_excerpts: scrubbedExcerpts.length > 0 ? scrubbedExcerpts : undefined,
+    feedback_event_ids: feedback.length > 0 ? feedback.map((f) => f.event_id) : undefined,
+    stack_trace_event_ids: stackTraces.length > 0 ? stackTraces.map((s) => s.event_id) : undefined,
     app_name: appName,
     environment: issue.environment,
     affected_routes: routes.length > 0 ? routes : undefined,
@@ -89,6 +117,106 @@ export function buildAnalysisInput(
   };
 }
 
+// Sections the pipeline writes into issue descriptions, by the category they copy from events
+const DESCRIPTION_SECTIONS: { category: AIInputCategory; heading: RegExp }[] = [
+  { category: 'sanitized_feedback', heading: /^(Description|Reproduction Steps):/ },
+  { category: 'sanitized_stack', heading: /^Stack Trace:/ },
+];
+
+/**
+ * Cut an issue description at the first section holding a disallowed category
+ * Everything after that heading goes, so text inside a dropped section can't
+ * end it early by looking like the next heading
+ */
+function redactIssueDescription(description: string, allowed: Set<AIInputCategory>): string {
+  const headings = DESCRIPTION_SECTIONS.filter((s) => !allowed.has(s.category)).map((s) => s.heading);
+  if (headings.length === 0) return description;
+
+  const lines = description.split('\n');
+  const cut = lines.findIndex((line) => headings.some((heading) => heading.test(line)));
+  return cut === -1 ? description : lines.slice(0, cut).join('\n').trimEnd();
+}
+
+/**
+ * Evidence categories actually present in an analysis input
+ */
+export function inputCategoriesSent(input: AIAnalysisInput): AIInputCategory[] {
+  const sent: AIInputCategory[] = [];
+  if (input.sanitized_feedback?.length) sent.push('sanitized_feedback');
+  if (input.sanitized_stack_traces?.length) sent.push('sanitized_stack');
+  if (input.retrieved_code_excerpts?.length) sent.push('retrieved_code_excerpts');
+  if (input.occurrences_total !== undefined) sent.push('metrics_summary');
+  return sent;
+}
+
+/**
+ * Build feedback analysis input from a feedback issue and its reports
+ * Metrics and role segments are only included when metrics_summary is allowed
+ */
+export function buildFeedbackAnalysisInput(
+  issue: Issue,
+  events: Event[],
+  appName: string,
+  options: {
+    relatedIssues?: RelatedIssueCandidate[];
+    allowedInputs?: AIInputCategory[];
+  } = {}
+): FeedbackAnalysisInput {
+  const { relatedIssues = [], allowedInputs = AI_INPUT_CATEGORIES } = options;
+  const allowed = new Set(allowedInputs);
+
+  const feedbackEvents = events.filter((e) => e.event_type === 'feedback');
+  const sanitizedFeedback = (allowed.has('sanitized_feedback') ? feedbackEvents : [])
+    .slice(0, LIMITS.maxFeedbackReports)
+    .map((e) => extractFeedbackText(e))
+    .filter((f): f is string => f !== null);
+
+  const routes = [...new Set(feedbackEvents.map((e) => e.route_or_url))].slice(0, LIMITS.maxRoutes);
+
+  return {
+    issue_id: issue.issue_id,
+    issue_title: issue.title,
+    issue_description: redactIssueDescription(issue.description, allowed),
+    issue_type: issue.issue_type,
+    app_name: appName,
+    environment: issue.environment,
+    sanitized_feedback: sanitizedFeedback,
+    affected_routes: routes.length > 0 ? routes : undefined,
+    ...(allowed.has('metrics_summary') && {
+      reports_total: issue.counts.occurrences_total,
+      unique_users_24h_est: issue.counts.unique_users_24h_est,
+      user_segments: summarizeUserSegments(feedbackEvents),
+    }),
+    related_issue_candidates: relatedIssues.slice(0, LIMITS.maxRelatedCandidates),
+  };
+}
+
+/**
+ * Count reports and distinct reporters per user role, largest segment first
+ */
+export function summarizeUserSegments(events: Event[]): UserSegment[] {
+  const byRole = new Map<string, { reports: number; users: Set<string> }>();
+
+  for (const event of events) {
+    const role = event.user?.role || 'unknown';
+    const segment = byRole.get(role) || { reports: 0, users: new Set<string>() };
+    segment.reports++;
+    if (event.user?.user_id && event.user.user_id !== 'unknown') {
+      segment.users.add(event.user.user_id);
+    }
+    byRole.set(role, segment);
+  }
+
+  return [...byRole.entries()]
+    .map(([role, segment]) => ({
+      role,
+      reports: segment.reports,
+      users: segment.users.size,
+      share: Math.round((segment.reports / events.length) * 100) / 100,
+    }))
+    .sort((a, b) => b.reports - a.reports || a.role.localeCompare(b.role));
+}
+
 /**
  * Extract feedback text from an event
  */
@@ -125,6 +253,27 @@ function extractStackTrace(event: Event): string | null {
   return stack;
 }
 
+/**
+ * Remove lines that may hold secrets or PII from a code excerpt
+ * Removed lines are replaced with a marker so line numbers still line up;
+ * excerpts that are mostly flagged are dropped
+ */
+export function scrubCodeExcerpt(excerpt: CodeExcerpt): CodeExcerpt | null {
+  const lines = excerpt.content.split('\n');
+  let removed = 0;
+
+  const scrubbed = lines.map((line) => {
+    if (validateContentForAI(line).safe) return line;
+    removed++;
+    const indent = line.match(/^\s*/)?.[0] || '';
+    return `${indent}[line removed: may contain secrets or PII]`;
+  });
+
+  if (removed > lines.length / 2) return null;
+
+  return { ...excerpt, content: scrubbed.join('\n') };
+}
+
 /**
  * Check if content is safe to send to AI
  * Based on Build Contract Section 10.1-10.2
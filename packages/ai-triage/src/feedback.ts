@@ -0,0 +1,162 @@
+/**
+ * Feedback Analysis
+ * AI analysis for feedback and feature-request issues
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Issue,
+  Event,
+  AIInputCategory,
+  FeedbackAnalysis,
+  FeedbackAnalysisInput,
+  FeedbackTriageResponse,
+  RelatedIssueCandidate,
+} from '@britepulse/shared';
+import { CompletionError, generateValidatedCompletion } from './client.js';
+import { FEEDBACK_SYSTEM_PROMPT, buildFeedbackUserMessage, validateFeedbackAnalysis } from './prompts/feedback.js';
+import { buildFeedbackAnalysisInput, validateContentForAI, sanitizeForAI } from './evidence.js';
+import { checkFeedbackOutput } from './validation.js';
+import { checkEligibilityThresholds, type TriageEligibility } from './triage.js';
+
+const REANALYSIS_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check if a feedback issue should be analyzed
+ * The app's severity and recurrence thresholds apply as for bugs. Feedback
+ * arrives one report at a time, so an existing analysis is only refreshed
+ * once it is a day old and new reports have come in since
+ */
+export function isEligibleForFeedbackTriage(
+  issue: Issue,
+  eligibility?: TriageEligibility
+): { eligible: boolean; reason?: string } {
+  if (issue.issue_type === 'bug') {
+    return { eligible: false, reason: 'Bug issues use bug triage' };
+  }
+
+  const thresholdCheck = checkEligibilityThresholds(issue, eligibility);
+  if (!thresholdCheck.eligible) {
+    return thresholdCheck;
+  }
+
+  const existing = issue.ai_feedback_analysis;
+  if (!existing) {
+    return { eligible: true };
+  }
+
+  const analysisAge = Date.now() - new Date(existing.generated_at).getTime();
+  if (analysisAge < REANALYSIS_AGE_MS) {
+    return { eligible: false, reason: 'Recent feedback analysis exists (less than 1 day old)' };
+  }
+
+  if (issue.counts.occurrences_total <= existing.occurrences_at_analysis) {
+    return { eligible: false, reason: 'No new reports since the last feedback analysis' };
+  }
+
+  return { eligible: true };
+}
+
+/**
+ * Run feedback analysis on an issue
+ * relatedIssues are the existing issues the model may link to
+ */
+export async function runFeedbackTriage(
+  issue: Issue,
+  events: Event[],
+  appName: string,
+  options: {
+    relatedIssues?: RelatedIssueCandidate[];
+    force?: boolean;
+    eligibility?: TriageEligibility;
+    allowedInputs?: AIInputCategory[];
+  } = {}
+): Promise<FeedbackTriageResponse> {
+  const { relatedIssues, force = false, eligibility, allowedInputs } = options;
+
+  if (!force) {
+    const eligibilityCheck = isEligibleForFeedbackTriage(issue, eligibility);
+    if (!eligibilityCheck.eligible) {
+      return { success: false, skipped_reason: eligibilityCheck.reason };
+    }
+  }
+
+  try {
+    const input = buildFeedbackAnalysisInput(issue, events, appName, { relatedIssues, allowedInputs });
+    if (input.sanitized_feedback.length === 0) {
+      return { success: false, skipped_reason: 'No feedback text to analyze' };
+    }
+
+    const userMessage = buildFeedbackUserMessage(input);
+    const contentCheck = validateContentForAI(userMessage);
+    if (!contentCheck.safe) {
+      console.warn('[AI Triage] Feedback content validation warnings:', contentCheck.issues);
+      return await performFeedbackTriage(issue, input, sanitizeForAI(userMessage));
+    }
+
+    return await performFeedbackTriage(issue, input, userMessage);
+  } catch (error) {
+    console.error('[AI Triage] Feedback analysis error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof CompletionError && { usage: error.usage }),
+    };
+  }
+}
+
+/**
+ * Perform the feedback analysis API call
+ */
+async function performFeedbackTriage(
+  issue: Issue,
+  input: FeedbackAnalysisInput,
+  userMessage: string
+): Promise<FeedbackTriageResponse> {
+  const { data, usage, attempts, repairs } = await generateValidatedCompletion(
+    FEEDBACK_SYSTEM_PROMPT,
+    userMessage,
+    (raw) => checkFeedbackOutput(raw, { candidates: input.related_issue_candidates }),
+    {
+      maxTokens: 2048,
+      temperature: 0.3,
+    }
+  );
+
+  const candidateIds = input.related_issue_candidates.map((c) => c.issue_id);
+  const warnings = [...repairs, ...validateFeedbackAnalysis(data, candidateIds).errors];
+  if (warnings.length > 0) {
+    console.warn('[AI Triage] Feedback analysis validation warnings:', warnings);
+  }
+
+  const analysis: FeedbackAnalysis = {
+    analysis_id: uuidv4(),
+    model_name: usage.model,
+    generated_at: new Date().toISOString(),
+    ...data,
+    affected_segments: input.user_segments || [],
+    occurrences_at_analysis: issue.counts.occurrences_total,
+    inputs_sent: feedbackInputCategoriesSent(input),
+    validation: {
+      status: attempts > 1 || repairs.length > 0 ? 'repaired' : 'valid',
+      attempts,
+      warnings,
+    },
+  };
+
+  return {
+    success: true,
+    analysis,
+    usage,
+  };
+}
+
+/**
+ * Evidence categories present in a feedback analysis input
+ */
+function feedbackInputCategoriesSent(input: FeedbackAnalysisInput): AIInputCategory[] {
+  const sent: AIInputCategory[] = [];
+  if (input.sanitized_feedback.length > 0) sent.push('sanitized_feedback');
+  if (input.reports_total !== undefined) sent.push('metrics_summary');
+  return sent;
+}
@@ -3,12 +3,39 @@
  * AI-powered issue triage using Claude
  */
 
-export { initClient, getClient } from './client.js';
+export { initClient, setProvider, getProvider, CompletionError, extractJson } from './client.js';
+export {
+  createAnthropicProvider,
+  createStubProvider,
+  estimateCost,
+  DEFAULT_MODEL,
+  type AIProvider,
+  type CompletionRequest,
+  type CompletionResult,
+  type ModelPricing,
+} from './provider.js';
 export {
   isEligibleForTriage,
   runTriage,
   getTriageSummary,
   type TriageEligibility,
 } from './triage.js';
-export { buildAnalysisInput, validateContentForAI, sanitizeForAI } from './evidence.js';
+export { isEligibleForFeedbackTriage, runFeedbackTriage } from './feedback.js';
+export {
+  checkTriageOutput,
+  checkFeedbackOutput,
+  type OutputCheck,
+  type TriageOutput,
+  type FeedbackOutput,
+} from './validation.js';
+export {
+  buildAnalysisInput,
+  buildFeedbackAnalysisInput,
+  summarizeUserSegments,
+  inputCategoriesSent,
+  validateContentForAI,
+  sanitizeForAI,
+  scrubCodeExcerpt,
+} from './evidence.js';
 export { TRIAGE_SYSTEM_PROMPT, buildTriageUserMessage, validateAnalysis } from './prompts/triage.js';
+export { FEEDBACK_SYSTEM_PROMPT, buildFeedbackUserMessage, validateFeedbackAnalysis } from './prompts/feedback.js';
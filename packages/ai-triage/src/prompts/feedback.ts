@@ -0,0 +1,162 @@
+/**
+ * Feedback Analysis Prompts
+ * System prompt and templates for feedback and feature-request analysis
+ */
+
+import type { FeedbackAnalysisInput } from '@britepulse/shared';
+
+/**
+ * System prompt for feedback analysis
+ */
+export const FEEDBACK_SYSTEM_PROMPT = `You are an experienced product manager helping a product owner work through user feedback and feature requests for an internal web application.
+
+Your role is to:
+1. Classify what kind of request the feedback makes
+2. Summarize the underlying user need: what users are trying to achieve, not only the solution they asked for
+3. Judge the sentiment of the reports and how urgent the need is for the people affected
+4. Decide which of the candidate existing issues are genuinely the same or related requests
+5. Describe which user segments are affected, using the role counts provided
+6. Propose a product-level next action
+
+CRITICAL RULES:
+- Base every conclusion on the feedback text and counts provided
+- Only link issues from the Candidate Related Issues list, using their exact issue IDs; return an empty list when none fit
+- Use "duplicate" only when the candidate asks for the same thing; use "underlying_bug" when a candidate error explains the feedback
+- Urgency reflects user impact (blocked work, workarounds, number of reporters), not how strongly users worded it
+- If there is a single short report, set confidence <= 0.5 and say so in limitations
+- If no role counts are provided, say in segment_summary that segments are unknown
+- Never include secrets, PII, names or email addresses in your response
+
+OUTPUT FORMAT:
+You must respond with valid JSON matching this schema:
+{
+  "request_type": "feature_request" | "improvement" | "usability" | "bug_report" | "question" | "praise" | "complaint",
+  "user_need_summary": "1-2 sentences on what users need and why",
+  "sentiment": "positive" | "neutral" | "mixed" | "negative",
+  "urgency": "low" | "medium" | "high",
+  "urgency_rationale": "string explaining urgency choice",
+  "related_issues": [
+    {
+      "issue_id": "ID from the candidate list",
+      "relation": "duplicate" | "related" | "underlying_bug",
+      "rationale": "why the issues are connected"
+    }
+  ],
+  "segment_summary": "which user roles are affected and how broadly",
+  "product_next_action": "add_to_backlog" | "quick_win" | "needs_research" | "merge_with_existing" | "route_engineering" | "reply_to_user" | "no_action",
+  "next_action_rationale": "why this action is recommended",
+  "confidence": 0.0-1.0,
+  "assumptions": ["assumption 1"],
+  "limitations": ["what couldn't be determined"]
+}`;
+
+/**
+ * Build user message for feedback analysis
+ */
+export function buildFeedbackUserMessage(input: FeedbackAnalysisInput): string {
+  const parts: string[] = [];
+
+  parts.push('## Issue Information');
+  parts.push(`**Title:** ${input.issue_title}`);
+  parts.push(`**Description:** ${input.issue_description}`);
+  parts.push(`**Type:** ${input.issue_type}`);
+  parts.push(`**App:** ${input.app_name} (${input.environment})`);
+  parts.push('');
+
+  if (input.reports_total !== undefined) {
+    parts.push('## Reports');
+    parts.push(`- Total reports: ${input.reports_total}`);
+    parts.push(`- Unique users (24h est): ${input.unique_users_24h_est}`);
+    parts.push('');
+  }
+
+  if (input.user_segments && input.user_segments.length > 0) {
+    parts.push('## Reports by User Role');
+    input.user_segments.forEach((segment) =>
+      parts.push(
+        `- ${segment.role}: ${segment.reports} reports from ${segment.users} users (${Math.round(segment.share * 100)}%)`
+      )
+    );
+    parts.push('');
+  }
+
+  if (input.affected_routes && input.affected_routes.length > 0) {
+    parts.push('## Routes');
+    input.affected_routes.forEach((route) => parts.push(`- ${route}`));
+    parts.push('');
+  }
+
+  parts.push('## User Feedback');
+  input.sanitized_feedback.forEach((feedback, i) => {
+    parts.push(`### Report ${i + 1}`);
+    parts.push(feedback);
+    parts.push('');
+  });
+
+  parts.push('## Candidate Related Issues');
+  if (input.related_issue_candidates.length === 0) {
+    parts.push('None found.');
+  }
+  input.related_issue_candidates.forEach((candidate) =>
+    parts.push(
+      `- ${candidate.issue_id} [${candidate.issue_type}, ${candidate.status}] ${candidate.title} (${candidate.match_reason})`
+    )
+  );
+  parts.push('');
+
+  parts.push('Please analyze this feedback and provide your assessment in JSON format.');
+
+  return parts.join('\n');
+}
+
+/**
+ * Validate that a feedback analysis follows the rules
+ * Also run on checked output, where anything it finds becomes a stored warning
+ */
+export function validateFeedbackAnalysis(
+  analysis: unknown,
+  candidateIds: string[] = []
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!analysis || typeof analysis !== 'object') {
+    return { valid: false, errors: ['Analysis must be an object'] };
+  }
+
+  const a = analysis as Record<string, unknown>;
+
+  const requiredFields = [
+    'request_type',
+    'user_need_summary',
+    'sentiment',
+    'urgency',
+    'urgency_rationale',
+    'segment_summary',
+    'product_next_action',
+    'next_action_rationale',
+    'confidence',
+  ];
+
+  for (const field of requiredFields) {
+    if (!(field in a)) {
+      errors.push(`Missing required field: ${field}`);
+    }
+  }
+
+  // Links must point at issues we offered, not IDs the model made up
+  if (Array.isArray(a.related_issues)) {
+    const known = new Set(candidateIds);
+    for (const link of a.related_issues as Array<Record<string, unknown>>) {
+      if (!known.has(String(link?.issue_id))) {
+        errors.push(`Related issue ${String(link?.issue_id)} was not a candidate`);
+      }
+    }
+  }
+
+  const jsonStr = JSON.stringify(a);
+  if (/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/.test(jsonStr)) {
+    errors.push('Analysis may contain forbidden content (secrets or PII)');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
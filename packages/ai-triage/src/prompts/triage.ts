@@ -26,6 +26,8 @@ CRITICAL RULES:
 - Never include secrets, PII, or sensitive data in your response
 - Be conservative with severity - only mark P0/P1 for truly critical issues
 - Prefer simpler fixes when multiple options exist
+- Take files_likely_touched from the Relevant Code section when it is provided; when it isn't, say in limitations that file paths are inferred
+- For event, feedback and stack_trace evidence, ref_id must be an event ID shown in the input headings; omit ref_id rather than invent one
 
 OUTPUT FORMAT:
 You must respond with valid JSON matching this schema:
@@ -37,7 +39,7 @@ You must respond with valid JSON matching this schema:
   "evidence_refs": [
     {
       "type": "event" | "stack_trace" | "code_excerpt" | "metric" | "feedback",
-      "ref_id": "optional reference ID",
+      "ref_id": "event ID from the input, or file path for code_excerpt (optional)",
       "excerpt": "relevant snippet",
       "relevance": "why this evidence supports the analysis"
     }
@@ -83,12 +85,14 @@ export function buildTriageUserMessage(input: AIAnalysisInput): string {
   parts.push(`**App:** ${input.app_name} (${input.environment})`);
   parts.push('');
 
-  parts.push('## Metrics');
-  parts.push(`- Total occurrences: ${input.occurrences_total}`);
-  parts.push(`- Last 24h occurrences: ${input.occurrences_24h}`);
-  parts.push(`- Unique users (24h est): ${input.unique_users_24h_est}`);
-  parts.push(`- Trend: ${input.trend_direction}`);
-  parts.push('');
+  if (input.occurrences_total !== undefined) {
+    parts.push('## Metrics');
+    parts.push(`- Total occurrences: ${input.occurrences_total}`);
+    parts.push(`- Last 24h occurrences: ${input.occurrences_24h}`);
+    parts.push(`- Unique users (24h est): ${input.unique_users_24h_est}`);
+    parts.push(`- Trend: ${input.trend_direction}`);
+    parts.push('');
+  }
 
   if (input.affected_routes && input.affected_routes.length > 0) {
     parts.push('## Affected Routes');
@@ -105,7 +109,7 @@ export function buildTriageUserMessage(input: AIAnalysisInput): string {
   if (input.sanitized_feedback && input.sanitized_feedback.length > 0) {
     parts.push('## User Feedback');
     input.sanitized_feedback.forEach((feedback, i) => {
-      parts.push(`### Feedback ${i + 1}`);
+      parts.push(`### Feedback ${i + 1}${eventLabel(input.feedback_event_ids?.[i])}`);
       parts.push(feedback);
       parts.push('');
     });
@@ -114,7 +118,7 @@ export function buildTriageUserMessage(input: AIAnalysisInput): string {
   if (input.sanitized_stack_traces && input.sanitized_stack_traces.length > 0) {
     parts.push('## Stack Traces');
     input.sanitized_stack_traces.forEach((stack, i) => {
-      parts.push(`### Stack Trace ${i + 1}`);
+      parts.push(`### Stack Trace ${i + 1}${eventLabel(input.stack_trace_event_ids?.[i])}`);
       parts.push('```');
       parts.push(stack);
       parts.push('```');
@@ -139,8 +143,13 @@ export function buildTriageUserMessage(input: AIAnalysisInput): string {
   return parts.join('\n');
 }
 
+function eventLabel(eventId: string | undefined): string {
+  return eventId ? ` (event ${eventId})` : '';
+}
+
 /**
  * Validate that AI analysis follows the rules
+ * Run on schema-checked output; failures are kept as warnings on the analysis
  */
 export function validateAnalysis(analysis: unknown): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
@@ -0,0 +1,176 @@
+/**
+ * Model Providers
+ * The interface triage calls models through, with the Anthropic implementation
+ * and a deterministic stub for tests and local development
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { AIUsage } from '@britepulse/shared';
+
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPricing {
+  input_per_mtok: number;
+  output_per_mtok: number;
+}
+
+// List prices; other models need their pricing passed in, or budgets couldn't count their cost
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-sonnet-4-20250514': { input_per_mtok: 3, output_per_mtok: 15 },
+  'claude-opus-4-20250514': { input_per_mtok: 15, output_per_mtok: 75 },
+  'claude-3-5-haiku-20241022': { input_per_mtok: 0.8, output_per_mtok: 4 },
+};
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: AIUsage;
+}
+
+/**
+ * A model backend
+ */
+export interface AIProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Estimated cost of a call, rounded to a millionth of a dollar
+ */
+export function estimateCost(pricing: ModelPricing, inputTokens: number, outputTokens: number): number {
+  const cost = (inputTokens * pricing.input_per_mtok + outputTokens * pricing.output_per_mtok) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Claude via the Anthropic API
+ * Throws for a model without list pricing unless pricing is given
+ */
+export function createAnthropicProvider(options: {
+  apiKey: string;
+  model?: string;
+  pricing?: ModelPricing;
+}): AIProvider {
+  const { apiKey, model = DEFAULT_MODEL } = options;
+  const pricing = options.pricing ?? MODEL_PRICING[model];
+  if (!pricing) {
+    throw new Error(`No list pricing for model ${model}; pass its pricing explicitly`);
+  }
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete(request) {
+      const response = await client.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [
+          {
+            role: 'user',
+            content: request.user,
+          },
+        ],
+      });
+
+      // Extract text from response
+      const textContent = response.content.find((block) => block.type === 'text');
+      if (!textContent || textContent.type !== 'text') {
+        throw new Error('No text content in response');
+      }
+
+      const { input_tokens, output_tokens } = response.usage;
+      return {
+        text: textContent.text,
+        usage: {
+          provider: 'anthropic',
+          model,
+          input_tokens,
+          output_tokens,
+          cost_usd: estimateCost(pricing, input_tokens, output_tokens),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Deterministic provider that never leaves the process
+ * respond builds the JSON reply; by default a fixed low-confidence analysis
+ * for whichever prompt (bug or feedback) it was given. Tokens are estimated at
+ * four characters each so budgets can be exercised.
+ */
+export function createStubProvider(
+  respond: (request: CompletionRequest) => unknown = defaultStubResponse
+): AIProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    async complete(request) {
+      const text = JSON.stringify(respond(request));
+      return {
+        text,
+        usage: {
+          provider: 'stub',
+          model: 'stub',
+          input_tokens: Math.ceil((request.system.length + request.user.length) / 4),
+          output_tokens: Math.ceil(text.length / 4),
+          cost_usd: 0,
+        },
+      };
+    },
+  };
+}
+
+function defaultStubResponse(request: CompletionRequest): Record<string, unknown> {
+  const common = {
+    confidence: 0.3,
+    assumptions: ['Generated by the stub provider'],
+    limitations: ['No model was called'],
+  };
+
+  if (request.system.includes('"user_need_summary"')) {
+    return {
+      ...common,
+      request_type: 'feature_request',
+      user_need_summary: 'Stub summary of the user need',
+      sentiment: 'neutral',
+      urgency: 'low',
+      urgency_rationale: 'Stub analysis',
+      related_issues: [],
+      segment_summary: 'Segments not assessed by the stub provider',
+      product_next_action: 'needs_research',
+      next_action_rationale: 'Stub analysis',
+    };
+  }
+
+  return {
+    ...common,
+    classification: 'bug',
+    severity: 'P3',
+    severity_rationale: 'Stub analysis',
+    impact_summary: 'Stub impact summary',
+    evidence_refs: [{ type: 'event', relevance: 'Stub evidence' }],
+    root_cause_hypothesis: 'Not determined by the stub provider',
+    fix_plan: [],
+    test_plan: [],
+    rollout_plan: 'N/A',
+    rollback_plan: 'N/A',
+    next_action: 'request_info',
+    next_action_rationale: 'Stub analysis',
+    additional_info_needed: ['A real model analysis'],
+  };
+}
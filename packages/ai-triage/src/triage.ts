@@ -12,10 +12,12 @@ import type {
   TriageResponse,
   Severity,
   CodeExcerpt,
+  AIInputCategory,
 } from '@britepulse/shared';
-import { generateStructuredCompletion } from './client.js';
+import { CompletionError, generateValidatedCompletion } from './client.js';
 import { TRIAGE_SYSTEM_PROMPT, buildTriageUserMessage, validateAnalysis } from './prompts/triage.js';
-import { buildAnalysisInput, validateContentForAI, sanitizeForAI } from './evidence.js';
+import { buildAnalysisInput, inputCategoriesSent, validateContentForAI, sanitizeForAI } from './evidence.js';
+import { checkTriageOutput } from './validation.js';
 
 /**
  * Triage eligibility configuration
@@ -31,9 +33,10 @@ const DEFAULT_ELIGIBILITY: TriageEligibility = {
 };
 
 /**
- * Check if an issue is eligible for AI triage
+ * Check an issue against the app's severity and recurrence thresholds
+ * Shared by bug and feedback triage
  */
-export function isEligibleForTriage(
+export function checkEligibilityThresholds(
   issue: Issue,
   eligibility: TriageEligibility = DEFAULT_ELIGIBILITY
 ): { eligible: boolean; reason?: string } {
@@ -57,6 +60,21 @@ export function isEligibleForTriage(
     };
   }
 
+  return { eligible: true };
+}
+
+/**
+ * Check if an issue is eligible for AI triage
+ */
+export function isEligibleForTriage(
+  issue: Issue,
+  eligibility: TriageEligibility = DEFAULT_ELIGIBILITY
+): { eligible: boolean; reason?: string } {
+  const thresholdCheck = checkEligibilityThresholds(issue, eligibility);
+  if (!thresholdCheck.eligible) {
+    return thresholdCheck;
+  }
+
   // Check if already has recent analysis
   if (issue.ai_analysis) {
     const analysisAge = Date.now() - new Date(issue.ai_analysis.generated_at).getTime();
@@ -74,6 +92,7 @@ export function isEligibleForTriage(
 
 /**
  * Run AI triage on an issue
+ * allowedInputs limits which evidence categories reach the model (the app's AI policy)
  */
 export async function runTriage(
   issue: Issue,
@@ -84,9 +103,10 @@ export async function runTriage(
     previousOccurrences24h?: number;
     force?: boolean;
     eligibility?: TriageEligibility;
+    allowedInputs?: AIInputCategory[];
   } = {}
 ): Promise<TriageResponse> {
-  const { codeExcerpts = [], previousOccurrences24h, force = false, eligibility } = options;
+  const { codeExcerpts = [], previousOccurrences24h, force = false, eligibility, allowedInputs } = options;
 
   // Check eligibility unless forced
   if (!force) {
@@ -104,6 +124,7 @@ export async function runTriage(
     const input = buildAnalysisInput(issue, events, appName, {
       codeExcerpts,
       previousOccurrences24h,
+      allowedInputs,
     });
 
     // Validate content is safe
@@ -122,6 +143,7 @@ export async function runTriage(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      ...(error instanceof CompletionError && { usage: error.usage }),
     };
   }
 }
@@ -130,52 +152,44 @@ export async function runTriage(
  * Perform the actual triage API call
  */
 async function performTriage(
-  _input: AIAnalysisInput,
+  input: AIAnalysisInput,
   userMessage: string
 ): Promise<TriageResponse> {
-  // Call Claude API
-  const rawAnalysis = await generateStructuredCompletion<Record<string, unknown>>(
+  const eventIds = [...(input.feedback_event_ids || []), ...(input.stack_trace_event_ids || [])];
+
+  // Call Claude API; responses that fail the schema are retried once, then rejected
+  const { data, usage, attempts, repairs } = await generateValidatedCompletion(
     TRIAGE_SYSTEM_PROMPT,
     userMessage,
+    (raw) => checkTriageOutput(raw, { eventIds }),
     {
       maxTokens: 4096,
       temperature: 0.3,
     }
   );
 
-  // Validate the analysis
-  const validation = validateAnalysis(rawAnalysis);
-  if (!validation.valid) {
-    console.warn('[AI Triage] Analysis validation errors:', validation.errors);
-    // Still return the analysis but note the issues
+  const warnings = [...repairs, ...validateAnalysis(data).errors];
+  if (warnings.length > 0) {
+    console.warn('[AI Triage] Analysis validation warnings:', warnings);
   }
 
-  // Convert to AIAnalysis format
   const analysis: AIAnalysis = {
     analysis_id: uuidv4(),
-    model_name: 'claude-sonnet-4-20250514',
+    model_name: usage.model,
     generated_at: new Date().toISOString(),
-    classification: rawAnalysis.classification as AIAnalysis['classification'],
-    severity: rawAnalysis.severity as Severity,
-    severity_rationale: rawAnalysis.severity_rationale as string,
-    impact_summary: rawAnalysis.impact_summary as string,
-    evidence_refs: (rawAnalysis.evidence_refs as AIAnalysis['evidence_refs']) || [],
-    root_cause_hypothesis: rawAnalysis.root_cause_hypothesis as string,
-    fix_plan: (rawAnalysis.fix_plan as AIAnalysis['fix_plan']) || [],
-    test_plan: (rawAnalysis.test_plan as AIAnalysis['test_plan']) || [],
-    rollout_plan: rawAnalysis.rollout_plan as string,
-    rollback_plan: rawAnalysis.rollback_plan as string,
-    confidence: rawAnalysis.confidence as number,
-    assumptions: (rawAnalysis.assumptions as string[]) || [],
-    limitations: (rawAnalysis.limitations as string[]) || [],
-    next_action: rawAnalysis.next_action as AIAnalysis['next_action'],
-    next_action_rationale: rawAnalysis.next_action_rationale as string,
-    additional_info_needed: rawAnalysis.additional_info_needed as string[] | undefined,
+    ...data,
+    inputs_sent: inputCategoriesSent(input),
+    validation: {
+      status: attempts > 1 || repairs.length > 0 ? 'repaired' : 'valid',
+      attempts,
+      warnings,
+    },
   };
 
   return {
     success: true,
     analysis,
+    usage,
   };
 }
 
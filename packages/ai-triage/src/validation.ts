@@ -0,0 +1,345 @@
+/**
+ * Output Validation
+ * Checks model responses against the shared analysis schemas, repairing the
+ * near-misses models commonly produce before rejecting a response
+ */
+
+import type { z } from 'zod';
+import { schemas, type RelatedIssueCandidate, type RelatedIssueLink } from '@britepulse/shared';
+
+export type TriageOutput = z.infer<typeof schemas.TriageOutputSchema>;
+
+export type FeedbackOutput = Omit<z.infer<typeof schemas.FeedbackOutputSchema>, 'related_issues'> & {
+  related_issues: RelatedIssueLink[];
+};
+
+/**
+ * Result of checking one response
+ * errors go back to the model on retry; repairs are kept as warnings
+ */
+export type OutputCheck<T> = { ok: true; data: T; repairs: string[] } | { ok: false; errors: string[] };
+
+type RawObject = Record<string, unknown>;
+
+// Evidence types whose ref_id names an event
+const EVENT_REF_TYPES = new Set(['event', 'feedback', 'stack_trace']);
+
+const SEVERITY_ALIASES: Record<string, string> = {
+  critical: 'P0',
+  high: 'P1',
+  medium: 'P2',
+  low: 'P3',
+};
+
+const CLASSIFICATION_ALIASES: Record<string, string> = {
+  bug_report: 'bug',
+  defect: 'bug',
+  error: 'bug',
+  feature_request: 'feature',
+  enhancement: 'feature',
+};
+
+const NEXT_ACTION_ALIASES: Record<string, string> = {
+  request_more_info: 'request_info',
+  escalate: 'route_engineering',
+  create_issue: 'create_ticket',
+  monitor: 'monitor_only',
+};
+
+const EVIDENCE_TYPE_ALIASES: Record<string, string> = {
+  stacktrace: 'stack_trace',
+  stack: 'stack_trace',
+  code: 'code_excerpt',
+  log: 'event',
+  metrics: 'metric',
+  user_feedback: 'feedback',
+};
+
+const COMPLEXITY_ALIASES: Record<string, string> = {
+  easy: 'low',
+  simple: 'low',
+  moderate: 'medium',
+  hard: 'high',
+  complex: 'high',
+};
+
+const TEST_TYPE_ALIASES: Record<string, string> = {
+  end_to_end: 'e2e',
+  regression: 'integration',
+  manual_qa: 'manual',
+};
+
+const TEST_PRIORITY_ALIASES: Record<string, string> = {
+  must: 'required',
+  high: 'required',
+  should: 'recommended',
+  medium: 'recommended',
+  nice_to_have: 'optional',
+  low: 'optional',
+};
+
+const REQUEST_TYPE_ALIASES: Record<string, string> = {
+  feature: 'feature_request',
+  enhancement: 'improvement',
+  ux: 'usability',
+  bug: 'bug_report',
+};
+
+const URGENCY_ALIASES: Record<string, string> = {
+  critical: 'high',
+  urgent: 'high',
+  normal: 'medium',
+};
+
+const PRODUCT_NEXT_ACTION_ALIASES: Record<string, string> = {
+  backlog: 'add_to_backlog',
+  research: 'needs_research',
+  merge: 'merge_with_existing',
+  duplicate: 'merge_with_existing',
+  reply: 'reply_to_user',
+  none: 'no_action',
+};
+
+const RELATION_ALIASES: Record<string, string> = {
+  duplicate_of: 'duplicate',
+  same: 'duplicate',
+  caused_by: 'underlying_bug',
+  bug: 'underlying_bug',
+};
+
+/**
+ * Check a bug triage response
+ * Evidence citing an event that wasn't in the input is an error, not a repair
+ */
+export function checkTriageOutput(raw: unknown, options: { eventIds: string[] }): OutputCheck<TriageOutput> {
+  const repairs: string[] = [];
+  const value = unwrap(raw, 'classification', repairs);
+  if (!isRecord(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  dropNulls(value);
+  repairEnum(value, 'classification', '', schemas.IssueTypeSchema.options, CLASSIFICATION_ALIASES, repairs);
+  repairEnum(value, 'severity', '', schemas.SeveritySchema.options, SEVERITY_ALIASES, repairs);
+  repairEnum(value, 'next_action', '', schemas.NextActionSchema.options, NEXT_ACTION_ALIASES, repairs);
+  repairConfidence(value, 'confidence', '', repairs);
+  for (const key of ['assumptions', 'limitations', 'additional_info_needed']) {
+    repairList(value, key, '', repairs);
+  }
+
+  const evidenceShape = schemas.EvidenceRefSchema.shape;
+  forEachItem(value, 'evidence_refs', repairs, (ref, path) => {
+    repairEnum(ref, 'type', path, evidenceShape.type.options, EVIDENCE_TYPE_ALIASES, repairs);
+    if (typeof ref.ref_id === 'number') ref.ref_id = String(ref.ref_id);
+  });
+
+  if (Array.isArray(value.fix_plan) && value.fix_plan.length > 3) {
+    repairs.push(`fix_plan: kept the first 3 of ${value.fix_plan.length} options`);
+    value.fix_plan = value.fix_plan.slice(0, 3);
+  }
+  const fixShape = schemas.FixOptionSchema.shape;
+  forEachItem(value, 'fix_plan', repairs, (option, path, i) => {
+    if (option.option_number === undefined || typeof option.option_number === 'string') {
+      option.option_number = i + 1;
+    }
+    repairList(option, 'files_likely_touched', path, repairs);
+    repairEnum(option, 'complexity', path, fixShape.complexity.options, COMPLEXITY_ALIASES, repairs);
+    repairConfidence(option, 'confidence', path, repairs);
+  });
+
+  const testShape = schemas.TestPlanItemSchema.shape;
+  forEachItem(value, 'test_plan', repairs, (test, path) => {
+    repairEnum(test, 'test_type', path, testShape.test_type.options, TEST_TYPE_ALIASES, repairs);
+    repairEnum(test, 'priority', path, testShape.priority.options, TEST_PRIORITY_ALIASES, repairs);
+  });
+
+  const parsed = schemas.TriageOutputSchema.safeParse(value);
+  if (!parsed.success) {
+    return { ok: false, errors: formatIssues(parsed.error) };
+  }
+
+  const known = new Set(options.eventIds);
+  const errors = parsed.data.evidence_refs.flatMap((ref, i) =>
+    EVENT_REF_TYPES.has(ref.type) && ref.ref_id !== undefined && !known.has(ref.ref_id)
+      ? [`evidence_refs.${i}.ref_id: event ${ref.ref_id} was not in the input`]
+      : []
+  );
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, data: parsed.data, repairs };
+}
+
+/**
+ * Check a feedback analysis response
+ * Links to issues that weren't candidates are dropped, and linked issues take
+ * their titles from our data rather than the model's
+ */
+export function checkFeedbackOutput(
+  raw: unknown,
+  options: { candidates: RelatedIssueCandidate[] }
+): OutputCheck<FeedbackOutput> {
+  const repairs: string[] = [];
+  const value = unwrap(raw, 'user_need_summary', repairs);
+  if (!isRecord(value)) {
+    return { ok: false, errors: ['Response must be a JSON object'] };
+  }
+
+  dropNulls(value);
+  repairEnum(value, 'request_type', '', schemas.FeedbackRequestTypeSchema.options, REQUEST_TYPE_ALIASES, repairs);
+  repairEnum(value, 'sentiment', '', schemas.FeedbackSentimentSchema.options, {}, repairs);
+  repairEnum(value, 'urgency', '', schemas.FeedbackUrgencySchema.options, URGENCY_ALIASES, repairs);
+  repairEnum(
+    value,
+    'product_next_action',
+    '',
+    schemas.ProductNextActionSchema.options,
+    PRODUCT_NEXT_ACTION_ALIASES,
+    repairs
+  );
+  repairConfidence(value, 'confidence', '', repairs);
+  for (const key of ['assumptions', 'limitations']) {
+    repairList(value, key, '', repairs);
+  }
+
+  const candidates = new Map(options.candidates.map((c) => [c.issue_id, c]));
+  const relationOptions = schemas.RelatedIssueOutputSchema.shape.relation.options;
+  forEachItem(value, 'related_issues', repairs, (link, path) => {
+    if (typeof link.issue_id === 'number') link.issue_id = String(link.issue_id);
+    repairEnum(link, 'relation', path, relationOptions, RELATION_ALIASES, repairs);
+  });
+  if (Array.isArray(value.related_issues)) {
+    value.related_issues = value.related_issues.filter((link) => {
+      const issueId = isRecord(link) ? String(link.issue_id) : String(link);
+      if (candidates.has(issueId)) return true;
+      repairs.push(`related_issues: dropped ${issueId}, which was not a candidate`);
+      return false;
+    });
+  }
+
+  const parsed = schemas.FeedbackOutputSchema.safeParse(value);
+  if (!parsed.success) {
+    return { ok: false, errors: formatIssues(parsed.error) };
+  }
+
+  return {
+    ok: true,
+    data: {
+      ...parsed.data,
+      related_issues: parsed.data.related_issues.map((link) => ({
+        ...link,
+        title: candidates.get(link.issue_id)!.title,
+      })),
+    },
+    repairs,
+  };
+}
+
+function isRecord(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy the analysis out of a response, unwrapping {"analysis": {...}}
+ */
+function unwrap(raw: unknown, marker: string, repairs: string[]): unknown {
+  if (isRecord(raw) && !(marker in raw)) {
+    const keys = Object.keys(raw);
+    const nested = raw[keys[0]];
+    if (keys.length === 1 && isRecord(nested) && marker in nested) {
+      repairs.push(`Analysis was nested under "${keys[0]}"`);
+      return structuredClone(nested);
+    }
+  }
+  return structuredClone(raw);
+}
+
+// Nulls would reach Firestore as explicit nulls; missing required fields fail the schema instead
+function dropNulls(obj: RawObject): void {
+  for (const key of Object.keys(obj)) {
+    if (obj[key] === null) delete obj[key];
+  }
+}
+
+function joinPath(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+/**
+ * Map near-misses ("High", "stack trace", "critical") onto an allowed value
+ */
+function repairEnum(
+  obj: RawObject,
+  key: string,
+  path: string,
+  allowed: readonly string[],
+  aliases: Record<string, string>,
+  repairs: string[]
+): void {
+  const value = obj[key];
+  if (typeof value !== 'string' || allowed.includes(value)) return;
+
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const match = allowed.find((option) => option.toLowerCase() === normalized) ?? aliases[normalized];
+  if (match) {
+    obj[key] = match;
+    repairs.push(`${joinPath(path, key)}: read "${value}" as "${match}"`);
+  }
+}
+
+/**
+ * Accept "0.8", "80%" and 80 for a 0-1 confidence
+ */
+function repairConfidence(obj: RawObject, key: string, path: string, repairs: string[]): void {
+  const original = obj[key];
+  let value = original;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    value = value.trim().endsWith('%') ? parsed / 100 : parsed;
+  }
+  if (typeof value !== 'number') return;
+  if (value > 1 && value <= 100) value = value / 100;
+
+  if (value !== original) {
+    obj[key] = value;
+    repairs.push(`${joinPath(path, key)}: read ${JSON.stringify(original)} as ${value}`);
+  }
+}
+
+/**
+ * Wrap a lone string or object where a list was expected
+ */
+function repairList(obj: RawObject, key: string, path: string, repairs: string[]): void {
+  const value = obj[key];
+  if (typeof value === 'string') {
+    obj[key] = value.trim() ? [value] : [];
+  } else if (isRecord(value)) {
+    obj[key] = [value];
+  } else {
+    return;
+  }
+  repairs.push(`${joinPath(path, key)}: wrapped a single value in a list`);
+}
+
+function forEachItem(
+  obj: RawObject,
+  key: string,
+  repairs: string[],
+  repairItem: (item: RawObject, path: string, index: number) => void
+): void {
+  repairList(obj, key, '', repairs);
+  const items = obj[key];
+  if (!Array.isArray(items)) return;
+
+  items.forEach((item, i) => {
+    if (!isRecord(item)) return;
+    dropNulls(item);
+    repairItem(item, `${key}.${i}`, i);
+  });
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+}
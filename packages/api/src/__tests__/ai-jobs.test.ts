@@ -0,0 +1,286 @@
+/**
+ * AI job queue tests - Enqueueing, budgets, concurrency, retries and the stub provider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAnthropicProvider, createStubProvider, setProvider } from '@britepulse/ai-triage';
+import type { AITriageJob } from '@britepulse/shared';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getApp: vi.fn(),
+  getIssue: vi.fn(),
+  getEventsByIssue: vi.fn(),
+  createAITriageJob: vi.fn(),
+  setIssueAIJob: vi.fn(),
+  claimAITriageJob: vi.fn(),
+  updateAITriageJob: vi.fn(),
+  getDueAITriageJobs: vi.fn(),
+  getExpiredAITriageJobs: vi.fn(),
+  getAIUsage: vi.fn(),
+  recordAIUsage: vi.fn(),
+}));
+
+vi.mock('../services/outbound-webhooks.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/outbound-webhooks.js')>()),
+  emitIssueWebhookEvent: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../services/feedback-grouping.js', () => ({
+  findRelatedIssueCandidates: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    aiProvider: 'stub',
+    anthropicApiKey: '',
+    aiModel: 'stub',
+    aiDailyTokenBudget: 0,
+    aiDailyCostBudgetUsd: 0,
+    aiMaxConcurrentJobs: 2,
+    codeRepoRoot: '',
+    consoleBaseUrl: 'https://console.test',
+  },
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { emitIssueWebhookEvent } from '../services/outbound-webhooks.js';
+import { config } from '../config.js';
+import { enqueueAITriageJob, loadAITriage, processAITriageJobs } from '../services/ai-jobs.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+function job(overrides: Partial<AITriageJob> = {}): AITriageJob {
+  return {
+    job_id: 'job-1',
+    app_id: 'app-001',
+    issue_id: 'issue-1',
+    environment: 'prod',
+    mode: 'feedback',
+    trigger: 'ingest',
+    force: true,
+    status: 'queued',
+    attempts: 0,
+    next_attempt_at: NOW.toISOString(),
+    created_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+function runningJob(overrides: Partial<AITriageJob> = {}): AITriageJob {
+  const { next_attempt_at: _next, ...queued } = job(overrides);
+  return { ...queued, status: 'running', attempts: (overrides.attempts ?? 0) + 1, lease_expires_at: '2026-01-10T12:05:00.000Z' };
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  vi.clearAllMocks();
+  resetIdCounter();
+  Object.assign(config, { aiDailyTokenBudget: 0, aiDailyCostBudgetUsd: 0, aiMaxConcurrentJobs: 2 });
+  vi.mocked(firestoreService.getExpiredAITriageJobs).mockResolvedValue([]);
+  vi.mocked(firestoreService.getAIUsage).mockResolvedValue(null);
+  vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp());
+  vi.mocked(firestoreService.getIssue).mockResolvedValue(
+    createMockIssue({ issue_id: 'issue-1', issue_type: 'feature' })
+  );
+  vi.mocked(firestoreService.getEventsByIssue).mockResolvedValue([
+    createMockEvent({ user: { user_id: 'u1', role: 'finance' }, payload: { category: 'feature', description: 'Add CSV export' } as never }),
+  ]);
+  await loadAITriage();
+});
+
+afterEach(() => {
+  setProvider(createStubProvider());
+  vi.useRealTimers();
+});
+
+describe('enqueueAITriageJob', () => {
+  it('queues one job per issue and mode and shows it on the issue', async () => {
+    const issue = createMockIssue({ issue_id: 'issue-1' });
+
+    const first = await enqueueAITriageJob(issue, 'bug', { trigger: 'manual', requestedBy: 'po@test.com', now: NOW });
+
+    expect(first.created).toBe(true);
+    expect(firestoreService.createAITriageJob).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_id: 'issue-1', mode: 'bug', status: 'queued', requested_by: 'po@test.com' })
+    );
+    expect(firestoreService.setIssueAIJob).toHaveBeenCalledWith('issue-1', {
+      job_id: first.job.job_id,
+      mode: 'bug',
+      status: 'queued',
+      updated_at: NOW.toISOString(),
+    });
+
+    vi.mocked(firestoreService.createAITriageJob).mockClear();
+    const again = await enqueueAITriageJob({ ...issue, ai_job: first.job }, 'bug', { trigger: 'ingest' });
+    expect(again).toEqual({ job: first.job, created: false });
+    expect(firestoreService.createAITriageJob).not.toHaveBeenCalled();
+  });
+
+  it('backs off ingest after a failed job but lets manual runs through', async () => {
+    const failed = { job_id: 'job-1', mode: 'bug' as const, status: 'failed' as const, updated_at: NOW.toISOString() };
+    const issue = createMockIssue({ issue_id: 'issue-1', ai_job: failed });
+
+    const soon = await enqueueAITriageJob(issue, 'bug', { trigger: 'ingest', now: new Date('2026-01-10T17:59:00.000Z') });
+    expect(soon).toEqual({ job: failed, created: false });
+    // Another mode isn't held back
+    expect((await enqueueAITriageJob(issue, 'feedback', { trigger: 'ingest', now: NOW })).created).toBe(true);
+    expect((await enqueueAITriageJob(issue, 'bug', { trigger: 'manual', now: NOW })).created).toBe(true);
+
+    const later = await enqueueAITriageJob(issue, 'bug', { trigger: 'ingest', now: new Date('2026-01-10T18:00:00.000Z') });
+    expect(later.created).toBe(true);
+  });
+});
+
+describe('createAnthropicProvider', () => {
+  it('refuses models without list pricing unless pricing is given', () => {
+    expect(() => createAnthropicProvider({ apiKey: 'key', model: 'claude-unlisted' })).toThrow(
+      'No list pricing for model claude-unlisted'
+    );
+    expect(
+      createAnthropicProvider({ apiKey: 'key', model: 'claude-unlisted', pricing: { input_per_mtok: 1, output_per_mtok: 5 } })
+        .model
+    ).toBe('claude-unlisted');
+  });
+});
+
+describe('processAITriageJobs', () => {
+  it('runs a due job with the stub provider, stores the analysis and records usage', async () => {
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValueOnce([job()]);
+    vi.mocked(firestoreService.claimAITriageJob).mockResolvedValueOnce({ job: runningJob() });
+
+    const result = await processAITriageJobs({ now: NOW });
+
+    expect(result).toEqual(expect.objectContaining({ checked: 1, succeeded: 1, errors: [] }));
+    expect(firestoreService.recordAIUsage).toHaveBeenCalledWith(
+      '2026-01-10',
+      'app-001',
+      expect.objectContaining({ provider: 'stub', model: 'stub', cost_usd: 0 })
+    );
+    expect(firestoreService.setIssueAIJob).toHaveBeenLastCalledWith(
+      'issue-1',
+      expect.objectContaining({ status: 'succeeded' }),
+      {
+        ai_feedback_analysis: expect.objectContaining({
+          model_name: 'stub',
+          product_next_action: 'needs_research',
+          affected_segments: [{ role: 'finance', reports: 1, users: 1, share: 1 }],
+        }),
+      }
+    );
+    expect(emitIssueWebhookEvent).toHaveBeenCalledWith(
+      'issue.ai_analysis_ready',
+      expect.objectContaining({ issue_id: 'issue-1' }),
+      { ai_analysis: expect.objectContaining({ mode: 'feedback' }) }
+    );
+  });
+
+  it('defers jobs to the next UTC day once a budget is used up', async () => {
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValue([job()]);
+    vi.mocked(firestoreService.getApp).mockResolvedValue(
+      createMockApp({ policies: { redaction_profile: 'standard', ai_policy: { daily_token_budget: 1000 } } as never })
+    );
+    vi.mocked(firestoreService.getAIUsage).mockImplementation(async (_date, appId) =>
+      appId
+        ? { date: '2026-01-10', app_id: appId, calls: 3, input_tokens: 900, output_tokens: 200, cost_usd: 0.01, updated_at: '' }
+        : null
+    );
+
+    const result = await processAITriageJobs({ now: NOW });
+
+    expect(result.deferred).toBe(1);
+    expect(firestoreService.claimAITriageJob).not.toHaveBeenCalled();
+    expect(firestoreService.updateAITriageJob).toHaveBeenCalledWith('job-1', {
+      status: 'queued',
+      next_attempt_at: '2026-01-11T00:00:00.000Z',
+      deferred_reason: 'App daily token budget (1000) used up',
+    });
+
+    // The deployment-wide budget applies to every app
+    Object.assign(config, { aiDailyCostBudgetUsd: 5 });
+    vi.mocked(firestoreService.getAIUsage).mockResolvedValue({
+      date: '2026-01-10',
+      calls: 400,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd: 5.2,
+      updated_at: '',
+    });
+    await processAITriageJobs({ now: NOW });
+    expect(firestoreService.updateAITriageJob).toHaveBeenLastCalledWith(
+      'job-1',
+      expect.objectContaining({ deferred_reason: 'Deployment daily cost budget ($5.00) used up' })
+    );
+  });
+
+  it('stops claiming once every concurrency slot is taken', async () => {
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValueOnce([job(), job({ job_id: 'job-2' })]);
+    vi.mocked(firestoreService.claimAITriageJob).mockResolvedValueOnce({ job: null, slotsFull: true });
+
+    const result = await processAITriageJobs({ now: NOW });
+
+    expect(result.checked).toBe(1);
+    expect(firestoreService.claimAITriageJob).toHaveBeenCalledTimes(1);
+    expect(firestoreService.claimAITriageJob).toHaveBeenCalledWith('job-1', NOW, 5 * 60 * 1000, 2);
+    expect(firestoreService.setIssueAIJob).not.toHaveBeenCalled();
+  });
+
+  it('retries failed calls with backoff, then gives up', async () => {
+    setProvider(
+      createStubProvider(() => {
+        throw new Error('Model overloaded');
+      })
+    );
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValue([job()]);
+    vi.mocked(firestoreService.claimAITriageJob).mockResolvedValueOnce({ job: runningJob() });
+
+    const first = await processAITriageJobs({ now: NOW });
+    expect(first.retried).toBe(1);
+    expect(firestoreService.updateAITriageJob).toHaveBeenLastCalledWith('job-1', {
+      status: 'queued',
+      next_attempt_at: '2026-01-10T12:01:00.000Z',
+      error: 'Model overloaded',
+    });
+
+    vi.mocked(firestoreService.claimAITriageJob).mockResolvedValueOnce({ job: runningJob({ attempts: 3 }) });
+    const last = await processAITriageJobs({ now: NOW });
+    expect(last.failed).toBe(1);
+    expect(firestoreService.setIssueAIJob).toHaveBeenLastCalledWith(
+      'issue-1',
+      expect.objectContaining({ status: 'failed', error: 'Model overloaded' }),
+      {}
+    );
+  });
+
+  it('times the outcome from when a slow model call returns', async () => {
+    setProvider(
+      createStubProvider(() => {
+        vi.setSystemTime(new Date('2026-01-10T23:59:30.000Z'));
+        throw new Error('Model overloaded');
+      })
+    );
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValue([job()]);
+    vi.mocked(firestoreService.claimAITriageJob).mockResolvedValueOnce({ job: runningJob() });
+
+    await processAITriageJobs({ now: NOW });
+
+    expect(firestoreService.updateAITriageJob).toHaveBeenLastCalledWith(
+      'job-1',
+      expect.objectContaining({ status: 'queued', next_attempt_at: '2026-01-11T00:00:30.000Z' })
+    );
+  });
+
+  it('requeues running jobs whose lease expired', async () => {
+    vi.mocked(firestoreService.getExpiredAITriageJobs).mockResolvedValueOnce([runningJob()]);
+    vi.mocked(firestoreService.getDueAITriageJobs).mockResolvedValue([]);
+
+    const result = await processAITriageJobs({ now: NOW });
+
+    expect(result.requeued).toBe(1);
+    expect(firestoreService.updateAITriageJob).toHaveBeenCalledWith('job-1', {
+      status: 'queued',
+      next_attempt_at: NOW.toISOString(),
+      error: 'Run did not finish before its lease expired',
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * AI policy tests - Environment switch, eligibility thresholds and allowed model inputs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildAnalysisInput,
+  buildTriageUserMessage,
+  inputCategoriesSent,
+  isEligibleForTriage,
+} from '@britepulse/ai-triage';
+import { createMockApp, createMockEvent, createMockIssue } from './test-utils.js';
+import { isAIEnabledForEnvironment, resolveAIPolicy, triageOptionsForApp } from '../services/ai-policy.js';
+
+describe('resolveAIPolicy', () => {
+  it('fills unset fields from the defaults', () => {
+    const app = createMockApp({
+      policies: {
+        redaction_profile: 'standard',
+        ai_policy: { eligible_severity_min: 'P0' },
+      } as never,
+    });
+
+    expect(resolveAIPolicy(app)).toEqual({
+      eligible_severity_min: 'P0',
+      eligible_recurrence_min: 5,
+      model_allowed_inputs: ['sanitized_feedback', 'sanitized_stack', 'retrieved_code_excerpts', 'metrics_summary'],
+    });
+  });
+});
+
+describe('isAIEnabledForEnvironment', () => {
+  it('only disables environments that opt out', () => {
+    const app = createMockApp({
+      environments: [
+        { env_name: 'prod', enabled: true },
+        { env_name: 'stage', enabled: true, ai_enabled: false },
+      ],
+    });
+
+    expect(isAIEnabledForEnvironment(app, 'prod')).toBe(true);
+    expect(isAIEnabledForEnvironment(app, 'stage')).toBe(false);
+    expect(isAIEnabledForEnvironment(null, 'dev')).toBe(true);
+  });
+});
+
+describe('triageOptionsForApp', () => {
+  const app = createMockApp({
+    policies: {
+      redaction_profile: 'strict',
+      ai_policy: {
+        eligible_severity_min: 'P2',
+        eligible_recurrence_min: 20,
+        model_allowed_inputs: ['sanitized_feedback'],
+      },
+    } as never,
+  });
+
+  it("applies the app's eligibility thresholds", () => {
+    const { eligibility } = triageOptionsForApp(app);
+    const issue = createMockIssue({ severity: 'P2', counts: { occurrences_total: 30, occurrences_24h: 12, unique_users_24h_est: 4 } });
+
+    expect(isEligibleForTriage(issue).eligible).toBe(false); // default P1 minimum
+    expect(isEligibleForTriage(issue, eligibility)).toEqual({
+      eligible: false,
+      reason: 'Occurrences (12) below threshold (20)',
+    });
+  });
+
+  it('strips disallowed input categories from the model input', () => {
+    const { allowedInputs } = triageOptionsForApp(app);
+    const issue = createMockIssue();
+    const events = [
+      createMockEvent({ event_type: 'feedback', payload: { description: 'Checkout button does nothing' } as never }),
+      createMockEvent({ event_type: 'frontend_error', payload: { message: 'boom', stack: 'at pay (src/pay.ts:1:1)' } as never }),
+    ];
+    const codeExcerpts = [
+      { file_path: 'src/pay.ts', start_line: 1, end_line: 2, content: 'export function pay() {}', relevance: 'frame' },
+    ];
+
+    const input = buildAnalysisInput(issue, events, 'Shop', { codeExcerpts, allowedInputs });
+
+    expect(input.sanitized_feedback).toEqual(['Checkout button does nothing']);
+    expect(input.sanitized_stack_traces).toBeUndefined();
+    expect(input.retrieved_code_excerpts).toBeUndefined();
+    expect(input.occurrences_total).toBeUndefined();
+    expect(inputCategoriesSent(input)).toEqual(['sanitized_feedback']);
+
+    // Without a policy every category with evidence is sent
+    expect(inputCategoriesSent(buildAnalysisInput(issue, events, 'Shop', { codeExcerpts }))).toEqual([
+      'sanitized_feedback',
+      'sanitized_stack',
+      'retrieved_code_excerpts',
+      'metrics_summary',
+    ]);
+  });
+
+  it('cuts disallowed sections out of the issue description', () => {
+    const { allowedInputs } = triageOptionsForApp(app);
+    const issue = createMockIssue({
+      description: [
+        'Route: /checkout',
+        'Version: 1.4.0',
+        'Environment: prod',
+        '',
+        'Error: cart is undefined',
+        '',
+        'Stack Trace:',
+        'TypeError: cart is undefined',
+        '    at submitOrder (src/checkout.ts:42:7)',
+      ].join('\n'),
+    });
+
+    const message = buildTriageUserMessage(buildAnalysisInput(issue, [], 'Shop', { allowedInputs }));
+
+    expect(message).toContain('Error: cart is undefined');
+    expect(message).not.toContain('Stack Trace');
+    expect(message).not.toContain('submitOrder');
+
+    const feedbackIssue = createMockIssue({
+      description: 'Route: /checkout\n\nDescription: My card 4111 was declined\n\nReproduction Steps: Pay twice',
+    });
+    const { allowedInputs: stackOnly } = triageOptionsForApp(
+      createMockApp({ policies: { ai_policy: { model_allowed_inputs: ['sanitized_stack'] } } as never })
+    );
+    expect(buildAnalysisInput(feedbackIssue, [], 'Shop', { allowedInputs: stackOnly }).issue_description).toBe(
+      'Route: /checkout'
+    );
+    expect(buildAnalysisInput(feedbackIssue, [], 'Shop').issue_description).toBe(feedbackIssue.description);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Alert rules tests - Rule matching, cooldowns and delivery during ingestion
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AlertFiring, AlertRule, Issue } from '@britepulse/shared';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  countEventsInRange: vi.fn(),
+  recordAlertFiring: vi.fn(),
+  createNotifications: vi.fn(),
+}));
+
+vi.mock('../services/email.js', () => ({
+  sendAlertNotification: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { sendAlertNotification } from '../services/email.js';
+import { evaluateAlertRules, getActiveAlertRules } from '../services/alerts.js';
+import type { PipelineResult } from '../services/pipeline.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    rule_id: 'rule-1',
+    name: 'Test rule',
+    type: 'new_issue',
+    enabled: true,
+    cooldown_minutes: 60,
+    channels: ['in_app'],
+    ...overrides,
+  };
+}
+
+function result(issue: Issue, overrides: Partial<PipelineResult> = {}): PipelineResult {
+  return {
+    event: createMockEvent({ event_type: 'frontend_error', route_or_url: '/checkout/pay', version: '1.4.0' }),
+    issue,
+    isNewIssue: false,
+    isRegression: false,
+    redactionsApplied: 0,
+    fingerprint: issue.primary_fingerprint,
+    attachmentIds: [],
+    ...overrides,
+  };
+}
+
+// Echo the firing back as if it passed its cooldown
+function passCooldown() {
+  vi.mocked(firestoreService.recordAlertFiring).mockImplementation(async (input) => ({
+    ...input,
+    firing_id: 'firing-1',
+    fired_at: NOW.toISOString(),
+  }) as AlertFiring);
+}
+
+describe('getActiveAlertRules', () => {
+  it('skips disabled rules and rules for other environments', () => {
+    const app = createMockApp({
+      alert_rules: [
+        rule({ rule_id: 'all' }),
+        rule({ rule_id: 'off', enabled: false }),
+        rule({ rule_id: 'stage', environments: ['stage'] }),
+        rule({ rule_id: 'prod', environments: ['prod'] }),
+      ],
+    });
+
+    expect(getActiveAlertRules(app, 'prod').map((r) => r.rule_id)).toEqual(['all', 'prod']);
+  });
+});
+
+describe('evaluateAlertRules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(firestoreService.recordAlertFiring).mockReset();
+    resetIdCounter();
+  });
+
+  it('alerts owners about new issues at or above the severity, in-app and by email', async () => {
+    passCooldown();
+    const app = createMockApp({
+      alert_rules: [rule({ name: 'New P0', severity_min: 'P0', channels: ['in_app', 'email'] })],
+    });
+    const p0 = createMockIssue({ issue_id: 'issue-p0', severity: 'P0', title: 'Checkout down' });
+    const p2 = createMockIssue({ issue_id: 'issue-p2', severity: 'P2' });
+
+    const firings = await evaluateAlertRules(
+      app,
+      'prod',
+      [result(p0, { isNewIssue: true }), result(p2, { isNewIssue: true })],
+      NOW
+    );
+
+    expect(firings).toHaveLength(1);
+    expect(firestoreService.recordAlertFiring).toHaveBeenCalledWith(
+      expect.objectContaining({ dedupe_key: 'issue-p0', issue_id: 'issue-p0', message: 'New P0 issue: Checkout down' }),
+      60,
+      NOW
+    );
+    expect(firestoreService.createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({ recipient_email: 'owner1@test.com', type: 'alert', issue_id: 'issue-p0' }),
+      expect.objectContaining({ recipient_email: 'owner2@test.com', type: 'alert', issue_id: 'issue-p0' }),
+    ]);
+    expect(sendAlertNotification).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not deliver firings still inside their cooldown', async () => {
+    vi.mocked(firestoreService.recordAlertFiring).mockResolvedValue(null);
+    const app = createMockApp({ alert_rules: [rule({ type: 'regression', recipients: ['oncall@test.com'] })] });
+
+    const firings = await evaluateAlertRules(
+      app,
+      'prod',
+      [result(createMockIssue(), { isRegression: true })],
+      NOW
+    );
+
+    expect(firestoreService.recordAlertFiring).toHaveBeenCalledWith(
+      expect.objectContaining({ recipients: ['oncall@test.com'] }),
+      60,
+      NOW
+    );
+    expect(firings).toEqual([]);
+    expect(firestoreService.createNotifications).not.toHaveBeenCalled();
+  });
+
+  it('matches new issues by route pattern', async () => {
+    passCooldown();
+    const app = createMockApp({ alert_rules: [rule({ type: 'new_issue_route', route_pattern: '/checkout/*' })] });
+    const issue = createMockIssue();
+
+    const firings = await evaluateAlertRules(
+      app,
+      'prod',
+      [
+        result(issue, { isNewIssue: true }),
+        result(createMockIssue(), { isNewIssue: true, event: createMockEvent({ route_or_url: '/settings' }) }),
+      ],
+      NOW
+    );
+
+    expect(firings.map((f) => f.issue_id)).toEqual([issue.issue_id]);
+  });
+
+  it('counts recent events only for issues that could be over the threshold', async () => {
+    passCooldown();
+    const app = createMockApp({
+      alert_rules: [rule({ type: 'occurrence_threshold', threshold: 20, window_minutes: 10 })],
+    });
+    const quiet = createMockIssue({ primary_fingerprint: 'fp-quiet' });
+    const busy = createMockIssue({
+      primary_fingerprint: 'fp-busy',
+      counts: { occurrences_total: 90, occurrences_24h: 90, unique_users_24h_est: 12 },
+    });
+    vi.mocked(firestoreService.countEventsInRange).mockResolvedValueOnce(25);
+
+    const firings = await evaluateAlertRules(app, 'prod', [result(quiet), result(busy), result(busy)], NOW);
+
+    expect(firestoreService.countEventsInRange).toHaveBeenCalledTimes(1);
+    expect(firestoreService.countEventsInRange).toHaveBeenCalledWith(
+      app.app_id,
+      'prod',
+      { since: '2026-01-10T11:50:00.000Z' },
+      { fingerprint: 'fp-busy' }
+    );
+    expect(firings).toEqual([expect.objectContaining({ issue_id: busy.issue_id })]);
+  });
+
+  it('fires on an error rate spike against the baseline', async () => {
+    passCooldown();
+    const app = createMockApp({
+      alert_rules: [rule({ type: 'error_rate_spike', window_minutes: 60, baseline_hours: 24, spike_multiplier: 3 })],
+    });
+    const batch = [result(createMockIssue())];
+
+    // 48 errors over the previous 24h is 2 per hour; 30 in the last hour is 15x
+    vi.mocked(firestoreService.countEventsInRange).mockResolvedValueOnce(30).mockResolvedValueOnce(48);
+    const firings = await evaluateAlertRules(app, 'prod', batch, NOW);
+
+    expect(firestoreService.countEventsInRange).toHaveBeenLastCalledWith(
+      app.app_id,
+      'prod',
+      { since: '2026-01-09T11:00:00.000Z', until: '2026-01-10T11:00:00.000Z' },
+      { eventTypes: ['frontend_error', 'backend_error'] }
+    );
+    expect(firings).toEqual([expect.objectContaining({ dedupe_key: 'prod', message: expect.stringContaining('15.0x') })]);
+
+    // Under the minimum error count, the baseline isn't even read
+    vi.mocked(firestoreService.countEventsInRange).mockClear().mockResolvedValueOnce(4);
+    expect(await evaluateAlertRules(app, 'prod', batch, NOW)).toEqual([]);
+    expect(firestoreService.countEventsInRange).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps evaluating other rules when one fails', async () => {
+    passCooldown();
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const app = createMockApp({
+      alert_rules: [
+        rule({ rule_id: 'spike', type: 'error_rate_spike' }),
+        rule({ rule_id: 'regression', type: 'regression' }),
+      ],
+    });
+    vi.mocked(firestoreService.countEventsInRange).mockRejectedValueOnce(new Error('missing index'));
+
+    const firings = await evaluateAlertRules(app, 'prod', [result(createMockIssue(), { isRegression: true })], NOW);
+
+    expect(firings.map((f) => f.rule_id)).toEqual(['regression']);
+    consoleSpy.mockRestore();
+  });
+});
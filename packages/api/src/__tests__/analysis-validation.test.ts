@@ -0,0 +1,225 @@
+/**
+ * Analysis validation tests - Schema repairs, evidence checks and the corrective retry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  checkFeedbackOutput,
+  checkTriageOutput,
+  createStubProvider,
+  extractJson,
+  runTriage,
+  setProvider,
+  type CompletionRequest,
+} from '@britepulse/ai-triage';
+import { createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+function triageOutput(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    classification: 'bug',
+    severity: 'P2',
+    severity_rationale: 'Checkout fails for some users',
+    impact_summary: 'Some users cannot pay',
+    evidence_refs: [{ type: 'stack_trace', ref_id: 'evt-err-1', relevance: 'Throws in submitOrder' }],
+    root_cause_hypothesis: 'cart is undefined when the session expires',
+    fix_plan: [
+      {
+        option_number: 1,
+        description: 'Guard against a missing cart',
+        files_likely_touched: ['src/checkout.ts'],
+        complexity: 'low',
+        confidence: 0.7,
+      },
+    ],
+    test_plan: [{ test_type: 'unit', description: 'Expired session checkout', priority: 'required' }],
+    rollout_plan: 'Normal release',
+    rollback_plan: 'Revert the commit',
+    confidence: 0.7,
+    assumptions: [],
+    limitations: [],
+    next_action: 'create_ticket',
+    next_action_rationale: 'Cause is clear',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  resetIdCounter();
+});
+
+afterEach(() => {
+  setProvider(createStubProvider());
+});
+
+describe('checkTriageOutput', () => {
+  it('repairs common model mistakes and records each repair', () => {
+    const result = checkTriageOutput(
+      {
+        analysis: triageOutput({
+          severity: 'high',
+          classification: 'Bug',
+          confidence: '80%',
+          assumptions: 'Sessions expire after 30 minutes',
+          additional_info_needed: null,
+          fix_plan: [{ description: 'Guard against a missing cart', complexity: 'Simple', confidence: 60 }],
+          test_plan: { test_type: 'end-to-end', description: 'Checkout flow', priority: 'High' },
+        }),
+      },
+      { eventIds: ['evt-err-1'] }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        severity: 'P1',
+        classification: 'bug',
+        confidence: 0.8,
+        assumptions: ['Sessions expire after 30 minutes'],
+        fix_plan: [
+          {
+            option_number: 1,
+            description: 'Guard against a missing cart',
+            files_likely_touched: [],
+            complexity: 'low',
+            confidence: 0.6,
+          },
+        ],
+        test_plan: [{ test_type: 'e2e', description: 'Checkout flow', priority: 'required' }],
+      })
+    );
+    expect(result.data).not.toHaveProperty('additional_info_needed');
+    expect(result.repairs).toContain('Analysis was nested under "analysis"');
+    expect(result.repairs).toContain('severity: read "high" as "P1"');
+    expect(result.repairs).toContain('fix_plan.0.complexity: read "Simple" as "low"');
+  });
+
+  it('rejects missing fields and evidence citing events that were not sent', () => {
+    const missing = checkTriageOutput(triageOutput({ impact_summary: undefined, severity: 'P7' }), {
+      eventIds: ['evt-err-1'],
+    });
+    expect(missing.ok).toBe(false);
+    if (missing.ok) return;
+    expect(missing.errors).toEqual([
+      expect.stringMatching(/^severity: Invalid enum value/),
+      'impact_summary: Required',
+    ]);
+
+    const invented = checkTriageOutput(triageOutput(), { eventIds: ['evt-other'] });
+    expect(invented).toEqual({
+      ok: false,
+      errors: ['evidence_refs.0.ref_id: event evt-err-1 was not in the input'],
+    });
+  });
+});
+
+describe('checkFeedbackOutput', () => {
+  it('drops links to non-candidates and titles the rest from our data', () => {
+    const result = checkFeedbackOutput(
+      {
+        request_type: 'Feature',
+        user_need_summary: 'Finance needs reports in spreadsheets',
+        sentiment: 'neutral',
+        urgency: 'urgent',
+        urgency_rationale: 'Manual copying every week',
+        related_issues: [
+          { issue_id: 'issue-2', title: 'Made-up title', relation: 'duplicate_of', rationale: 'Same request' },
+          { issue_id: 'issue-404', relation: 'related', rationale: 'Invented' },
+        ],
+        segment_summary: 'Finance users',
+        product_next_action: 'backlog',
+        next_action_rationale: 'Common request',
+        confidence: 0.6,
+      },
+      {
+        candidates: [
+          { issue_id: 'issue-2', title: 'Export reports as CSV', issue_type: 'feature', status: 'new', match_reason: 'Same route' },
+        ],
+      }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.request_type).toBe('feature_request');
+    expect(result.data.urgency).toBe('high');
+    expect(result.data.product_next_action).toBe('add_to_backlog');
+    expect(result.data.related_issues).toEqual([
+      { issue_id: 'issue-2', title: 'Export reports as CSV', relation: 'duplicate', rationale: 'Same request' },
+    ]);
+    expect(result.repairs).toContain('related_issues: dropped issue-404, which was not a candidate');
+  });
+});
+
+describe('extractJson', () => {
+  it('finds the object inside prose and tolerates trailing commas', () => {
+    expect(extractJson('Here is my analysis:\n{"severity": "P2", "fix_plan": [1, 2,],}\nHope it helps')).toEqual({
+      ok: true,
+      value: { severity: 'P2', fix_plan: [1, 2] },
+    });
+    expect(extractJson('I cannot analyze this issue.')).toEqual({
+      ok: false,
+      error: expect.stringMatching(/^Response is not valid JSON/),
+    });
+  });
+});
+
+describe('runTriage validation', () => {
+  const issue = createMockIssue({ issue_id: 'issue-1' });
+  const events = [
+    createMockEvent({
+      event_id: 'evt-err-1',
+      event_type: 'frontend_error',
+      payload: { message: 'cart is undefined', stack: 'TypeError: cart is undefined\n    at submitOrder' } as never,
+    }),
+  ];
+
+  it('sends invalid output back once with its errors and stores the corrected analysis', async () => {
+    const requests: CompletionRequest[] = [];
+    setProvider(
+      createStubProvider((request) => {
+        requests.push(request);
+        return requests.length === 1
+          ? triageOutput({ evidence_refs: [{ type: 'event', ref_id: 'evt-made-up', relevance: 'Guess' }] })
+          : triageOutput();
+      })
+    );
+
+    const result = await runTriage(issue, events, 'Shop', { force: true });
+
+    expect(result.success).toBe(true);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].user).toContain('### Stack Trace 1 (event evt-err-1)');
+    expect(requests[1].user).toContain('- evidence_refs.0.ref_id: event evt-made-up was not in the input');
+    expect(result.analysis?.evidence_refs[0].ref_id).toBe('evt-err-1');
+    expect(result.analysis?.validation).toEqual({ status: 'repaired', attempts: 2, warnings: [] });
+    expect(result.usage?.input_tokens).toBeGreaterThan(requests[0].user.length / 4);
+  });
+
+  it('rejects the analysis when the retry is still invalid', async () => {
+    setProvider(createStubProvider(() => triageOutput({ root_cause_hypothesis: '' })));
+
+    const result = await runTriage(issue, events, 'Shop', { force: true });
+
+    expect(result.success).toBe(false);
+    expect(result.analysis).toBeUndefined();
+    expect(result.error).toBe(
+      'Response failed validation: root_cause_hypothesis: String must contain at least 1 character(s)'
+    );
+    expect(result.usage?.output_tokens).toBeGreaterThan(0);
+  });
+
+  it('keeps rule failures as warnings on a valid analysis', async () => {
+    setProvider(createStubProvider(() => triageOutput({ confidence: 0.4, next_action: 'create_ticket' })));
+
+    const result = await runTriage(issue, events, 'Shop', { force: true });
+
+    expect(result.analysis?.validation).toEqual({
+      status: 'valid',
+      attempts: 1,
+      warnings: [
+        'Low confidence analysis must specify what additional info is needed',
+        'Low confidence analysis should have next_action of request_info or route_engineering',
+      ],
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Audit export tests - CSV escaping, NDJSON serialization and failure and truncation markers
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AuditLog } from '@britepulse/shared';
+import {
+  escapeCsvValue,
+  csvHeader,
+  serializeAuditLogs,
+  exportErrorMarker,
+  exportTruncatedMarker,
+} from '../services/audit-export.js';
+
+const log: AuditLog = {
+  audit_id: 'audit-001',
+  actor_id: 'admin@brite.co',
+  actor_role: 'Admin',
+  action: 'change_status',
+  target_type: 'issue',
+  target_id: 'issue-001',
+  app_id: 'app-001',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  metadata: { previous_value: 'new', new_value: 'triaged' },
+};
+
+describe('escapeCsvValue', () => {
+  it('quotes values containing commas, quotes or newlines', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('line1\nline2')).toBe('"line1\nline2"');
+    expect(escapeCsvValue(undefined)).toBe('');
+  });
+
+  it('keeps values that look like formulas as text', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe(`"'=HYPERLINK(""http://evil"")"`);
+    expect(escapeCsvValue('+1')).toBe("'+1");
+    expect(escapeCsvValue('-2')).toBe("'-2");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('\tcmd')).toBe("'\tcmd");
+    expect(escapeCsvValue('\rcmd')).toBe(`"'\rcmd"`);
+    expect(escapeCsvValue('a=b')).toBe('a=b');
+  });
+});
+
+describe('serializeAuditLogs', () => {
+  it('writes one CSV row per log matching the header columns', () => {
+    const csv = serializeAuditLogs([log], 'csv');
+    expect(csvHeader()).toBe(
+      'timestamp,audit_id,actor_id,actor_role,action,target_type,target_id,app_id,metadata\n'
+    );
+    expect(csv).toBe(
+      '2026-01-01T00:00:00.000Z,audit-001,admin@brite.co,Admin,change_status,issue,issue-001,app-001,' +
+        '"{""previous_value"":""new"",""new_value"":""triaged""}"\n'
+    );
+  });
+
+  it('writes one JSON object per line for NDJSON', () => {
+    const ndjson = serializeAuditLogs([log, { ...log, audit_id: 'audit-002' }], 'ndjson');
+    const lines = ndjson.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]).audit_id).toBe('audit-002');
+  });
+});
+
+describe('exportErrorMarker', () => {
+  it('ends a cut-short export with a line readers can detect', () => {
+    expect(exportErrorMarker('ndjson', 'Export stopped after 200 rows')).toBe(
+      '{"export_error":"Export stopped after 200 rows"}\n'
+    );
+    expect(exportErrorMarker('csv', 'Export stopped, after 200 rows')).toBe(
+      '#EXPORT_ERROR,"Export stopped, after 200 rows"\n'
+    );
+  });
+});
+
+describe('exportTruncatedMarker', () => {
+  it('ends a capped export with the cursor to continue from', () => {
+    expect(exportTruncatedMarker('ndjson', 10000, 'audit-9')).toBe(
+      '{"export_truncated":true,"rows":10000,"next_cursor":"audit-9"}\n'
+    );
+    expect(exportTruncatedMarker('csv', 10000, 'audit-9')).toBe('#EXPORT_TRUNCATED,rows=10000,next_cursor=audit-9\n');
+  });
+});
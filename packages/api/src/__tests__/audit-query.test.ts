@@ -0,0 +1,41 @@
+/**
+ * Audit query tests - Choosing the Firestore filter and checking the rest in memory
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AuditLog } from '@britepulse/shared';
+import { planAuditLogQuery, matchesAuditLogFilters } from '../services/audit-query.js';
+
+const log: AuditLog = {
+  audit_id: 'audit-001',
+  actor_id: 'admin@brite.co',
+  actor_role: 'Admin',
+  action: 'change_status',
+  target_type: 'issue',
+  target_id: 'issue-001',
+  app_id: 'app-001',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  metadata: {},
+};
+
+describe('planAuditLogQuery', () => {
+  it('sends the most selective filter to Firestore and keeps the rest in memory', () => {
+    expect(planAuditLogQuery({ actor_role: 'Admin', target_type: 'issue', actor_id: 'admin@brite.co' })).toEqual({
+      indexed: { field: 'actor_id', value: 'admin@brite.co' },
+      inMemory: { target_type: 'issue', actor_role: 'Admin' },
+    });
+    expect(planAuditLogQuery({ actor_role: 'Admin', after: '2026-01-01T00:00:00.000Z' })).toEqual({
+      indexed: { field: 'actor_role', value: 'Admin' },
+      inMemory: {},
+    });
+    expect(planAuditLogQuery({})).toEqual({ inMemory: {} });
+  });
+});
+
+describe('matchesAuditLogFilters', () => {
+  it('requires every remaining filter to match', () => {
+    expect(matchesAuditLogFilters(log, {})).toBe(true);
+    expect(matchesAuditLogFilters(log, { target_type: 'issue', actor_role: 'Admin' })).toBe(true);
+    expect(matchesAuditLogFilters(log, { target_type: 'issue', actor_role: 'PO' })).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Code retrieval tests - Frame and route resolution against a repo checkout
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createMockApp, createMockEvent } from './test-utils.js';
+import {
+  clearRepoIndexCache,
+  indexRepository,
+  normalizeFramePath,
+  resolveFramePath,
+  retrieveCodeExcerpts,
+  routeTokens,
+} from '../services/code-retrieval.js';
+
+let root: string;
+
+function writeRepoFile(file: string, content: string) {
+  const fullPath = path.join(root, file);
+  mkdirSync(path.dirname(fullPath), { recursive: true });
+  writeFileSync(fullPath, content);
+}
+
+function numberedLines(count: number, prefix: string): string {
+  return Array.from({ length: count }, (_, i) => `${prefix} line ${i + 1}`).join('\n');
+}
+
+function errorEvent(stack: string, route = '/') {
+  return createMockEvent({
+    event_type: 'frontend_error',
+    route_or_url: route,
+    payload: { message: 'boom', stack } as never,
+  });
+}
+
+beforeAll(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'britepulse-repos-'));
+  writeRepoFile('web/src/checkout/Cart.tsx', numberedLines(60, 'cart'));
+  writeRepoFile('web/src/utils/format.ts', numberedLines(20, 'format'));
+  writeRepoFile('web/src/pages/orders/OrderHistory.tsx', numberedLines(50, 'orders'));
+  writeRepoFile('web/src/legacy/format.ts', numberedLines(5, 'legacy'));
+  writeRepoFile('web/scripts/deploy.ts', numberedLines(5, 'deploy'));
+  writeRepoFile('web/node_modules/react/index.js', 'module.exports = {};');
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  clearRepoIndexCache();
+});
+
+describe('normalizeFramePath', () => {
+  it('strips hosts and bundler prefixes and skips library frames', () => {
+    expect(normalizeFramePath('https://app.example.com/src/checkout/Cart.tsx?v=3')).toBe('src/checkout/Cart.tsx');
+    expect(normalizeFramePath('webpack://shop/./src/utils/format.ts')).toBe('src/utils/format.ts');
+    expect(normalizeFramePath('/srv/app/dist/server.js')).toBe('srv/app/dist/server.js');
+    expect(normalizeFramePath('/app/node_modules/react-dom/index.js')).toBeNull();
+    expect(normalizeFramePath('node:internal/process/task_queues')).toBeNull();
+  });
+});
+
+describe('routeTokens', () => {
+  it('drops IDs and short segments', () => {
+    expect(routeTokens('https://shop.test/orders/8812/history?tab=1')).toEqual(['orders', 'history']);
+    expect(routeTokens('/u/3f2a9c1e-77aa-4d0b-9c51-2f1e0c8a9b10')).toEqual([]);
+  });
+});
+
+describe('indexRepository', () => {
+  it('indexes source files inside the path scopes only', async () => {
+    const index = await indexRepository(
+      { repo_id: 'web', services: [], ownership_reviewers: [], path_scopes: ['src/'] },
+      root
+    );
+
+    expect(index?.files.sort()).toEqual([
+      'src/checkout/Cart.tsx',
+      'src/legacy/format.ts',
+      'src/pages/orders/OrderHistory.tsx',
+      'src/utils/format.ts',
+    ]);
+    expect(resolveFramePath(index!, 'assets/src/utils/format.ts')).toBe('src/utils/format.ts');
+    // Two files share the name and nothing else in the path tells them apart
+    expect(resolveFramePath(index!, 'format.ts')).toBeNull();
+  });
+
+  it('refuses repo IDs that would leave the checkout root', async () => {
+    expect(await indexRepository({ repo_id: '..', services: [], ownership_reviewers: [] }, root)).toBeNull();
+  });
+});
+
+describe('retrieveCodeExcerpts', () => {
+  const app = createMockApp({
+    repo_mapping: [{ repo_id: 'web', services: ['web'], ownership_reviewers: [], path_scopes: ['src'] }],
+  });
+
+  it('returns excerpts around stack frames, top frames first, then route matches', async () => {
+    const stack = [
+      'TypeError: Cannot read properties of undefined',
+      '    at formatPrice (https://shop.test/src/utils/format.ts:8:11)',
+      '    at Cart (https://shop.test/src/checkout/Cart.tsx:40:5)',
+      '    at renderWithHooks (https://shop.test/node_modules/react-dom/index.js:1:1)',
+    ].join('\n');
+
+    const excerpts = await retrieveCodeExcerpts(app, [errorEvent(stack, '/orders/77/history'), errorEvent(stack)], root);
+
+    expect(excerpts.map((e) => [e.file_path, e.start_line, e.end_line])).toEqual([
+      ['src/utils/format.ts', 1, 20],
+      ['src/checkout/Cart.tsx', 28, 52],
+      ['src/pages/orders/OrderHistory.tsx', 1, 40],
+    ]);
+    expect(excerpts[0]).toEqual(
+      expect.objectContaining({ repo_id: 'web', relevance: 'Stack frame in formatPrice at line 8' })
+    );
+    expect(excerpts[1].content.split('\n')[0]).toBe('cart line 28');
+    expect(excerpts[2].relevance).toBe('File path matches route /orders/77/history');
+  });
+
+  it('returns nothing without a checkout root or repo mapping', async () => {
+    const event = errorEvent('    at Cart (https://shop.test/src/checkout/Cart.tsx:40:5)');
+
+    expect(await retrieveCodeExcerpts(app, [event], '')).toEqual([]);
+    expect(await retrieveCodeExcerpts(createMockApp(), [event], root)).toEqual([]);
+  });
+});
@@ -98,6 +98,51 @@ describe('generateContextFile - Attachments section', () => {
   });
 });
 
+describe('generateContextFile - Breadcrumbs', () => {
+  const errorEvent = createMockEvent({
+    event_id: 'evt-err',
+    event_type: 'frontend_error',
+    timestamp: '2026-01-01T00:00:10.000Z',
+    payload: { error_type: 'TypeError', message: 'x is undefined' },
+    breadcrumbs: [
+      { timestamp: '2026-01-01T00:00:02.000Z', category: 'navigation', message: '/cart -> /checkout' },
+      { timestamp: '2026-01-01T00:00:08.500Z', category: 'click', message: 'button#pay' },
+      {
+        timestamp: '2026-01-01T00:00:09.000Z',
+        category: 'fetch',
+        level: 'error',
+        message: 'POST /api/orders -> 500 (320ms)',
+      },
+    ],
+  });
+
+  it('renders a timeline relative to the error', () => {
+    const md = generateContextFile({
+      issue: createMockIssue({ issue_type: 'bug' }),
+      events: [errorEvent],
+      app: baseApp,
+    });
+
+    expect(md).toContain('**Breadcrumbs (oldest first):**');
+    expect(md).toContain('- `-8.0s` **navigation**: /cart -> /checkout');
+    expect(md).toContain('- `-1.0s` **fetch** (error): POST /api/orders -> 500 (320ms)');
+  });
+
+  it('shows activity before feedback was submitted', () => {
+    const feedbackEvent = createMockEvent({
+      event_type: 'feedback',
+      timestamp: '2026-01-01T00:00:10.000Z',
+      payload: { category: 'bug', description: 'Pay button does nothing' },
+      breadcrumbs: [{ timestamp: '2026-01-01T00:00:05.000Z', category: 'click', message: 'button#pay' }],
+    });
+
+    const md = generateContextFile({ issue: baseIssue, events: [feedbackEvent], app: baseApp });
+
+    expect(md).toContain('### Activity Before Feedback');
+    expect(md).toContain('- `-5.0s` **click**: button#pay');
+  });
+});
+
 // ============ generateContextJSON ============
 
 describe('generateContextJSON - Attachments field', () => {
@@ -0,0 +1,151 @@
+/**
+ * Duplicate detection tests - Near-duplicate issues and auto-merge
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getOpenIssuesSeenSince: vi.fn(),
+  getEventsById: vi.fn(),
+  mergeIssues: vi.fn(),
+  createAuditLog: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { findSimilarIssues, runDuplicateDetection } from '../services/duplicates.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+const STACK_BEFORE = [
+  'TypeError: Cannot read properties of undefined (reading total)',
+  '    at renderCart (src/Cart.tsx:5:3)',
+  '    at CartPage (src/CartPage.tsx:12:7)',
+].join('\n');
+
+// Same error after a refactor renamed the calling component
+const STACK_AFTER = [
+  'TypeError: Cannot read properties of undefined (reading total)',
+  '    at renderCart (src/Cart.tsx:5:3)',
+  '    at CheckoutPage (src/CheckoutPage.tsx:30:2)',
+].join('\n');
+
+function errorIssue(id: string, stack: string, message: string, overrides: Record<string, unknown> = {}) {
+  const issue = createMockIssue({
+    issue_id: id,
+    title: `TypeError: ${message}`,
+    issue_type: 'bug',
+    primary_fingerprint: `fp-${id}`,
+    event_refs: [`evt-${id}`],
+    ...overrides,
+  });
+  const event = createMockEvent({
+    event_id: `evt-${id}`,
+    event_type: 'frontend_error',
+    route_or_url: '/cart',
+    payload: { error_type: 'TypeError', message, stack } as never,
+  });
+  return { issue, event };
+}
+
+const original = errorIssue('issue-old', STACK_BEFORE, 'Cannot read properties of undefined (reading total)', {
+  counts: { occurrences_total: 40, occurrences_24h: 5, unique_users_24h_est: 4 },
+});
+const refactored = errorIssue('issue-new', STACK_AFTER, 'Cannot read properties of undefined (reading total)');
+const unrelated = errorIssue('issue-other', 'RangeError: bad\n    at parse (src/date.ts:1:1)', 'Invalid time value');
+
+describe('findSimilarIssues', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    vi.mocked(firestoreService.getEventsById).mockImplementation(async (ids) =>
+      [original, refactored, unrelated].map((i) => i.event).filter((e) => ids.includes(e.event_id))
+    );
+  });
+
+  it('lists issues whose events look alike, most similar first', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValueOnce([
+      original.issue,
+      refactored.issue,
+      unrelated.issue,
+    ]);
+
+    const similar = await findSimilarIssues(refactored.issue, createMockApp(), NOW);
+
+    expect(similar).toHaveLength(1);
+    expect(similar[0]).toMatchObject({ issue_id: 'issue-old', similarity: 0.8, occurrences_total: 40 });
+  });
+
+  it('returns nothing for feedback issues', async () => {
+    const feedback = createMockIssue({ primary_fingerprint: null });
+
+    expect(await findSimilarIssues(feedback, createMockApp(), NOW)).toEqual([]);
+    expect(firestoreService.getOpenIssuesSeenSince).not.toHaveBeenCalled();
+  });
+});
+
+describe('runDuplicateDetection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    vi.mocked(firestoreService.getEventsById).mockImplementation(async (ids) =>
+      [original, refactored, unrelated].map((i) => i.event).filter((e) => ids.includes(e.event_id))
+    );
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValue([
+      refactored.issue,
+      original.issue,
+      unrelated.issue,
+    ]);
+  });
+
+  it('reports candidate pairs without merging by default', async () => {
+    const result = await runDuplicateDetection({ apps: [createMockApp({ app_id: 'app-001' })], now: NOW });
+
+    expect(result.candidates).toEqual([
+      expect.objectContaining({ target_issue_id: 'issue-old', source_issue_id: 'issue-new', similarity: 0.8 }),
+    ]);
+    expect(result.auto_merged).toHaveLength(0);
+    expect(firestoreService.mergeIssues).not.toHaveBeenCalled();
+  });
+
+  it('merges into the issue with more history above the app threshold and audits it', async () => {
+    const app = createMockApp({
+      app_id: 'app-001',
+      policies: {
+        redaction_profile: 'standard',
+        duplicate_detection: { auto_merge_enabled: true, auto_merge_threshold: 0.8 },
+      },
+    } as never);
+
+    const result = await runDuplicateDetection({ apps: [app], now: NOW });
+
+    expect(result.auto_merged).toHaveLength(1);
+    expect(firestoreService.mergeIssues).toHaveBeenCalledWith('issue-old', ['issue-new']);
+    expect(firestoreService.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actor_role: 'system',
+        action: 'auto_merge_issues',
+        target_id: 'issue-old',
+        metadata: expect.objectContaining({ source_issue_ids: ['issue-new'], similarity: 0.8 }),
+      })
+    );
+  });
+
+  it('keeps scanning other environments when one fails', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockRejectedValueOnce(new Error('index missing'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const app = createMockApp({
+      environments: [
+        { env_name: 'prod', enabled: true },
+        { env_name: 'stage', enabled: true },
+      ],
+    });
+
+    const result = await runDuplicateDetection({ apps: [app], now: NOW });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.checked).toBe(1);
+    expect(result.candidates).toHaveLength(1);
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Event routes tests - Batch status and per-event results
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import type { Policy } from '@britepulse/shared';
+import { createMockApp, createMockEvent } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getApp: vi.fn(),
+  recordIngestionStats: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../services/pipeline.js', () => ({ processEvent: vi.fn() }));
+vi.mock('../services/alerts.js', () => ({ evaluateAlertRules: vi.fn().mockResolvedValue(undefined) }));
+
+vi.mock('../config.js', () => ({
+  config: {
+    ingestionRateLimitWindowMs: 60000,
+    ingestionRateLimitMaxRequests: 1000,
+  },
+}));
+
+vi.mock('../middleware/index.js', () => ({
+  asyncHandler: (fn: Function) => (req: any, res: any, next: any) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  },
+  APIError: {
+    badRequest: (msg: string) => Object.assign(new Error(msg), { statusCode: 400 }),
+    unauthorized: (msg: string) => Object.assign(new Error(msg), { statusCode: 401 }),
+    notFound: (resource: string) => Object.assign(new Error(`${resource} not found`), { statusCode: 404 }),
+  },
+  apiKeyAuth: () => (req: any, _res: any, next: any) => {
+    req.auth = { type: 'api_key', appId: 'app-001', environment: 'prod' };
+    next();
+  },
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { processEvent } from '../services/pipeline.js';
+import eventsRouter from '../routes/events.js';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/events', eventsRouter);
+  app.use((err: any, _req: any, res: any, _next: any) => {
+    res.status(err.statusCode || 500).json({ error: { message: err.message } });
+  });
+  return app;
+}
+
+const frontendError = { event_type: 'frontend_error', route_or_url: '/checkout', payload: { message: 'Boom' } };
+const backendError = { event_type: 'backend_error', route_or_url: '/api/orders', payload: { message: 'Boom' } };
+
+describe('Event Routes', () => {
+  const app = createApp();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(firestoreService.getApp).mockResolvedValue(
+      createMockApp({
+        app_id: 'app-001',
+        policies: {
+          redaction_profile: 'standard',
+          telemetry_policy: { frontend_enabled: false, backend_enabled: true, sampling_rules: [] },
+        } as unknown as Policy,
+      })
+    );
+  });
+
+  it('accepts the events it can and lists the ones the policy dropped', async () => {
+    vi.mocked(processEvent).mockResolvedValueOnce({
+      event: createMockEvent({ event_id: 'evt-1' }),
+      redactionsApplied: 0,
+    } as never);
+
+    const res = await request(app).post('/events').send({ events: [frontendError, backendError] });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data).toMatchObject({ accepted: 1, rejected: 0, dropped: 1, event_ids: ['evt-1'] });
+    expect(res.body.data.drops).toEqual([
+      { index: 0, reason: 'frontend_telemetry_disabled', message: expect.any(String) },
+    ]);
+  });
+
+  it('returns 202 with per-event drops when the policy filters out the whole batch', async () => {
+    const res = await request(app).post('/events').send({ events: [frontendError, frontendError] });
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ accepted: 0, rejected: 0, dropped: 2, event_ids: [] });
+    expect(res.body.data.drops.map((d: { index: number }) => d.index)).toEqual([0, 1]);
+    expect(res.body.data.errors).toBeUndefined();
+    expect(processEvent).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when nothing was accepted and an event failed processing', async () => {
+    vi.mocked(processEvent).mockRejectedValueOnce(new Error('Firestore unavailable'));
+
+    const res = await request(app).post('/events').send({ events: [frontendError, backendError] });
+
+    expect(res.status).toBe(400);
+    expect(res.body.data).toMatchObject({ accepted: 0, rejected: 1, dropped: 1 });
+    expect(res.body.data.errors).toEqual([
+      { index: 1, error: 'Firestore unavailable', reason: 'processing_failed' },
+    ]);
+  });
+});
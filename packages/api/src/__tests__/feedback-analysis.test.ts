@@ -0,0 +1,183 @@
+/**
+ * Feedback analysis tests - Related issue candidates, role segments and re-analysis rules
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildFeedbackAnalysisInput,
+  isEligibleForFeedbackTriage,
+  summarizeUserSegments,
+  validateFeedbackAnalysis,
+} from '@britepulse/ai-triage';
+import type { FeedbackAnalysis } from '@britepulse/shared';
+import { createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getOpenIssuesSeenSince: vi.fn(),
+  getEventsByLink: vi.fn(),
+  findIssueByFingerprint: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { findRelatedIssueCandidates } from '../services/feedback-grouping.js';
+
+function feedbackIssue(id: string, description: string, route = '/reports') {
+  return createMockIssue({
+    issue_id: id,
+    issue_type: 'feedback',
+    title: `Feedback: ${description.slice(0, 40)}`,
+    description: `Route: ${route}\nVersion: 1.0.0\nEnvironment: prod\n\nDescription: ${description}`,
+  });
+}
+
+function report(role: string, userId: string, description = 'Please add CSV export to reports') {
+  return createMockEvent({
+    user: { user_id: userId, role },
+    payload: { category: 'feature', description } as never,
+  });
+}
+
+function storedAnalysis(overrides: Partial<FeedbackAnalysis> = {}): FeedbackAnalysis {
+  return {
+    analysis_id: 'fa-1',
+    model_name: 'claude-sonnet-4-20250514',
+    generated_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+    request_type: 'feature_request',
+    user_need_summary: 'Finance needs report data in spreadsheets',
+    sentiment: 'neutral',
+    urgency: 'medium',
+    urgency_rationale: 'Users copy tables by hand',
+    related_issues: [],
+    affected_segments: [],
+    segment_summary: 'Mostly finance users',
+    product_next_action: 'add_to_backlog',
+    next_action_rationale: 'Common request with a manual workaround',
+    confidence: 0.7,
+    assumptions: [],
+    limitations: [],
+    occurrences_at_analysis: 4,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetIdCounter();
+});
+
+describe('findRelatedIssueCandidates', () => {
+  it('offers similar feedback and errors, best match first, never the issue itself', async () => {
+    const issue = feedbackIssue('issue-1', 'Please add CSV export to the monthly reports');
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValue([
+      issue,
+      feedbackIssue('issue-2', 'Export monthly reports as CSV please'),
+      feedbackIssue('issue-3', 'Dark mode would be nice'),
+      createMockIssue({
+        issue_id: 'issue-4',
+        issue_type: 'bug',
+        primary_fingerprint: 'fp-1',
+        title: 'TypeError: CSV export failed for monthly reports',
+      }),
+    ]);
+
+    const candidates = await findRelatedIssueCandidates(issue, null);
+
+    expect(candidates.map((c) => c.issue_id)).toEqual(['issue-2', 'issue-4']);
+    expect(candidates[0]).toEqual(
+      expect.objectContaining({ issue_type: 'feedback', match_reason: expect.stringContaining('same route /reports') })
+    );
+    expect(candidates[1].match_reason).toMatch(/^Error message \d+% similar$/);
+  });
+});
+
+describe('summarizeUserSegments', () => {
+  it('counts reports and distinct users per role, largest first', () => {
+    const events = [
+      report('finance', 'u1'),
+      report('finance', 'u1'),
+      report('finance', 'u2'),
+      report('admin', 'u3'),
+      createMockEvent({ user: { user_id: 'unknown', role: '' } }),
+    ];
+
+    expect(summarizeUserSegments(events)).toEqual([
+      { role: 'finance', reports: 3, users: 2, share: 0.6 },
+      { role: 'admin', reports: 1, users: 1, share: 0.2 },
+      { role: 'unknown', reports: 1, users: 0, share: 0.2 },
+    ]);
+  });
+});
+
+describe('buildFeedbackAnalysisInput', () => {
+  it('leaves out counts and segments when metrics_summary is not allowed', () => {
+    const issue = feedbackIssue('issue-1', 'Please add CSV export');
+    const events = [report('finance', 'u1'), createMockEvent({ event_type: 'frontend_error' })];
+
+    const full = buildFeedbackAnalysisInput(issue, events, 'Ledger');
+    expect(full.sanitized_feedback).toEqual(['Please add CSV export to reports']);
+    expect(full.user_segments).toEqual([{ role: 'finance', reports: 1, users: 1, share: 1 }]);
+
+    const restricted = buildFeedbackAnalysisInput(issue, events, 'Ledger', { allowedInputs: ['sanitized_feedback'] });
+    expect(restricted.reports_total).toBeUndefined();
+    expect(restricted.user_segments).toBeUndefined();
+  });
+});
+
+describe('isEligibleForFeedbackTriage', () => {
+  const anyIssue = { minSeverity: 'P3', minRecurrence: 1 } as const;
+
+  it('re-analyzes only day-old analyses with new reports, and never bug issues', () => {
+    const counts = { occurrences_total: 4, occurrences_24h: 1, unique_users_24h_est: 1 };
+
+    expect(isEligibleForFeedbackTriage(createMockIssue({ issue_type: 'feature', counts }), anyIssue)).toEqual({
+      eligible: true,
+    });
+    expect(isEligibleForFeedbackTriage(createMockIssue({ issue_type: 'bug' }), anyIssue).eligible).toBe(false);
+
+    const stale = createMockIssue({ issue_type: 'feedback', counts, ai_feedback_analysis: storedAnalysis() });
+    expect(isEligibleForFeedbackTriage(stale, anyIssue)).toEqual({
+      eligible: false,
+      reason: 'No new reports since the last feedback analysis',
+    });
+
+    const grown = { ...stale, counts: { ...counts, occurrences_total: 6 } };
+    expect(isEligibleForFeedbackTriage(grown, anyIssue)).toEqual({ eligible: true });
+
+    const fresh = {
+      ...grown,
+      ai_feedback_analysis: storedAnalysis({ generated_at: new Date().toISOString() }),
+    };
+    expect(isEligibleForFeedbackTriage(fresh, anyIssue).eligible).toBe(false);
+  });
+
+  it("applies the app's severity and recurrence thresholds", () => {
+    const counts = { occurrences_total: 8, occurrences_24h: 3, unique_users_24h_est: 3 };
+    const issue = createMockIssue({ issue_type: 'feature', severity: 'P2', counts });
+
+    expect(isEligibleForFeedbackTriage(issue, { minSeverity: 'P1', minRecurrence: 1 })).toEqual({
+      eligible: false,
+      reason: 'Severity P2 below threshold P1',
+    });
+    expect(isEligibleForFeedbackTriage(issue, { minSeverity: 'P2', minRecurrence: 5 })).toEqual({
+      eligible: false,
+      reason: 'Occurrences (3) below threshold (5)',
+    });
+    expect(isEligibleForFeedbackTriage(issue, { minSeverity: 'P2', minRecurrence: 3 })).toEqual({ eligible: true });
+    // Without app thresholds the defaults apply, as for bug triage
+    expect(isEligibleForFeedbackTriage(issue).eligible).toBe(false);
+  });
+});
+
+describe('validateFeedbackAnalysis', () => {
+  it('flags links to issues that were not offered as candidates', () => {
+    const { related_issues: _links, affected_segments: _segments, ...raw } = storedAnalysis();
+
+    expect(
+      validateFeedbackAnalysis({ ...raw, related_issues: [{ issue_id: 'issue-2', relation: 'duplicate' }] }, ['issue-2'])
+    ).toEqual({ valid: true, errors: [] });
+    expect(
+      validateFeedbackAnalysis({ ...raw, related_issues: [{ issue_id: 'issue-99', relation: 'related' }] }, ['issue-2'])
+        .errors
+    ).toEqual(['Related issue issue-99 was not a candidate']);
+  });
+});
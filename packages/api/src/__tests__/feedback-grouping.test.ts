@@ -0,0 +1,153 @@
+/**
+ * Feedback grouping tests - Matching new feedback to open issues
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getOpenIssuesSeenSince: vi.fn(),
+  getEventsByLink: vi.fn(),
+  findIssueByFingerprint: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import {
+  textSimilarity,
+  extractIssueText,
+  scoreTextMatch,
+  findFeedbackMatch,
+} from '../services/feedback-grouping.js';
+
+const FEEDBACK_AT = '2026-01-10T12:00:00.000Z';
+
+function feedbackIssue(id: string, description: string, route = '/checkout') {
+  return createMockIssue({
+    issue_id: id,
+    title: `Bug: ${description.slice(0, 40)}`,
+    description: `Route: ${route}\nVersion: 1.0.0\nEnvironment: prod\n\nDescription: ${description}`,
+  });
+}
+
+function feedbackEvent(description: string, overrides: Record<string, unknown> = {}) {
+  return createMockEvent({
+    timestamp: FEEDBACK_AT,
+    route_or_url: '/checkout',
+    session_id: 'sess-1',
+    payload: { category: 'bug', description },
+    ...overrides,
+  });
+}
+
+describe('textSimilarity', () => {
+  it('ignores case, stop words and plurals', () => {
+    expect(textSimilarity('The Payment buttons do nothing', 'payment button does nothing!')).toBe(1);
+  });
+
+  it('scores unrelated descriptions near zero', () => {
+    expect(textSimilarity('Payment button does nothing', 'Dark mode would be nice')).toBe(0);
+  });
+});
+
+describe('extractIssueText', () => {
+  it('reads the reported description and route from a feedback issue', () => {
+    const issue = createMockIssue({
+      description:
+        'Route: /cart?id=1\nVersion: 1.0.0\nEnvironment: prod\n\nDescription: Coupon rejected\n\nReproduction Steps: Apply SAVE10',
+    });
+
+    expect(extractIssueText(issue)).toEqual({ text: 'Coupon rejected', route: '/cart?id=1' });
+  });
+});
+
+describe('scoreTextMatch', () => {
+  it('adds the route signal when both were reported on the same page', () => {
+    const issue = feedbackIssue('issue-1', 'Payment button does nothing when I click it', '/checkout/123');
+    const match = scoreTextMatch('Clicking the payment button does nothing', '/checkout/456', issue);
+
+    expect(match!.signals).toEqual(['text', 'route']);
+    expect(match!.reason).toContain('same route /checkout/<id>');
+    expect(match!.score).toBeGreaterThan(0.6);
+  });
+
+  it('does not match on route alone', () => {
+    const issue = feedbackIssue('issue-1', 'Payment button does nothing');
+    expect(scoreTextMatch('Would love a dark mode', '/checkout', issue)).toBeNull();
+  });
+});
+
+describe('findFeedbackMatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValue([]);
+    vi.mocked(firestoreService.getEventsByLink).mockResolvedValue([]);
+  });
+
+  it('matches the most similar open feedback issue', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValueOnce([
+      feedbackIssue('issue-dark', 'Please add a dark mode'),
+      feedbackIssue('issue-pay', 'Payment button does nothing on checkout'),
+    ]);
+
+    const match = await findFeedbackMatch(feedbackEvent('The payment button does nothing'), createMockApp());
+
+    expect(match).toMatchObject({ issue_id: 'issue-pay', signals: ['text', 'route'] });
+  });
+
+  it('links a bug report to the error hit earlier in the same session', async () => {
+    const errorEvent = createMockEvent({
+      event_type: 'frontend_error',
+      fingerprint: 'fp-1',
+      timestamp: '2026-01-10T11:59:15.000Z',
+      session_id: 'sess-1',
+    });
+    vi.mocked(firestoreService.getEventsByLink).mockImplementation(async (_app, _env, field) =>
+      field === 'session_id' ? [errorEvent] : []
+    );
+    vi.mocked(firestoreService.findIssueByFingerprint).mockResolvedValueOnce(
+      createMockIssue({ issue_id: 'issue-error', title: 'TypeError: total is undefined', primary_fingerprint: 'fp-1' })
+    );
+
+    const match = await findFeedbackMatch(feedbackEvent('It broke'), createMockApp());
+
+    expect(match).toMatchObject({ issue_id: 'issue-error', signals: ['session'] });
+    expect(match!.reason).toBe('Same session hit "TypeError: total is undefined" 45s before the feedback');
+    expect(match!.score).toBeGreaterThan(0.8);
+  });
+
+  it('ignores session errors outside the link window', async () => {
+    vi.mocked(firestoreService.getEventsByLink).mockResolvedValue([
+      createMockEvent({ event_type: 'frontend_error', fingerprint: 'fp-1', timestamp: '2026-01-10T11:30:00.000Z' }),
+    ]);
+
+    expect(await findFeedbackMatch(feedbackEvent('It broke'), createMockApp())).toBeNull();
+    expect(firestoreService.findIssueByFingerprint).not.toHaveBeenCalled();
+  });
+
+  it('respects the app threshold and the enabled flag', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValue([
+      feedbackIssue('issue-pay', 'Payment button does nothing on checkout'),
+    ]);
+    const event = feedbackEvent('The payment button does nothing');
+
+    const strict = createMockApp({
+      policies: { redaction_profile: 'standard', feedback_grouping: { similarity_threshold: 0.99 } },
+    } as never);
+    const disabled = createMockApp({
+      policies: { redaction_profile: 'standard', feedback_grouping: { enabled: false } },
+    } as never);
+
+    expect(await findFeedbackMatch(event, strict)).toBeNull();
+    expect(await findFeedbackMatch(event, disabled)).toBeNull();
+    expect(firestoreService.getOpenIssuesSeenSince).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to a new issue when the lookup fails', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockRejectedValueOnce(new Error('index missing'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await findFeedbackMatch(feedbackEvent('It broke'), createMockApp())).toBeNull();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Ingestion policy tests - Environment gating, telemetry toggles, sampling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { schemas, type Policy } from '@britepulse/shared';
+import {
+  buildSdkConfig,
+  evaluateIngestion,
+  getRedactionProfile,
+  getSampleRate,
+  matchesRoutePattern,
+} from '../services/ingestion-policy.js';
+import { createMockApp } from './test-utils.js';
+
+function appWithTelemetry(telemetry: Partial<Policy['telemetry_policy']>) {
+  return createMockApp({
+    environments: [
+      { env_name: 'prod', enabled: true },
+      { env_name: 'dev', enabled: false },
+    ],
+    policies: {
+      redaction_profile: 'strict',
+      telemetry_policy: {
+        frontend_enabled: true,
+        backend_enabled: true,
+        sampling_rules: [],
+        ...telemetry,
+      },
+    } as Policy,
+  });
+}
+
+// ============ Environment gating ============
+
+describe('evaluateIngestion - environments', () => {
+  it('rejects events for a disabled environment', () => {
+    const decision = evaluateIngestion(appWithTelemetry({}), 'dev', { event_type: 'feedback' });
+    expect(decision).toMatchObject({ accepted: false, reason: 'environment_disabled' });
+  });
+
+  it('rejects events for an environment missing from the app config', () => {
+    const decision = evaluateIngestion(appWithTelemetry({}), 'stage', { event_type: 'frontend_error' });
+    expect(decision).toMatchObject({ accepted: false, reason: 'environment_disabled' });
+  });
+
+  it('accepts events for an enabled environment', () => {
+    const decision = evaluateIngestion(appWithTelemetry({}), 'prod', { event_type: 'frontend_error' });
+    expect(decision).toEqual({ accepted: true });
+  });
+});
+
+// ============ Telemetry policy ============
+
+describe('evaluateIngestion - telemetry policy', () => {
+  it('rejects frontend errors when frontend telemetry is disabled', () => {
+    const app = appWithTelemetry({ frontend_enabled: false });
+    expect(evaluateIngestion(app, 'prod', { event_type: 'frontend_error' })).toMatchObject({
+      accepted: false,
+      reason: 'frontend_telemetry_disabled',
+    });
+    expect(evaluateIngestion(app, 'prod', { event_type: 'backend_error' })).toEqual({ accepted: true });
+  });
+
+  it('rejects backend errors when backend telemetry is disabled', () => {
+    const app = appWithTelemetry({ backend_enabled: false });
+    expect(evaluateIngestion(app, 'prod', { event_type: 'backend_error' })).toMatchObject({
+      accepted: false,
+      reason: 'backend_telemetry_disabled',
+    });
+  });
+
+  it('never drops feedback because of telemetry toggles or sampling', () => {
+    const app = appWithTelemetry({
+      frontend_enabled: false,
+      sampling_rules: [{ sample_rate: 0 }],
+    });
+    expect(evaluateIngestion(app, 'prod', { event_type: 'feedback', route_or_url: '/checkout' })).toEqual({
+      accepted: true,
+    });
+  });
+
+  it('samples out errors on matching routes', () => {
+    const app = appWithTelemetry({
+      sampling_rules: [{ route_pattern: '/health*', sample_rate: 0.1 }],
+    });
+    const event = { event_type: 'frontend_error' as const, route_or_url: 'https://app.example.com/healthz?x=1' };
+
+    expect(evaluateIngestion(app, 'prod', event, () => 0.5)).toMatchObject({
+      accepted: false,
+      reason: 'sampled_out',
+    });
+    expect(evaluateIngestion(app, 'prod', event, () => 0.05)).toEqual({ accepted: true });
+    expect(
+      evaluateIngestion(app, 'prod', { ...event, route_or_url: '/checkout' }, () => 0.99)
+    ).toEqual({ accepted: true });
+  });
+
+  it('does not sample again when the SDK already applied sampling', () => {
+    const app = appWithTelemetry({ sampling_rules: [{ sample_rate: 0.1 }] });
+    const event = { event_type: 'frontend_error' as const, route_or_url: '/checkout', sample_rate: 0.1 };
+
+    expect(evaluateIngestion(app, 'prod', event, () => 0.99)).toEqual({ accepted: true });
+  });
+
+  it('samples at the server rate when the SDK reports a lower one', () => {
+    const app = appWithTelemetry({ sampling_rules: [{ sample_rate: 0.1 }] });
+    const event = { event_type: 'frontend_error' as const, route_or_url: '/checkout', sample_rate: 0.05 };
+
+    expect(evaluateIngestion(app, 'prod', event, () => 0.99)).toEqual(
+      expect.objectContaining({ accepted: false, reason: 'sampled_out' })
+    );
+    expect(evaluateIngestion(app, 'prod', { ...event, sample_rate: 0.0001 }, () => 0.5)).toEqual(
+      expect.objectContaining({ accepted: false, reason: 'sampled_out' })
+    );
+    expect(evaluateIngestion(app, 'prod', event, () => 0.09)).toEqual({ accepted: true });
+    expect(schemas.EventIngestionSchema.shape.sample_rate.safeParse(0).success).toBe(false);
+  });
+
+  it('samples the remainder when the SDK claims a higher rate than the server allows', () => {
+    const app = appWithTelemetry({ sampling_rules: [{ sample_rate: 0.1 }] });
+    const event = { event_type: 'frontend_error' as const, route_or_url: '/checkout', sample_rate: 0.5 };
+
+    // Kept with probability 0.1 / 0.5 = 0.2
+    expect(evaluateIngestion(app, 'prod', event, () => 0.19)).toEqual({ accepted: true });
+    expect(evaluateIngestion(app, 'prod', event, () => 0.2)).toEqual(
+      expect.objectContaining({ accepted: false, reason: 'sampled_out' })
+    );
+    expect(evaluateIngestion(app, 'prod', { ...event, sample_rate: 1 }, () => 0.5)).toEqual(
+      expect.objectContaining({ accepted: false, reason: 'sampled_out' })
+    );
+  });
+});
+
+// ============ SDK config ============
+
+describe('buildSdkConfig', () => {
+  it('exposes the environment toggle and sampling rules', () => {
+    const rules = [{ route_pattern: '/health*', sample_rate: 0.1 }];
+    const app = appWithTelemetry({ frontend_enabled: false, sampling_rules: rules });
+
+    expect(buildSdkConfig(app, 'prod')).toEqual({
+      environment: 'prod',
+      enabled: true,
+      frontend_enabled: false,
+      sampling_rules: rules,
+    });
+    expect(buildSdkConfig(app, 'dev').enabled).toBe(false);
+  });
+});
+
+// ============ Helpers ============
+
+describe('ingestion policy helpers', () => {
+  it('matches glob route patterns against paths and full URLs', () => {
+    expect(matchesRoutePattern('/api/users/123', '/api/users/*')).toBe(true);
+    expect(matchesRoutePattern('https://x.example.com/api/users/1', '/api/*')).toBe(true);
+    expect(matchesRoutePattern('/admin', '/api/*')).toBe(false);
+  });
+
+  it('uses the first matching sampling rule', () => {
+    const rules = [
+      { route_pattern: '/api/*', sample_rate: 0.25 },
+      { sample_rate: 0.5 },
+    ];
+    expect(getSampleRate(rules, '/api/orders')).toBe(0.25);
+    expect(getSampleRate(rules, '/home')).toBe(0.5);
+    expect(getSampleRate([], '/home')).toBe(1);
+  });
+
+  it('falls back to the standard redaction profile', () => {
+    expect(getRedactionProfile(appWithTelemetry({}))).toBe('strict');
+    expect(getRedactionProfile(createMockApp({ policies: undefined }))).toBe('standard');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Installation health tests - Status derivation and silent installation alerts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Policy } from '@britepulse/shared';
+import { createMockApp } from './test-utils.js';
+
+// Mock firestore service
+vi.mock('../services/firestore.js', () => ({
+  getIngestionStats: vi.fn().mockResolvedValue(null),
+  pruneIngestionStats: vi.fn().mockResolvedValue(undefined),
+  markIngestionSilentNotified: vi.fn().mockResolvedValue(undefined),
+  createNotifications: vi.fn().mockResolvedValue([]),
+  countOpenIssues: vi.fn().mockResolvedValue({ total_open: 0, p0_open: 0, p1_open: 0 }),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import {
+  computeInstallationHealth,
+  createIngestionTally,
+  tallyAccepted,
+  runSilentInstallationCheck,
+  type IngestionStats,
+} from '../services/installation-health.js';
+import { hourIndex } from '../services/rolling-counters.js';
+
+const NOW = new Date('2026-06-01T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+const NO_ISSUES = { total_open: 0, p0_open: 0, p1_open: 0 };
+
+function createStats(overrides: Partial<IngestionStats> = {}): IngestionStats {
+  return {
+    app_id: 'app-001',
+    environment: 'prod',
+    hourly: {
+      [hourIndex(NOW.getTime())]: {
+        received: 10,
+        rejected: 0,
+        redacted: 2,
+        missing_version: 1,
+        missing_trace: 3,
+      },
+      // Outside the 24h window
+      [hourIndex(NOW.getTime() - 30 * HOUR)]: {
+        received: 100,
+        rejected: 100,
+        redacted: 0,
+        missing_version: 100,
+        missing_trace: 100,
+      },
+    },
+    last_event_by_type: { frontend_error: new Date(NOW.getTime() - HOUR).toISOString() },
+    sdk_versions: { 'britepulse-js/0.1.0': NOW.toISOString() },
+    updated_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('tallyAccepted', () => {
+  it('counts missing versions, trace IDs and redactions', () => {
+    const tally = createIngestionTally();
+    tallyAccepted(tally, { event_type: 'feedback', version: 'unknown' }, 1);
+    tallyAccepted(tally, { event_type: 'feedback', version: 'abc123', trace_id: 't1' }, 0);
+
+    expect(tally).toEqual({
+      received: 2,
+      rejected: 0,
+      redacted: 1,
+      missing_version: 1,
+      missing_trace: 1,
+      event_types: ['feedback'],
+    });
+  });
+});
+
+describe('computeInstallationHealth', () => {
+  const app = createMockApp({ app_id: 'app-001' });
+
+  it('reports healthy with metrics from the last 24h only', () => {
+    const health = computeInstallationHealth(app, 'prod', createStats(), NO_ISSUES, NOW);
+
+    expect(health.status).toBe('healthy');
+    expect(health.metrics.events_24h).toBe(10);
+    expect(health.metrics.redacted_24h).toBe(2);
+    expect(health.metrics.missing_version_rate).toBe(0.1);
+    expect(health.metrics.missing_trace_rate).toBe(0.3);
+    expect(health.metrics.sdk_versions).toEqual([
+      { sdk: 'britepulse-js/0.1.0', last_seen_at: NOW.toISOString() },
+    ]);
+  });
+
+  it('reports degraded when a rate exceeds the app threshold', () => {
+    const strictApp = createMockApp({
+      policies: { health_thresholds: { max_missing_trace_rate: 0.2 } } as unknown as Policy,
+    });
+    const health = computeInstallationHealth(strictApp, 'prod', createStats(), NO_ISSUES, NOW);
+
+    expect(health.status).toBe('degraded');
+    expect(health.status_reasons[0]).toContain('Missing trace ID rate');
+  });
+
+  it('reports silent when no events arrived within the threshold', () => {
+    const stats = createStats({
+      last_event_by_type: { frontend_error: new Date(NOW.getTime() - 25 * HOUR).toISOString() },
+    });
+
+    expect(computeInstallationHealth(app, 'prod', stats, NO_ISSUES, NOW).status).toBe('silent');
+    expect(computeInstallationHealth(app, 'prod', null, NO_ISSUES, NOW).status).toBe('silent');
+  });
+});
+
+describe('runSilentInstallationCheck', () => {
+  const app = createMockApp({
+    app_id: 'app-001',
+    environments: [{ env_name: 'prod', enabled: true }],
+    owners: { po_emails: ['po@brite.co'] },
+  });
+  const silentStats = createStats({
+    last_event_by_type: { frontend_error: new Date(NOW.getTime() - 48 * HOUR).toISOString() },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('notifies owners once per silent period', async () => {
+    vi.mocked(firestoreService.getIngestionStats).mockResolvedValueOnce(silentStats);
+
+    const result = await runSilentInstallationCheck({ apps: [app], now: NOW });
+
+    expect(result.silent).toHaveLength(1);
+    expect(result.notified).toBe(1);
+    expect(firestoreService.createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({
+        recipient_email: 'po@brite.co',
+        type: 'silent_installation',
+        app_id: 'app-001',
+        environment: 'prod',
+      }),
+    ]);
+    expect(firestoreService.markIngestionSilentNotified).toHaveBeenCalledWith(
+      'app-001',
+      'prod',
+      NOW.toISOString()
+    );
+  });
+
+  it('does not notify again while already flagged', async () => {
+    vi.mocked(firestoreService.getIngestionStats).mockResolvedValueOnce({
+      ...silentStats,
+      silent_notified_at: NOW.toISOString(),
+    });
+
+    const result = await runSilentInstallationCheck({ apps: [app], now: NOW });
+
+    expect(result.silent).toHaveLength(1);
+    expect(firestoreService.createNotifications).not.toHaveBeenCalled();
+  });
+
+  it('skips environments that have never sent events', async () => {
+    const result = await runSilentInstallationCheck({ apps: [app], now: NOW });
+
+    expect(result.checked).toBe(0);
+    expect(firestoreService.createNotifications).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Issue index tests - Choosing between the Firestore and in-memory list paths
+ */
+
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { INDEXED_ISSUE_FILTERS, hasIssueListIndex } from '../services/issue-indexes.js';
+import { SORT_FIELD_PATHS } from '../services/issue-ordering.js';
+
+interface IndexDefinition {
+  collectionGroup: string;
+  fields: Array<{ fieldPath: string; order?: string }>;
+}
+
+const { indexes } = JSON.parse(
+  readFileSync(new URL('../../../../infrastructure/firestore.indexes.json', import.meta.url), 'utf8')
+) as { indexes: IndexDefinition[] };
+
+describe('INDEXED_ISSUE_FILTERS', () => {
+  it('is declared in firestore.indexes.json for every sort field', () => {
+    const declared = new Set(
+      indexes
+        .filter((index) => index.collectionGroup === 'issues')
+        .map((index) => index.fields.map((f) => `${f.fieldPath}:${f.order}`).join(','))
+    );
+
+    const missing = INDEXED_ISSUE_FILTERS.flatMap((filters) =>
+      Object.values(SORT_FIELD_PATHS)
+        .map((sortPath) => [...filters.map((f) => `${f}:ASCENDING`), `${sortPath}:DESCENDING`].join(','))
+        .filter((index) => !declared.has(index))
+    );
+    expect(missing).toEqual([]);
+  });
+});
+
+describe('hasIssueListIndex', () => {
+  it('matches declared filter sets in any order, descending only', () => {
+    expect(hasIssueListIndex(['status', 'app_id'], 'priority_score', 'desc')).toBe(true);
+    expect(hasIssueListIndex(['status', 'app_id'], 'priority_score', 'asc')).toBe(false);
+    expect(hasIssueListIndex(['status', 'severity'], 'priority_score', 'desc')).toBe(false);
+    expect(hasIssueListIndex(['app_id', 'issue_type'], 'timestamps.created_at', 'desc')).toBe(false);
+    expect(hasIssueListIndex(['routing.assigned_to'], 'timestamps.last_seen_at', 'desc')).toBe(false);
+  });
+
+  it('needs no composite index without filters', () => {
+    expect(hasIssueListIndex([], 'counts.occurrences_24h', 'asc')).toBe(true);
+  });
+});
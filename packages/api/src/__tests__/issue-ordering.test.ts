@@ -0,0 +1,73 @@
+/**
+ * Issue ordering tests - Stable list order and page cursors
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { IssueSortOptions } from '@britepulse/shared';
+import { createMockIssue } from './test-utils.js';
+import {
+  compareIssues,
+  decodeIssueCursor,
+  encodeIssueCursor,
+  issueSortValue,
+  paginateSorted,
+} from '../services/issue-ordering.js';
+
+const BY_PRIORITY: IssueSortOptions = { field: 'priority_score', direction: 'desc' };
+
+function scored(id: string, priority_score: number) {
+  return createMockIssue({ issue_id: id, priority_score });
+}
+
+describe('compareIssues', () => {
+  it('breaks ties by issue ID in the sort direction', () => {
+    const issues = [scored('b', 50), scored('c', 80), scored('a', 50)];
+
+    expect([...issues].sort((x, y) => compareIssues(x, y, BY_PRIORITY)).map((i) => i.issue_id)).toEqual([
+      'c',
+      'b',
+      'a',
+    ]);
+  });
+
+  it('computes a score for issues stored without one', () => {
+    const legacy = createMockIssue({ severity: 'P0', environment: 'prod' });
+    delete legacy.priority_score;
+
+    expect(issueSortValue(legacy, 'priority_score')).toBeGreaterThan(0);
+  });
+});
+
+describe('paginateSorted', () => {
+  it('walks every issue exactly once when scores tie across a page boundary', () => {
+    const sorted = [scored('e', 90), scored('d', 50), scored('c', 50), scored('b', 50), scored('a', 10)];
+
+    const first = paginateSorted(sorted, BY_PRIORITY, 2, {});
+    const second = paginateSorted(sorted, BY_PRIORITY, 2, { cursor: decodeIssueCursor(first.next_cursor!)! });
+    const third = paginateSorted(sorted, BY_PRIORITY, 2, { cursor: decodeIssueCursor(second.next_cursor!)! });
+
+    expect([...first.issues, ...second.issues, ...third.issues].map((i) => i.issue_id)).toEqual([
+      'e',
+      'd',
+      'c',
+      'b',
+      'a',
+    ]);
+    expect(third.next_cursor).toBeNull();
+  });
+
+  it('still supports page numbers', () => {
+    const sorted = [scored('c', 3), scored('b', 2), scored('a', 1)];
+    expect(paginateSorted(sorted, BY_PRIORITY, 2, { page: 2 }).issues.map((i) => i.issue_id)).toEqual(['a']);
+  });
+});
+
+describe('decodeIssueCursor', () => {
+  it('round-trips encoded cursors and rejects anything else', () => {
+    const cursor = { sort: 'last_seen_at', direction: 'asc', value: '2026-01-01T00:00:00.000Z', issue_id: 'x' } as const;
+
+    expect(decodeIssueCursor(encodeIssueCursor(cursor))).toEqual(cursor);
+    expect(decodeIssueCursor('not-a-cursor')).toBeNull();
+    expect(decodeIssueCursor(Buffer.from('{"sort":"toString","value":1}').toString('base64url'))).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Issue routes tests - Assignment, resolution notes, comments
+ * Issue routes tests - Assignment, resolution notes, comments, tickets
  */
 
 import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
@@ -9,6 +9,7 @@ import { createMockIssue, createMockApp, createMockComment, createMockEvent, res
 
 // Mock firestore service
 vi.mock('../services/firestore.js', () => ({
+  getIssues: vi.fn(),
   getIssue: vi.fn(),
   updateIssue: vi.fn(),
   getApp: vi.fn(),
@@ -18,6 +19,9 @@ vi.mock('../services/firestore.js', () => ({
   getComments: vi.fn().mockResolvedValue([]),
   getAllUsers: vi.fn().mockResolvedValue([]),
   createNotifications: vi.fn().mockResolvedValue([]),
+  claimIssueTicket: vi.fn().mockResolvedValue('claimed'),
+  releaseIssueTicketClaim: vi.fn().mockResolvedValue(undefined),
+  setIssueExternalTicket: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock storage service
@@ -44,6 +48,16 @@ vi.mock('../services/context-generator.js', () => ({
   generateContextJSON: vi.fn(),
 }));
 
+// Mock ticket provider lookup and status sync - TicketProviderError uses real implementation
+vi.mock('../services/ticketing.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../services/ticketing.js')>();
+  return {
+    ...original,
+    getTicketProvider: vi.fn(),
+    syncTicketStatus: vi.fn().mockResolvedValue(true),
+  };
+});
+
 // Mock config
 vi.mock('../config.js', () => ({
   config: {
@@ -76,6 +90,8 @@ vi.mock('../middleware/index.js', () => ({
     badRequest: (msg: string) => Object.assign(new Error(msg), { statusCode: 400 }),
     notFound: (resource: string) => Object.assign(new Error(`${resource} not found`), { statusCode: 404 }),
     forbidden: (msg: string) => Object.assign(new Error(msg), { statusCode: 403 }),
+    conflict: (msg: string) => Object.assign(new Error(msg), { statusCode: 409 }),
+    badGateway: (msg: string) => Object.assign(new Error(msg), { statusCode: 502 }),
   },
   oauthAuth: () => (req: any, _res: any, next: any) => {
     req.auth = { type: 'oauth', user: { ...mockAuthUser } };
@@ -102,7 +118,9 @@ import * as firestoreService from '../services/firestore.js';
 import * as emailService from '../services/email.js';
 import * as storageService from '../services/storage.js';
 import * as contextGenerator from '../services/context-generator.js';
+import * as ticketingService from '../services/ticketing.js';
 import issuesRouter from '../routes/issues.js';
+import { encodeIssueCursor } from '../services/issue-ordering.js';
 
 function createApp() {
   const app = express();
@@ -135,6 +153,48 @@ describe('Issue Routes', () => {
     };
   });
 
+  // ============ List Endpoint ============
+
+  describe('GET /issues', () => {
+    it('continues from a cursor and returns the next one', async () => {
+      const cursor = { sort: 'priority_score', direction: 'desc', value: 112.5, issue_id: 'issue-20' } as const;
+      vi.mocked(firestoreService.getIssues).mockResolvedValueOnce({
+        issues: [createMockIssue()],
+        total: 45,
+        next_cursor: 'next-page',
+      });
+
+      const res = await request(app).get(`/issues?page_size=20&cursor=${encodeIssueCursor(cursor)}`);
+
+      expect(res.status).toBe(200);
+      expect(firestoreService.getIssues).toHaveBeenCalledWith(
+        expect.any(Object),
+        { field: 'priority_score', direction: 'desc' },
+        1,
+        20,
+        null,
+        cursor
+      );
+      expect(res.body.pagination).toMatchObject({ total: 45, has_more: true, next_cursor: 'next-page' });
+    });
+
+    it('rejects a cursor from a different sort order', async () => {
+      const cursor = encodeIssueCursor({
+        sort: 'created_at',
+        direction: 'desc',
+        value: '2026-01-01T00:00:00.000Z',
+        issue_id: 'issue-1',
+      });
+
+      const res = await request(app).get(`/issues?sort_by=priority_score&cursor=${cursor}`);
+      const garbled = await request(app).get('/issues?cursor=not-a-cursor');
+
+      expect(res.status).toBe(400);
+      expect(garbled.status).toBe(400);
+      expect(firestoreService.getIssues).not.toHaveBeenCalled();
+    });
+  });
+
   // ============ Assign Endpoint ============
 
   describe('POST /issues/:issue_id/actions/assign', () => {
@@ -248,6 +308,7 @@ describe('Issue Routes', () => {
         status: 'resolved',
         reason: 'Fixed the bug',
         resolution_note: 'Fixed in v2.1',
+        resolved_by: 'admin@test.com',
       });
 
       // Verify email was sent with the note
@@ -302,6 +363,7 @@ describe('Issue Routes', () => {
       expect(firestoreService.updateIssue).toHaveBeenCalledWith('issue-1', {
         status: 'resolved',
         reason: 'Done',
+        resolved_by: 'admin@test.com',
       });
     });
 
@@ -327,6 +389,70 @@ describe('Issue Routes', () => {
         reason: 'Triaging',
       });
     });
+
+    it('pushes the new status to a linked ticket', async () => {
+      const issue = createMockIssue({
+        issue_id: 'issue-1',
+        status: 'in_progress',
+        external_ticket: {
+          provider: 'jira',
+          key: 'BP-7',
+          url: 'https://jira.test/browse/BP-7',
+          created_at: '2024-01-01T00:00:00Z',
+          created_by: 'admin@test.com',
+        },
+      });
+      const linkedApp = createMockApp();
+
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(issue);
+      vi.mocked(firestoreService.updateIssue).mockResolvedValue({ ...issue, status: 'resolved' });
+      vi.mocked(firestoreService.getApp).mockResolvedValue(linkedApp);
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/set-status')
+        .send({ status: 'resolved', reason: 'Done', resolution_note: 'Fixed in v2.1' });
+
+      expect(res.status).toBe(200);
+      await vi.waitFor(() => {
+        expect(ticketingService.syncTicketStatus).toHaveBeenCalledWith(
+          linkedApp,
+          issue,
+          'resolved',
+          'Fixed in v2.1'
+        );
+      });
+    });
+
+    it('does not push status when the issue has no linked ticket', async () => {
+      const issue = createMockIssue({ issue_id: 'issue-1', status: 'new' });
+
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(issue);
+      vi.mocked(firestoreService.updateIssue).mockResolvedValue({ ...issue, status: 'triaged' });
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/set-status')
+        .send({ status: 'triaged', reason: 'Triaging' });
+
+      expect(res.status).toBe(200);
+      expect(ticketingService.syncTicketStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /issues/:issue_id/actions/resolve', () => {
+    it('records the resolver, replacing an earlier one', async () => {
+      const issue = createMockIssue({ issue_id: 'issue-1', status: 'in_progress', resolved_by: 'old@test.com' });
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(issue);
+      vi.mocked(firestoreService.updateIssue).mockResolvedValue({ ...issue, status: 'resolved' });
+
+      const res = await request(app).post('/issues/issue-1/actions/resolve').send({ reason: 'Fixed' });
+
+      expect(res.status).toBe(200);
+      expect(firestoreService.updateIssue).toHaveBeenCalledWith('issue-1', {
+        status: 'resolved',
+        reason: 'Fixed',
+        resolved_by: 'admin@test.com',
+      });
+    });
   });
 
   // ============ Comments Endpoints ============
@@ -576,4 +702,102 @@ describe('Issue Routes', () => {
       expect(res.status).toBe(404);
     });
   });
+
+  // ============ Create Ticket Endpoint ============
+
+  describe('POST /issues/:issue_id/actions/create-ticket', () => {
+    const ticketingApp = createMockApp({
+      app_id: 'app-001',
+      ticketing: { provider: 'webhook', webhook: { url: 'http://tickets.test/hook' } },
+    });
+    const createTicket = vi.fn();
+
+    beforeEach(() => {
+      createTicket.mockResolvedValue({ key: 'TICK-1', url: 'http://tickets.test/TICK-1' });
+      vi.mocked(ticketingService.getTicketProvider).mockReturnValue({
+        type: 'webhook',
+        createTicket,
+        updateStatus: vi.fn(),
+      });
+      vi.mocked(firestoreService.getApp).mockResolvedValue(ticketingApp);
+      vi.mocked(firestoreService.getEventsByIssue).mockResolvedValue([createMockEvent()]);
+      vi.mocked(firestoreService.claimIssueTicket).mockResolvedValue('claimed');
+      vi.mocked(contextGenerator.generateContextFile).mockReturnValue('# mock markdown');
+    });
+
+    it('creates a ticket from the context file and stores it on the issue', async () => {
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(createMockIssue({ issue_id: 'issue-1' }));
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/create-ticket')
+        .send({ reason: 'Needs engineering' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.ticket_url).toBe('http://tickets.test/TICK-1');
+      expect(createTicket).toHaveBeenCalledWith(expect.objectContaining({ body: '# mock markdown' }));
+      expect(firestoreService.setIssueExternalTicket).toHaveBeenCalledWith(
+        'issue-1',
+        expect.objectContaining({ provider: 'webhook', key: 'TICK-1', created_by: 'admin@test.com' })
+      );
+    });
+
+    it('returns 409 when the issue already has a ticket', async () => {
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(
+        createMockIssue({
+          issue_id: 'issue-1',
+          external_ticket: {
+            provider: 'jira',
+            key: 'PULSE-1',
+            url: 'https://jira.test/browse/PULSE-1',
+            created_at: '2026-01-01T00:00:00.000Z',
+            created_by: 'po@test.com',
+          },
+        })
+      );
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/create-ticket')
+        .send({ reason: 'Again' });
+
+      expect(res.status).toBe(409);
+      expect(firestoreService.claimIssueTicket).not.toHaveBeenCalled();
+      expect(createTicket).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 while another request is creating the ticket', async () => {
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(createMockIssue({ issue_id: 'issue-1' }));
+      vi.mocked(firestoreService.claimIssueTicket).mockResolvedValue('pending');
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/create-ticket')
+        .send({ reason: 'Double click' });
+
+      expect(res.status).toBe(409);
+      expect(createTicket).not.toHaveBeenCalled();
+    });
+
+    it('releases the claim and returns 502 when the provider fails', async () => {
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(createMockIssue({ issue_id: 'issue-1' }));
+      createTicket.mockRejectedValue(new ticketingService.TicketProviderError('webhook', 'HTTP 500'));
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/create-ticket')
+        .send({ reason: 'Needs engineering' });
+
+      expect(res.status).toBe(502);
+      expect(firestoreService.releaseIssueTicketClaim).toHaveBeenCalledWith('issue-1');
+      expect(firestoreService.setIssueExternalTicket).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 when the app has no ticketing provider', async () => {
+      vi.mocked(firestoreService.getIssue).mockResolvedValue(createMockIssue({ issue_id: 'issue-1' }));
+      vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp({ app_id: 'app-001' }));
+
+      const res = await request(app)
+        .post('/issues/issue-1/actions/create-ticket')
+        .send({ reason: 'Needs engineering' });
+
+      expect(res.status).toBe(400);
+    });
+  });
 });
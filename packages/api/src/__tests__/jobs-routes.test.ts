@@ -0,0 +1,130 @@
+/**
+ * Job routes tests - Dispatching scheduler triggers by job name
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createMockApp } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getApp: vi.fn(),
+  getApps: vi.fn(),
+  getRetentionResumeAppId: vi.fn(),
+  setRetentionResumeAppId: vi.fn(),
+}));
+
+vi.mock('../services/retention.js', () => ({ runRetentionSweep: vi.fn() }));
+vi.mock('../services/installation-health.js', () => ({ runSilentInstallationCheck: vi.fn() }));
+vi.mock('../services/duplicates.js', () => ({ runDuplicateDetection: vi.fn() }));
+vi.mock('../services/priority-refresh.js', () => ({ runPriorityRefresh: vi.fn() }));
+vi.mock('../services/snooze.js', () => ({ runSnoozeEvaluation: vi.fn() }));
+vi.mock('../services/outbound-webhooks.js', () => ({ retryWebhookDeliveries: vi.fn() }));
+vi.mock('../services/ai-jobs.js', () => ({ processAITriageJobs: vi.fn() }));
+
+vi.mock('../middleware/index.js', () => ({
+  asyncHandler: (fn: Function) => (req: any, res: any, next: any) => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  },
+  APIError: {
+    badRequest: (msg: string) => Object.assign(new Error(msg), { statusCode: 400 }),
+    notFound: (resource: string) => Object.assign(new Error(`${resource} not found`), { statusCode: 404 }),
+  },
+  schedulerOrAdminAuth: () => (req: any, _res: any, next: any) => {
+    req.auth = { type: 'scheduler' };
+    next();
+  },
+  logAuditAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { runRetentionSweep } from '../services/retention.js';
+import { runSnoozeEvaluation } from '../services/snooze.js';
+import { logAuditAction } from '../middleware/index.js';
+import jobsRouter from '../routes/jobs.js';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/jobs', jobsRouter);
+  app.use((err: any, _req: any, res: any, _next: any) => {
+    res.status(err.statusCode || 500).json({ error: { message: err.message } });
+  });
+  return app;
+}
+
+describe('Job Routes', () => {
+  const app = createApp();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('runs the named job and returns its result', async () => {
+    const result = { checked: 3, woken: [], errors: [] };
+    vi.mocked(runSnoozeEvaluation).mockResolvedValueOnce(result);
+
+    const res = await request(app).post('/jobs/snooze/trigger').send({});
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ data: result });
+  });
+
+  it('passes the body to jobs that take options', async () => {
+    const app1 = createMockApp({ app_id: 'app-001' });
+    vi.mocked(firestoreService.getApp).mockResolvedValueOnce(app1);
+    vi.mocked(runRetentionSweep).mockResolvedValueOnce({
+      run_id: 'run-1',
+      truncated: false,
+      totals: { events: 4, attachments: 1, issues: 0, errors: 0 },
+    } as never);
+
+    const res = await request(app).post('/jobs/retention/trigger').send({ app_id: 'app-001', dry_run: true });
+
+    expect(res.status).toBe(200);
+    expect(runRetentionSweep).toHaveBeenCalledWith({ apps: [app1], dryRun: true, resumeAppId: null });
+    expect(firestoreService.getRetentionResumeAppId).not.toHaveBeenCalled();
+    expect(firestoreService.setRetentionResumeAppId).not.toHaveBeenCalled();
+    expect(logAuditAction).toHaveBeenCalledWith(
+      expect.anything(),
+      'run_retention_sweep',
+      'app',
+      'app-001',
+      expect.objectContaining({ dry_run: true, events_deleted: 4 })
+    );
+
+    const invalid = await request(app).post('/jobs/retention/trigger').send({ dry_run: 'yes' });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('resumes full retention runs where the last one stopped', async () => {
+    const apps = [createMockApp({ app_id: 'app-001' }), createMockApp({ app_id: 'app-002' })];
+    vi.mocked(firestoreService.getApps).mockResolvedValue(apps);
+    vi.mocked(firestoreService.getRetentionResumeAppId).mockResolvedValue('app-002');
+    vi.mocked(runRetentionSweep).mockResolvedValue({
+      run_id: 'run-1',
+      truncated: true,
+      resume_app_id: 'app-001',
+      totals: { events: 0, attachments: 0, issues: 0, errors: 0 },
+    } as never);
+
+    const res = await request(app).post('/jobs/retention/trigger').send({});
+
+    expect(res.status).toBe(200);
+    expect(runRetentionSweep).toHaveBeenCalledWith({ apps, dryRun: false, resumeAppId: 'app-002' });
+    expect(firestoreService.setRetentionResumeAppId).toHaveBeenCalledWith('app-001');
+
+    // A dry run starts from the same place but doesn't move it
+    await request(app).post('/jobs/retention/trigger').send({ dry_run: true });
+    expect(runRetentionSweep).toHaveBeenLastCalledWith({ apps, dryRun: true, resumeAppId: 'app-002' });
+    expect(firestoreService.setRetentionResumeAppId).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects unknown job names', async () => {
+    for (const name of ['reindex', 'constructor']) {
+      const res = await request(app).post(`/jobs/${name}/trigger`).send({});
+      expect(res.status).toBe(404);
+      expect(res.body.error.message).toBe('Job not found');
+    }
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Outbound webhook tests - Subscription matching, signing, retries and chat formats
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { WebhookDelivery, WebhookSubscription } from '@britepulse/shared';
+import { createMockApp, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getApp: vi.fn(),
+  getIssue: vi.fn(),
+  getComments: vi.fn(),
+  createWebhookDeliveries: vi.fn(),
+  recordWebhookAttempt: vi.fn(),
+  getDueWebhookDeliveries: vi.fn(),
+}));
+
+vi.mock('../config.js', () => ({
+  config: {
+    consoleBaseUrl: 'https://console.test',
+  },
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { signWebhookBody } from '../services/ticketing.js';
+import {
+  attemptDelivery,
+  buildWebhookEvent,
+  emitAuditWebhookEvent,
+  emitWebhookEvent,
+  getSubscribers,
+  retryWebhookDeliveries,
+} from '../services/outbound-webhooks.js';
+import { formatSlackMessage, formatTeamsMessage } from '../services/webhook-formatters.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+const fetchMock = vi.fn();
+
+function subscription(overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    subscription_id: 'sub-1',
+    name: 'Receiver',
+    url: 'https://hooks.example.com/britepulse',
+    format: 'json',
+    events: ['issue.created', 'issue.status_changed'],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function delivery(overrides: Partial<WebhookDelivery> = {}): WebhookDelivery {
+  return {
+    delivery_id: 'delivery-1',
+    app_id: 'app-001',
+    subscription_id: 'sub-1',
+    event_id: 'event-1',
+    event_type: 'issue.created',
+    url: 'https://hooks.example.com/britepulse',
+    format: 'json',
+    body: '{"type":"issue.created"}',
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2026-01-10T12:01:00.000Z',
+    created_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetIdCounter();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  delete process.env.TEST_WEBHOOK_SECRET;
+});
+
+describe('getSubscribers', () => {
+  it('matches enabled subscriptions by event type and environment', () => {
+    const app = createMockApp({
+      webhooks: [
+        subscription({ subscription_id: 'all' }),
+        subscription({ subscription_id: 'off', enabled: false }),
+        subscription({ subscription_id: 'comments', events: ['issue.comment_added'] }),
+        subscription({ subscription_id: 'stage', environments: ['stage'] }),
+        subscription({ subscription_id: 'prod', environments: ['prod'] }),
+      ],
+    });
+    const event = buildWebhookEvent('issue.created', app, { issue: createMockIssue({ environment: 'prod' }) });
+
+    expect(getSubscribers(app, event).map((s) => s.subscription_id)).toEqual(['all', 'prod']);
+  });
+});
+
+describe('emitWebhookEvent', () => {
+  it('records a delivery per subscriber and signs JSON bodies', async () => {
+    process.env.TEST_WEBHOOK_SECRET = 'shh';
+    fetchMock.mockImplementation(async () => new Response('ok', { status: 200 }));
+    const app = createMockApp({
+      webhooks: [
+        subscription({ secret_env: 'TEST_WEBHOOK_SECRET' }),
+        subscription({ subscription_id: 'sub-slack', format: 'slack', url: 'https://hooks.slack.com/x' }),
+      ],
+    });
+    const issue = createMockIssue({ issue_id: 'issue-9', title: 'Checkout down', severity: 'P0' });
+
+    const deliveries = await emitWebhookEvent(app, buildWebhookEvent('issue.created', app, { issue }));
+
+    expect(deliveries.map((d) => d.status)).toEqual(['delivered', 'delivered']);
+    expect(firestoreService.createWebhookDeliveries).toHaveBeenCalledWith([
+      expect.objectContaining({ subscription_id: 'sub-1', status: 'pending', attempts: 0 }),
+      expect.objectContaining({ subscription_id: 'sub-slack', format: 'slack' }),
+    ]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/britepulse');
+    expect(init.headers['X-BritePulse-Signature']).toBe(signWebhookBody(init.body, 'shh'));
+    expect(JSON.parse(init.body).issue).toEqual(
+      expect.objectContaining({ issue_id: 'issue-9', url: 'https://console.test/issues/issue-9' })
+    );
+
+    // Chat formats aren't signed; the receiver can't verify them anyway
+    expect(fetchMock.mock.calls[1][1].headers['X-BritePulse-Signature']).toBeUndefined();
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).text).toContain('Checkout down');
+  });
+});
+
+describe('attemptDelivery', () => {
+  it('backs off after failures and gives up after the last attempt', async () => {
+    fetchMock.mockImplementation(async () => new Response('unavailable', { status: 503 }));
+
+    const retried = await attemptDelivery(delivery({ attempts: 1 }), subscription(), { now: NOW });
+    expect(retried).toEqual(
+      expect.objectContaining({
+        status: 'pending',
+        attempts: 2,
+        response_status: 503,
+        next_attempt_at: '2026-01-10T12:05:00.000Z',
+      })
+    );
+
+    const exhausted = await attemptDelivery(delivery({ attempts: 5 }), subscription(), { now: NOW });
+    expect(exhausted.status).toBe('failed');
+    expect(exhausted.next_attempt_at).toBeUndefined();
+    expect(firestoreService.recordWebhookAttempt).toHaveBeenLastCalledWith(
+      'delivery-1',
+      expect.objectContaining({ status: 'failed', attempts: 6, error: 'HTTP 503 unavailable' })
+    );
+  });
+
+  it('fails without sending when the signing secret is missing', async () => {
+    const result = await attemptDelivery(
+      delivery(),
+      subscription({ secret_env: 'TEST_WEBHOOK_SECRET' }),
+      { now: NOW, retry: false }
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result).toEqual(expect.objectContaining({ status: 'failed', error: 'TEST_WEBHOOK_SECRET is not set' }));
+  });
+});
+
+describe('emitAuditWebhookEvent', () => {
+  it('turns an audited comment into issue.comment_added', async () => {
+    fetchMock.mockImplementation(async () => new Response('ok', { status: 200 }));
+    const issue = createMockIssue({ issue_id: 'issue-1' });
+    vi.mocked(firestoreService.getIssue).mockResolvedValue(issue);
+    vi.mocked(firestoreService.getApp).mockResolvedValue(
+      createMockApp({ webhooks: [subscription({ events: ['issue.comment_added'] })] })
+    );
+    vi.mocked(firestoreService.getComments).mockResolvedValue([
+      {
+        comment_id: 'comment-1',
+        issue_id: 'issue-1',
+        author_email: 'dev@test.com',
+        author_name: 'Dev',
+        body: 'Looking into it',
+        source: 'console',
+        created_at: NOW.toISOString(),
+      },
+    ]);
+
+    const deliveries = await emitAuditWebhookEvent({
+      actor_id: 'dev@test.com',
+      actor_role: 'Engineer',
+      action: 'add_comment',
+      target_type: 'issue',
+      target_id: 'issue-1',
+      metadata: { comment_id: 'comment-1' },
+    });
+
+    expect(deliveries).toHaveLength(1);
+    expect(JSON.parse(deliveries[0].body)).toEqual(
+      expect.objectContaining({
+        type: 'issue.comment_added',
+        actor: 'dev@test.com',
+        comment: { comment_id: 'comment-1', author: 'Dev', body_preview: 'Looking into it' },
+      })
+    );
+
+    // Actions subscribers can't ask for don't load anything
+    vi.mocked(firestoreService.getIssue).mockClear();
+    await emitAuditWebhookEvent({
+      actor_id: 'dev@test.com',
+      actor_role: 'Engineer',
+      action: 'view_issue',
+      target_type: 'issue',
+      target_id: 'issue-1',
+    });
+    expect(firestoreService.getIssue).not.toHaveBeenCalled();
+  });
+});
+
+describe('retryWebhookDeliveries', () => {
+  it('retries due deliveries and drops ones whose subscription is gone', async () => {
+    fetchMock.mockImplementation(async () => new Response('ok', { status: 200 }));
+    vi.mocked(firestoreService.getDueWebhookDeliveries).mockResolvedValueOnce([
+      delivery({ delivery_id: 'due', attempts: 2 }),
+      delivery({ delivery_id: 'orphan', subscription_id: 'sub-deleted', attempts: 1 }),
+    ]);
+    vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp({ webhooks: [subscription()] }));
+
+    const result = await retryWebhookDeliveries({ now: NOW });
+
+    expect(result).toEqual({ checked: 2, delivered: 1, failed: 1, errors: [] });
+    expect(firestoreService.getApp).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(firestoreService.recordWebhookAttempt).toHaveBeenCalledWith(
+      'orphan',
+      expect.objectContaining({ status: 'failed', error: 'Subscription removed or disabled' })
+    );
+  });
+});
+
+describe('chat formatters', () => {
+  it('include the issue title, severity, counts and a console link', () => {
+    const app = createMockApp({ name: 'Shop' });
+    const issue = createMockIssue({
+      issue_id: 'issue-7',
+      title: 'Payment <failed>',
+      severity: 'P1',
+      counts: { occurrences_total: 120, occurrences_24h: 40, unique_users_24h_est: 9 },
+    });
+    const event = buildWebhookEvent('issue.severity_changed', app, {
+      issue,
+      actor: 'po@test.com',
+      changes: { previous_value: 'P2', new_value: 'P1' },
+    });
+
+    const slack = JSON.stringify(formatSlackMessage(event));
+    expect(slack).toContain('<https://console.test/issues/issue-7|[P1] Payment &lt;failed&gt;>');
+    expect(slack).toContain('40 events, ~9 users');
+    expect(slack).toContain('Severity changed P2 → P1 by po@test.com');
+
+    const teams = formatTeamsMessage(event);
+    expect(teams).toEqual(
+      expect.objectContaining({ '@type': 'MessageCard', title: '[P1] Payment <failed>', themeColor: 'ea580c' })
+    );
+    expect(JSON.stringify(teams)).toContain('https://console.test/issues/issue-7');
+  });
+});
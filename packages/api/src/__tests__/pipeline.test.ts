@@ -11,6 +11,7 @@ vi.mock('../services/firestore.js', () => ({
   createIssue: vi.fn(),
   createEvent: vi.fn(),
   findIssueByFingerprint: vi.fn(),
+  findResolvedIssueByFingerprint: vi.fn(),
   getIssue: vi.fn(),
   addEventToIssue: vi.fn(),
   updateIssue: vi.fn(),
@@ -32,6 +33,18 @@ vi.mock('../services/storage.js', () => ({
   isStorageConfigured: vi.fn(() => false),
 }));
 
+vi.mock('../services/symbolication.js', () => ({
+  symbolicateEventStack: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../services/regression.js', () => ({
+  reopenRegressedIssue: vi.fn(),
+}));
+
+vi.mock('../services/feedback-grouping.js', () => ({
+  findFeedbackMatch: vi.fn().mockResolvedValue(null),
+}));
+
 vi.mock('../config.js', () => ({
   config: {
     anthropicApiKey: '',
@@ -40,6 +53,9 @@ vi.mock('../config.js', () => ({
 
 import * as firestoreService from '../services/firestore.js';
 import { processEvent } from '../services/pipeline.js';
+import { symbolicateEventStack } from '../services/symbolication.js';
+import { findFeedbackMatch } from '../services/feedback-grouping.js';
+import { reopenRegressedIssue } from '../services/regression.js';
 
 describe('Pipeline - Auto-assignment', () => {
   beforeEach(() => {
@@ -123,6 +139,225 @@ describe('Pipeline - Auto-assignment', () => {
 
     // createIssue should NOT be called — event grouped into existing issue
     expect(firestoreService.createIssue).not.toHaveBeenCalled();
-    expect(firestoreService.addEventToIssue).toHaveBeenCalledWith(existingIssue.issue_id, event.event_id);
+    expect(firestoreService.addEventToIssue).toHaveBeenCalledWith(
+      existingIssue.issue_id,
+      event.event_id,
+      {
+        user_id: event.user.user_id,
+        session_id: event.session_id,
+      },
+      expect.objectContaining({ version: event.version })
+    );
+  });
+});
+
+describe('Pipeline - Symbolication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('fingerprints and stores the symbolicated stack, keeping the raw one', async () => {
+    const rawStack = 'TypeError: x is undefined\n    at a (https://app.example.com/assets/index-3f2a.js:1:2345)';
+    const symbolicated = 'TypeError: x is undefined\n    at renderCart (src/Cart.tsx:42:7)';
+    const event = createMockEvent({
+      event_type: 'frontend_error',
+      version: '1.4.0',
+      payload: { error_type: 'TypeError', message: 'x is undefined', stack: rawStack },
+    });
+
+    const { extractFingerprintInput } = await import('../services/fingerprint.js');
+    vi.mocked(symbolicateEventStack).mockResolvedValueOnce(symbolicated);
+    vi.mocked(firestoreService.createEvent).mockImplementation(async (input) => ({ ...event, ...input }));
+    vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp());
+    vi.mocked(firestoreService.createIssue).mockResolvedValue(createMockIssue());
+
+    await processEvent(event);
+
+    expect(symbolicateEventStack).toHaveBeenCalledWith('app-001', '1.4.0', rawStack);
+    expect(extractFingerprintInput).toHaveBeenCalledWith(
+      'frontend_error',
+      expect.objectContaining({ stack: symbolicated }),
+      event.route_or_url
+    );
+    expect(firestoreService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({ stack: symbolicated, raw_stack: rawStack }),
+      })
+    );
+  });
+
+  it('leaves the stack alone when no source map matches', async () => {
+    const rawStack = 'Error: boom\n    at a (https://app.example.com/assets/index-3f2a.js:1:10)';
+    const event = createMockEvent({
+      event_type: 'frontend_error',
+      payload: { error_type: 'Error', message: 'boom', stack: rawStack },
+    });
+
+    vi.mocked(firestoreService.createEvent).mockResolvedValue(event);
+    vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp());
+    vi.mocked(firestoreService.createIssue).mockResolvedValue(createMockIssue());
+
+    await processEvent(event);
+
+    const stored = vi.mocked(firestoreService.createEvent).mock.calls[0][0];
+    expect(stored.payload).toMatchObject({ stack: rawStack });
+    expect(stored.payload).not.toHaveProperty('raw_stack');
+  });
+});
+
+describe('Pipeline - Breadcrumbs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('redacts breadcrumbs with the app profile before storing them', async () => {
+    const breadcrumbs = [
+      { timestamp: '2026-01-01T00:00:00.000Z', category: 'console' as const, message: 'login failed for jane@example.com' },
+    ];
+    const event = createMockEvent({ breadcrumbs });
+    const { redactObject } = await import('../services/redaction.js');
+    vi.mocked(redactObject)
+      .mockImplementationOnce((data) => ({ data, redactionsApplied: 0 }))
+      .mockImplementationOnce(() => ({
+        data: { breadcrumbs: [{ ...breadcrumbs[0], message: 'login failed for [EMAIL]' }] },
+        redactionsApplied: 1,
+      }));
+
+    vi.mocked(firestoreService.createEvent).mockResolvedValue(event);
+    vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp());
+    vi.mocked(firestoreService.createIssue).mockResolvedValue(createMockIssue());
+
+    const result = await processEvent(event, 'strict');
+
+    expect(redactObject).toHaveBeenLastCalledWith({ breadcrumbs }, 'strict');
+    expect(firestoreService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        breadcrumbs: [expect.objectContaining({ message: 'login failed for [EMAIL]' })],
+      })
+    );
+    expect(result.redactionsApplied).toBe(1);
+  });
+});
+
+describe('Pipeline - Feedback grouping', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('attaches matched feedback to the existing issue and records why', async () => {
+    const app = createMockApp({ app_id: 'app-001' });
+    const existingIssue = createMockIssue({ app_id: 'app-001', issue_id: 'issue-checkout' });
+    const match = {
+      issue_id: 'issue-checkout',
+      score: 0.82,
+      signals: ['text' as const, 'route' as const],
+      reason: 'Description 77% similar, same route /checkout',
+      matched_at: '2026-01-01T00:00:00.000Z',
+    };
+    const event = createMockEvent({ app_id: 'app-001', session_id: 'sess-1' });
+
+    vi.mocked(firestoreService.getApp).mockResolvedValue(app);
+    vi.mocked(findFeedbackMatch).mockResolvedValueOnce(match);
+    vi.mocked(firestoreService.createEvent).mockImplementationOnce(async (data) => ({ ...data, event_id: event.event_id }));
+    vi.mocked(firestoreService.getIssue).mockResolvedValue(existingIssue);
+
+    const result = await processEvent(event);
+
+    expect(findFeedbackMatch).toHaveBeenCalledWith(expect.objectContaining({ event_type: 'feedback' }), app);
+    expect(firestoreService.createEvent).toHaveBeenCalledWith(expect.objectContaining({ feedback_match: match }));
+    expect(firestoreService.addEventToIssue).toHaveBeenCalledWith(
+      'issue-checkout',
+      event.event_id,
+      {
+        user_id: 'user-123',
+        session_id: 'sess-1',
+      },
+      { version: event.version, text: (event.payload as { description: string }).description }
+    );
+    expect(firestoreService.createIssue).not.toHaveBeenCalled();
+    expect(result.isNewIssue).toBe(false);
+  });
+
+  it('creates a new issue when nothing matches', async () => {
+    vi.mocked(firestoreService.getApp).mockResolvedValue(createMockApp());
+    vi.mocked(firestoreService.createEvent).mockImplementationOnce(async (data) => ({ ...data, event_id: 'evt-new' }));
+    vi.mocked(firestoreService.createIssue).mockResolvedValue(createMockIssue());
+
+    const result = await processEvent(createMockEvent());
+
+    expect(firestoreService.createEvent).toHaveBeenCalledWith(
+      expect.not.objectContaining({ feedback_match: expect.anything() })
+    );
+    expect(result.isNewIssue).toBe(true);
+  });
+});
+
+describe('Pipeline - Regressions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('reopens the resolved issue instead of creating a new one', async () => {
+    const event = createMockEvent({
+      event_type: 'frontend_error',
+      version: '2.1.0',
+      payload: { error_type: 'TypeError', message: 'test' } as never,
+    });
+    const resolvedIssue = createMockIssue({
+      issue_id: 'issue-fixed',
+      status: 'resolved',
+      primary_fingerprint: 'test-fingerprint',
+    });
+    const reopened = { ...resolvedIssue, status: 'triaged' as const };
+
+    const { extractFingerprintInput } = await import('../services/fingerprint.js');
+    vi.mocked(extractFingerprintInput).mockReturnValueOnce({ error_type: 'TypeError', message: 'test' });
+    vi.mocked(firestoreService.createEvent).mockResolvedValueOnce(event);
+    vi.mocked(firestoreService.findIssueByFingerprint).mockResolvedValueOnce(null);
+    vi.mocked(firestoreService.findResolvedIssueByFingerprint).mockResolvedValueOnce(resolvedIssue);
+    vi.mocked(reopenRegressedIssue).mockResolvedValueOnce(reopened);
+    vi.mocked(firestoreService.getIssue).mockResolvedValueOnce(reopened);
+
+    const result = await processEvent(event);
+
+    expect(reopenRegressedIssue).toHaveBeenCalledWith(resolvedIssue, event);
+    expect(firestoreService.addEventToIssue).toHaveBeenCalledWith(
+      'issue-fixed',
+      event.event_id,
+      expect.any(Object),
+      expect.objectContaining({ version: event.version })
+    );
+    expect(firestoreService.createIssue).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ isNewIssue: false, isRegression: true, issue: reopened });
+  });
+
+  it('attaches the event without a second regression when another event reopened the issue first', async () => {
+    const event = createMockEvent({
+      event_type: 'frontend_error',
+      payload: { error_type: 'TypeError', message: 'test' } as never,
+    });
+    const resolvedIssue = createMockIssue({ issue_id: 'issue-fixed', status: 'resolved' });
+
+    const { extractFingerprintInput } = await import('../services/fingerprint.js');
+    vi.mocked(extractFingerprintInput).mockReturnValueOnce({ error_type: 'TypeError', message: 'test' });
+    vi.mocked(firestoreService.createEvent).mockResolvedValueOnce(event);
+    vi.mocked(firestoreService.findIssueByFingerprint).mockResolvedValueOnce(null);
+    vi.mocked(firestoreService.findResolvedIssueByFingerprint).mockResolvedValueOnce(resolvedIssue);
+    vi.mocked(reopenRegressedIssue).mockResolvedValueOnce(null);
+    vi.mocked(firestoreService.getIssue).mockResolvedValueOnce({ ...resolvedIssue, status: 'triaged' });
+
+    const result = await processEvent(event);
+
+    expect(firestoreService.addEventToIssue).toHaveBeenCalledWith(
+      'issue-fixed',
+      event.event_id,
+      expect.any(Object),
+      expect.any(Object)
+    );
+    expect(result).toMatchObject({ isNewIssue: false, isRegression: false });
   });
 });
@@ -0,0 +1,63 @@
+/**
+ * Priority refresh tests - Rescoring quiet issues and backfilling scores
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockApp, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getOpenIssuesSeenSince: vi.fn(),
+  refreshIssueCounts: vi.fn(),
+  backfillIssuePriorityScores: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { runPriorityRefresh } from '../services/priority-refresh.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+describe('runPriorityRefresh', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('rescores open issues seen in the last three days', async () => {
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValueOnce([
+      createMockIssue({ issue_id: 'issue-1' }),
+      createMockIssue({ issue_id: 'issue-2' }),
+    ]);
+
+    const result = await runPriorityRefresh({ apps: [createMockApp({ app_id: 'app-001' })], now: NOW });
+
+    expect(firestoreService.getOpenIssuesSeenSince).toHaveBeenCalledWith(
+      'app-001',
+      'prod',
+      '2026-01-07T12:00:00.000Z',
+      500
+    );
+    expect(firestoreService.refreshIssueCounts).toHaveBeenCalledWith('issue-1');
+    expect(firestoreService.refreshIssueCounts).toHaveBeenCalledWith('issue-2');
+    expect(result).toMatchObject({ checked: 1, refreshed: 2, backfilled: 0 });
+    expect(firestoreService.backfillIssuePriorityScores).not.toHaveBeenCalled();
+  });
+
+  it('backfills when asked and keeps going after a failure', async () => {
+    vi.mocked(firestoreService.backfillIssuePriorityScores)
+      .mockRejectedValueOnce(new Error('deadline exceeded'))
+      .mockResolvedValueOnce(7);
+    vi.mocked(firestoreService.getOpenIssuesSeenSince).mockResolvedValue([]);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await runPriorityRefresh({
+      apps: [createMockApp({ app_id: 'app-001' }), createMockApp({ app_id: 'app-002' })],
+      backfill: true,
+      now: NOW,
+    });
+
+    expect(result.backfilled).toBe(7);
+    expect(result.errors).toEqual(['app-001: deadline exceeded']);
+    expect(result.checked).toBe(2);
+    consoleSpy.mockRestore();
+  });
+});
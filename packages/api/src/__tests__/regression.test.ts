@@ -0,0 +1,122 @@
+/**
+ * Regression tests - Reopening resolved issues when their error returns
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getApp: vi.fn(),
+  getEvent: vi.fn(),
+  markIssueRegressed: vi.fn(),
+  createAuditLog: vi.fn(),
+  createNotifications: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { bumpSeverity, reopenRegressedIssue } from '../services/regression.js';
+
+describe('bumpSeverity', () => {
+  it('raises severity by the policy levels and stops at P0', () => {
+    expect(bumpSeverity('P2', 1)).toBe('P1');
+    expect(bumpSeverity('P3', 2)).toBe('P1');
+    expect(bumpSeverity('P1', 3)).toBe('P0');
+    expect(bumpSeverity('P2', 0)).toBe('P2');
+  });
+});
+
+describe('reopenRegressedIssue', () => {
+  const resolvedIssue = createMockIssue({
+    issue_id: 'issue-fixed',
+    status: 'resolved',
+    severity: 'P2',
+    primary_fingerprint: 'fp-1',
+    event_refs: ['evt-old-1', 'evt-old-2'],
+    routing: { assigned_to: 'dev@test.com' },
+    resolved_by: 'lead@test.com',
+    timestamps: {
+      created_at: '2026-01-01T00:00:00.000Z',
+      last_seen_at: '2026-01-05T00:00:00.000Z',
+      resolved_at: '2026-01-06T00:00:00.000Z',
+    },
+  });
+  const event = createMockEvent({ event_id: 'evt-new', event_type: 'frontend_error', version: '2.1.0' });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    vi.mocked(firestoreService.getEvent).mockResolvedValue(createMockEvent({ event_id: 'evt-old-2', version: '2.0.3' }));
+    vi.mocked(firestoreService.markIssueRegressed).mockImplementation(async (_id, update) => ({
+      ...resolvedIssue,
+      ...update,
+    }));
+  });
+
+  it('reopens with the policy status, bumps severity and records both versions', async () => {
+    vi.mocked(firestoreService.getApp).mockResolvedValueOnce(
+      createMockApp({
+        policies: { redaction_profile: 'standard', regression_policy: { reopen_status: 'in_progress' } },
+      } as never)
+    );
+
+    const reopened = await reopenRegressedIssue(resolvedIssue, event);
+
+    expect(firestoreService.getEvent).toHaveBeenCalledWith('evt-old-2');
+    expect(firestoreService.markIssueRegressed).toHaveBeenCalledWith('issue-fixed', {
+      status: 'in_progress',
+      severity: 'P1',
+      regression: expect.objectContaining({
+        version: '2.1.0',
+        resolved_version: '2.0.3',
+        resolved_at: '2026-01-06T00:00:00.000Z',
+        resolved_by: 'lead@test.com',
+        previous_severity: 'P2',
+        count: 1,
+      }),
+    });
+    expect(reopened?.status).toBe('in_progress');
+  });
+
+  it('notifies the assignee and the resolver', async () => {
+    vi.mocked(firestoreService.getApp).mockResolvedValueOnce(createMockApp());
+
+    await reopenRegressedIssue(resolvedIssue, event);
+
+    const notifications = vi.mocked(firestoreService.createNotifications).mock.calls[0][0];
+    expect(notifications.map((n) => n.recipient_email)).toEqual(['dev@test.com', 'lead@test.com']);
+    expect(notifications[0]).toMatchObject({ type: 'regression', issue_id: 'issue-fixed' });
+    expect(notifications[0].body_preview).toBe(
+      'Resolved issue reappeared in 2.1.0 (last seen in 2.0.3 before it was resolved); severity raised P2 -> P1'
+    );
+    expect(firestoreService.createAuditLog).toHaveBeenCalledWith(
+      expect.objectContaining({ actor_role: 'system', action: 'change_status', target_id: 'issue-fixed' })
+    );
+  });
+
+  it('counts repeat regressions and keeps the reopen when notifying fails', async () => {
+    vi.mocked(firestoreService.getApp).mockResolvedValueOnce(createMockApp());
+    vi.mocked(firestoreService.createNotifications).mockRejectedValueOnce(new Error('quota'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const previouslyRegressed = {
+      ...resolvedIssue,
+      regression: { detected_at: '2026-01-03T00:00:00.000Z', version: '2.0.1', previous_severity: 'P3' as const, count: 1 },
+    };
+
+    const reopened = await reopenRegressedIssue(previouslyRegressed, event);
+
+    expect(reopened?.regression?.count).toBe(2);
+    expect(firestoreService.markIssueRegressed).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
+
+  it('does nothing more when a concurrent event already reopened the issue', async () => {
+    vi.mocked(firestoreService.getApp).mockResolvedValueOnce(createMockApp());
+    vi.mocked(firestoreService.markIssueRegressed).mockResolvedValueOnce(null);
+
+    const reopened = await reopenRegressedIssue(resolvedIssue, event);
+
+    expect(reopened).toBeNull();
+    expect(firestoreService.createAuditLog).not.toHaveBeenCalled();
+    expect(firestoreService.createNotifications).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Retention service tests - Period resolution, dry runs and purges
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Attachment, Policy } from '@britepulse/shared';
+import { createMockApp, createMockEvent, createMockIssue, resetIdCounter } from './test-utils.js';
+
+// Mock firestore service
+vi.mock('../services/firestore.js', () => ({
+  getEventsBefore: vi.fn().mockResolvedValue([]),
+  deleteEvents: vi.fn().mockResolvedValue(0),
+  getAttachmentsBefore: vi.fn().mockResolvedValue([]),
+  deleteAttachment: vi.fn().mockResolvedValue(true),
+  getClosedIssuesBefore: vi.fn().mockResolvedValue([]),
+  deleteIssueCascade: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock storage service
+vi.mock('../services/storage.js', () => ({
+  isStorageConfigured: vi.fn().mockReturnValue(true),
+  deleteAttachment: vi.fn().mockResolvedValue(undefined),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import * as storageService from '../services/storage.js';
+import { resolveRetentionPeriods, runRetentionSweep } from '../services/retention.js';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+
+function createMockAttachment(overrides: Partial<Attachment> = {}): Attachment {
+  return {
+    attachment_id: 'att-001',
+    event_id: 'evt-001',
+    app_id: 'app-001',
+    environment: 'prod',
+    filename: 'screenshot.png',
+    content_type: 'image/png',
+    size_bytes: 1024,
+    storage_path: 'app-001/evt-001/att-001/screenshot.png',
+    uploaded_at: '2026-01-01T00:00:00.000Z',
+    expires_at: '2026-04-01T00:00:00.000Z',
+    user_opted_in: true,
+    ...overrides,
+  };
+}
+
+describe('resolveRetentionPeriods', () => {
+  it('uses DEFAULT_RETENTION for the environment', () => {
+    const app = createMockApp();
+    expect(resolveRetentionPeriods(app, 'prod')).toEqual({
+      raw_events_days: 30,
+      issues_days: 365,
+      attachments_days: 14,
+    });
+    expect(resolveRetentionPeriods(app, 'qa').raw_events_days).toBe(14);
+  });
+
+  it('applies per-app overrides on top of defaults', () => {
+    const app = createMockApp({
+      policies: { retention_overrides: { prod: { raw_events_days: 7 } } } as unknown as Policy,
+    });
+    expect(resolveRetentionPeriods(app, 'prod')).toEqual({
+      raw_events_days: 7,
+      issues_days: 365,
+      attachments_days: 14,
+    });
+  });
+});
+
+describe('runRetentionSweep', () => {
+  const app = createMockApp({ app_id: 'app-001', environments: [{ env_name: 'prod', enabled: true }] });
+  const oldEvent = createMockEvent({ event_id: 'evt-old' });
+  const staleIssue = createMockIssue({
+    issue_id: 'issue-stale',
+    status: 'resolved',
+    timestamps: {
+      created_at: '2025-01-01T00:00:00.000Z',
+      last_seen_at: '2025-01-02T00:00:00.000Z',
+      resolved_at: '2025-01-03T00:00:00.000Z',
+    },
+  });
+  const recentlyClosedIssue = createMockIssue({
+    issue_id: 'issue-recent',
+    status: 'resolved',
+    timestamps: {
+      created_at: '2025-01-01T00:00:00.000Z',
+      last_seen_at: '2025-01-02T00:00:00.000Z',
+      resolved_at: '2026-05-01T00:00:00.000Z',
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    // One page each; a query resumed after the last row comes back empty
+    vi.mocked(firestoreService.getEventsBefore).mockImplementation(async (_app, _env, _before, startAfter) =>
+      startAfter ? [] : [oldEvent]
+    );
+    // Same attachment matches both the expiry and the upload-age query
+    vi.mocked(firestoreService.getAttachmentsBefore).mockImplementation(
+      async (_app, _env, _field, _before, startAfter) => (startAfter ? [] : [createMockAttachment()])
+    );
+    vi.mocked(firestoreService.getClosedIssuesBefore).mockImplementation(async (_app, _env, _before, startAfter) =>
+      startAfter ? [] : [staleIssue, recentlyClosedIssue]
+    );
+  });
+
+  it('reports what would be deleted without deleting in dry-run mode', async () => {
+    const result = await runRetentionSweep({ apps: [app], dryRun: true, now: NOW });
+
+    expect(result.dry_run).toBe(true);
+    expect(result.totals).toEqual({ events: 1, attachments: 1, issues: 1, errors: 0 });
+    expect(result.targets[0]).not.toHaveProperty('issue_ids');
+    expect(firestoreService.deleteEvents).not.toHaveBeenCalled();
+    expect(firestoreService.deleteAttachment).not.toHaveBeenCalled();
+    expect(storageService.deleteAttachment).not.toHaveBeenCalled();
+    expect(firestoreService.deleteIssueCascade).not.toHaveBeenCalled();
+  });
+
+  it('deletes expired data and GCS objects', async () => {
+    const result = await runRetentionSweep({ apps: [app], now: NOW });
+
+    expect(result.totals).toEqual({ events: 1, attachments: 1, issues: 1, errors: 0 });
+    expect(firestoreService.getEventsBefore).toHaveBeenCalledWith(
+      'app-001',
+      'prod',
+      '2026-05-02T00:00:00.000Z',
+      undefined
+    );
+    expect(firestoreService.deleteEvents).toHaveBeenCalledWith(['evt-old']);
+    expect(storageService.deleteAttachment).toHaveBeenCalledWith('app-001/evt-001/att-001/screenshot.png');
+    expect(firestoreService.deleteAttachment).toHaveBeenCalledWith('att-001');
+    expect(firestoreService.deleteIssueCascade).toHaveBeenCalledWith('issue-stale');
+    expect(firestoreService.deleteIssueCascade).not.toHaveBeenCalledWith('issue-recent');
+  });
+
+  it('pages through every expired event, resuming after the last one', async () => {
+    const page1 = [createMockEvent({ event_id: 'evt-1', timestamp: '2026-03-01T00:00:00.000Z' })];
+    const page2 = [createMockEvent({ event_id: 'evt-2', timestamp: '2026-03-02T00:00:00.000Z' })];
+    vi.mocked(firestoreService.getEventsBefore).mockReset();
+    vi.mocked(firestoreService.getEventsBefore)
+      .mockResolvedValueOnce(page1)
+      .mockResolvedValueOnce(page2)
+      .mockResolvedValueOnce([]);
+
+    const result = await runRetentionSweep({ apps: [app], dryRun: true, now: NOW });
+
+    expect(result.targets[0].events_deleted).toBe(2);
+    expect(result.truncated).toBe(false);
+    expect(firestoreService.getEventsBefore).toHaveBeenNthCalledWith(
+      2,
+      'app-001',
+      'prod',
+      '2026-05-02T00:00:00.000Z',
+      { value: '2026-03-01T00:00:00.000Z', id: 'evt-1' }
+    );
+  });
+
+  it('stops at the time budget and reports the run as truncated', async () => {
+    vi.useFakeTimers({ now: NOW });
+    // The first page takes longer than the whole budget
+    vi.mocked(firestoreService.getAttachmentsBefore).mockImplementationOnce(async () => {
+      vi.setSystemTime(NOW.getTime() + 2000);
+      return [createMockAttachment()];
+    });
+
+    const result = await runRetentionSweep({ apps: [app], now: NOW, timeBudgetMs: 1000 });
+    vi.useRealTimers();
+
+    expect(result.truncated).toBe(true);
+    expect(result.resume_app_id).toBe('app-001');
+    expect(result.targets[0].truncated).toBe(true);
+    expect(result.totals.attachments).toBe(1);
+    expect(firestoreService.getEventsBefore).not.toHaveBeenCalled();
+    expect(firestoreService.deleteIssueCascade).not.toHaveBeenCalled();
+  });
+
+  it('resumes from the given app and hands the next run the app it was cut off at', async () => {
+    const apps = ['app-a', 'app-b', 'app-c'].map((app_id) =>
+      createMockApp({ app_id, environments: [{ env_name: 'prod', enabled: true }] })
+    );
+    vi.useFakeTimers({ now: NOW });
+    // app-c's sweep uses up the budget
+    vi.mocked(firestoreService.getAttachmentsBefore).mockImplementation(
+      async (appId, _env, _field, _before, startAfter) => {
+        if (appId === 'app-c') vi.setSystemTime(NOW.getTime() + 2000);
+        return startAfter ? [] : [createMockAttachment({ app_id: appId })];
+      }
+    );
+
+    const result = await runRetentionSweep({ apps, now: NOW, timeBudgetMs: 1000, resumeAppId: 'app-b' });
+    vi.useRealTimers();
+
+    expect(result.targets.map((t) => t.app_id)).toEqual(['app-b', 'app-c']);
+    expect(result.truncated).toBe(true);
+    expect(result.resume_app_id).toBe('app-c');
+  });
+
+  it('moves on to the next app when the starting app uses up the whole run', async () => {
+    const apps = ['app-a', 'app-b'].map((app_id) =>
+      createMockApp({ app_id, environments: [{ env_name: 'prod', enabled: true }] })
+    );
+    vi.useFakeTimers({ now: NOW });
+    vi.mocked(firestoreService.getAttachmentsBefore).mockImplementationOnce(async () => {
+      vi.setSystemTime(NOW.getTime() + 2000);
+      return [createMockAttachment()];
+    });
+
+    const result = await runRetentionSweep({ apps, now: NOW, timeBudgetMs: 1000, resumeAppId: 'app-a' });
+    vi.useRealTimers();
+
+    expect(result.targets.map((t) => t.app_id)).toEqual(['app-a']);
+    expect(result.resume_app_id).toBe('app-b');
+  });
+
+  it('starts from the first app once every app was swept or the resume app is gone', async () => {
+    const result = await runRetentionSweep({ apps: [app], now: NOW, resumeAppId: 'app-deleted' });
+
+    expect(result.targets.map((t) => t.app_id)).toEqual(['app-001']);
+    expect(result.truncated).toBe(false);
+    expect(result.resume_app_id).toBeNull();
+  });
+
+  it('keeps attachment records when the GCS delete fails', async () => {
+    vi.mocked(storageService.deleteAttachment).mockRejectedValueOnce(new Error('GCS unavailable'));
+
+    const result = await runRetentionSweep({ apps: [app], now: NOW });
+
+    expect(result.totals.attachments).toBe(0);
+    expect(result.targets[0].errors[0]).toContain('GCS unavailable');
+    expect(firestoreService.deleteAttachment).not.toHaveBeenCalled();
+  });
+});
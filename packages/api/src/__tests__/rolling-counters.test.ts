@@ -0,0 +1,133 @@
+/**
+ * Rolling counter tests - Hourly windows and unique-user sketches
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCounterState,
+  recordOccurrence,
+  removeOccurrence,
+  computeRollingCounts,
+  mergeCounterStates,
+  pruneCounterState,
+  createSketch,
+  addToSketch,
+  estimateCardinality,
+  getOccurrenceIdentity,
+} from '../services/rolling-counters.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 10, 12, 30);
+
+// ============ Occurrence windows ============
+
+describe('computeRollingCounts', () => {
+  it('counts occurrences in the current 24h window', () => {
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'u1' }, NOW - 2 * HOUR);
+    state = recordOccurrence(state, { user_id: 'u2' }, NOW - HOUR);
+    state = recordOccurrence(state, { user_id: 'u1' }, NOW);
+
+    const counts = computeRollingCounts(state, NOW);
+    expect(counts.occurrences_24h).toBe(3);
+    expect(counts.occurrences_prev_24h).toBe(0);
+    expect(counts.unique_users_24h_est).toBe(2);
+  });
+
+  it('moves occurrences into the previous window as time passes', () => {
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'u1' }, NOW);
+    state = recordOccurrence(state, { user_id: 'u2' }, NOW);
+
+    const counts = computeRollingCounts(state, NOW + 30 * HOUR);
+    expect(counts.occurrences_24h).toBe(0);
+    expect(counts.occurrences_prev_24h).toBe(2);
+    expect(counts.unique_users_24h_est).toBe(0);
+  });
+
+  it('drops occurrences older than both windows', () => {
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'u1' }, NOW);
+
+    const later = NOW + 49 * HOUR;
+    const pruned = pruneCounterState(state, later);
+    expect(Object.keys(pruned.hourly_buckets)).toHaveLength(0);
+    expect(computeRollingCounts(pruned, later).occurrences_prev_24h).toBe(0);
+  });
+
+  it('counts collapsed repeats as multiple occurrences from one user', () => {
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'u1', count: 5 }, NOW);
+
+    const counts = computeRollingCounts(state, NOW);
+    expect(counts.occurrences_24h).toBe(5);
+    expect(counts.unique_users_24h_est).toBe(1);
+  });
+
+  it('removes a split-out occurrence from the hour it was recorded in', () => {
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'u1' }, NOW - 30 * HOUR);
+    state = recordOccurrence(state, { user_id: 'u2', count: 3 }, NOW);
+
+    state = removeOccurrence(state, 1, NOW - 30 * HOUR, NOW);
+    state = removeOccurrence(state, 2, NOW, NOW);
+
+    const counts = computeRollingCounts(state, NOW);
+    expect(counts.occurrences_24h).toBe(1);
+    expect(counts.occurrences_prev_24h).toBe(0);
+    expect(Object.keys(state.hourly_buckets)).toHaveLength(1);
+  });
+
+  it('falls back to session_id for anonymous users', () => {
+    expect(getOccurrenceIdentity({ user_id: 'anonymous', session_id: 'sess-1' })).toBe('s:sess-1');
+    expect(getOccurrenceIdentity({ user_id: 'u1', session_id: 'sess-1' })).toBe('u:u1');
+    expect(getOccurrenceIdentity({})).toBeNull();
+
+    let state = createCounterState('issue-1', NOW);
+    state = recordOccurrence(state, { user_id: 'anonymous', session_id: 'a' }, NOW);
+    state = recordOccurrence(state, { user_id: 'anonymous', session_id: 'b' }, NOW);
+    expect(computeRollingCounts(state, NOW).unique_users_24h_est).toBe(2);
+  });
+});
+
+// ============ Merging ============
+
+describe('mergeCounterStates', () => {
+  it('sums buckets and unions unique users', () => {
+    let a = createCounterState('a', NOW);
+    a = recordOccurrence(a, { user_id: 'u1' }, NOW);
+    a = recordOccurrence(a, { user_id: 'u2' }, NOW);
+    let b = createCounterState('b', NOW);
+    b = recordOccurrence(b, { user_id: 'u2' }, NOW);
+    b = recordOccurrence(b, { user_id: 'u3' }, NOW - 30 * HOUR);
+
+    const merged = mergeCounterStates('a', [a, b], NOW);
+    const counts = computeRollingCounts(merged, NOW);
+    expect(merged.issue_id).toBe('a');
+    expect(counts.occurrences_24h).toBe(3);
+    expect(counts.occurrences_prev_24h).toBe(1);
+    expect(counts.unique_users_24h_est).toBe(2);
+  });
+});
+
+// ============ HyperLogLog ============
+
+describe('HyperLogLog sketch', () => {
+  it('is idempotent for repeated values', () => {
+    let sketch = createSketch();
+    for (let i = 0; i < 50; i++) {
+      sketch = addToSketch(sketch, 'u:same-user');
+    }
+    expect(estimateCardinality(sketch)).toBe(1);
+  });
+
+  it('estimates large cardinalities within tolerance', () => {
+    let sketch = createSketch();
+    for (let i = 0; i < 2000; i++) {
+      sketch = addToSketch(sketch, `u:user-${i}`);
+    }
+    const estimate = estimateCardinality(sketch);
+    expect(estimate).toBeGreaterThan(1600);
+    expect(estimate).toBeLessThan(2400);
+  });
+});
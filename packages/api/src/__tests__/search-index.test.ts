@@ -0,0 +1,119 @@
+/**
+ * Search index tests - Issue search tokens and in-memory list filters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockIssue } from './test-utils.js';
+import {
+  MAX_SEARCH_TOKENS,
+  searchTokens,
+  newSearchTokens,
+  matchesVersion,
+  matchesIssueFilters,
+  issueDateRange,
+} from '../services/search-index.js';
+
+describe('searchTokens', () => {
+  it('lowercases, dedupes and keeps identifiers whole as well as split', () => {
+    expect(searchTokens('TypeError: Cannot read order_id', 'at Checkout.tsx, cannot')).toEqual([
+      'typeerror',
+      'cannot',
+      'read',
+      'order_id',
+      'order',
+      'id',
+      'at',
+      'checkout.tsx',
+      'checkout',
+      'tsx',
+    ]);
+  });
+
+  it('indexes words in any script and normalizes accents', () => {
+    expect(searchTokens('Échec du paiement: Zahlung für Größe fehlgeschlagen')).toEqual([
+      'échec',
+      'du',
+      'paiement',
+      'zahlung',
+      'für',
+      'größe',
+      'fehlgeschlagen',
+    ]);
+    expect(searchTokens('Ошибка оплаты 42', 'e\u0301chec')).toEqual(['ошибка', 'оплаты', '42', 'échec']);
+  });
+
+  it('caps the number of tokens', () => {
+    const text = Array.from({ length: MAX_SEARCH_TOKENS + 50 }, (_, i) => `word${i}`).join(' ');
+    expect(searchTokens(text)).toHaveLength(MAX_SEARCH_TOKENS);
+  });
+});
+
+describe('newSearchTokens', () => {
+  it('returns only terms that are not indexed yet, within the remaining room', () => {
+    expect(newSearchTokens(['payment', 'failed'], 'Payment declined')).toEqual(['declined']);
+
+    const full = Array.from({ length: MAX_SEARCH_TOKENS }, (_, i) => `t${i}`);
+    expect(newSearchTokens(full, 'order 12345 not found')).toEqual([]);
+  });
+});
+
+describe('matchesVersion', () => {
+  it('matches exact versions and * wildcards', () => {
+    expect(matchesVersion('1.4.2', '1.4.2')).toBe(true);
+    expect(matchesVersion('1.4.2', '1.4.*')).toBe(true);
+    expect(matchesVersion('1.40.0', '1.4.*')).toBe(false);
+    expect(matchesVersion('2.0.0-beta', '2.*-beta')).toBe(true);
+  });
+});
+
+describe('matchesIssueFilters', () => {
+  const issue = createMockIssue({
+    tags: ['checkout'],
+    versions: ['1.3.9', '1.4.1'],
+    search_tokens: searchTokens('TypeError: Cannot read properties of undefined (reading total)', 'retry fixed it'),
+    timestamps: { created_at: '2026-01-05T10:00:00.000Z', last_seen_at: '2026-01-09T10:00:00.000Z' },
+  });
+
+  it('requires every search term to be indexed', () => {
+    expect(matchesIssueFilters(issue, { search: 'reading TOTAL' })).toBe(true);
+    expect(matchesIssueFilters(issue, { search: 'retry' })).toBe(true);
+    expect(matchesIssueFilters(issue, { search: 'reading subtotal' })).toBe(false);
+  });
+
+  it('applies tag, version and date filters', () => {
+    expect(matchesIssueFilters(issue, { tag: 'checkout', version: '1.4.*' })).toBe(true);
+    expect(matchesIssueFilters(issue, { tag: 'billing' })).toBe(false);
+    expect(matchesIssueFilters(issue, { version: '1.5.*' })).toBe(false);
+    expect(matchesIssueFilters(issue, { created_after: '2026-01-05T10:00:00Z' })).toBe(true);
+    expect(matchesIssueFilters(issue, { created_before: '2026-01-01T00:00:00Z' })).toBe(false);
+    expect(matchesIssueFilters(issue, { last_seen_after: '2026-01-10T00:00:00Z' })).toBe(false);
+  });
+
+  it('does not match issues indexed before search existed', () => {
+    const legacy = createMockIssue({ title: 'TypeError: total' });
+    expect(matchesIssueFilters(legacy, { search: 'total' })).toBe(false);
+  });
+});
+
+describe('issueDateRange', () => {
+  it('turns created or last-seen filters into bounds in the stored ISO format', () => {
+    expect(issueDateRange({ created_after: '2026-01-01T00:00:00Z', created_before: '2026-02-01T00:00:00Z' })).toEqual({
+      fieldPath: 'timestamps.created_at',
+      from: '2026-01-01T00:00:00.000Z',
+      to: '2026-02-01T00:00:00.000Z',
+      complete: true,
+    });
+    expect(issueDateRange({ last_seen_after: '2026-01-05T10:00:00Z' })).toEqual({
+      fieldPath: 'timestamps.last_seen_at',
+      from: '2026-01-05T10:00:00.000Z',
+      complete: true,
+    });
+    expect(issueDateRange({ status: 'new' })).toBeNull();
+  });
+
+  it('marks the range incomplete when last_seen_after still needs an in-memory check', () => {
+    expect(
+      issueDateRange({ created_before: '2026-02-01T00:00:00Z', last_seen_after: '2026-01-05T00:00:00Z' })
+    ).toEqual({ fieldPath: 'timestamps.created_at', to: '2026-02-01T00:00:00.000Z', complete: false });
+  });
+});
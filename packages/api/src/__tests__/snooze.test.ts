@@ -0,0 +1,124 @@
+/**
+ * Snooze tests - Wake conditions and the scheduled evaluator
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockIssue, resetIdCounter } from './test-utils.js';
+
+vi.mock('../services/firestore.js', () => ({
+  getSnoozedIssues: vi.fn(),
+  refreshIssueCounts: vi.fn(),
+  wakeSnoozedIssue: vi.fn(),
+  createComment: vi.fn(),
+  createAuditLog: vi.fn(),
+  createNotifications: vi.fn(),
+  getApp: vi.fn(),
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import { findWakeReason, runSnoozeEvaluation } from '../services/snooze.js';
+
+const NOW = new Date('2026-01-10T12:00:00.000Z');
+
+function snoozedIssue(snooze: Record<string, unknown>, overrides: Record<string, unknown> = {}) {
+  return createMockIssue({
+    status: 'snoozed',
+    snooze: { snoozed_at: '2026-01-09T12:00:00.000Z', snoozed_by: 'dev@test.com', ...snooze },
+    ...overrides,
+  });
+}
+
+describe('findWakeReason', () => {
+  it('wakes once the snooze date has passed', () => {
+    const early = snoozedIssue({ until: '2026-01-11T00:00:00.000Z' });
+    const due = snoozedIssue({ until: '2026-01-10T11:59:00.000Z' });
+
+    expect(findWakeReason(early, early.counts, NOW)).toBeNull();
+    expect(findWakeReason(due, due.counts, NOW)).toContain('snooze ended');
+  });
+
+  it('wakes when occurrences or users go above their thresholds', () => {
+    const issue = snoozedIssue({ occurrences_24h_above: 50, unique_users_24h_above: 10 });
+    const counts = { ...issue.counts, occurrences_24h: 50, unique_users_24h_est: 4 };
+
+    expect(findWakeReason(issue, counts, NOW)).toBeNull();
+    expect(findWakeReason(issue, { ...counts, occurrences_24h: 51 }, NOW)).toContain('51 times');
+    expect(findWakeReason(issue, { ...counts, unique_users_24h_est: 11 }, NOW)).toContain('11 users');
+  });
+
+  it('wakes only for versions not seen when it was snoozed', () => {
+    const issue = snoozedIssue({ new_version: true, versions_at_snooze: ['1.4.0'] }, { versions: ['1.4.0'] });
+    expect(findWakeReason(issue, issue.counts, NOW)).toBeNull();
+
+    const seenAgain = { ...issue, versions: ['1.4.0', '1.5.0'] };
+    expect(findWakeReason(seenAgain, issue.counts, NOW)).toContain('1.5.0');
+  });
+});
+
+describe('runSnoozeEvaluation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetIdCounter();
+    vi.mocked(firestoreService.getSnoozedIssues).mockResolvedValue([]);
+  });
+
+  it('pages through every snoozed issue', async () => {
+    const first = snoozedIssue({ until: '2026-02-01T00:00:00.000Z' }, { issue_id: 'issue-a' });
+    const second = snoozedIssue({ until: '2026-01-10T00:00:00.000Z' }, { issue_id: 'issue-b' });
+    vi.mocked(firestoreService.getSnoozedIssues).mockResolvedValueOnce([first]).mockResolvedValueOnce([second]);
+    vi.mocked(firestoreService.wakeSnoozedIssue).mockResolvedValueOnce({ ...second, status: 'triaged' });
+
+    const result = await runSnoozeEvaluation({ now: NOW });
+
+    expect(result.checked).toBe(2);
+    expect(result.woken).toEqual([expect.objectContaining({ issue_id: 'issue-b' })]);
+    expect(vi.mocked(firestoreService.getSnoozedIssues).mock.calls).toEqual([[undefined], ['issue-a'], ['issue-b']]);
+  });
+
+  it('moves woken issues to triaged, comments and notifies the assignee', async () => {
+    const due = snoozedIssue(
+      { until: '2026-01-10T00:00:00.000Z' },
+      { issue_id: 'issue-due', routing: { assigned_to: 'owner@test.com' } }
+    );
+    const quiet = snoozedIssue({ occurrences_24h_above: 100 }, { issue_id: 'issue-quiet' });
+    vi.mocked(firestoreService.getSnoozedIssues).mockResolvedValueOnce([due, quiet]);
+    vi.mocked(firestoreService.refreshIssueCounts).mockResolvedValueOnce(quiet.counts);
+    vi.mocked(firestoreService.wakeSnoozedIssue).mockResolvedValueOnce({ ...due, status: 'triaged' });
+
+    const result = await runSnoozeEvaluation({ now: NOW });
+
+    expect(result.checked).toBe(2);
+    expect(result.woken).toEqual([expect.objectContaining({ issue_id: 'issue-due' })]);
+    expect(firestoreService.wakeSnoozedIssue).toHaveBeenCalledTimes(1);
+    expect(firestoreService.wakeSnoozedIssue).toHaveBeenCalledWith('issue-due', 'triaged');
+    // Only count conditions need fresh counts
+    expect(firestoreService.refreshIssueCounts).toHaveBeenCalledWith('issue-quiet');
+    expect(firestoreService.refreshIssueCounts).not.toHaveBeenCalledWith('issue-due');
+    expect(firestoreService.createComment).toHaveBeenCalledWith(
+      'issue-due',
+      expect.objectContaining({ source: 'system', body: expect.stringContaining('Woke from snooze') })
+    );
+    expect(firestoreService.createNotifications).toHaveBeenCalledWith([
+      expect.objectContaining({ recipient_email: 'owner@test.com', type: 'snooze_woken' }),
+    ]);
+  });
+
+  it('skips issues changed since they were read and records failures', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(firestoreService.getSnoozedIssues).mockResolvedValueOnce([
+      snoozedIssue({ until: '2026-01-10T00:00:00.000Z' }, { issue_id: 'issue-moved' }),
+      snoozedIssue({ occurrences_24h_above: 5 }, { issue_id: 'issue-broken' }),
+    ]);
+    vi.mocked(firestoreService.wakeSnoozedIssue).mockResolvedValueOnce(null);
+    vi.mocked(firestoreService.refreshIssueCounts).mockRejectedValueOnce(new Error('unavailable'));
+
+    const result = await runSnoozeEvaluation({ now: NOW });
+
+    expect(result.woken).toEqual([]);
+    expect(result.errors).toEqual(['issue-broken: unavailable']);
+    expect(firestoreService.createComment).not.toHaveBeenCalled();
+    expect(firestoreService.createNotifications).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Symbolication tests - Stack frame parsing and source map lookups
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TraceMap } from '@jridgewell/trace-mapping';
+
+vi.mock('../services/storage.js', () => ({
+  isStorageConfigured: vi.fn(() => true),
+  getSourceMapPrefix: vi.fn((appId: string, version: string) => `sourcemaps/${appId}/${version}/`),
+  generateSourceMapPath: vi.fn(
+    (appId: string, version: string, file: string) => `sourcemaps/${appId}/${version}/${file.split('/').pop()}.map`
+  ),
+  downloadSourceMap: vi.fn(),
+}));
+
+import * as storageService from '../services/storage.js';
+import {
+  parseStackFrame,
+  symbolicateStack,
+  symbolicateEventStack,
+  clearSourceMapCache,
+} from '../services/symbolication.js';
+
+// Bundle column 0 -> Cart.tsx 1:0 (renderCart), column 10 -> Cart.tsx 5:2 (total)
+const SOURCE_MAP = JSON.stringify({
+  version: 3,
+  file: 'index-3f2a.js',
+  sources: ['webpack://app/./src/Cart.tsx'],
+  names: ['renderCart', 'total'],
+  mappings: 'AAAAA,UAIEC',
+});
+
+const BUNDLE = 'https://app.example.com/assets/index-3f2a.js';
+
+const MINIFIED_STACK = [
+  'TypeError: Cannot read properties of undefined',
+  `    at e (${BUNDLE}:1:11)`,
+  `    at ${BUNDLE}:1:5`,
+  '    at https://cdn.example.com/vendor.js:3:100',
+].join('\n');
+
+describe('parseStackFrame', () => {
+  it('parses V8 frames with and without a function name', () => {
+    expect(parseStackFrame(`    at e (${BUNDLE}:1:11)`)).toMatchObject({
+      style: 'v8',
+      functionName: 'e',
+      file: BUNDLE,
+      line: 1,
+      column: 11,
+    });
+    expect(parseStackFrame(`    at ${BUNDLE}:2:5`)).toMatchObject({ style: 'v8', file: BUNDLE, line: 2 });
+  });
+
+  it('parses Firefox and Safari frames', () => {
+    expect(parseStackFrame(`e@${BUNDLE}:1:11`)).toMatchObject({
+      style: 'gecko',
+      functionName: 'e',
+      file: BUNDLE,
+      column: 11,
+    });
+  });
+
+  it('ignores message lines', () => {
+    expect(parseStackFrame('TypeError: Cannot read properties of undefined')).toBeNull();
+  });
+});
+
+describe('symbolicateStack', () => {
+  const resolveMap = async (file: string) => (file === BUNDLE ? new TraceMap(SOURCE_MAP) : null);
+
+  it('rewrites mapped frames and leaves the rest untouched', async () => {
+    const result = await symbolicateStack(MINIFIED_STACK, resolveMap);
+
+    expect(result!.split('\n')).toEqual([
+      'TypeError: Cannot read properties of undefined',
+      '    at total (src/Cart.tsx:5:3)',
+      '    at renderCart (src/Cart.tsx:1:1)',
+      '    at https://cdn.example.com/vendor.js:3:100',
+    ]);
+  });
+
+  it('keeps the capture format for Firefox frames', async () => {
+    const result = await symbolicateStack(`e@${BUNDLE}:1:11`, resolveMap);
+    expect(result).toBe('total@src/Cart.tsx:5:3');
+  });
+
+  it('returns null when no frame has a source map', async () => {
+    expect(await symbolicateStack(MINIFIED_STACK, async () => null)).toBeNull();
+  });
+});
+
+describe('symbolicateEventStack', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSourceMapCache('app-001', '1.4.0');
+    vi.mocked(storageService.downloadSourceMap).mockImplementation(async (path) =>
+      path === 'sourcemaps/app-001/1.4.0/index-3f2a.js.map' ? SOURCE_MAP : null
+    );
+  });
+
+  it('loads the map uploaded for the event version and caches it', async () => {
+    const first = await symbolicateEventStack('app-001', '1.4.0', MINIFIED_STACK);
+    const second = await symbolicateEventStack('app-001', '1.4.0', MINIFIED_STACK);
+
+    expect(first).toContain('at total (src/Cart.tsx:5:3)');
+    expect(second).toBe(first);
+    // One lookup per bundle file (index + vendor), then served from cache
+    expect(storageService.downloadSourceMap).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips events without a version', async () => {
+    expect(await symbolicateEventStack('app-001', 'unknown', MINIFIED_STACK)).toBeNull();
+    expect(storageService.downloadSourceMap).not.toHaveBeenCalled();
+  });
+
+  it('leaves the stack minified when storage fails', async () => {
+    vi.mocked(storageService.downloadSourceMap).mockRejectedValue(new Error('GCS unavailable'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await symbolicateEventStack('app-001', '1.4.0', MINIFIED_STACK)).toBeNull();
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Ticket status webhook tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createMockIssue, resetIdCounter } from './test-utils.js';
+
+// Mock firestore
+vi.mock('../services/firestore.js', () => ({
+  findIssueByExternalTicket: vi.fn(),
+  updateIssue: vi.fn(),
+  createComment: vi.fn().mockResolvedValue({ comment_id: 'comment-1' }),
+  createAuditLog: vi.fn(),
+  getIssue: vi.fn(),
+}));
+
+// Mock config
+vi.mock('../config.js', () => ({
+  config: {
+    ticketWebhookSecret: 'test-ticket-token',
+  },
+}));
+
+import * as firestoreService from '../services/firestore.js';
+import ticketWebhookRouter from '../routes/ticket-webhooks.js';
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use('/webhooks/tickets', ticketWebhookRouter);
+  return app;
+}
+
+function linkedIssue(provider: 'jira' | 'github' | 'webhook', key: string, status = 'in_progress') {
+  return createMockIssue({
+    issue_id: 'issue-1',
+    status: status as 'in_progress',
+    external_ticket: {
+      provider,
+      key,
+      url: `https://tickets.test/${key}`,
+      created_at: '2024-01-01T00:00:00Z',
+      created_by: 'admin@test.com',
+    },
+  });
+}
+
+function jiraPayload(statusName: string, category: string, resolution?: string) {
+  return {
+    webhookEvent: 'jira:issue_updated',
+    user: { emailAddress: 'dev@test.com', displayName: 'Dev' },
+    issue: {
+      key: 'BP-7',
+      fields: {
+        status: { name: statusName, statusCategory: { key: category } },
+        resolution: resolution ? { name: resolution } : null,
+      },
+    },
+    changelog: { items: [{ field: 'status', fromString: 'In Progress', toString: statusName }] },
+  };
+}
+
+describe('Ticket Status Webhook', () => {
+  let app: express.Express;
+
+  beforeEach(() => {
+    app = createApp();
+    vi.clearAllMocks();
+    resetIdCounter();
+  });
+
+  it('should reject requests without a valid token', async () => {
+    const res = await request(app)
+      .post('/webhooks/tickets/jira?token=wrong')
+      .send(jiraPayload('Done', 'done'));
+
+    expect(res.status).toBe(401);
+    expect(firestoreService.findIssueByExternalTicket).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown providers', async () => {
+    for (const provider of ['trello', 'constructor', 'toString', '__proto__']) {
+      const res = await request(app)
+        .post(`/webhooks/tickets/${provider}?token=test-ticket-token`)
+        .send({});
+
+      expect(res.status).toBe(404);
+    }
+  });
+
+  it('should resolve the issue when the Jira ticket is done', async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(linkedIssue('jira', 'BP-7'));
+
+    const res = await request(app)
+      .post('/webhooks/tickets/jira?token=test-ticket-token')
+      .send(jiraPayload('Done', 'done', 'Fixed'));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'ok', new_status: 'resolved' });
+    expect(firestoreService.findIssueByExternalTicket).toHaveBeenCalledWith('jira', 'BP-7');
+    expect(firestoreService.updateIssue).toHaveBeenCalledWith('issue-1', {
+      status: 'resolved',
+      reason: 'Jira ticket BP-7 moved to done by dev@test.com',
+      resolution_note: 'Closed in Jira BP-7 (Fixed)',
+    });
+    expect(firestoreService.createComment).toHaveBeenCalledWith(
+      'issue-1',
+      expect.objectContaining({
+        source: 'ticket',
+        author_email: 'system',
+        body: expect.stringContaining('in_progress to resolved'),
+      })
+    );
+  });
+
+  it("should map Jira won't do resolutions to wont_fix", async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(linkedIssue('jira', 'BP-7'));
+
+    const res = await request(app)
+      .post('/webhooks/tickets/jira?token=test-ticket-token')
+      .send(jiraPayload('Closed', 'done', "Won't Do"));
+
+    expect(res.body.new_status).toBe('wont_fix');
+  });
+
+  it('should ignore Jira updates that do not change the status', async () => {
+    const payload = { ...jiraPayload('Done', 'done'), changelog: { items: [{ field: 'summary' }] } };
+
+    const res = await request(app)
+      .post('/webhooks/tickets/jira?token=test-ticket-token')
+      .send(payload);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: 'ignored', reason: 'no_status_change' });
+    expect(firestoreService.findIssueByExternalTicket).not.toHaveBeenCalled();
+  });
+
+  it('should reopen the issue when the GitHub issue is reopened', async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(
+      linkedIssue('github', 'acme/shop#42', 'resolved')
+    );
+
+    const res = await request(app)
+      .post('/webhooks/tickets/github?token=test-ticket-token')
+      .set('X-GitHub-Event', 'issues')
+      .send({
+        action: 'reopened',
+        issue: { number: 42, state_reason: 'reopened' },
+        repository: { full_name: 'acme/shop' },
+        sender: { login: 'octocat' },
+      });
+
+    expect(res.body).toMatchObject({ status: 'ok', new_status: 'triaged' });
+    expect(firestoreService.findIssueByExternalTicket).toHaveBeenCalledWith('github', 'acme/shop#42');
+    // Reopening does not set a resolution note
+    expect(vi.mocked(firestoreService.updateIssue).mock.calls[0][1]).not.toHaveProperty('resolution_note');
+  });
+
+  it('should ignore transitions not allowed from the current status', async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(
+      linkedIssue('webhook', 'TICK-1', 'wont_fix')
+    );
+
+    const res = await request(app)
+      .post('/webhooks/tickets/webhook?token=test-ticket-token')
+      .send({ key: 'TICK-1', state: 'done' });
+
+    expect(res.body).toEqual({ status: 'ignored', reason: 'transition_not_allowed' });
+    expect(firestoreService.updateIssue).not.toHaveBeenCalled();
+  });
+
+  it('should ignore transitions to the current status', async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(
+      linkedIssue('webhook', 'TICK-1', 'resolved')
+    );
+
+    const res = await request(app)
+      .post('/webhooks/tickets/webhook?token=test-ticket-token')
+      .send({ key: 'TICK-1', state: 'done' });
+
+    expect(res.body).toEqual({ status: 'ignored', reason: 'unchanged' });
+    expect(firestoreService.createComment).not.toHaveBeenCalled();
+  });
+
+  it('should ignore tickets that are not linked to an issue', async () => {
+    vi.mocked(firestoreService.findIssueByExternalTicket).mockResolvedValue(null);
+
+    const res = await request(app)
+      .post('/webhooks/tickets/webhook?token=test-ticket-token')
+      .send({ key: 'TICK-9', state: 'done' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ status: 'ignored', reason: 'issue_not_found' });
+  });
+
+  it('should ignore payloads that do not match the provider schema', async () => {
+    const jira = jiraPayload('Done', 'done');
+    const badJira = { ...jira, issue: { ...jira.issue, key: 7 } };
+
+    const responses = await Promise.all([
+      request(app).post('/webhooks/tickets/jira?token=test-ticket-token').send(badJira),
+      request(app)
+        .post('/webhooks/tickets/github?token=test-ticket-token')
+        .set('X-GitHub-Event', 'issues')
+        .send({ action: 'closed', repository: { full_name: 'org/repo' }, issue: { number: '42' } }),
+      request(app)
+        .post('/webhooks/tickets/webhook?token=test-ticket-token')
+        .send({ key: 'TICK-9', state: 'archived' }),
+    ]);
+
+    for (const res of responses) {
+      expect(res.body).toEqual({ status: 'ignored', reason: 'invalid_payload' });
+    }
+    expect(firestoreService.findIssueByExternalTicket).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Ticketing provider tests - Jira, GitHub and webhook against a local stub server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { schemas } from '@britepulse/shared';
+import { createMockApp, createMockIssue } from './test-utils.js';
+import {
+  createJiraProvider,
+  createGitHubProvider,
+  createWebhookProvider,
+  getTicketProvider,
+  pickJiraTransition,
+  signWebhookBody,
+  syncTicketStatus,
+  TicketProviderError,
+  type TicketRequest,
+} from '../services/ticketing.js';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+let nextResponse: { status: number; body: unknown } = { status: 201, body: {} };
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+      res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(nextResponse.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.BRITEPULSE_TICKET_TEST_TOKEN = 'secret-token';
+});
+
+afterAll(async () => {
+  delete process.env.BRITEPULSE_TICKET_TEST_TOKEN;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+const linkedTicket = {
+  provider: 'github' as const,
+  key: 'acme/shop#42',
+  url: 'https://github.com/acme/shop/issues/42',
+  created_at: '2024-01-01T00:00:00Z',
+  created_by: 'admin@test.com',
+};
+
+function createRequest(): TicketRequest {
+  return {
+    title: '[P1] Checkout button crashes',
+    body: '# Issue Context: Checkout button crashes',
+    issue: createMockIssue({ issue_id: 'issue-1', severity: 'P1' }),
+    app: createMockApp({ app_id: 'app-001' }),
+  };
+}
+
+describe('webhook provider', () => {
+  it('posts a signed payload and returns the ticket from the response', async () => {
+    nextResponse = { status: 200, body: { key: 'TICK-7', url: 'https://tickets.test/TICK-7' } };
+    const provider = createWebhookProvider({ url: `${baseUrl}/hook`, secret_env: 'BRITEPULSE_TICKET_TEST_TOKEN' });
+
+    const ticket = await provider.createTicket(createRequest());
+
+    expect(ticket).toEqual({ key: 'TICK-7', url: 'https://tickets.test/TICK-7' });
+    expect(received).toHaveLength(1);
+    const payload = JSON.parse(received[0].body);
+    expect(payload.type).toBe('ticket.create');
+    expect(payload.issue.issue_id).toBe('issue-1');
+    expect(received[0].headers['x-britepulse-signature']).toBe(
+      signWebhookBody(received[0].body, 'secret-token')
+    );
+  });
+
+  it('rejects responses without a key and url', async () => {
+    nextResponse = { status: 200, body: { ok: true } };
+    const provider = createWebhookProvider({ url: `${baseUrl}/hook` });
+
+    await expect(provider.createTicket(createRequest())).rejects.toBeInstanceOf(TicketProviderError);
+  });
+
+  it('surfaces HTTP errors from the receiver', async () => {
+    nextResponse = { status: 500, body: { error: 'down' } };
+    const provider = createWebhookProvider({ url: `${baseUrl}/hook` });
+
+    await expect(provider.createTicket(createRequest())).rejects.toThrow('HTTP 500');
+  });
+});
+
+describe('github provider', () => {
+  it('creates an issue in the configured repository', async () => {
+    nextResponse = { status: 201, body: { number: 45, html_url: 'https://github.test/brite/app/issues/45' } };
+    const provider = createGitHubProvider({
+      owner: 'brite',
+      repo: 'app',
+      labels: ['bug'],
+      token_env: 'BRITEPULSE_TICKET_TEST_TOKEN',
+      api_url: baseUrl,
+    });
+
+    const ticket = await provider.createTicket(createRequest());
+
+    expect(ticket).toEqual({ key: 'brite/app#45', url: 'https://github.test/brite/app/issues/45' });
+    expect(received[0].url).toBe('/repos/brite/app/issues');
+    expect(received[0].headers.authorization).toBe('Bearer secret-token');
+    expect(JSON.parse(received[0].body)).toMatchObject({ title: '[P1] Checkout button crashes', labels: ['bug'] });
+  });
+});
+
+describe('jira provider', () => {
+  it('creates an issue in the configured project', async () => {
+    nextResponse = { status: 201, body: { id: '10001', key: 'PULSE-12' } };
+    const provider = createJiraProvider({
+      base_url: baseUrl,
+      project_key: 'PULSE',
+      user_email: 'bot@brite.co',
+      api_token_env: 'BRITEPULSE_TICKET_TEST_TOKEN',
+    });
+
+    const ticket = await provider.createTicket(createRequest());
+
+    expect(ticket).toEqual({ key: 'PULSE-12', url: `${baseUrl}/browse/PULSE-12` });
+    expect(received[0].url).toBe('/rest/api/2/issue');
+    expect(JSON.parse(received[0].body).fields).toMatchObject({
+      project: { key: 'PULSE' },
+      issuetype: { name: 'Bug' },
+      labels: ['britepulse', 'severity-p1'],
+    });
+  });
+
+  it('fails before calling Jira when the token is not configured', async () => {
+    const provider = createJiraProvider({
+      base_url: baseUrl,
+      project_key: 'PULSE',
+      user_email: 'bot@brite.co',
+      api_token_env: 'BRITEPULSE_TICKET_MISSING_TOKEN',
+    });
+
+    await expect(provider.createTicket(createRequest())).rejects.toThrow('BRITEPULSE_TICKET_MISSING_TOKEN is not set');
+    expect(received).toHaveLength(0);
+  });
+
+  it('only reads credentials from env vars with the ticket prefix', async () => {
+    const config = { base_url: baseUrl, project_key: 'PULSE', user_email: 'bot@brite.co', api_token_env: 'SCHEDULER_AUTH_TOKEN' };
+    process.env.SCHEDULER_AUTH_TOKEN = 'server-secret';
+
+    expect(schemas.JiraTicketConfigSchema.safeParse(config).success).toBe(false);
+    expect(
+      schemas.WebhookTicketConfigSchema.safeParse({ url: `${baseUrl}/hook`, secret_env: 'ANTHROPIC_API_KEY' }).success
+    ).toBe(false);
+    expect(schemas.JiraTicketConfigSchema.safeParse({ ...config, api_token_env: 'BRITEPULSE_TICKET_JIRA' }).success).toBe(
+      true
+    );
+
+    // Configs stored before the schema check are refused at send time too
+    await expect(createJiraProvider(config).createTicket(createRequest())).rejects.toThrow(
+      'SCHEDULER_AUTH_TOKEN is not a ticket credential'
+    );
+    expect(received).toHaveLength(0);
+    delete process.env.SCHEDULER_AUTH_TOKEN;
+  });
+});
+
+describe('getTicketProvider', () => {
+  it('requires settings for the selected provider', () => {
+    expect(() => getTicketProvider({ provider: 'github' })).toThrow(TicketProviderError);
+    expect(getTicketProvider({ provider: 'webhook', webhook: { url: `${baseUrl}/hook` } }).type).toBe('webhook');
+  });
+});
+
+describe('status sync', () => {
+  it('closes a GitHub issue as not planned and comments the note', async () => {
+    nextResponse = { status: 200, body: {} };
+    const provider = createGitHubProvider({
+      owner: 'acme',
+      repo: 'shop',
+      token_env: 'BRITEPULSE_TICKET_TEST_TOKEN',
+      api_url: baseUrl,
+    });
+
+    await provider.updateStatus(linkedTicket, {
+      status: 'wont_fix',
+      state: 'wont_do',
+      note: 'Platform limitation',
+      issue: createMockIssue({ issue_id: 'issue-1' }),
+    });
+
+    expect(received.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'PATCH /repos/acme/shop/issues/42',
+      'POST /repos/acme/shop/issues/42/comments',
+    ]);
+    expect(JSON.parse(received[0].body)).toEqual({ state: 'closed', state_reason: 'not_planned' });
+    expect(JSON.parse(received[1].body).body).toContain('Platform limitation');
+  });
+
+  it('applies the Jira transition that leads to a done status', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        transitions: [
+          { id: '11', name: 'Start', to: { name: 'In Progress', statusCategory: { key: 'indeterminate' } } },
+          { id: '31', name: 'Finish', to: { name: 'Done', statusCategory: { key: 'done' } } },
+        ],
+      },
+    };
+    const provider = createJiraProvider({
+      base_url: baseUrl,
+      project_key: 'BP',
+      user_email: 'bot@test.com',
+      api_token_env: 'BRITEPULSE_TICKET_TEST_TOKEN',
+    });
+
+    await provider.updateStatus(
+      { ...linkedTicket, provider: 'jira', key: 'BP-7' },
+      { status: 'resolved', state: 'done', issue: createMockIssue({ issue_id: 'issue-1' }) }
+    );
+
+    expect(received.map((r) => `${r.method} ${r.url}`)).toEqual([
+      'GET /rest/api/2/issue/BP-7/transitions',
+      'POST /rest/api/2/issue/BP-7/transitions',
+      'POST /rest/api/2/issue/BP-7/comment',
+    ]);
+    expect(JSON.parse(received[1].body)).toEqual({ transition: { id: '31' } });
+  });
+
+  it('prefers a named Jira status and refuses to guess for blocked', () => {
+    const transitions = [
+      { id: '1', to: { name: 'In Progress', statusCategory: { key: 'indeterminate' } } },
+      { id: '2', to: { name: 'Blocked', statusCategory: { key: 'indeterminate' } } },
+    ];
+
+    expect(pickJiraTransition(transitions, 'blocked')?.id).toBe('2');
+    expect(pickJiraTransition(transitions, 'in_progress')?.id).toBe('1');
+    expect(pickJiraTransition(transitions.slice(0, 1), 'blocked')).toBeUndefined();
+  });
+
+  it('skips issues without a ticket and statuses with no ticket equivalent', async () => {
+    const app = createMockApp({
+      ticketing: { provider: 'webhook', webhook: { url: `${baseUrl}/hook` } },
+    });
+
+    expect(await syncTicketStatus(app, createMockIssue(), 'resolved')).toBe(false);
+    expect(
+      await syncTicketStatus(
+        app,
+        createMockIssue({ external_ticket: { ...linkedTicket, provider: 'webhook' } }),
+        'snoozed'
+      )
+    ).toBe(false);
+    expect(received).toHaveLength(0);
+  });
+
+  it('posts status changes to the webhook receiver', async () => {
+    nextResponse = { status: 200, body: {} };
+    const app = createMockApp({
+      ticketing: { provider: 'webhook', webhook: { url: `${baseUrl}/hook` } },
+    });
+    const issue = createMockIssue({
+      issue_id: 'issue-1',
+      external_ticket: { ...linkedTicket, provider: 'webhook', key: 'TICK-7' },
+    });
+
+    expect(await syncTicketStatus(app, issue, 'in_progress')).toBe(true);
+
+    const payload = JSON.parse(received[0].body);
+    expect(payload).toMatchObject({
+      type: 'ticket.status_changed',
+      ticket: { key: 'TICK-7' },
+      state: 'in_progress',
+      status: 'in_progress',
+    });
+  });
+});
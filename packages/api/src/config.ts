@@ -37,6 +37,23 @@ export const config = {
   inboundEmailDomain: process.env.INBOUND_EMAIL_DOMAIN || 'reply.britepulse.io',
   inboundEmailSecret: process.env.INBOUND_EMAIL_SECRET || '',
 
+  // Ticket status webhooks (Jira, GitHub, generic) for two-way status sync
+  ticketWebhookSecret: process.env.TICKET_WEBHOOK_SECRET || '',
+
+  // AI triage: 'anthropic' needs ANTHROPIC_API_KEY; 'stub' answers locally without a model
+  aiProvider: process.env.AI_PROVIDER || 'anthropic',
+  aiModel: process.env.AI_MODEL || 'claude-sonnet-4-20250514',
+  // USD per million tokens, overriding list pricing; models without list pricing need both
+  aiInputPricePerMtok: parseFloat(process.env.AI_INPUT_PRICE_PER_MTOK || '0'),
+  aiOutputPricePerMtok: parseFloat(process.env.AI_OUTPUT_PRICE_PER_MTOK || '0'),
+  // Deployment-wide daily limits (0 = unlimited) and how many triage jobs may run at once
+  aiDailyTokenBudget: parseInt(process.env.AI_DAILY_TOKEN_BUDGET || '0', 10),
+  aiDailyCostBudgetUsd: parseFloat(process.env.AI_DAILY_COST_BUDGET_USD || '0'),
+  aiMaxConcurrentJobs: parseInt(process.env.AI_MAX_CONCURRENT_JOBS || '2', 10),
+
+  // Local checkouts of mapped repos (<root>/<repo_id>) used to ground AI triage in code
+  codeRepoRoot: process.env.CODE_REPO_ROOT || '',
+
   // Console URL (for links in emails)
   consoleBaseUrl: process.env.CONSOLE_BASE_URL || 'http://localhost:3000',
 
@@ -83,5 +100,12 @@ export function validateConfig(): string[] {
     }
   }
 
+  const prices = [config.aiInputPricePerMtok, config.aiOutputPricePerMtok];
+  if (prices.some((price) => !(price >= 0))) {
+    errors.push('AI_INPUT_PRICE_PER_MTOK and AI_OUTPUT_PRICE_PER_MTOK must be non-negative numbers');
+  } else if (prices.filter((price) => price > 0).length === 1) {
+    errors.push('AI_INPUT_PRICE_PER_MTOK and AI_OUTPUT_PRICE_PER_MTOK must be set together');
+  }
+
   return errors;
 }
@@ -25,7 +25,10 @@ import {
   briefsRoutes,
   attachmentsRoutes,
   inboundEmailRoutes,
+  ticketWebhookRoutes,
   notificationsRoutes,
+  sourceMapRoutes,
+  jobRoutes,
 } from './routes/index.js';
 
 // Validate configuration
@@ -95,7 +98,10 @@ app.use('/events', cors({ origin: true }));
 // Request parsing
 // /events needs higher limit for base64 image attachments - must be registered FIRST
 // so that the body is parsed with the higher limit before the global parser runs
-app.use('/events', express.json({ limit: '10mb' }));
+// SDK beacons (sent on page unload) use text/plain to avoid a CORS preflight
+app.use('/events', express.json({ limit: '10mb', type: ['application/json', 'text/plain'] }));
+// Source maps for large bundles easily exceed the default limit
+app.use('/admin/apps/:app_id/sourcemaps', express.json({ limit: '50mb' }));
 app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -140,13 +146,17 @@ app.get('/test', (_req, res) => {
 app.use('/health', healthRoutes);
 app.use('/auth', authRoutes);
 app.use('/events', eventsRoutes);
+// Server-key route under /admin; must be mounted before the OAuth-only admin router
+app.use('/admin/apps/:app_id/sourcemaps', sourceMapRoutes);
 app.use('/admin', adminRoutes);
 app.use('/admin/users', usersRoutes);
 app.use('/issues', issuesRoutes);
 app.use('/briefs', briefsRoutes);
 app.use('/attachments', attachmentsRoutes);
 app.use('/webhooks/inbound-email', inboundEmailRoutes);
+app.use('/webhooks/tickets', ticketWebhookRoutes);
 app.use('/notifications', notificationsRoutes);
+app.use('/jobs', jobRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -4,8 +4,9 @@
  */
 
 import type { Request, Response, NextFunction } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import type { AuditLogInput, AuditTargetType, UserRole } from '@britepulse/shared';
+import * as firestoreService from '../services/firestore.js';
+import { emitAuditWebhookEvent } from '../services/outbound-webhooks.js';
 
 // Extend Express Request type
 declare global {
@@ -21,30 +22,46 @@ declare global {
   }
 }
 
-// In-memory store for now (will be replaced with Firestore)
-const auditLogs: AuditLogInput[] = [];
-
 /**
- * Get all audit logs (for development/testing)
+ * Create an audit log entry
+ * Persistence failures are logged but never fail the request. Audited issue
+ * changes are also sent to outbound webhook subscribers in the background.
  */
-export function getAuditLogs(): AuditLogInput[] {
-  return [...auditLogs];
+export async function createAuditLog(input: AuditLogInput): Promise<void> {
+  try {
+    const entry = await firestoreService.createAuditLog(input);
+    console.log('[Audit]', JSON.stringify(entry));
+  } catch (error) {
+    console.error('[Audit] Failed to persist audit log:', JSON.stringify(input), error);
+  }
+
+  if (input.target_type === 'issue') {
+    emitAuditWebhookEvent(input).catch((error) => {
+      console.error(`[Webhooks] Failed to emit ${input.action} for issue ${input.target_id}:`, error);
+    });
+  }
 }
 
 /**
- * Create an audit log entry
+ * Resolve the actor identifier for a request
  */
-export async function createAuditLog(input: AuditLogInput): Promise<void> {
-  const entry = {
-    ...input,
-    audit_id: uuidv4(),
-    timestamp: new Date().toISOString(),
-  };
-
-  // TODO: Store in Firestore
-  auditLogs.push(entry);
+function getActorId(req: Request): string {
+  if (req.auth?.type === 'scheduler') return 'scheduler';
+  return req.auth?.user?.email || req.auth?.appId || 'anonymous';
+}
 
-  console.log('[Audit]', JSON.stringify(entry));
+/**
+ * Resolve the app an audited action relates to
+ */
+function getAuditAppId(
+  req: Request,
+  targetType: AuditTargetType,
+  targetId: string,
+  metadata?: Record<string, unknown>
+): string | undefined {
+  if (typeof metadata?.app_id === 'string') return metadata.app_id;
+  if (targetType === 'app' && targetId !== 'all' && targetId !== 'unknown') return targetId;
+  return req.auth?.appId;
 }
 
 /**
@@ -90,12 +107,14 @@ export function autoAudit(action: string, targetType: AuditTargetType) {
           req.params.id ||
           'unknown';
 
+        const auditTargetType = req.auditContext?.targetType || targetType;
         createAuditLog({
-          actor_id: req.auth?.user?.email || req.auth?.appId || 'anonymous',
+          actor_id: getActorId(req),
           actor_role: (req.auth?.user?.role || 'system') as UserRole | 'system',
           action: req.auditContext?.action || action,
-          target_type: req.auditContext?.targetType || targetType,
+          target_type: auditTargetType,
           target_id: targetId,
+          app_id: getAuditAppId(req, auditTargetType, targetId, req.auditContext?.metadata),
           metadata: {
             ...req.auditContext?.metadata,
             ip_address: req.ip,
@@ -123,11 +142,12 @@ export async function logAuditAction(
   metadata?: Record<string, unknown>
 ): Promise<void> {
   await createAuditLog({
-    actor_id: req.auth?.user?.email || req.auth?.appId || 'anonymous',
+    actor_id: getActorId(req),
     actor_role: (req.auth?.user?.role || 'system') as UserRole | 'system',
     action,
     target_type: targetType,
     target_id: targetId,
+    app_id: getAuditAppId(req, targetType, targetId, metadata),
     metadata: {
       ...metadata,
       ip_address: req.ip,
@@ -136,47 +156,3 @@ export async function logAuditAction(
     },
   });
 }
-
-/**
- * Audit log query helper
- */
-export interface AuditLogQuery {
-  actor_id?: string;
-  target_type?: AuditTargetType;
-  target_id?: string;
-  action?: string;
-  after?: string;
-  before?: string;
-  limit?: number;
-  offset?: number;
-}
-
-export async function queryAuditLogs(query: AuditLogQuery): Promise<{
-  logs: AuditLogInput[];
-  total: number;
-}> {
-  // TODO: Implement Firestore query
-  let filtered = [...auditLogs];
-
-  if (query.actor_id) {
-    filtered = filtered.filter((log) => log.actor_id === query.actor_id);
-  }
-  if (query.target_type) {
-    filtered = filtered.filter((log) => log.target_type === query.target_type);
-  }
-  if (query.target_id) {
-    filtered = filtered.filter((log) => log.target_id === query.target_id);
-  }
-  if (query.action) {
-    filtered = filtered.filter((log) => log.action === query.action);
-  }
-
-  const total = filtered.length;
-  const offset = query.offset || 0;
-  const limit = query.limit || 50;
-
-  return {
-    logs: filtered.slice(offset, offset + limit),
-    total,
-  };
-}
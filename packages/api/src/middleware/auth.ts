@@ -17,6 +17,7 @@ declare global {
       auth?: {
         type: AuthType;
         appId?: string; // For API key auth
+        environment?: string; // Environment the API key was issued for
         user?: UserSession; // For OAuth auth
       };
     }
@@ -145,6 +146,7 @@ export function apiKeyAuth(keyType: 'public' | 'server' | 'any' = 'any') {
     req.auth = {
       type: apiKey.type === 'public' ? 'public_key' : 'server_key',
       appId: validation.appId,
+      environment: validation.environment,
     };
 
     next();
@@ -232,6 +234,28 @@ export function combinedAuth(options: {
   };
 }
 
+/**
+ * Scheduler token OR OAuth Admin middleware
+ * Used for: Cloud Scheduler jobs that admins can also trigger manually
+ */
+export function schedulerOrAdminAuth() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const schedulerToken = config.schedulerAuthToken;
+    if (schedulerToken && req.headers.authorization === `Bearer ${schedulerToken}`) {
+      req.auth = { type: 'scheduler' };
+      return next();
+    }
+
+    return oauthAuth(true)(req, res, (err?: unknown) => {
+      if (err) return next(err);
+      if (req.auth?.user?.role !== 'Admin') {
+        return next(APIError.forbidden('Requires one of: Admin'));
+      }
+      next();
+    });
+  };
+}
+
 /**
  * Get OAuth authorization URL
  */
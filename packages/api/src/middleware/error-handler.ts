@@ -47,6 +47,10 @@ export class APIError extends Error {
   static internal(message = 'Internal server error'): APIError {
     return new APIError(HTTP_STATUS.INTERNAL_ERROR, 'INTERNAL_ERROR', message);
   }
+
+  static badGateway(message: string): APIError {
+    return new APIError(HTTP_STATUS.BAD_GATEWAY, 'BAD_GATEWAY', message);
+  }
 }
 
 /**
@@ -5,11 +5,31 @@
 
 import { Router, type IRouter } from 'express';
 import { schemas } from '@britepulse/shared';
-import { asyncHandler, APIError, oauthAuth, requireAdmin, autoAudit, logAuditAction } from '../middleware/index.js';
+import {
+  asyncHandler,
+  APIError,
+  oauthAuth,
+  requireAdmin,
+  requirePermission,
+  autoAudit,
+  logAuditAction,
+} from '../middleware/index.js';
 import * as firestoreService from '../services/firestore.js';
+import {
+  csvHeader,
+  serializeAuditLogs,
+  exportErrorMarker,
+  exportTruncatedMarker,
+  getExportContentType,
+} from '../services/audit-export.js';
+import { getInstallationHealth } from '../services/installation-health.js';
+import { sendTestWebhook } from '../services/outbound-webhooks.js';
 
 const router: IRouter = Router();
 
+// Maximum rows returned by a single audit log export
+const MAX_AUDIT_EXPORT_ROWS = 10000;
+
 // All admin routes require OAuth authentication
 router.use(oauthAuth(true));
 
@@ -280,6 +300,197 @@ router.patch(
   })
 );
 
+/**
+ * PUT /admin/apps/:app_id/ticketing
+ * Configure the ticketing provider used by the create-ticket action (Admin only)
+ */
+router.put(
+  '/apps/:app_id/ticketing',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params;
+
+    const parseResult = schemas.UpdateTicketingInputSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw APIError.badRequest('Invalid request body', {
+        issues: parseResult.error.issues,
+      });
+    }
+
+    const app = await firestoreService.updateApp(app_id, { ticketing: parseResult.data });
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    await logAuditAction(req, 'update_ticketing', 'app', app_id, {
+      provider: parseResult.data.provider,
+    });
+
+    res.json({ data: app });
+  })
+);
+
+/**
+ * PUT /admin/apps/:app_id/alert-rules
+ * Replace the app's alert rules (Admin only)
+ */
+router.put(
+  '/apps/:app_id/alert-rules',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params;
+
+    const parseResult = schemas.UpdateAlertRulesInputSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw APIError.badRequest('Invalid request body', {
+        issues: parseResult.error.issues,
+      });
+    }
+
+    const app = await firestoreService.updateApp(app_id, { alert_rules: parseResult.data.rules });
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    await logAuditAction(req, 'update_alert_rules', 'app', app_id, {
+      rule_ids: parseResult.data.rules.map((r) => r.rule_id),
+    });
+
+    res.json({ data: app });
+  })
+);
+
+/**
+ * GET /admin/apps/:app_id/alert-firings
+ * Alert firing history, newest first (Admin only)
+ */
+router.get(
+  '/apps/:app_id/alert-firings',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params;
+    const ruleId = req.query.rule_id as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+    const app = await firestoreService.getApp(app_id);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    const firings = await firestoreService.getAlertFirings(app_id, { ruleId, limit });
+
+    res.json({ data: firings });
+  })
+);
+
+/**
+ * PUT /admin/apps/:app_id/webhooks
+ * Replace the app's outbound webhook subscriptions (Admin only)
+ */
+router.put(
+  '/apps/:app_id/webhooks',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params;
+
+    const parseResult = schemas.UpdateWebhooksInputSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw APIError.badRequest('Invalid request body', {
+        issues: parseResult.error.issues,
+      });
+    }
+
+    const app = await firestoreService.updateApp(app_id, { webhooks: parseResult.data.subscriptions });
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    await logAuditAction(req, 'update_webhooks', 'app', app_id, {
+      subscription_ids: parseResult.data.subscriptions.map((s) => s.subscription_id),
+    });
+
+    res.json({ data: app });
+  })
+);
+
+/**
+ * POST /admin/apps/:app_id/webhooks/:subscription_id/test
+ * Send a test event to a subscription and return the delivery (Admin only)
+ */
+router.post(
+  '/apps/:app_id/webhooks/:subscription_id/test',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id, subscription_id } = req.params;
+
+    const app = await firestoreService.getApp(app_id);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    const subscription = app.webhooks?.find((s) => s.subscription_id === subscription_id);
+    if (!subscription) {
+      throw APIError.notFound('Webhook subscription');
+    }
+
+    const delivery = await sendTestWebhook(app, subscription);
+
+    await logAuditAction(req, 'test_webhook', 'app', app_id, {
+      subscription_id,
+      delivery_id: delivery.delivery_id,
+      status: delivery.status,
+    });
+
+    res.json({ data: delivery });
+  })
+);
+
+/**
+ * GET /admin/apps/:app_id/webhook-deliveries
+ * Webhook delivery log, newest first (Admin only)
+ */
+router.get(
+  '/apps/:app_id/webhook-deliveries',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params;
+    const subscriptionId = req.query.subscription_id as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+
+    const app = await firestoreService.getApp(app_id);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    const deliveries = await firestoreService.getWebhookDeliveries(app_id, { subscriptionId, limit });
+
+    res.json({ data: deliveries });
+  })
+);
+
+/**
+ * GET /admin/ai-usage
+ * Daily AI triage tokens and estimated cost, deployment-wide and per app (Admin only)
+ */
+router.get(
+  '/ai-usage',
+  requireAdmin,
+  asyncHandler(async (req, res) => {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 7, 1), 90);
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const usage = await firestoreService.getAIUsageSince(since);
+
+    res.json({
+      data: {
+        since,
+        total: usage.filter((day) => !day.app_id),
+        apps: usage.filter((day) => day.app_id),
+      },
+    });
+  })
+);
+
 /**
  * GET /admin/apps/:app_id/health
  * Get installation health metrics for an app (Admin only)
@@ -297,26 +508,85 @@ router.get(
       throw APIError.notFound('App');
     }
 
-    // TODO: Implement actual health metrics from events
-    const health = {
-      app_id,
-      environment,
-      status: 'healthy' as const,
-      metrics: {
-        last_event_received: new Date().toISOString(),
-        events_24h: 0,
-        missing_version_rate: 0,
-        missing_trace_rate: 0,
-      },
-      issues: {
-        total_open: 0,
-        p0_open: 0,
-        p1_open: 0,
-      },
-    };
+    if (!app.environments.some((e) => e.env_name === environment)) {
+      throw APIError.badRequest(`Unknown environment: ${environment}`);
+    }
+
+    const health = await getInstallationHealth(app, environment);
 
     res.json({ data: health });
   })
 );
 
+/**
+ * GET /admin/audit-logs
+ * Browse audit logs with filters and cursor pagination (Admin only)
+ * format=csv|ndjson exports all matching logs (up to MAX_AUDIT_EXPORT_ROWS, then a truncation
+ * marker with the cursor to continue from)
+ */
+router.get(
+  '/audit-logs',
+  requirePermission('view_audit_logs'),
+  asyncHandler(async (req, res) => {
+    const parseResult = schemas.AuditLogQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw APIError.badRequest('Invalid query parameters', {
+        issues: parseResult.error.issues,
+      });
+    }
+
+    const { cursor, limit, format, ...filters } = parseResult.data;
+
+    if (format === 'json') {
+      const { logs, next_cursor } = await firestoreService.getAuditLogs(filters, { cursor, limit });
+      res.json({
+        data: logs,
+        pagination: {
+          limit,
+          next_cursor,
+        },
+      });
+      return;
+    }
+
+    // Record the export itself before streaming
+    await logAuditAction(req, 'export_audit_logs', 'user', req.auth!.user!.user_id, {
+      format,
+      filters,
+    });
+
+    const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Type', getExportContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.write(csvHeader());
+    }
+
+    let exported = 0;
+    let nextCursor: string | null | undefined = cursor;
+    try {
+      do {
+        const page = await firestoreService.getAuditLogs(filters, {
+          cursor: nextCursor || undefined,
+          limit: 100,
+        });
+        res.write(serializeAuditLogs(page.logs, format));
+        exported += page.logs.length;
+        nextCursor = page.next_cursor;
+      } while (nextCursor && exported < MAX_AUDIT_EXPORT_ROWS);
+      if (nextCursor) {
+        res.write(exportTruncatedMarker(format, exported, nextCursor));
+      }
+    } catch (error) {
+      // Headers are gone once streaming starts, so the error handler can't respond
+      if (!res.headersSent) throw error;
+      console.error(`[Admin] Audit log export failed after ${exported} rows:`, error);
+      res.write(exportErrorMarker(format, `Export stopped after ${exported} rows`));
+    }
+
+    res.end();
+  })
+);
+
 export default router;
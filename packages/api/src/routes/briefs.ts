@@ -9,9 +9,11 @@ import {
   APIError,
   oauthAuth,
   requireRole,
+  schedulerOrAdminAuth,
   logAuditAction,
 } from '../middleware/index.js';
 import * as firestoreService from '../services/firestore.js';
+import { buildWebhookEvent, emitWebhookEvent } from '../services/outbound-webhooks.js';
 import { config } from '../config.js';
 import type { App, Issue } from '@britepulse/shared';
 
@@ -69,6 +71,18 @@ async function getAppStats(_appId: string, issues: Issue[]) {
   };
 }
 
+/**
+ * Refresh rolling-window counts so issues without recent events report decayed numbers
+ */
+async function withFreshCounts(issues: Issue[]): Promise<Issue[]> {
+  return Promise.all(
+    issues.map(async (issue) => {
+      const counts = await firestoreService.refreshIssueCounts(issue.issue_id);
+      return counts ? { ...issue, counts } : issue;
+    })
+  );
+}
+
 /**
  * POST /briefs/trigger
  * Trigger daily brief generation
@@ -76,33 +90,8 @@ async function getAppStats(_appId: string, issues: Issue[]) {
  */
 router.post(
   '/trigger',
+  schedulerOrAdminAuth(),
   asyncHandler(async (req, res) => {
-    // Authenticate via bearer token (for scheduler) or OAuth (for manual)
-    const authHeader = req.headers.authorization;
-    const schedulerToken = config.schedulerAuthToken;
-
-    // Check for scheduler token auth
-    const isSchedulerAuth = schedulerToken && authHeader === `Bearer ${schedulerToken}`;
-
-    // If not scheduler auth, check OAuth
-    if (!isSchedulerAuth) {
-      // Try OAuth auth
-      const oauthMiddleware = oauthAuth(true);
-      const adminMiddleware = requireRole('Admin');
-
-      // This is a bit hacky but we need to support both auth methods
-      await new Promise<void>((resolve, reject) => {
-        oauthMiddleware(req, res, (err) => {
-          if (err) reject(err);
-          else
-            adminMiddleware(req, res, (err2) => {
-              if (err2) reject(err2);
-              else resolve();
-            });
-        });
-      });
-    }
-
     const { app_id, force = false } = req.body;
 
     // Get apps to process
@@ -136,13 +125,14 @@ router.post(
       }
 
       // Get issues for this app
-      const { issues } = await firestoreService.getIssues(
+      const { issues: storedIssues } = await firestoreService.getIssues(
         { app_id: app.app_id },
         { field: 'severity', direction: 'asc' },
         1,
         100,
         null
       );
+      const issues = await withFreshCounts(storedIssues);
 
       // Filter to non-resolved issues (resolved and wont_fix are both considered closed)
       const activeIssues = issues.filter((i) => i.status !== 'resolved' && i.status !== 'wont_fix');
@@ -163,6 +153,19 @@ router.post(
       // Run the brief
       const result = await dailyBrief.runDailyBriefForApp(app, activeIssues, briefConfig, stats);
       results.push(result);
+
+      if (result.recipientsSent > 0) {
+        try {
+          await emitWebhookEvent(
+            app,
+            buildWebhookEvent('brief.sent', app, {
+              brief: { issues_selected: result.issuesSelected, recipients_sent: result.recipientsSent },
+            })
+          );
+        } catch (error) {
+          console.error(`[Briefs] Failed to emit brief.sent webhook for ${app.app_id}:`, error);
+        }
+      }
     }
 
     res.json({
@@ -191,13 +194,14 @@ router.get(
     }
 
     // Get issues
-    const { issues } = await firestoreService.getIssues(
+    const { issues: storedIssues } = await firestoreService.getIssues(
       { app_id },
       { field: 'severity', direction: 'asc' },
       1,
       100,
       null
     );
+    const issues = await withFreshCounts(storedIssues);
 
     // Filter to non-resolved
     const activeIssues = issues.filter((i) => i.status !== 'resolved');
@@ -246,13 +250,14 @@ router.post(
     }
 
     // Get issues
-    const { issues } = await firestoreService.getIssues(
+    const { issues: storedIssues } = await firestoreService.getIssues(
       { app_id },
       { field: 'severity', direction: 'asc' },
       1,
       100,
       null
     );
+    const issues = await withFreshCounts(storedIssues);
 
     const activeIssues = issues.filter((i) => i.status !== 'resolved');
     const stats = await getAppStats(app_id, issues);
@@ -10,7 +10,15 @@ import { schemas, type Event } from '@britepulse/shared';
 import { config } from '../config.js';
 import { asyncHandler, APIError, apiKeyAuth } from '../middleware/index.js';
 import * as firestoreService from '../services/firestore.js';
-import { processEvent, type AttachmentUploadInput } from '../services/pipeline.js';
+import { processEvent, type AttachmentUploadInput, type PipelineResult } from '../services/pipeline.js';
+import { evaluateAlertRules } from '../services/alerts.js';
+import {
+  buildSdkConfig,
+  evaluateIngestion,
+  getRedactionProfile,
+  type IngestionRejectReason,
+} from '../services/ingestion-policy.js';
+import { createIngestionTally, tallyAccepted } from '../services/installation-health.js';
 
 const router: IRouter = Router();
 
@@ -45,21 +53,43 @@ router.post(
       });
     }
 
-    const { events } = parseResult.data;
+    const { events, sdk } = parseResult.data;
     const appId = req.auth!.appId!;
 
+    // Environment is determined by the install key that was used
+    const environment = req.auth!.environment;
+    if (!environment) {
+      throw APIError.unauthorized('API key is not bound to an environment');
+    }
+
+    const app = await firestoreService.getApp(appId);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    const redactionProfile = getRedactionProfile(app);
+
     // Process events
     const accepted: string[] = [];
-    const rejected: Array<{ index: number; error: string }> = [];
+    const rejected: Array<{ index: number; error: string; reason: IngestionRejectReason }> = [];
+    // Dropped on purpose by the environment or telemetry policy; not an error for the sender
+    const dropped: Array<{ index: number; reason: IngestionRejectReason; message: string }> = [];
+    const tally = createIngestionTally();
+    const results: PipelineResult[] = [];
 
     for (let i = 0; i < events.length; i++) {
       const eventInput = events[i];
 
-      try {
-        // Determine environment from API key context or event
-        // TODO: Get environment from validated API key
-        const environment = 'prod';
+      // Apply environment and telemetry policies
+      const decision = evaluateIngestion(app, environment, eventInput);
+      if (!decision.accepted) {
+        dropped.push({ index: i, reason: decision.reason, message: decision.message });
+        // Sampling drops are intentional and don't count against installation health
+        if (decision.reason !== 'sampled_out') tally.rejected++;
+        continue;
+      }
 
+      try {
         // Create event
         const timestamp = eventInput.timestamp || new Date().toISOString();
 
@@ -84,32 +114,92 @@ router.post(
         if (eventInput.trace_id) {
           event.trace_id = eventInput.trace_id;
         }
+        if (eventInput.request_metadata) {
+          event.request_metadata = eventInput.request_metadata;
+        }
+        if (eventInput.repeat_count && eventInput.repeat_count > 1) {
+          event.repeat_count = eventInput.repeat_count;
+        }
+        if (eventInput.breadcrumbs && eventInput.breadcrumbs.length > 0) {
+          event.breadcrumbs = eventInput.breadcrumbs;
+        }
 
         // Extract attachments if present
         const attachments = eventInput.attachments as AttachmentUploadInput[] | undefined;
 
         // Process through pipeline (redaction, fingerprinting, issue grouping, attachments)
-        const result = await processEvent(event, 'standard', attachments);
+        const result = await processEvent(event, redactionProfile, attachments);
         accepted.push(result.event.event_id);
+        results.push(result);
+        tallyAccepted(tally, event, result.redactionsApplied);
       } catch (error) {
         rejected.push({
           index: i,
           error: error instanceof Error ? error.message : 'Unknown error',
+          reason: 'processing_failed',
         });
+        tally.rejected++;
       }
     }
 
-    res.status(accepted.length > 0 ? 201 : 400).json({
+    // Evaluated once per batch so rate rules count the whole batch; alerts never fail ingestion
+    try {
+      await evaluateAlertRules(app, environment, results);
+    } catch (error) {
+      console.error('[Events] Failed to evaluate alert rules:', error);
+    }
+
+    // Installation health stats should never fail ingestion
+    try {
+      await firestoreService.recordIngestionStats(
+        appId,
+        environment,
+        tally,
+        sdk ? `${sdk.name}/${sdk.version}` : undefined
+      );
+    } catch (error) {
+      console.error('[Events] Failed to record ingestion stats:', error);
+    }
+
+    // A batch the policy dropped entirely was still handled; only failures make it a 400
+    const status = accepted.length > 0 ? 201 : rejected.length > 0 ? 400 : 202;
+    res.status(status).json({
       data: {
         accepted: accepted.length,
         rejected: rejected.length,
+        dropped: dropped.length,
         event_ids: accepted,
         errors: rejected.length > 0 ? rejected : undefined,
+        drops: dropped.length > 0 ? dropped : undefined,
       },
     });
   })
 );
 
+/**
+ * GET /events/config
+ * Ingestion settings for the SDK's environment, so it can drop and sample errors locally
+ */
+router.get(
+  '/config',
+  apiKeyAuth('any'),
+  asyncHandler(async (req, res) => {
+    const environment = req.auth!.environment;
+    if (!environment) {
+      throw APIError.unauthorized('API key is not bound to an environment');
+    }
+
+    const app = await firestoreService.getApp(req.auth!.appId!);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+
+    // Policy changes may take a few minutes to reach SDKs
+    res.set('Cache-Control', 'private, max-age=300');
+    res.json({ data: buildSdkConfig(app, environment) });
+  })
+);
+
 /**
  * GET /events/:event_id
  * Get a single event by ID (for debugging)
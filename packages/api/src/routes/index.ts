@@ -11,4 +11,7 @@ export { default as usersRoutes } from './users.js';
 export { default as briefsRoutes } from './briefs.js';
 export { default as attachmentsRoutes } from './attachments.js';
 export { default as inboundEmailRoutes } from './inbound-email.js';
+export { default as ticketWebhookRoutes } from './ticket-webhooks.js';
 export { default as notificationsRoutes } from './notifications.js';
+export { default as sourceMapRoutes } from './sourcemaps.js';
+export { default as jobRoutes } from './jobs.js';
@@ -4,7 +4,16 @@
  */
 
 import { Router, type IRouter } from 'express';
-import { schemas, ALLOWED_STATUS_TRANSITIONS, type IssueStatus, type Notification } from '@britepulse/shared';
+import {
+  schemas,
+  ALLOWED_STATUS_TRANSITIONS,
+  type Issue,
+  type IssueSnooze,
+  type IssueStatus,
+  type Notification,
+  type ExternalTicket,
+  type TriageMode,
+} from '@britepulse/shared';
 import {
   asyncHandler,
   APIError,
@@ -19,18 +28,44 @@ import {
 import * as firestoreService from '../services/firestore.js';
 import * as storageService from '../services/storage.js';
 import { generateContextFile, generateContextJSON } from '../services/context-generator.js';
+import { createIssueFromEvent } from '../services/pipeline.js';
+import { findSimilarIssues } from '../services/duplicates.js';
+import { decodeIssueCursor } from '../services/issue-ordering.js';
+import { isAIEnabledForEnvironment, triageOptionsForApp } from '../services/ai-policy.js';
+import { enqueueAITriageJob, isAITriageConfigured, kickAITriageQueue } from '../services/ai-jobs.js';
+import {
+  getTicketProvider,
+  buildTicketTitle,
+  syncTicketStatus,
+  TicketProviderError,
+  type TicketProvider,
+  type CreatedTicket,
+} from '../services/ticketing.js';
 import { sendResolvedNotification, sendWontFixNotification, sendCommentNotification, parseMentions, sendTeamMentionNotification, type CommentAttachmentUrl } from '../services/email.js';
 import { config } from '../config.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const router: IRouter = Router();
 
+/**
+ * Push a status change to the issue's linked ticket
+ * Runs async - a tracker outage must not block the status change
+ */
+function pushTicketStatus(issue: Issue, status: IssueStatus, note?: string): void {
+  firestoreService
+    .getApp(issue.app_id)
+    .then((app) => (app ? syncTicketStatus(app, issue, status, note) : false))
+    .catch((err) => {
+      console.error(`[Issues] Failed to sync status to ticket ${issue.external_ticket?.key}:`, err);
+    });
+}
+
 // All issue routes require OAuth authentication
 router.use(oauthAuth(true));
 
 /**
  * GET /issues
- * List issues with filtering and sorting
+ * List issues with filtering and sorting; pass pagination.next_cursor as `cursor` for the next page
  */
 router.get(
   '/',
@@ -44,17 +79,27 @@ router.get(
       });
     }
 
-    const { page, page_size, sort_by, sort_dir, ...filters } = parseResult.data;
+    const { page, page_size, cursor, sort_by, sort_dir, ...filters } = parseResult.data;
+
+    // A cursor only continues the listing it came from
+    const decodedCursor = cursor ? decodeIssueCursor(cursor) : undefined;
+    if (
+      decodedCursor === null ||
+      (decodedCursor && (decodedCursor.sort !== sort_by || decodedCursor.direction !== sort_dir))
+    ) {
+      throw APIError.badRequest('Invalid cursor for this sort order');
+    }
 
     // Get accessible app IDs based on user's role and access
     const accessibleAppIds = getAccessibleAppIds(req);
 
-    const { issues, total } = await firestoreService.getIssues(
+    const { issues, total, next_cursor } = await firestoreService.getIssues(
       filters,
       { field: sort_by, direction: sort_dir },
       page,
       page_size,
-      accessibleAppIds
+      accessibleAppIds,
+      decodedCursor
     );
 
     res.json({
@@ -63,7 +108,8 @@ router.get(
         total,
         page,
         page_size,
-        has_more: page * page_size < total,
+        has_more: next_cursor !== null,
+        next_cursor,
       },
     });
   })
@@ -142,21 +188,50 @@ router.post(
     }
 
     // Include resolution_note when resolving or marking won't fix
-    const updatePayload: { status: IssueStatus; reason: string; resolution_note?: string } = {
+    const updatePayload: {
+      status: IssueStatus;
+      reason: string;
+      resolution_note?: string;
+      resolved_by?: string;
+      snooze?: IssueSnooze;
+    } = {
       status: status as IssueStatus,
       reason,
     };
     if ((status === 'resolved' || status === 'wont_fix') && resolution_note) {
       updatePayload.resolution_note = resolution_note;
     }
+    // Remembered so the resolver hears about it if the error comes back
+    if (status === 'resolved') {
+      updatePayload.resolved_by = req.auth!.user!.email;
+    }
+    // Wake conditions are checked by the snooze evaluator (POST /jobs/snooze/trigger)
+    if (status === 'snoozed' && req.body.snooze !== undefined) {
+      const snoozeResult = schemas.SnoozeConditionSchema.safeParse(req.body.snooze);
+      if (!snoozeResult.success) {
+        throw APIError.badRequest('Invalid snooze condition', { issues: snoozeResult.error.issues });
+      }
+      const condition = snoozeResult.data;
+      if (condition.until && new Date(condition.until).getTime() <= Date.now()) {
+        throw APIError.badRequest('snooze.until must be in the future');
+      }
+      updatePayload.snooze = {
+        ...condition,
+        snoozed_at: new Date().toISOString(),
+        snoozed_by: req.auth!.user!.email,
+        ...(condition.new_version && { versions_at_snooze: issue.versions || [] }),
+      };
+    }
 
     const updatedIssue = await firestoreService.updateIssue(issue_id, updatePayload);
 
     await logAuditAction(req, 'change_status', 'issue', issue_id, {
+      app_id: issue.app_id,
       previous_value: issue.status,
       new_value: status,
       reason,
       ...(resolution_note && { resolution_note }),
+      ...(updatePayload.snooze && { snooze: updatePayload.snooze }),
     });
 
     // Send email notification when issue is resolved and we have reporter email
@@ -181,6 +256,10 @@ router.post(
       }
     }
 
+    if (issue.external_ticket) {
+      pushTicketStatus(issue, status as IssueStatus, resolution_note || reason);
+    }
+
     res.json({ data: updatedIssue });
   })
 );
@@ -221,6 +300,7 @@ router.post(
     });
 
     await logAuditAction(req, 'change_severity', 'issue', issue_id, {
+      app_id: issue.app_id,
       previous_value: issue.severity,
       new_value: severity,
       reason,
@@ -272,6 +352,7 @@ router.post(
     });
 
     await logAuditAction(req, 'assign_issue', 'issue', issue_id, {
+      app_id: issue.app_id,
       assigned_from: issue.routing?.assigned_to,
       assigned_to,
       reason,
@@ -310,6 +391,7 @@ router.post(
     // TODO: Send notification to reporter if contactable
 
     await logAuditAction(req, 'request_info', 'issue', issue_id, {
+      app_id: issue.app_id,
       message,
       reason,
     });
@@ -325,7 +407,8 @@ router.post(
 
 /**
  * POST /issues/:issue_id/actions/create-ticket
- * Create a ticket in external system (stub in v1)
+ * Create a ticket in the app's configured ticketing system
+ * An issue can only ever have one external ticket
  */
 router.post(
   '/:issue_id/actions/create-ticket',
@@ -349,18 +432,75 @@ router.post(
       throw APIError.forbidden('Access to this issue is denied');
     }
 
-    // TODO: Integrate with ticketing system
-    // For v1, just record the action
+    if (issue.external_ticket) {
+      throw APIError.conflict(`Issue already has ticket ${issue.external_ticket.key}`);
+    }
+
+    const app = await firestoreService.getApp(issue.app_id);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+    if (!app.ticketing) {
+      throw APIError.badRequest('No ticketing provider is configured for this app');
+    }
+
+    let provider: TicketProvider;
+    try {
+      provider = getTicketProvider(app.ticketing);
+    } catch (error) {
+      throw APIError.badRequest(error instanceof Error ? error.message : 'Invalid ticketing configuration');
+    }
+
+    const claim = await firestoreService.claimIssueTicket(issue_id);
+    if (claim === 'not_found') {
+      throw APIError.notFound('Issue');
+    }
+    if (claim === 'exists') {
+      throw APIError.conflict('Issue already has a ticket');
+    }
+    if (claim === 'pending') {
+      throw APIError.conflict('Ticket creation is already in progress for this issue');
+    }
+
+    let ticket: CreatedTicket;
+    try {
+      const events = await firestoreService.getEventsByIssue(issue_id, 20);
+      ticket = await provider.createTicket({
+        title: buildTicketTitle(issue),
+        body: generateContextFile({ issue, events, app }),
+        issue,
+        app,
+      });
+    } catch (error) {
+      await firestoreService.releaseIssueTicketClaim(issue_id);
+      if (error instanceof TicketProviderError) {
+        throw APIError.badGateway(`Ticket creation failed (${error.message})`);
+      }
+      throw error;
+    }
+
+    const externalTicket: ExternalTicket = {
+      provider: provider.type,
+      key: ticket.key,
+      url: ticket.url,
+      created_at: new Date().toISOString(),
+      created_by: req.auth!.user!.email,
+    };
+    await firestoreService.setIssueExternalTicket(issue_id, externalTicket);
 
     await logAuditAction(req, 'create_ticket', 'issue', issue_id, {
+      app_id: issue.app_id,
       reason,
+      provider: provider.type,
+      ticket_key: ticket.key,
     });
 
     res.json({
       data: {
         success: true,
-        message: 'Ticket creation recorded (integration pending)',
-        ticket_url: null,
+        message: `Created ticket ${ticket.key}`,
+        ticket_url: ticket.url,
+        external_ticket: externalTicket,
       },
     });
   })
@@ -400,16 +540,23 @@ router.post(
       );
     }
 
+    // Same as set-status: the latest resolver hears about a regression
     const updatedIssue = await firestoreService.updateIssue(issue_id, {
       status: 'resolved',
       reason,
+      resolved_by: req.auth!.user!.email,
     });
 
     await logAuditAction(req, 'resolve_issue', 'issue', issue_id, {
+      app_id: issue.app_id,
       previous_status: issue.status,
       reason,
     });
 
+    if (issue.external_ticket) {
+      pushTicketStatus(issue, 'resolved', reason);
+    }
+
     res.json({ data: updatedIssue });
   })
 );
@@ -480,6 +627,7 @@ router.post(
     });
 
     await logAuditAction(req, 'add_comment', 'issue', issue_id, {
+      app_id: issue.app_id,
       comment_id: comment.comment_id,
     });
 
@@ -648,6 +796,7 @@ router.post(
     const signedUrl = await storageService.generateSignedUrl(storagePath);
 
     await logAuditAction(req, 'upload_comment_image', 'issue', issue_id, {
+      app_id: issue.app_id,
       attachment_id: attachmentId,
     });
 
@@ -752,6 +901,7 @@ router.get(
 
     // Log context download
     await logAuditAction(req, 'download_context', 'issue', issue_id, {
+      app_id: issue.app_id,
       format,
     });
 
@@ -769,6 +919,34 @@ router.get(
   })
 );
 
+/**
+ * GET /issues/:issue_id/similar
+ * Open issues that look like near-duplicates of this one (different fingerprint, similar events)
+ */
+router.get(
+  '/:issue_id/similar',
+  requirePermission('view_issue_detail'),
+  asyncHandler(async (req, res) => {
+    const { issue_id } = req.params;
+
+    const issue = await firestoreService.getIssue(issue_id);
+    if (!issue) {
+      throw APIError.notFound('Issue');
+    }
+
+    // Check app access
+    const accessibleAppIds = getAccessibleAppIds(req);
+    if (accessibleAppIds && !accessibleAppIds.includes(issue.app_id)) {
+      throw APIError.forbidden('Access to this issue is denied');
+    }
+
+    const app = await firestoreService.getApp(issue.app_id);
+    const similar = await findSimilarIssues(issue, app);
+
+    res.json({ data: similar });
+  })
+);
+
 /**
  * POST /issues/:issue_id/actions/merge
  * Merge source issues into this target issue
@@ -817,6 +995,7 @@ router.post(
     const updatedIssue = await firestoreService.mergeIssues(targetIssueId, source_issue_ids);
 
     await logAuditAction(req, 'merge_issues', 'issue', targetIssueId, {
+      app_id: targetIssue.app_id,
       source_issue_ids,
       reason,
     });
@@ -825,16 +1004,84 @@ router.post(
   })
 );
 
+/**
+ * POST /issues/:issue_id/events/:event_id/actions/split
+ * Move a wrongly grouped feedback event out into its own new issue
+ */
+router.post(
+  '/:issue_id/events/:event_id/actions/split',
+  requirePermission('change_status'),
+  asyncHandler(async (req, res) => {
+    const { issue_id, event_id } = req.params;
+
+    const issue = await firestoreService.getIssue(issue_id);
+    if (!issue) {
+      throw APIError.notFound('Issue');
+    }
+
+    // Check app access
+    const accessibleAppIds = getAccessibleAppIds(req);
+    if (accessibleAppIds && !accessibleAppIds.includes(issue.app_id)) {
+      throw APIError.forbidden('Access to this issue is denied');
+    }
+
+    if (!issue.event_refs.includes(event_id)) {
+      throw APIError.notFound('Event in this issue');
+    }
+    if (issue.event_refs.length === 1) {
+      throw APIError.badRequest('Cannot split the only event out of an issue');
+    }
+
+    const event = await firestoreService.getEvent(event_id);
+    if (!event) {
+      throw APIError.notFound('Event');
+    }
+    if (event.event_type !== 'feedback') {
+      throw APIError.badRequest('Only feedback events can be split out; error events are grouped by fingerprint');
+    }
+
+    await firestoreService.removeEventFromIssue(issue_id, event);
+    const newIssue = await createIssueFromEvent(event, null);
+
+    if (event.feedback_match) {
+      await firestoreService.updateEvent(event_id, {
+        feedback_match: {
+          ...event.feedback_match,
+          split_at: new Date().toISOString(),
+          split_by: req.auth!.user!.email,
+        },
+      });
+    }
+
+    await logAuditAction(req, 'split_event', 'issue', issue_id, {
+      app_id: issue.app_id,
+      event_id,
+      new_issue_id: newIssue.issue_id,
+      ...(event.feedback_match && {
+        match_score: event.feedback_match.score,
+        match_signals: event.feedback_match.signals,
+      }),
+    });
+
+    res.status(201).json({ data: newIssue });
+  })
+);
+
 /**
  * POST /issues/:issue_id/actions/triage
- * Manually trigger AI triage analysis
+ * Queue an AI triage run; the job's progress shows on the issue as ai_job
+ * mode 'feedback' runs the feedback analysis; it is the default for non-bug issues
  */
 router.post(
   '/:issue_id/actions/triage',
   requirePermission('change_status'),
   asyncHandler(async (req, res) => {
     const { issue_id } = req.params;
-    const { force = false } = req.body;
+    const { force = false, mode: requestedMode } = req.body;
+
+    if (requestedMode !== undefined && requestedMode !== 'bug' && requestedMode !== 'feedback') {
+      throw APIError.badRequest('mode must be bug or feedback');
+    }
 
     const issue = await firestoreService.getIssue(issue_id);
     if (!issue) {
@@ -848,36 +1095,38 @@ router.post(
     }
 
     // Check if AI triage is configured
-    if (!config.anthropicApiKey) {
+    if (!isAITriageConfigured()) {
       throw APIError.badRequest('AI triage is not configured on this server');
     }
 
-    // Lazy load AI triage module
-    const aiTriage = await import('@britepulse/ai-triage');
-    aiTriage.initClient(config.anthropicApiKey);
+    const mode: TriageMode = requestedMode ?? (issue.issue_type === 'bug' ? 'bug' : 'feedback');
 
-    // Get events and app
-    const events = await firestoreService.getEventsByIssue(issue_id, 20);
+    // force skips the eligibility thresholds, never the environment switch or input restrictions
     const app = await firestoreService.getApp(issue.app_id);
+    if (!isAIEnabledForEnvironment(app, issue.environment)) {
+      throw APIError.badRequest(`AI triage is disabled for the ${issue.environment} environment`);
+    }
+    if (mode === 'feedback' && !triageOptionsForApp(app).allowedInputs.includes('sanitized_feedback')) {
+      throw APIError.badRequest("This app's AI policy doesn't allow sending feedback to the model");
+    }
 
-    // Run triage
-    const result = await aiTriage.runTriage(issue, events, app?.name || 'Unknown', {
-      force,
+    const { job, created } = await enqueueAITriageJob(issue, mode, {
+      trigger: 'manual',
+      force: Boolean(force),
+      requestedBy: req.auth!.user!.email,
     });
 
-    if (result.success && result.analysis) {
-      // Store analysis on issue
-      await firestoreService.updateIssue(issue_id, {
-        ai_analysis: result.analysis,
-      });
-
+    if (created) {
       await logAuditAction(req, 'run_triage', 'issue', issue_id, {
-        analysis_id: result.analysis.analysis_id,
-        confidence: result.analysis.confidence,
+        app_id: issue.app_id,
+        mode,
+        job_id: job.job_id,
+        force: Boolean(force),
       });
+      kickAITriageQueue();
     }
 
-    res.json({ data: result });
+    res.status(202).json({ data: { job } });
   })
 );
 
@@ -0,0 +1,178 @@
+/**
+ * Scheduled job routes
+ * One trigger endpoint per background job, called by Cloud Scheduler or manually by an Admin
+ */
+
+import { Router, type IRouter, type Request } from 'express';
+import type { App } from '@britepulse/shared';
+import {
+  asyncHandler,
+  APIError,
+  schedulerOrAdminAuth,
+  logAuditAction,
+} from '../middleware/index.js';
+import * as firestoreService from '../services/firestore.js';
+import { runRetentionSweep } from '../services/retention.js';
+import { runSilentInstallationCheck } from '../services/installation-health.js';
+import { runDuplicateDetection } from '../services/duplicates.js';
+import { runPriorityRefresh } from '../services/priority-refresh.js';
+import { runSnoozeEvaluation } from '../services/snooze.js';
+import { retryWebhookDeliveries } from '../services/outbound-webhooks.js';
+import { processAITriageJobs } from '../services/ai-jobs.js';
+
+const router: IRouter = Router();
+
+type JobRunner = (req: Request) => Promise<unknown>;
+
+/**
+ * Purge expired events, attachments and closed issues
+ * Body: { app_id?: string, dry_run?: boolean }
+ * Runs over all apps resume from the app the last one was cut off at
+ */
+async function retention(req: Request): Promise<unknown> {
+  const { app_id, dry_run = false } = req.body || {};
+
+  if (typeof dry_run !== 'boolean') {
+    throw APIError.badRequest('dry_run must be a boolean');
+  }
+
+  // Get apps to process
+  let apps: App[];
+  if (app_id) {
+    const app = await firestoreService.getApp(app_id);
+    if (!app) {
+      throw APIError.notFound('App');
+    }
+    apps = [app];
+  } else {
+    apps = await firestoreService.getApps();
+  }
+
+  const resumeAppId = app_id ? null : await firestoreService.getRetentionResumeAppId();
+  const result = await runRetentionSweep({ apps, dryRun: dry_run, resumeAppId });
+  // Dry runs delete nothing, so they leave the next real run's starting point alone
+  if (!app_id && !dry_run) {
+    await firestoreService.setRetentionResumeAppId(result.resume_app_id);
+  }
+
+  await logAuditAction(req, 'run_retention_sweep', 'app', app_id || 'all', {
+    run_id: result.run_id,
+    dry_run,
+    truncated: result.truncated,
+    apps_processed: apps.length,
+    events_deleted: result.totals.events,
+    attachments_deleted: result.totals.attachments,
+    issues_deleted: result.totals.issues,
+    errors: result.totals.errors,
+  });
+
+  return result;
+}
+
+/**
+ * Check all apps for silent installations and notify their owners
+ */
+async function installationHealth(): Promise<unknown> {
+  const apps = await firestoreService.getApps();
+  const result = await runSilentInstallationCheck({ apps });
+
+  console.log(
+    `[Health] Checked ${result.checked} installations: ${result.silent.length} silent, ${result.notified} notifications sent`
+  );
+  return result;
+}
+
+/**
+ * Find near-duplicate issues across all apps and auto-merge where enabled
+ */
+async function duplicates(): Promise<unknown> {
+  const apps = await firestoreService.getApps();
+  const result = await runDuplicateDetection({ apps });
+
+  console.log(
+    `[Duplicates] Compared ${result.issues_compared} issues in ${result.checked} environments: ` +
+      `${result.candidates.length} candidate pairs, ${result.auto_merged.length} auto-merged`
+  );
+  return result;
+}
+
+/**
+ * Decay counts and rescore recently seen open issues
+ * Body { backfill: true } also scores issues stored before priority_score was persisted;
+ * until then getIssues sorts lists containing them in memory, so none are left out
+ */
+async function priority(req: Request): Promise<unknown> {
+  const backfill = req.body?.backfill === true;
+  const apps = await firestoreService.getApps();
+  const result = await runPriorityRefresh({ apps, backfill });
+
+  console.log(
+    `[Priority] Rescored ${result.refreshed} issues in ${result.checked} environments` +
+      (backfill ? `, backfilled ${result.backfilled}` : '')
+  );
+  return result;
+}
+
+/**
+ * Wake snoozed issues whose date, threshold or new-version condition has fired
+ */
+async function snooze(): Promise<unknown> {
+  const result = await runSnoozeEvaluation();
+
+  console.log(`[Snooze] Checked ${result.checked} snoozed issues, woke ${result.woken.length}`);
+  return result;
+}
+
+/**
+ * Retry pending webhook deliveries whose backoff has elapsed
+ */
+async function webhookRetries(): Promise<unknown> {
+  const result = await retryWebhookDeliveries();
+
+  console.log(
+    `[Webhooks] Retried ${result.checked} deliveries: ${result.delivered} delivered, ${result.failed} failed`
+  );
+  return result;
+}
+
+/**
+ * Run due triage jobs, requeue ones whose worker died, and defer ones over budget
+ */
+async function aiTriage(): Promise<unknown> {
+  const result = await processAITriageJobs();
+
+  console.log(
+    `[AIJobs] Checked ${result.checked} jobs: ${result.succeeded} succeeded, ${result.skipped} skipped, ` +
+      `${result.failed} failed, ${result.retried} retrying, ${result.deferred} deferred, ${result.requeued} requeued`
+  );
+  return result;
+}
+
+const JOBS = new Map<string, JobRunner>([
+  ['retention', retention],
+  ['installation-health', installationHealth],
+  ['duplicates', duplicates],
+  ['priority', priority],
+  ['snooze', snooze],
+  ['webhook-retries', webhookRetries],
+  ['ai-triage', aiTriage],
+]);
+
+/**
+ * POST /jobs/:name/trigger
+ * Run one scheduled job and return its result
+ */
+router.post(
+  '/:name/trigger',
+  schedulerOrAdminAuth(),
+  asyncHandler(async (req, res) => {
+    const run = JOBS.get(req.params.name);
+    if (!run) {
+      throw APIError.notFound('Job');
+    }
+
+    res.json({ data: await run(req) });
+  })
+);
+
+export default router;
@@ -0,0 +1,68 @@
+/**
+ * Source map routes
+ * POST /admin/apps/:app_id/sourcemaps - Upload source maps for a release (server key, from CI)
+ */
+
+import { Router, type IRouter } from 'express';
+import { schemas, type SourceMapUploadResponse } from '@britepulse/shared';
+import { asyncHandler, APIError, apiKeyAuth } from '../middleware/index.js';
+import * as storageService from '../services/storage.js';
+import { clearSourceMapCache } from '../services/symbolication.js';
+
+const router: IRouter = Router({ mergeParams: true });
+
+/**
+ * POST /admin/apps/:app_id/sourcemaps
+ * Store source maps keyed by the version the SDK reports with each event
+ * Re-uploading a file for the same version replaces it
+ */
+router.post(
+  '/',
+  apiKeyAuth('server'),
+  asyncHandler(async (req, res) => {
+    const { app_id } = req.params as { app_id: string };
+
+    if (req.auth!.appId !== app_id) {
+      throw APIError.forbidden('API key does not belong to this app');
+    }
+
+    const parseResult = schemas.SourceMapUploadSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw APIError.badRequest('Invalid request body', {
+        issues: parseResult.error.issues,
+      });
+    }
+
+    if (!storageService.isStorageConfigured()) {
+      throw APIError.internal('Storage not configured');
+    }
+
+    const { version, files } = parseResult.data;
+    const stored: SourceMapUploadResponse['files'] = [];
+
+    for (const { file, source_map } of files) {
+      const content = typeof source_map === 'string' ? source_map : JSON.stringify(source_map);
+
+      let parsed: { mappings?: unknown };
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        throw APIError.badRequest(`Source map for ${file} is not valid JSON`);
+      }
+      if (typeof parsed.mappings !== 'string') {
+        throw APIError.badRequest(`Source map for ${file} has no mappings`);
+      }
+
+      const storagePath = storageService.generateSourceMapPath(app_id, version, file);
+      await storageService.uploadSourceMap(storagePath, content);
+      stored.push({ file, storage_path: storagePath });
+    }
+
+    clearSourceMapCache(app_id, version);
+
+    const response: SourceMapUploadResponse = { version, files: stored };
+    res.status(201).json({ data: response });
+  })
+);
+
+export default router;
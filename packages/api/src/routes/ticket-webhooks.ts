@@ -0,0 +1,272 @@
+/**
+ * Ticket Webhook Route
+ * Receives status changes from linked tickets (Jira, GitHub Issues, generic webhook)
+ * and applies them to the BritePulse issue
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { Router, type IRouter } from 'express';
+import { z } from 'zod';
+import {
+  ALLOWED_STATUS_TRANSITIONS,
+  type IssueStatus,
+  type TicketProviderType,
+} from '@britepulse/shared';
+import { config } from '../config.js';
+import { createAuditLog } from '../middleware/index.js';
+import * as firestoreService from '../services/firestore.js';
+import { ISSUE_STATUS_FOR_TICKET_STATE, type TicketState } from '../services/ticketing.js';
+
+const router: IRouter = Router();
+
+const PROVIDER_LABELS: Record<TicketProviderType, string> = {
+  jira: 'Jira',
+  github: 'GitHub',
+  webhook: 'Ticket webhook',
+};
+
+const TICKET_STATES = ['todo', 'in_progress', 'blocked', 'done', 'wont_do'] as const satisfies readonly TicketState[];
+
+// Jira resolutions that mean the work will not be done
+const JIRA_WONT_DO_RESOLUTIONS = /won'?t|not a bug|duplicate|cannot reproduce|declined|rejected|obsolete/i;
+
+/**
+ * Ticket transition normalized across providers
+ */
+interface TicketTransition {
+  key: string;
+  state: TicketState;
+  resolution?: string;
+  actor?: string;
+}
+
+type ParseResult = { transition: TicketTransition } | { ignored: string };
+
+// Payload schemas list only the fields we read; anything else is stripped
+const JiraPayloadSchema = z.object({
+  issue: z.object({
+    key: z.string().min(1),
+    fields: z.object({
+      status: z.object({
+        name: z.string().nullish(),
+        statusCategory: z.object({ key: z.string().nullish() }).nullish(),
+      }),
+      resolution: z.object({ name: z.string().nullish() }).nullish(),
+    }),
+  }),
+  changelog: z.object({ items: z.array(z.object({ field: z.string().nullish() })).default([]) }).nullish(),
+  user: z.object({ emailAddress: z.string().nullish(), displayName: z.string().nullish() }).nullish(),
+});
+
+const GitHubIssuesPayloadSchema = z.object({
+  action: z.string(),
+  repository: z.object({ full_name: z.string().min(1) }),
+  issue: z.object({ number: z.number().int(), state_reason: z.string().nullish() }),
+  sender: z.object({ login: z.string().nullish() }).nullish(),
+});
+
+const GenericPayloadSchema = z.object({
+  key: z.string().min(1),
+  state: z.enum(TICKET_STATES),
+  resolution: z.string().optional(),
+  actor: z.string().optional(),
+});
+
+/**
+ * Jira "issue updated" webhook
+ * Only status changes are applied; the target state comes from the status category
+ */
+function parseJiraPayload(body: unknown): ParseResult {
+  const result = JiraPayloadSchema.safeParse(body);
+  if (!result.success) return { ignored: 'invalid_payload' };
+  const { issue, changelog, user } = result.data;
+
+  if (changelog && !changelog.items.some((item) => item.field === 'status')) {
+    return { ignored: 'no_status_change' };
+  }
+
+  const resolution = issue.fields.resolution?.name || undefined;
+  const statusName = issue.fields.status.name || '';
+  let state: TicketState;
+  switch (issue.fields.status.statusCategory?.key) {
+    case 'new':
+      state = 'todo';
+      break;
+    case 'indeterminate':
+      state = /block/i.test(statusName) ? 'blocked' : 'in_progress';
+      break;
+    case 'done':
+      state = JIRA_WONT_DO_RESOLUTIONS.test(resolution || statusName) ? 'wont_do' : 'done';
+      break;
+    default:
+      return { ignored: 'unknown_status' };
+  }
+
+  return {
+    transition: {
+      key: issue.key,
+      state,
+      resolution: resolution || statusName || undefined,
+      actor: user?.emailAddress || user?.displayName || undefined,
+    },
+  };
+}
+
+/**
+ * GitHub "issues" webhook (closed / reopened)
+ */
+function parseGitHubPayload(body: unknown, event: string | undefined): ParseResult {
+  if (event && event !== 'issues') return { ignored: 'unsupported_event' };
+
+  const result = GitHubIssuesPayloadSchema.safeParse(body);
+  if (!result.success) return { ignored: 'invalid_payload' };
+  const { action, repository, issue, sender } = result.data;
+  if (action !== 'closed' && action !== 'reopened') {
+    return { ignored: 'no_status_change' };
+  }
+
+  const notPlanned = issue.state_reason === 'not_planned';
+  return {
+    transition: {
+      key: `${repository.full_name}#${issue.number}`,
+      state: action === 'reopened' ? 'todo' : notPlanned ? 'wont_do' : 'done',
+      resolution: action === 'closed' ? (notPlanned ? 'not planned' : 'completed') : undefined,
+      actor: sender?.login || undefined,
+    },
+  };
+}
+
+/**
+ * Generic webhook: { key, state, resolution?, actor? }
+ */
+function parseGenericPayload(body: unknown): ParseResult {
+  const result = GenericPayloadSchema.safeParse(body);
+  if (!result.success) return { ignored: 'invalid_payload' };
+  return { transition: result.data };
+}
+
+function parsePayload(
+  provider: TicketProviderType,
+  body: unknown,
+  githubEvent: string | undefined
+): ParseResult {
+  switch (provider) {
+    case 'jira':
+      return parseJiraPayload(body);
+    case 'github':
+      return parseGitHubPayload(body, githubEvent);
+    case 'webhook':
+      return parseGenericPayload(body);
+  }
+}
+
+/**
+ * Compare the query string token in constant time
+ * Both sides are hashed first so the comparison doesn't leak the secret's length
+ */
+function isValidToken(token: unknown): boolean {
+  if (!config.ticketWebhookSecret || typeof token !== 'string') return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(config.ticketWebhookSecret));
+}
+
+/**
+ * POST /webhooks/tickets/:provider
+ * Receives ticket status changes from jira, github or a generic webhook
+ * Authenticated via query string token (not OAuth)
+ */
+router.post('/:provider', async (req, res) => {
+  try {
+    if (!isValidToken(req.query.token)) {
+      console.warn('[TicketWebhook] Invalid or missing webhook token');
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const provider = req.params.provider as TicketProviderType;
+    // Own keys only: 'constructor' and friends are on every object
+    if (!Object.hasOwn(PROVIDER_LABELS, provider)) {
+      res.status(404).json({ error: 'Unknown ticket provider' });
+      return;
+    }
+
+    const parsed = parsePayload(provider, req.body || {}, req.get('X-GitHub-Event'));
+    if ('ignored' in parsed) {
+      res.status(200).json({ status: 'ignored', reason: parsed.ignored });
+      return;
+    }
+    const { transition } = parsed;
+
+    const issue = await firestoreService.findIssueByExternalTicket(provider, transition.key);
+    if (!issue) {
+      console.warn(`[TicketWebhook] No issue linked to ${provider} ticket ${transition.key}`);
+      // Return 200 so the tracker doesn't retry
+      res.status(200).json({ status: 'ignored', reason: 'issue_not_found' });
+      return;
+    }
+
+    const status = ISSUE_STATUS_FOR_TICKET_STATE[transition.state];
+    if (issue.status === status) {
+      res.status(200).json({ status: 'ignored', reason: 'unchanged' });
+      return;
+    }
+
+    const allowedTransitions = ALLOWED_STATUS_TRANSITIONS[issue.status as IssueStatus];
+    if (!allowedTransitions.includes(status)) {
+      console.warn(
+        `[TicketWebhook] ${transition.key}: cannot transition ${issue.issue_id} from ${issue.status} to ${status}`
+      );
+      res.status(200).json({ status: 'ignored', reason: 'transition_not_allowed' });
+      return;
+    }
+
+    const label = PROVIDER_LABELS[provider];
+    const actor = transition.actor || label;
+    const closed = status === 'resolved' || status === 'wont_fix';
+    const reason = `${label} ticket ${transition.key} moved to ${transition.state} by ${actor}`;
+
+    await firestoreService.updateIssue(issue.issue_id, {
+      status,
+      reason,
+      ...(closed && {
+        resolution_note: transition.resolution
+          ? `Closed in ${label} ${transition.key} (${transition.resolution})`
+          : `Closed in ${label} ${transition.key}`,
+      }),
+    });
+
+    const comment = await firestoreService.createComment(issue.issue_id, {
+      issue_id: issue.issue_id,
+      author_email: 'system',
+      author_name: label,
+      body: `Status changed from ${issue.status} to ${status} by ${actor} in ${transition.key}` +
+        (transition.resolution ? ` (${transition.resolution})` : ''),
+      source: 'ticket',
+    });
+
+    await createAuditLog({
+      actor_id: `${provider}-webhook`,
+      actor_role: 'system',
+      action: 'change_status',
+      target_type: 'issue',
+      target_id: issue.issue_id,
+      app_id: issue.app_id,
+      metadata: {
+        previous_value: issue.status,
+        new_value: status,
+        reason,
+        ticket_key: transition.key,
+      },
+    });
+
+    console.log(`[TicketWebhook] ${transition.key}: issue ${issue.issue_id} ${issue.status} -> ${status}`);
+
+    res.status(200).json({ status: 'ok', issue_id: issue.issue_id, new_status: status, comment_id: comment.comment_id });
+  } catch (error) {
+    console.error('[TicketWebhook] Error processing ticket webhook:', error);
+    // Let the tracker retry transient failures
+    res.status(500).json({ status: 'error' });
+  }
+});
+
+export default router;
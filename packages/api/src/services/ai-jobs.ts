@@ -0,0 +1,490 @@
+/**
+ * AI Triage Jobs
+ * Persistent queue for bug triage and feedback analysis. Jobs are claimed under a
+ * lease, capped by a deployment-wide concurrency limit and daily token/cost
+ * budgets, retried with backoff, and every model call is added to daily usage
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ModelPricing } from '@britepulse/ai-triage';
+import type {
+  AIJobStatus,
+  AIJobTrigger,
+  AITriageJob,
+  AIUsage,
+  AIUsageDay,
+  AIAnalysis,
+  App,
+  FeedbackAnalysis,
+  FeedbackTriageResponse,
+  Issue,
+  IssueAIJob,
+  IssueUpdateInput,
+  TriageMode,
+  TriageResponse,
+  WebhookEvent,
+} from '@britepulse/shared';
+import { retrieveCodeExcerpts } from './code-retrieval.js';
+import { findRelatedIssueCandidates } from './feedback-grouping.js';
+import { isAIEnabledForEnvironment, resolveAIPolicy, triageOptionsForApp } from './ai-policy.js';
+import { analysisSummary, emitIssueWebhookEvent, feedbackAnalysisSummary } from './outbound-webhooks.js';
+import * as firestoreService from './firestore.js';
+import { config } from '../config.js';
+
+type AITriageModule = typeof import('@britepulse/ai-triage');
+
+// A run that hasn't finished by then is assumed dead and requeued
+const LEASE_MS = 5 * 60 * 1000;
+
+// Wait before each retry (1m, 5m, 30m); the job fails after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30];
+export const MAX_JOB_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// After a failed or skipped job, new events wait this long before queueing another
+const INGEST_BACKOFF_MS: Partial<Record<AIJobStatus, number>> = {
+  failed: 6 * 60 * 60 * 1000,
+  skipped: 60 * 60 * 1000,
+};
+
+const BUG_EVENT_SAMPLE = 20;
+// Larger than bug triage: reporter role segments are counted from these
+const FEEDBACK_EVENT_SAMPLE = 50;
+
+/**
+ * Result of a queue run
+ */
+export interface AIJobRunResult {
+  checked: number;
+  succeeded: number;
+  skipped: number;
+  failed: number;
+  retried: number;
+  deferred: number;
+  requeued: number;
+  errors: string[];
+}
+
+// Lazy load AI triage to avoid startup issues if not configured
+let aiTriageInitialized = false;
+let aiTriageModule: AITriageModule | null = null;
+
+/**
+ * Whether this server can run AI triage at all
+ */
+export function isAITriageConfigured(): boolean {
+  return config.aiProvider === 'stub' || !!config.anthropicApiKey;
+}
+
+/**
+ * Load the triage module and set up the configured provider
+ */
+export async function loadAITriage(): Promise<AITriageModule | null> {
+  if (aiTriageInitialized) return aiTriageModule;
+
+  aiTriageInitialized = true;
+
+  if (!isAITriageConfigured()) {
+    console.log('[AIJobs] AI triage disabled - no ANTHROPIC_API_KEY configured');
+    return null;
+  }
+
+  try {
+    aiTriageModule = await import('@britepulse/ai-triage');
+    if (config.aiProvider === 'stub') {
+      aiTriageModule.setProvider(aiTriageModule.createStubProvider());
+    } else {
+      aiTriageModule.initClient(config.anthropicApiKey, config.aiModel, configuredPricing());
+    }
+    console.log(`[AIJobs] AI triage initialized (${config.aiProvider})`);
+    return aiTriageModule;
+  } catch (error) {
+    // Includes models without list pricing: their cost would go uncounted against budgets
+    console.error('[AIJobs] Failed to initialize AI triage, so it is disabled:', error);
+    aiTriageModule = null;
+    return null;
+  }
+}
+
+/**
+ * Model pricing from the environment, when both prices are set
+ */
+function configuredPricing(): ModelPricing | undefined {
+  const { aiInputPricePerMtok: input, aiOutputPricePerMtok: output } = config;
+  return input > 0 && output > 0 ? { input_per_mtok: input, output_per_mtok: output } : undefined;
+}
+
+function utcDate(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(now: Date): string {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.toISOString();
+}
+
+/**
+ * When to try a job again after its nth failed attempt, or null once attempts are used up
+ */
+export function nextJobAttemptAt(attempts: number, now: Date): string | null {
+  const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay * 60 * 1000).toISOString();
+}
+
+/**
+ * Job fields kept on the issue
+ */
+function issueJobState(job: AITriageJob, now: Date): IssueAIJob {
+  return {
+    job_id: job.job_id,
+    mode: job.mode,
+    status: job.status,
+    updated_at: now.toISOString(),
+    ...(job.deferred_reason && { deferred_reason: job.deferred_reason }),
+    ...(job.skipped_reason && { skipped_reason: job.skipped_reason }),
+    ...(job.error && { error: job.error }),
+  };
+}
+
+/**
+ * Queue a triage job for an issue
+ * An issue has at most one queued or running job per mode; asking again returns that one.
+ * Ingest doesn't queue again until the backoff after a failed or skipped job has passed.
+ */
+export async function enqueueAITriageJob(
+  issue: Issue,
+  mode: TriageMode,
+  options: { trigger: AIJobTrigger; force?: boolean; requestedBy?: string; now?: Date }
+): Promise<{ job: IssueAIJob; created: boolean }> {
+  const { trigger, force = false, requestedBy, now = new Date() } = options;
+
+  const active = issue.ai_job;
+  if (active && active.mode === mode && (active.status === 'queued' || active.status === 'running')) {
+    return { job: active, created: false };
+  }
+  const backoffMs = active?.mode === mode ? INGEST_BACKOFF_MS[active.status] : undefined;
+  if (
+    trigger === 'ingest' &&
+    active &&
+    backoffMs !== undefined &&
+    now.getTime() < new Date(active.updated_at).getTime() + backoffMs
+  ) {
+    return { job: active, created: false };
+  }
+
+  const job: AITriageJob = {
+    job_id: uuidv4(),
+    app_id: issue.app_id,
+    issue_id: issue.issue_id,
+    environment: issue.environment,
+    mode,
+    trigger,
+    ...(requestedBy && { requested_by: requestedBy }),
+    force,
+    status: 'queued',
+    attempts: 0,
+    next_attempt_at: now.toISOString(),
+    created_at: now.toISOString(),
+  };
+  await firestoreService.createAITriageJob(job);
+
+  const state = issueJobState(job, now);
+  await firestoreService.setIssueAIJob(issue.issue_id, state);
+  return { job: state, created: true };
+}
+
+function overBudget(
+  usage: AIUsageDay | null,
+  label: string,
+  tokenBudget: number | undefined,
+  costBudget: number | undefined
+): string | null {
+  if (!usage) return null;
+  const tokens = usage.input_tokens + usage.output_tokens;
+  if (tokenBudget && tokens >= tokenBudget) {
+    return `${label} daily token budget (${tokenBudget}) used up`;
+  }
+  if (costBudget && usage.cost_usd >= costBudget) {
+    return `${label} daily cost budget ($${costBudget.toFixed(2)}) used up`;
+  }
+  return null;
+}
+
+/**
+ * Why jobs for an app can't run today, if the deployment's or the app's budget is used up
+ * Budgets are checked before a call, so a day can overshoot by the calls already running
+ */
+export async function budgetExceededReason(app: App | null, appId: string, now: Date): Promise<string | null> {
+  const date = utcDate(now);
+
+  if (config.aiDailyTokenBudget > 0 || config.aiDailyCostBudgetUsd > 0) {
+    const reason = overBudget(
+      await firestoreService.getAIUsage(date),
+      'Deployment',
+      config.aiDailyTokenBudget,
+      config.aiDailyCostBudgetUsd
+    );
+    if (reason) return reason;
+  }
+
+  const policy = resolveAIPolicy(app);
+  if (policy.daily_token_budget || policy.daily_cost_budget_usd) {
+    return overBudget(
+      await firestoreService.getAIUsage(date, appId),
+      'App',
+      policy.daily_token_budget,
+      policy.daily_cost_budget_usd
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Call the model for a job's mode, with the app's AI policy applied
+ */
+async function runModel(
+  aiTriage: AITriageModule,
+  job: AITriageJob,
+  issue: Issue,
+  app: App | null
+): Promise<TriageResponse | FeedbackTriageResponse> {
+  const { eligibility, allowedInputs } = triageOptionsForApp(app);
+  const appName = app?.name || 'Unknown App';
+
+  if (job.mode === 'feedback') {
+    if (!allowedInputs.includes('sanitized_feedback')) {
+      return { success: false, skipped_reason: "The app's AI policy doesn't allow sending feedback to the model" };
+    }
+    const events = await firestoreService.getEventsByIssue(issue.issue_id, FEEDBACK_EVENT_SAMPLE);
+    const relatedIssues = await findRelatedIssueCandidates(issue, app);
+    return aiTriage.runFeedbackTriage(issue, events, appName, {
+      relatedIssues,
+      force: job.force,
+      eligibility,
+      allowedInputs,
+    });
+  }
+
+  const events = await firestoreService.getEventsByIssue(issue.issue_id, BUG_EVENT_SAMPLE);
+  // Ground the analysis in the mapped repos' code, when checkouts are available and allowed
+  const codeExcerpts = allowedInputs.includes('retrieved_code_excerpts')
+    ? await retrieveCodeExcerpts(app, events)
+    : [];
+  return aiTriage.runTriage(issue, events, appName, {
+    codeExcerpts,
+    force: job.force,
+    eligibility,
+    allowedInputs,
+  });
+}
+
+/**
+ * Run a claimed job and store the outcome on the job and the issue
+ * Errors are retried with backoff; skips (ineligible, policy) are final.
+ * Times are taken when the model call returns, which can be well after the claim.
+ */
+export async function runAITriageJob(aiTriage: AITriageModule, job: AITriageJob): Promise<AITriageJob> {
+  let issue: Issue | null = null;
+  let usage: AIUsage | undefined;
+  let analysisUpdate: Pick<IssueUpdateInput, 'ai_analysis' | 'ai_feedback_analysis'> = {};
+  let summary: WebhookEvent['ai_analysis'];
+  let outcome: Pick<AITriageJob, 'status'> &
+    Partial<Pick<AITriageJob, 'next_attempt_at' | 'analysis_id' | 'skipped_reason' | 'error'>>;
+
+  try {
+    issue = await firestoreService.getIssue(job.issue_id);
+    const app = issue ? await firestoreService.getApp(job.app_id) : null;
+
+    if (!issue) {
+      outcome = { status: 'skipped', skipped_reason: 'Issue no longer exists' };
+    } else if (!isAIEnabledForEnvironment(app, job.environment)) {
+      outcome = { status: 'skipped', skipped_reason: `AI triage is disabled for the ${job.environment} environment` };
+    } else {
+      const result = await runModel(aiTriage, job, issue, app);
+      usage = result.usage;
+
+      if (result.success && result.analysis) {
+        if (job.mode === 'feedback') {
+          const analysis = result.analysis as FeedbackAnalysis;
+          analysisUpdate = { ai_feedback_analysis: analysis };
+          summary = feedbackAnalysisSummary(analysis);
+        } else {
+          const analysis = result.analysis as AIAnalysis;
+          analysisUpdate = { ai_analysis: analysis };
+          summary = analysisSummary(analysis);
+        }
+        outcome = { status: 'succeeded', analysis_id: result.analysis.analysis_id };
+      } else if (result.skipped_reason) {
+        outcome = { status: 'skipped', skipped_reason: result.skipped_reason };
+      } else {
+        throw new Error(result.error || 'Triage failed');
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = nextJobAttemptAt(job.attempts, new Date());
+    outcome = retryAt ? { status: 'queued', next_attempt_at: retryAt, error: message } : { status: 'failed', error: message };
+  }
+
+  const now = new Date();
+  // Failed calls still cost tokens
+  if (usage) {
+    await firestoreService.recordAIUsage(utcDate(now), job.app_id, usage);
+  }
+
+  const finished = outcome.status !== 'queued';
+  await firestoreService.updateAITriageJob(job.job_id, {
+    ...outcome,
+    ...(usage && { usage }),
+    ...(finished && { finished_at: now.toISOString() }),
+  });
+
+  const { lease_expires_at: _lease, error: _error, ...rest } = job;
+  const updated: AITriageJob = {
+    ...rest,
+    ...outcome,
+    ...(usage && { usage }),
+    ...(finished && { finished_at: now.toISOString() }),
+  };
+
+  if (issue) {
+    await firestoreService.setIssueAIJob(issue.issue_id, issueJobState(updated, now), analysisUpdate);
+    console.log(`[AIJobs] ${job.mode} job ${job.job_id} for issue ${issue.issue_id}: ${updated.status}`);
+  }
+
+  if (issue && summary) {
+    emitIssueWebhookEvent('issue.ai_analysis_ready', issue, { ai_analysis: summary }).catch((error) => {
+      console.error('[AIJobs] Failed to emit issue.ai_analysis_ready webhook:', error);
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Put a job back in the queue (or fail it, once out of attempts) after its lease ran out
+ */
+async function requeueExpiredJob(job: AITriageJob, now: Date): Promise<AITriageJob> {
+  const error = 'Run did not finish before its lease expired';
+  const retry = job.attempts < MAX_JOB_ATTEMPTS;
+  const outcome = retry
+    ? { status: 'queued' as const, next_attempt_at: now.toISOString(), error }
+    : { status: 'failed' as const, finished_at: now.toISOString(), error };
+
+  await firestoreService.updateAITriageJob(job.job_id, outcome);
+  const { lease_expires_at: _lease, ...rest } = job;
+  const updated: AITriageJob = { ...rest, ...outcome };
+  await firestoreService.setIssueAIJob(job.issue_id, issueJobState(updated, now));
+  return updated;
+}
+
+/**
+ * Run due jobs, up to the free concurrency slots across all instances
+ * Called by the scheduler and kicked after enqueueing
+ */
+export async function processAITriageJobs(options: { now?: Date } = {}): Promise<AIJobRunResult> {
+  const { now = new Date() } = options;
+  const result: AIJobRunResult = {
+    checked: 0,
+    succeeded: 0,
+    skipped: 0,
+    failed: 0,
+    retried: 0,
+    deferred: 0,
+    requeued: 0,
+    errors: [],
+  };
+
+  const aiTriage = await loadAITriage();
+  if (!aiTriage) return result;
+
+  for (const job of await firestoreService.getExpiredAITriageJobs(now)) {
+    try {
+      const updated = await requeueExpiredJob(job, now);
+      if (updated.status === 'queued') result.requeued++;
+      else result.failed++;
+    } catch (error) {
+      result.errors.push(`${job.job_id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const maxConcurrent = config.aiMaxConcurrentJobs;
+  if (maxConcurrent <= 0) return result;
+
+  // Fetch extra in case some are deferred for budget
+  const due = await firestoreService.getDueAITriageJobs(now, maxConcurrent * 4);
+  const apps = new Map<string, App | null>();
+  const runs: Promise<void>[] = [];
+
+  for (const job of due) {
+    if (runs.length >= maxConcurrent) break;
+    result.checked++;
+
+    try {
+      if (!apps.has(job.app_id)) {
+        apps.set(job.app_id, await firestoreService.getApp(job.app_id));
+      }
+
+      const deferredReason = await budgetExceededReason(apps.get(job.app_id) ?? null, job.app_id, now);
+      if (deferredReason) {
+        const nextAttemptAt = nextUtcMidnight(now);
+        await firestoreService.updateAITriageJob(job.job_id, {
+          status: 'queued',
+          next_attempt_at: nextAttemptAt,
+          deferred_reason: deferredReason,
+        });
+        await firestoreService.setIssueAIJob(
+          job.issue_id,
+          issueJobState({ ...job, next_attempt_at: nextAttemptAt, deferred_reason: deferredReason }, now)
+        );
+        result.deferred++;
+        continue;
+      }
+
+      const claim = await firestoreService.claimAITriageJob(job.job_id, now, LEASE_MS, maxConcurrent);
+      if (!claim.job) {
+        if (claim.slotsFull) break;
+        continue;
+      }
+      const claimed = claim.job;
+      await firestoreService.setIssueAIJob(claimed.issue_id, issueJobState(claimed, now));
+
+      runs.push(
+        runAITriageJob(aiTriage, claimed).then(
+          (finished) => {
+            if (finished.status === 'succeeded') result.succeeded++;
+            else if (finished.status === 'skipped') result.skipped++;
+            else if (finished.status === 'failed') result.failed++;
+            else result.retried++;
+          },
+          (error) => {
+            console.error(`[AIJobs] Job ${job.job_id} failed to record its outcome:`, error);
+            result.errors.push(`${job.job_id}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        )
+      );
+    } catch (error) {
+      console.error(`[AIJobs] Failed to start job ${job.job_id}:`, error);
+      result.errors.push(`${job.job_id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  await Promise.all(runs);
+  return result;
+}
+
+let draining: Promise<unknown> | null = null;
+
+/**
+ * Start a queue run in the background unless this process already has one going
+ * Jobs queued during a run wait for the next one (at the latest, the scheduler's)
+ */
+export function kickAITriageQueue(): void {
+  if (draining) return;
+  draining = processAITriageJobs()
+    .catch((error) => console.error('[AIJobs] Queue run failed:', error))
+    .finally(() => {
+      draining = null;
+    });
+}
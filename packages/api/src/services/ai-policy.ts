@@ -0,0 +1,40 @@
+/**
+ * AI Policy Service
+ * Resolves an app's AI triage policy: which environments may use AI, the
+ * eligibility thresholds, and which evidence categories may reach the model
+ */
+
+import { DEFAULT_POLICY, type AIInputCategory, type AIPolicy, type App } from '@britepulse/shared';
+import type { TriageEligibility } from '@britepulse/ai-triage';
+
+/**
+ * Resolve AI policy for an app, filling unset fields from the defaults
+ */
+export function resolveAIPolicy(app: App | null): AIPolicy {
+  return { ...DEFAULT_POLICY.ai_policy, ...app?.policies?.ai_policy };
+}
+
+/**
+ * Whether AI triage may run for an environment (EnvironmentConfig.ai_enabled, default true)
+ */
+export function isAIEnabledForEnvironment(app: App | null, environment: string): boolean {
+  const env = app?.environments.find((e) => e.env_name === environment);
+  return env?.ai_enabled !== false;
+}
+
+/**
+ * Eligibility thresholds and allowed inputs to pass to runTriage
+ */
+export function triageOptionsForApp(app: App | null): {
+  eligibility: TriageEligibility;
+  allowedInputs: AIInputCategory[];
+} {
+  const policy = resolveAIPolicy(app);
+  return {
+    eligibility: {
+      minSeverity: policy.eligible_severity_min,
+      minRecurrence: policy.eligible_recurrence_min,
+    },
+    allowedInputs: policy.model_allowed_inputs,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Alert Rules Service
+ * Evaluates an app's alert rules against freshly ingested events and delivers
+ * firings to the in-app notification feed and by email
+ */
+
+import {
+  DEFAULT_ALERT_RULE_SETTINGS,
+  type AlertFiring,
+  type AlertRule,
+  type App,
+  type EventType,
+  type Issue,
+  type Severity,
+} from '@britepulse/shared';
+import type { PipelineResult } from './pipeline.js';
+import { matchesRoutePattern } from './ingestion-policy.js';
+import { sendAlertNotification } from './email.js';
+import * as firestoreService from './firestore.js';
+
+const SEVERITY_ORDER: Severity[] = ['P0', 'P1', 'P2', 'P3'];
+const ERROR_EVENT_TYPES: EventType[] = ['frontend_error', 'backend_error'];
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A rule match waiting for its cooldown check
+ */
+interface AlertCandidate {
+  dedupe_key: string;
+  issue?: Issue;
+  message: string;
+}
+
+/**
+ * Enabled rules that apply to an environment
+ */
+export function getActiveAlertRules(app: App, environment: string): AlertRule[] {
+  return (app.alert_rules || []).filter(
+    (rule) => rule.enabled && (!rule.environments?.length || rule.environments.includes(environment))
+  );
+}
+
+function isAtLeast(severity: Severity, min: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) <= SEVERITY_ORDER.indexOf(min);
+}
+
+/**
+ * Distinct issues touched by a batch, keeping the latest state of each
+ */
+function touchedIssues(results: PipelineResult[]): Issue[] {
+  const issues = new Map<string, Issue>();
+  for (const result of results) {
+    issues.set(result.issue.issue_id, result.issue);
+  }
+  return [...issues.values()];
+}
+
+/**
+ * Rules that fire on something a single event did (created or reopened an issue)
+ */
+export function matchEventRule(rule: AlertRule, results: PipelineResult[]): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+
+  for (const { issue, event, isNewIssue, isRegression } of results) {
+    if (rule.type === 'new_issue' && isNewIssue) {
+      const min = rule.severity_min || DEFAULT_ALERT_RULE_SETTINGS.severity_min;
+      if (isAtLeast(issue.severity, min)) {
+        candidates.push({ dedupe_key: issue.issue_id, issue, message: `New ${issue.severity} issue: ${issue.title}` });
+      }
+    } else if (rule.type === 'new_issue_route' && isNewIssue && rule.route_pattern) {
+      if (matchesRoutePattern(event.route_or_url, rule.route_pattern)) {
+        candidates.push({
+          dedupe_key: issue.issue_id,
+          issue,
+          message: `New issue on ${event.route_or_url}: ${issue.title}`,
+        });
+      }
+    } else if (rule.type === 'regression' && isRegression) {
+      candidates.push({
+        dedupe_key: issue.issue_id,
+        issue,
+        message: `Resolved issue reappeared in ${event.version}: ${issue.title}`,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Issues in the batch that occurred more than the rule's threshold within its window
+ * Only error issues have fingerprints to count events by
+ */
+async function matchOccurrenceRule(
+  rule: AlertRule,
+  app: App,
+  environment: string,
+  results: PipelineResult[],
+  now: Date
+): Promise<AlertCandidate[]> {
+  const threshold = rule.threshold ?? DEFAULT_ALERT_RULE_SETTINGS.threshold;
+  const windowMinutes = rule.window_minutes || DEFAULT_ALERT_RULE_SETTINGS.window_minutes;
+  const since = new Date(now.getTime() - windowMinutes * MINUTE_MS).toISOString();
+  const candidates: AlertCandidate[] = [];
+
+  for (const issue of touchedIssues(results)) {
+    // Windows are at most 24h, so an issue under the threshold for the day can't be over it now
+    if (!issue.primary_fingerprint || issue.counts.occurrences_24h <= threshold) continue;
+
+    const count = await firestoreService.countEventsInRange(
+      app.app_id,
+      environment,
+      { since },
+      { fingerprint: issue.primary_fingerprint }
+    );
+    if (count > threshold) {
+      candidates.push({
+        dedupe_key: issue.issue_id,
+        issue,
+        message: `${issue.title} occurred ${count} times in the last ${windowMinutes} minutes (threshold ${threshold})`,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Compare the error count in the rule's window with the rate over the baseline period before it
+ */
+async function matchErrorRateRule(
+  rule: AlertRule,
+  app: App,
+  environment: string,
+  results: PipelineResult[],
+  now: Date
+): Promise<AlertCandidate[]> {
+  if (!results.some((r) => ERROR_EVENT_TYPES.includes(r.event.event_type))) return [];
+
+  const windowMinutes = rule.window_minutes || DEFAULT_ALERT_RULE_SETTINGS.window_minutes;
+  const baselineHours = rule.baseline_hours || DEFAULT_ALERT_RULE_SETTINGS.baseline_hours;
+  const multiplier = rule.spike_multiplier || DEFAULT_ALERT_RULE_SETTINGS.spike_multiplier;
+  const minErrors = rule.threshold ?? DEFAULT_ALERT_RULE_SETTINGS.threshold;
+
+  const windowStart = new Date(now.getTime() - windowMinutes * MINUTE_MS);
+  const current = await firestoreService.countEventsInRange(
+    app.app_id,
+    environment,
+    { since: windowStart.toISOString() },
+    { eventTypes: ERROR_EVENT_TYPES }
+  );
+  // A handful of errors on a quiet app is not a spike worth paging on
+  if (current < minErrors) return [];
+
+  const baselineStart = new Date(windowStart.getTime() - baselineHours * 60 * MINUTE_MS);
+  const baseline = await firestoreService.countEventsInRange(
+    app.app_id,
+    environment,
+    { since: baselineStart.toISOString(), until: windowStart.toISOString() },
+    { eventTypes: ERROR_EVENT_TYPES }
+  );
+  const expected = (baseline * windowMinutes) / (baselineHours * 60);
+  if (current < expected * multiplier) return [];
+
+  return [
+    {
+      dedupe_key: environment,
+      message:
+        `${current} errors in the last ${windowMinutes} minutes, ` +
+        `${expected > 0 ? `${(current / expected).toFixed(1)}x` : 'up from none in'} the ${baselineHours}h baseline`,
+    },
+  ];
+}
+
+/**
+ * Send a firing to its recipients on each of the rule's channels
+ */
+async function deliverFiring(firing: AlertFiring, app: App): Promise<void> {
+  if (firing.channels.includes('in_app')) {
+    await firestoreService.createNotifications(
+      firing.recipients.map((email) => ({
+        recipient_email: email,
+        type: 'alert' as const,
+        ...(firing.issue_id && { issue_id: firing.issue_id }),
+        ...(firing.issue_title && { issue_title: firing.issue_title }),
+        app_id: firing.app_id,
+        environment: firing.environment,
+        actor_email: 'system',
+        actor_name: firing.rule_name,
+        body_preview: firing.message,
+      }))
+    );
+  }
+
+  if (firing.channels.includes('email')) {
+    for (const email of firing.recipients) {
+      await sendAlertNotification(firing, app, email);
+    }
+  }
+}
+
+/**
+ * Evaluate an app's alert rules against one ingest batch
+ * Returns the firings that passed their cooldown and were delivered
+ */
+export async function evaluateAlertRules(
+  app: App,
+  environment: string,
+  results: PipelineResult[],
+  now: Date = new Date()
+): Promise<AlertFiring[]> {
+  const rules = getActiveAlertRules(app, environment);
+  if (rules.length === 0 || results.length === 0) return [];
+
+  const firings: AlertFiring[] = [];
+
+  for (const rule of rules) {
+    // One broken rule shouldn't silence the others
+    try {
+      let candidates: AlertCandidate[];
+      if (rule.type === 'occurrence_threshold') {
+        candidates = await matchOccurrenceRule(rule, app, environment, results, now);
+      } else if (rule.type === 'error_rate_spike') {
+        candidates = await matchErrorRateRule(rule, app, environment, results, now);
+      } else {
+        candidates = matchEventRule(rule, results);
+      }
+
+      const recipients = rule.recipients?.length ? rule.recipients : app.owners.po_emails;
+
+      for (const candidate of candidates) {
+        const firing = await firestoreService.recordAlertFiring(
+          {
+            app_id: app.app_id,
+            environment,
+            rule_id: rule.rule_id,
+            rule_name: rule.name,
+            rule_type: rule.type,
+            dedupe_key: candidate.dedupe_key,
+            ...(candidate.issue && { issue_id: candidate.issue.issue_id, issue_title: candidate.issue.title }),
+            message: candidate.message,
+            recipients,
+            channels: rule.channels,
+          },
+          rule.cooldown_minutes,
+          now
+        );
+        if (!firing) continue;
+
+        firings.push(firing);
+        await deliverFiring(firing, app);
+      }
+    } catch (error) {
+      console.error(`[Alerts] Rule ${rule.rule_id} failed for app ${app.app_id}:`, error);
+    }
+  }
+
+  return firings;
+}
@@ -0,0 +1,88 @@
+/**
+ * Audit Log Export Service
+ * Serializes audit logs to CSV and NDJSON for compliance exports
+ */
+
+import type { AuditLog, AuditLogExportFormat } from '@britepulse/shared';
+
+/**
+ * CSV columns, in output order
+ */
+const CSV_COLUMNS = [
+  'timestamp',
+  'audit_id',
+  'actor_id',
+  'actor_role',
+  'action',
+  'target_type',
+  'target_id',
+  'app_id',
+  'metadata',
+] as const;
+
+// Leading characters spreadsheets read as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a value for CSV (RFC 4180)
+ * Values that would start a formula get a leading ' so spreadsheets show them as text
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let str = typeof value === 'string' ? value : JSON.stringify(value);
+  if (FORMULA_PREFIX.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * CSV header row
+ */
+export function csvHeader(): string {
+  return CSV_COLUMNS.join(',') + '\n';
+}
+
+/**
+ * Serialize a page of audit logs in the requested format
+ */
+export function serializeAuditLogs(logs: AuditLog[], format: AuditLogExportFormat): string {
+  if (format === 'ndjson') {
+    return logs.map((log) => JSON.stringify(log) + '\n').join('');
+  }
+  return logs
+    .map((log) => CSV_COLUMNS.map((column) => escapeCsvValue(log[column])).join(',') + '\n')
+    .join('');
+}
+
+/**
+ * Last line of an export that failed partway, once rows were already sent
+ * Readers can tell a cut-short file from a complete one
+ */
+export function exportErrorMarker(format: AuditLogExportFormat, message: string): string {
+  if (format === 'ndjson') {
+    return JSON.stringify({ export_error: message }) + '\n';
+  }
+  return `${escapeCsvValue('#EXPORT_ERROR')},${escapeCsvValue(message)}\n`;
+}
+
+/**
+ * Last line of an export that hit the row cap with logs still to come
+ * Passing next_cursor as cursor exports the rest
+ */
+export function exportTruncatedMarker(format: AuditLogExportFormat, rows: number, nextCursor: string): string {
+  if (format === 'ndjson') {
+    return JSON.stringify({ export_truncated: true, rows, next_cursor: nextCursor }) + '\n';
+  }
+  return `${escapeCsvValue('#EXPORT_TRUNCATED')},${escapeCsvValue(`rows=${rows}`)},${escapeCsvValue(`next_cursor=${nextCursor}`)}\n`;
+}
+
+/**
+ * Content type for an export format
+ */
+export function getExportContentType(format: AuditLogExportFormat): string {
+  return format === 'ndjson' ? 'application/x-ndjson' : 'text/csv; charset=utf-8';
+}
@@ -0,0 +1,56 @@
+/**
+ * Audit Log Query Planning
+ * getAuditLogs sends at most one equality filter to Firestore, one with a
+ * (field, timestamp, audit_id) index, and checks the rest in memory, so any
+ * combination of filters works without an index per combination
+ */
+
+import type { AuditLog, AuditLogFilters } from '@britepulse/shared';
+
+export type AuditEqualityField = 'target_id' | 'actor_id' | 'app_id' | 'action' | 'target_type' | 'actor_role';
+
+/**
+ * Indexed equality filters, most selective first
+ */
+export const AUDIT_INDEXED_FIELDS: AuditEqualityField[] = [
+  'target_id',
+  'actor_id',
+  'app_id',
+  'action',
+  'target_type',
+  'actor_role',
+];
+
+export interface AuditLogQueryPlan {
+  indexed?: { field: AuditEqualityField; value: string };
+  inMemory: Partial<Record<AuditEqualityField, string>>;
+}
+
+/**
+ * Pick the filter Firestore applies; the timestamp range always goes to Firestore
+ */
+export function planAuditLogQuery(filters: AuditLogFilters): AuditLogQueryPlan {
+  const plan: AuditLogQueryPlan = { inMemory: {} };
+  for (const field of AUDIT_INDEXED_FIELDS) {
+    const value = filters[field];
+    if (!value) continue;
+    if (!plan.indexed) {
+      plan.indexed = { field, value };
+    } else {
+      plan.inMemory[field] = value;
+    }
+  }
+  return plan;
+}
+
+/**
+ * Check the filters Firestore didn't apply
+ */
+export function matchesAuditLogFilters(
+  log: AuditLog,
+  inMemory: AuditLogQueryPlan['inMemory']
+): boolean {
+  return Object.entries(inMemory).every(
+    ([field, value]) => log[field as AuditEqualityField] === value
+  );
+}
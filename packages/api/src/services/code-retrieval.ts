@@ -0,0 +1,353 @@
+/**
+ * Code Retrieval Service
+ * Finds code excerpts in an app's mapped repositories to ground AI triage,
+ * using symbolicated stack frames and affected routes
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { App, CodeExcerpt, Event, RepoMapping } from '@britepulse/shared';
+import { parseStackFrame } from './symbolication.js';
+import { config } from '../config.js';
+
+const SOURCE_EXTENSIONS = new Set([
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte',
+  '.py', '.go', '.java', '.kt', '.rb', '.php', '.cs', '.swift',
+]);
+const IGNORED_DIRS = new Set(['.git', 'node_modules', 'dist', 'build', 'coverage', '.next', 'vendor', '__pycache__']);
+
+const MAX_INDEXED_FILES = 50_000;
+const MAX_FILE_BYTES = 512 * 1024;
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+const MAX_EXCERPTS = 5;
+const MAX_ROUTE_EXCERPTS = 2;
+const FRAME_CONTEXT_LINES = 12;
+const ROUTE_EXCERPT_LINES = 40;
+const MAX_FRAMES_PER_STACK = 10;
+
+/**
+ * Source files in one repo checkout, looked up by file name
+ */
+export interface RepoIndex {
+  repo_id: string;
+  root: string;
+  files: string[]; // repo-relative, forward slashes
+  byName: Map<string, string[]>;
+}
+
+/**
+ * A file region worth showing the model, before it is read from disk
+ */
+interface Candidate {
+  repo: RepoIndex;
+  file: string;
+  line?: number; // frame line; route matches start at the top of the file
+  score: number;
+  reasons: Set<string>;
+}
+
+const indexCache = new Map<string, { index: RepoIndex; expiresAt: number }>();
+
+/**
+ * Repo-relative form of a stack frame path, or null for frames outside the app's code
+ * (https://host/src/x.ts, webpack://app/./src/x.ts, /srv/app/src/x.ts -> src/x.ts-style suffixes)
+ */
+export function normalizeFramePath(file: string): string | null {
+  if (/node_modules|^node:|^internal\/|<anonymous>|^native$/.test(file)) return null;
+
+  const cleaned = file
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\\/g, '/')
+    .replace(/^(?:\.\.?\/|\/|~\/)+/, '');
+
+  return cleaned || null;
+}
+
+/**
+ * Meaningful path segments of a route (/orders/8812/checkout?step=2 -> ['orders', 'checkout'])
+ * IDs and very short segments say nothing about which file handles the route
+ */
+export function routeTokens(route: string): string[] {
+  const pathname = route.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/[?#].*$/, '');
+  return pathname
+    .split('/')
+    .map((segment) => segment.toLowerCase())
+    .filter((segment) => segment.length > 2 && !/^\d+$|^[0-9a-f-]{16,}$|^:/.test(segment));
+}
+
+/**
+ * Directories a mapping may be read from; traversal outside the repo is refused
+ */
+function scopeDirs(mapping: RepoMapping): string[] {
+  return (mapping.path_scopes || [])
+    .map((scope) => scope.replace(/^\/+|\/+$/g, ''))
+    .filter((scope) => !scope.split('/').includes('..'));
+}
+
+async function walk(dir: string, root: string, files: string[]): Promise<void> {
+  if (files.length >= MAX_INDEXED_FILES) return;
+
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return; // scope doesn't exist in this checkout
+  }
+
+  for (const entry of entries) {
+    if (files.length >= MAX_INDEXED_FILES) return;
+    // Symlinks could point outside the checkout
+    if (entry.isSymbolicLink()) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name)) await walk(fullPath, root, files);
+    } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+      files.push(path.relative(root, fullPath).split(path.sep).join('/'));
+    }
+  }
+}
+
+/**
+ * Index the source files of a mapped repo's local checkout, restricted to its path scopes
+ * Indexes are cached for a few minutes so a triage burst doesn't rescan the tree
+ */
+export async function indexRepository(mapping: RepoMapping, repoRoot: string): Promise<RepoIndex | null> {
+  // repo_id becomes a directory name under the checkout root
+  if (!/^[\w.-]+$/.test(mapping.repo_id) || mapping.repo_id.startsWith('.')) return null;
+
+  const root = path.join(repoRoot, mapping.repo_id);
+  const scopes = scopeDirs(mapping);
+  const cacheKey = `${root}|${scopes.join(',')}`;
+  const cached = indexCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.index;
+
+  try {
+    if (!(await fs.stat(root)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  const files: string[] = [];
+  for (const scope of scopes.length > 0 ? scopes : ['']) {
+    await walk(path.join(root, scope), root, files);
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const file of files) {
+    const name = path.posix.basename(file);
+    byName.set(name, [...(byName.get(name) || []), file]);
+  }
+
+  const index: RepoIndex = { repo_id: mapping.repo_id, root, files, byName };
+  indexCache.set(cacheKey, { index, expiresAt: Date.now() + INDEX_TTL_MS });
+  return index;
+}
+
+/**
+ * Clear cached repo indexes (after a checkout is updated, and in tests)
+ */
+export function clearRepoIndexCache(): void {
+  indexCache.clear();
+}
+
+/**
+ * Indexed file a frame path refers to, matched on the longest common path suffix
+ * Ambiguous matches on the file name alone are skipped rather than guessed
+ */
+export function resolveFramePath(index: RepoIndex, framePath: string): string | null {
+  const segments = framePath.split('/');
+  const candidates = index.byName.get(segments[segments.length - 1]);
+  if (!candidates) return null;
+
+  let best: string | null = null;
+  let bestLength = 0;
+  let tied = false;
+
+  for (const candidate of candidates) {
+    const candidateSegments = candidate.split('/');
+    let length = 0;
+    while (
+      length < segments.length &&
+      length < candidateSegments.length &&
+      segments[segments.length - 1 - length] === candidateSegments[candidateSegments.length - 1 - length]
+    ) {
+      length++;
+    }
+
+    if (length > bestLength) {
+      best = candidate;
+      bestLength = length;
+      tied = false;
+    } else if (length === bestLength) {
+      tied = true;
+    }
+  }
+
+  return tied ? null : best;
+}
+
+function eventStack(event: Event): string | undefined {
+  const payload = event.payload as unknown as Record<string, unknown>;
+  return typeof payload.stack === 'string' ? payload.stack : undefined;
+}
+
+function eventService(event: Event): string | undefined {
+  const payload = event.payload as unknown as Record<string, unknown>;
+  if (typeof payload.service_name === 'string') return payload.service_name;
+  return event.request_metadata?.service_name;
+}
+
+/**
+ * Mappings whose repos may hold the code for an event
+ * Events from a known service only look at repos listing that service, when any do
+ */
+function mappingsForEvent(mappings: RepoMapping[], event: Event): RepoMapping[] {
+  const service = eventService(event);
+  if (!service) return mappings;
+  const matching = mappings.filter((m) => m.services.includes(service));
+  return matching.length > 0 ? matching : mappings;
+}
+
+function addCandidate(
+  candidates: Map<string, Candidate>,
+  repo: RepoIndex,
+  file: string,
+  line: number | undefined,
+  score: number,
+  reason: string
+): void {
+  // Frames within one window of each other share an excerpt
+  const bucket = line === undefined ? 'top' : Math.floor(line / (FRAME_CONTEXT_LINES * 2));
+  const key = `${repo.repo_id}:${file}:${bucket}`;
+  const existing = candidates.get(key);
+  if (existing) {
+    existing.score += score;
+    existing.reasons.add(reason);
+    return;
+  }
+  candidates.set(key, { repo, file, line, score, reasons: new Set([reason]) });
+}
+
+/**
+ * Rank file regions by how often and how high they appear in the issue's stacks,
+ * then by route matches
+ */
+function rankCandidates(indexes: Map<string, RepoIndex>, mappings: RepoMapping[], events: Event[]): Candidate[] {
+  const candidates = new Map<string, Candidate>();
+
+  for (const event of events) {
+    const repos = mappingsForEvent(mappings, event)
+      .map((m) => indexes.get(m.repo_id))
+      .filter((r): r is RepoIndex => r !== undefined);
+
+    const stack = eventStack(event);
+    let depth = 0;
+    for (const line of stack ? stack.split('\n') : []) {
+      if (depth >= MAX_FRAMES_PER_STACK) break;
+      const frame = parseStackFrame(line);
+      const framePath = frame ? normalizeFramePath(frame.file) : null;
+      if (!frame || !framePath) continue;
+
+      for (const repo of repos) {
+        const file = resolveFramePath(repo, framePath);
+        if (!file) continue;
+        // The throwing frame matters most; callers progressively less
+        addCandidate(
+          candidates,
+          repo,
+          file,
+          frame.line,
+          10 / (depth + 1),
+          `Stack frame${frame.functionName ? ` in ${frame.functionName}` : ''} at line ${frame.line}`
+        );
+        depth++;
+        break;
+      }
+    }
+
+    const tokens = routeTokens(event.route_or_url);
+    if (tokens.length === 0) continue;
+    for (const repo of repos) {
+      const routeFiles = repo.files.filter((file) => {
+        const lower = file.toLowerCase();
+        return tokens.every((token) => lower.includes(token));
+      });
+      // A route that matches half the repo isn't telling us anything
+      if (routeFiles.length === 0 || routeFiles.length > MAX_ROUTE_EXCERPTS * 2) continue;
+      for (const file of routeFiles) {
+        addCandidate(candidates, repo, file, undefined, 1, `File path matches route ${event.route_or_url}`);
+      }
+    }
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => b.score - a.score);
+  const routeOnly = ranked.filter((c) => c.line === undefined).slice(0, MAX_ROUTE_EXCERPTS);
+  return ranked.filter((c) => c.line !== undefined || routeOnly.includes(c)).slice(0, MAX_EXCERPTS);
+}
+
+/**
+ * Read the lines around a candidate from the checkout
+ */
+async function readExcerpt(candidate: Candidate): Promise<CodeExcerpt | null> {
+  const fullPath = path.join(candidate.repo.root, candidate.file);
+  const stat = await fs.stat(fullPath);
+  if (stat.size > MAX_FILE_BYTES) return null;
+
+  const lines = (await fs.readFile(fullPath, 'utf8')).split('\n');
+  const start = candidate.line === undefined ? 1 : Math.max(1, candidate.line - FRAME_CONTEXT_LINES);
+  const end =
+    candidate.line === undefined
+      ? Math.min(lines.length, ROUTE_EXCERPT_LINES)
+      : Math.min(lines.length, candidate.line + FRAME_CONTEXT_LINES);
+  if (start > end) return null;
+
+  return {
+    file_path: candidate.file,
+    repo_id: candidate.repo.repo_id,
+    start_line: start,
+    end_line: end,
+    content: lines.slice(start - 1, end).join('\n'),
+    relevance: [...candidate.reasons].slice(0, 3).join('; '),
+  };
+}
+
+/**
+ * Retrieve ranked code excerpts for an issue's events from the app's mapped repos
+ * Returns nothing when no checkout root is configured or the app has no repo mapping.
+ * Excerpts are raw source; ai-triage scrubs them before they reach the model.
+ */
+export async function retrieveCodeExcerpts(
+  app: App | null,
+  events: Event[],
+  repoRoot: string = config.codeRepoRoot
+): Promise<CodeExcerpt[]> {
+  const mappings = app?.repo_mapping || [];
+  if (!repoRoot || mappings.length === 0 || events.length === 0) return [];
+
+  const indexes = new Map<string, RepoIndex>();
+  for (const mapping of mappings) {
+    try {
+      const index = await indexRepository(mapping, repoRoot);
+      if (index) indexes.set(mapping.repo_id, index);
+    } catch (error) {
+      console.error(`[CodeRetrieval] Failed to index repo ${mapping.repo_id}:`, error);
+    }
+  }
+  if (indexes.size === 0) return [];
+
+  const excerpts: CodeExcerpt[] = [];
+  for (const candidate of rankCandidates(indexes, mappings, events)) {
+    try {
+      const excerpt = await readExcerpt(candidate);
+      if (excerpt) excerpts.push(excerpt);
+    } catch (error) {
+      console.error(`[CodeRetrieval] Failed to read ${candidate.repo.repo_id}/${candidate.file}:`, error);
+    }
+  }
+
+  return excerpts;
+}
@@ -7,7 +7,10 @@
  * can analyze from scratch with full codebase context.
  */
 
-import type { Issue, Event, App } from '@britepulse/shared';
+import type { Issue, Event, App, Breadcrumb } from '@britepulse/shared';
+
+// Most recent breadcrumbs shown per event; older ones rarely explain the error
+const MAX_BREADCRUMBS = 20;
 
 /**
  * Check if issue is an error/bug type
@@ -126,6 +129,14 @@ export function generateContextFile(data: ContextFileData): string {
       lines.push(f);
       lines.push('');
     });
+
+    // What the reporter did right before submitting
+    const feedbackEvent = events.find((e) => e.event_type === 'feedback' && e.breadcrumbs?.length);
+    if (feedbackEvent) {
+      lines.push('### Activity Before Feedback');
+      lines.push(...formatBreadcrumbs(feedbackEvent.breadcrumbs!, feedbackEvent.timestamp));
+      lines.push('');
+    }
   }
 
   // Attachments (if any)
@@ -209,6 +220,13 @@ export function generateContextFile(data: ContextFileData): string {
         lines.push(`**Source:** ${payload.source_file}:${payload.line_number || '?'}:${payload.column_number || '?'}`);
         lines.push('');
       }
+
+      // Breadcrumbs leading up to the error
+      if (event.breadcrumbs && event.breadcrumbs.length > 0) {
+        lines.push('**Breadcrumbs (oldest first):**');
+        lines.push(...formatBreadcrumbs(event.breadcrumbs, event.timestamp));
+        lines.push('');
+      }
     });
   }
 
@@ -252,6 +270,28 @@ export function generateContextFile(data: ContextFileData): string {
   return lines.join('\n');
 }
 
+/**
+ * Format breadcrumbs as a timeline relative to the event time
+ */
+function formatBreadcrumbs(breadcrumbs: Breadcrumb[], eventTimestamp: string): string[] {
+  const eventTime = new Date(eventTimestamp).getTime();
+  const shown = breadcrumbs.slice(-MAX_BREADCRUMBS);
+  const lines: string[] = [];
+
+  if (breadcrumbs.length > shown.length) {
+    lines.push(`- _${breadcrumbs.length - shown.length} earlier breadcrumb(s) omitted_`);
+  }
+
+  for (const crumb of shown) {
+    const offsetMs = new Date(crumb.timestamp).getTime() - eventTime;
+    const offset = Number.isFinite(offsetMs) ? `${(offsetMs / 1000).toFixed(1)}s` : crumb.timestamp;
+    const level = crumb.level && crumb.level !== 'info' ? ` (${crumb.level})` : '';
+    lines.push(`- \`${offset}\` **${crumb.category}**${level}: ${crumb.message}`);
+  }
+
+  return lines;
+}
+
 /**
  * Extract factual pattern observations from events
  */
@@ -417,6 +457,7 @@ export function generateContextJSON(data: ContextFileData): object {
       route: e.route_or_url,
       ...(e.version && e.version !== 'unknown' && { version: e.version }),
       payload: e.payload,
+      ...(e.breadcrumbs?.length && { breadcrumbs: e.breadcrumbs.slice(-MAX_BREADCRUMBS) }),
     }));
   }
 
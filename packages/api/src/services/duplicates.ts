@@ -0,0 +1,244 @@
+/**
+ * Duplicate Detection Service
+ * Finds error issues whose fingerprints differ but whose events look alike
+ * (e.g. one stack frame changed after a refactor), and optionally auto-merges them
+ */
+
+import {
+  DEFAULT_DUPLICATE_DETECTION,
+  type App,
+  type DuplicateDetectionPolicy,
+  type Event,
+  type Issue,
+  type SimilarIssue,
+} from '@britepulse/shared';
+import * as firestoreService from './firestore.js';
+import { computeSimilarity, extractFingerprintInput, type FingerprintInput } from './fingerprint.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Open error issues compared per app environment
+const MAX_COMPARED_ISSUES = 200;
+
+/**
+ * A pair of issues the background job considers duplicates
+ */
+export interface DuplicatePair {
+  app_id: string;
+  environment: string;
+  target_issue_id: string; // the issue that is kept
+  source_issue_id: string;
+  similarity: number;
+}
+
+/**
+ * Result of a duplicate detection run
+ */
+export interface DuplicateDetectionResult {
+  checked: number; // app environments scanned
+  issues_compared: number;
+  candidates: DuplicatePair[];
+  auto_merged: DuplicatePair[];
+  errors: string[];
+}
+
+/**
+ * Resolve duplicate detection settings for an app
+ */
+export function resolveDuplicateDetection(app: App | null): DuplicateDetectionPolicy {
+  return { ...DEFAULT_DUPLICATE_DETECTION, ...app?.policies?.duplicate_detection };
+}
+
+/**
+ * Fingerprint inputs for each issue, taken from its first event
+ */
+async function loadRepresentativeInputs(issues: Issue[]): Promise<Map<string, FingerprintInput>> {
+  const events = await firestoreService.getEventsById(issues.map((issue) => issue.event_refs[0]));
+  const eventsById = new Map<string, Event>(events.map((event) => [event.event_id, event]));
+
+  const inputs = new Map<string, FingerprintInput>();
+  for (const issue of issues) {
+    const event = eventsById.get(issue.event_refs[0]);
+    if (!event) continue;
+    const input = extractFingerprintInput(
+      event.event_type,
+      event.payload as unknown as Record<string, unknown>,
+      event.route_or_url
+    );
+    if (input) inputs.set(issue.issue_id, input);
+  }
+  return inputs;
+}
+
+/**
+ * Open error issues in an app environment seen within the lookback window
+ */
+async function getComparableIssues(
+  appId: string,
+  environment: string,
+  policy: DuplicateDetectionPolicy,
+  now: Date
+): Promise<Issue[]> {
+  const since = new Date(now.getTime() - policy.lookback_days * DAY_MS).toISOString();
+  const issues = await firestoreService.getOpenIssuesSeenSince(appId, environment, since, MAX_COMPARED_ISSUES);
+  return issues.filter((issue) => issue.primary_fingerprint && issue.event_refs.length > 0);
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Possible duplicates of an issue, most similar first
+ */
+export async function findSimilarIssues(
+  issue: Issue,
+  app: App | null,
+  now: Date = new Date()
+): Promise<SimilarIssue[]> {
+  if (!issue.primary_fingerprint || issue.event_refs.length === 0) return [];
+
+  const policy = resolveDuplicateDetection(app);
+  const others = (await getComparableIssues(issue.app_id, issue.environment, policy, now)).filter(
+    (other) => other.issue_id !== issue.issue_id
+  );
+  if (others.length === 0) return [];
+
+  const inputs = await loadRepresentativeInputs([issue, ...others]);
+  const input = inputs.get(issue.issue_id);
+  if (!input) return [];
+
+  const similar: SimilarIssue[] = [];
+  for (const other of others) {
+    const otherInput = inputs.get(other.issue_id);
+    if (!otherInput) continue;
+    const similarity = round(computeSimilarity(input, otherInput));
+    if (similarity < policy.min_similarity) continue;
+
+    similar.push({
+      issue_id: other.issue_id,
+      title: other.title,
+      status: other.status,
+      severity: other.severity,
+      similarity,
+      occurrences_total: other.counts.occurrences_total,
+      last_seen_at: other.timestamps.last_seen_at,
+    });
+  }
+
+  return similar.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Keep the issue with more history; the other is merged into it
+ */
+function orderForMerge(a: Issue, b: Issue): [target: Issue, source: Issue] {
+  if (a.counts.occurrences_total !== b.counts.occurrences_total) {
+    return a.counts.occurrences_total > b.counts.occurrences_total ? [a, b] : [b, a];
+  }
+  return a.timestamps.created_at <= b.timestamps.created_at ? [a, b] : [b, a];
+}
+
+/**
+ * Compare every pair of open error issues in one app environment
+ */
+export function findDuplicatePairs(
+  issues: Issue[],
+  inputs: Map<string, FingerprintInput>,
+  minSimilarity: number
+): DuplicatePair[] {
+  const pairs: DuplicatePair[] = [];
+
+  for (let i = 0; i < issues.length; i++) {
+    const inputA = inputs.get(issues[i].issue_id);
+    if (!inputA) continue;
+
+    for (let j = i + 1; j < issues.length; j++) {
+      const inputB = inputs.get(issues[j].issue_id);
+      if (!inputB) continue;
+
+      const similarity = round(computeSimilarity(inputA, inputB));
+      if (similarity < minSimilarity) continue;
+
+      const [target, source] = orderForMerge(issues[i], issues[j]);
+      pairs.push({
+        app_id: target.app_id,
+        environment: target.environment,
+        target_issue_id: target.issue_id,
+        source_issue_id: source.issue_id,
+        similarity,
+      });
+    }
+  }
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Scan all apps for near-duplicate issues and auto-merge where the app allows it
+ * Called by the scheduler; each merge is audited as a system action
+ */
+export async function runDuplicateDetection(options: {
+  apps: App[];
+  now?: Date;
+}): Promise<DuplicateDetectionResult> {
+  const { apps, now = new Date() } = options;
+  const result: DuplicateDetectionResult = {
+    checked: 0,
+    issues_compared: 0,
+    candidates: [],
+    auto_merged: [],
+    errors: [],
+  };
+
+  for (const app of apps) {
+    const policy = resolveDuplicateDetection(app);
+
+    for (const env of app.environments.filter((e) => e.enabled)) {
+      try {
+        const issues = await getComparableIssues(app.app_id, env.env_name, policy, now);
+        result.checked++;
+        if (issues.length < 2) continue;
+
+        result.issues_compared += issues.length;
+        const inputs = await loadRepresentativeInputs(issues);
+        const pairs = findDuplicatePairs(issues, inputs, policy.min_similarity);
+        result.candidates.push(...pairs);
+
+        if (!policy.auto_merge_enabled) continue;
+
+        // Each issue takes part in at most one merge per run, strongest pairs first
+        const merged = new Set<string>();
+        for (const pair of pairs) {
+          if (pair.similarity < policy.auto_merge_threshold) break;
+          if (merged.has(pair.target_issue_id) || merged.has(pair.source_issue_id)) continue;
+
+          await firestoreService.mergeIssues(pair.target_issue_id, [pair.source_issue_id]);
+          merged.add(pair.target_issue_id);
+          merged.add(pair.source_issue_id);
+          result.auto_merged.push(pair);
+
+          await firestoreService.createAuditLog({
+            actor_id: 'duplicate-detection',
+            actor_role: 'system',
+            action: 'auto_merge_issues',
+            target_type: 'issue',
+            target_id: pair.target_issue_id,
+            app_id: app.app_id,
+            metadata: {
+              source_issue_ids: [pair.source_issue_id],
+              similarity: pair.similarity,
+              threshold: policy.auto_merge_threshold,
+            },
+          });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Duplicates] Detection failed for ${app.app_id}/${env.env_name}:`, error);
+        result.errors.push(`${app.app_id}/${env.env_name}: ${message}`);
+      }
+    }
+  }
+
+  return result;
+}
@@ -5,7 +5,7 @@
 
 import sgMail from '@sendgrid/mail';
 import { config } from '../config.js';
-import type { Issue, App, IssueComment } from '@britepulse/shared';
+import type { Issue, App, IssueComment, AlertFiring } from '@britepulse/shared';
 
 export interface CommentAttachmentUrl {
   filename: string;
@@ -641,3 +641,100 @@ Powered by BritePulse
     };
   }
 }
+
+/**
+ * Send an alert rule firing to one recipient
+ */
+export async function sendAlertNotification(
+  firing: AlertFiring,
+  app: App,
+  recipientEmail: string
+): Promise<SendResult> {
+  if (!ensureConfigured()) {
+    return { success: false, error: 'SendGrid not configured' };
+  }
+
+  const safeAppName = escapeHtml(app.name);
+  const safeRuleName = escapeHtml(firing.rule_name);
+  const safeMessage = escapeHtml(firing.message);
+  const consoleUrl = firing.issue_id
+    ? `${config.consoleBaseUrl}/issues/${firing.issue_id}`
+    : `${config.consoleBaseUrl}/admin/apps/${app.app_id}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Alert: ${safeRuleName}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${safeRuleName}</h1>
+  </div>
+
+  <div style="background: #f9fafb; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <p style="margin-top: 0;">An alert rule fired for <strong>${safeAppName}</strong> (${escapeHtml(firing.environment)}):</p>
+
+    <div style="background: white; border: 1px solid #e5e7eb; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <p style="margin: 0; color: #111827; font-size: 14px;">${safeMessage}</p>
+    </div>
+
+    <p><a href="${consoleUrl}" style="color: #2563eb; text-decoration: underline;">Open in the BritePulse console</a></p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <p style="margin: 0;">Powered by <a href="https://britepulse.io" style="color: #6b7280;">BritePulse</a></p>
+  </div>
+</body>
+</html>
+`;
+
+  const text = `
+${firing.rule_name}
+
+An alert rule fired for ${app.name} (${firing.environment}):
+
+${firing.message}
+
+Open in the BritePulse console: ${consoleUrl}
+
+---
+Powered by BritePulse
+`.trim();
+
+  try {
+    const msg = {
+      to: recipientEmail,
+      from: {
+        email: config.sendgridFromEmail,
+        name: 'BritePulse',
+      },
+      subject: `[${app.name}] ${firing.rule_name}: ${firing.issue_title || firing.message}`,
+      text,
+      html,
+      categories: ['alert', app.app_id],
+      customArgs: {
+        app_id: app.app_id,
+        rule_id: firing.rule_id,
+        firing_id: firing.firing_id,
+      },
+    };
+
+    const [response] = await sgMail.send(msg);
+
+    console.log(`[Email] Sent alert ${firing.rule_id} to ${recipientEmail} for app ${app.app_id}`);
+
+    return {
+      success: true,
+      messageId: response.headers['x-message-id']?.toString(),
+    };
+  } catch (error) {
+    console.error('[Email] SendGrid alert error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
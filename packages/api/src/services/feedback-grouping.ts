@@ -0,0 +1,336 @@
+/**
+ * Feedback Grouping Service
+ * Attaches new feedback to an open issue that already describes the same problem,
+ * using description similarity, route, and trace/session links to recent errors
+ */
+
+import {
+  DEFAULT_FEEDBACK_GROUPING,
+  type App,
+  type Event,
+  type FeedbackGroupingPolicy,
+  type FeedbackMatch,
+  type FeedbackMatchSignal,
+  type Issue,
+  type RelatedIssueCandidate,
+} from '@britepulse/shared';
+import * as firestoreService from './firestore.js';
+import { normalizeRoute } from './fingerprint.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below this description similarity, a shared route alone doesn't make a match
+const MIN_TEXT_SIMILARITY = 0.3;
+const TEXT_WEIGHT = 0.8;
+const ROUTE_WEIGHT = 0.2;
+
+// Feedback in the same trace as an error is almost certainly about that error
+const TRACE_LINK_SCORE = 0.95;
+
+// An error earlier in the session scores between these, higher the closer it was to the feedback
+const SESSION_LINK_MAX_SCORE = 0.85;
+const SESSION_LINK_MIN_SCORE = 0.65;
+const SESSION_LINK_WINDOW_MS = 10 * 60 * 1000;
+// Tolerate small clock differences between the error and feedback timestamps
+const SESSION_CLOCK_SKEW_MS = 60 * 1000;
+
+const MAX_CANDIDATES = 100;
+const MAX_RELATED_CANDIDATES = 8;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was',
+  'one', 'our', 'out', 'has', 'have', 'this', 'that', 'with', 'from', 'they', 'will', 'would',
+  'there', 'their', 'what', 'when', 'which', 'been', 'were', 'into', 'then', 'than', 'them',
+  'just', 'get', 'got', 'its', 'it\'s', 'also', 'some', 'very', 'too', 'again', 'after',
+  'before', 'please', 'thanks', 'thank', 'i\'m', 'im', 'dont', 'don\'t', 'does', 'did',
+  'doesn', 'didn', 'isn', 'wasn', 'page', 'app', 'trying', 'tried', 'try',
+]);
+
+/**
+ * A scored grouping candidate
+ */
+export interface FeedbackCandidate {
+  issue_id: string;
+  score: number;
+  signals: FeedbackMatchSignal[];
+  reason: string;
+}
+
+/**
+ * Resolve feedback grouping settings for an app
+ */
+export function resolveFeedbackGrouping(app: App | null): FeedbackGroupingPolicy {
+  return { ...DEFAULT_FEEDBACK_GROUPING, ...app?.policies?.feedback_grouping };
+}
+
+/**
+ * Split text into comparable terms (lowercased, stop words dropped, plurals folded)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .map((word) => word.replace(/^'+|'+$/g, ''))
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Cosine similarity of term frequencies (0.0-1.0)
+ */
+export function textSimilarity(a: string, b: string): number {
+  const countTerms = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const termsA = countTerms(a);
+  const termsB = countTerms(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+
+  let dot = 0;
+  for (const [term, count] of termsA) {
+    dot += count * (termsB.get(term) || 0);
+  }
+  const norm = (terms: Map<string, number>): number =>
+    Math.sqrt([...terms.values()].reduce((sum, count) => sum + count * count, 0));
+
+  return Math.min(dot / (norm(termsA) * norm(termsB)), 1);
+}
+
+/**
+ * Pull the reporter's description and route back out of a feedback issue
+ * (see generateIssueDescription in the pipeline)
+ */
+export function extractIssueText(issue: Issue): { text: string; route: string | null } {
+  const description = issue.description || '';
+  const route = description.match(/^Route: (.*)$/m)?.[1] ?? null;
+  const reported = description.match(/\nDescription: ([\s\S]*?)(?:\n\nReproduction Steps:|$)/)?.[1];
+
+  return {
+    text: reported && reported !== 'N/A' ? reported : issue.title.replace(/^\w+: /, ''),
+    route,
+  };
+}
+
+/**
+ * Score a feedback description against an issue's text and route
+ */
+export function scoreTextMatch(
+  description: string,
+  route: string,
+  issue: Issue
+): FeedbackCandidate | null {
+  const issueText = extractIssueText(issue);
+  const similarity = textSimilarity(description, issueText.text);
+  if (similarity < MIN_TEXT_SIMILARITY) return null;
+
+  const normalizedRoute = normalizeRoute(route);
+  const sameRoute = !!issueText.route && !!normalizedRoute && normalizeRoute(issueText.route) === normalizedRoute;
+
+  const signals: FeedbackMatchSignal[] = ['text'];
+  let reason = `Description ${Math.round(similarity * 100)}% similar`;
+  if (sameRoute) {
+    signals.push('route');
+    reason += `, same route ${normalizedRoute}`;
+  }
+
+  return {
+    issue_id: issue.issue_id,
+    score: round(TEXT_WEIGHT * similarity + (sameRoute ? ROUTE_WEIGHT : 0)),
+    signals,
+    reason,
+  };
+}
+
+/**
+ * Link bug reports to the error issue the user just hit, via trace or session
+ */
+async function findLinkedErrorIssue(
+  event: Omit<Event, 'event_id'>
+): Promise<FeedbackCandidate | null> {
+  const isError = (e: Event) =>
+    (e.event_type === 'frontend_error' || e.event_type === 'backend_error') && !!e.fingerprint;
+
+  // findIssueByFingerprint still returns won't-fix issues; feedback should only join open ones
+  const issueFor = async (e: Event) => {
+    const issue = await firestoreService.findIssueByFingerprint(e.app_id, e.environment, e.fingerprint!);
+    return issue && issue.status !== 'wont_fix' ? issue : null;
+  };
+
+  if (event.trace_id) {
+    const traced = await firestoreService.getEventsByLink(
+      event.app_id,
+      event.environment,
+      'trace_id',
+      event.trace_id
+    );
+    const error = traced.find(isError);
+    const issue = error && (await issueFor(error));
+    if (issue) {
+      return {
+        issue_id: issue.issue_id,
+        score: TRACE_LINK_SCORE,
+        signals: ['trace'],
+        reason: `Same request trace as "${issue.title}"`,
+      };
+    }
+  }
+
+  if (event.session_id) {
+    const feedbackAt = new Date(event.timestamp).getTime();
+    const sessionEvents = await firestoreService.getEventsByLink(
+      event.app_id,
+      event.environment,
+      'session_id',
+      event.session_id
+    );
+    // Newest first, so the first error inside the window is the closest one
+    for (const candidate of sessionEvents) {
+      if (!isError(candidate)) continue;
+      const gapMs = feedbackAt - new Date(candidate.timestamp).getTime();
+      if (gapMs < -SESSION_CLOCK_SKEW_MS) continue;
+      if (gapMs > SESSION_LINK_WINDOW_MS) break;
+
+      const issue = await issueFor(candidate);
+      if (!issue) continue;
+
+      const closeness = 1 - Math.max(gapMs, 0) / SESSION_LINK_WINDOW_MS;
+      return {
+        issue_id: issue.issue_id,
+        score: round(SESSION_LINK_MIN_SCORE + (SESSION_LINK_MAX_SCORE - SESSION_LINK_MIN_SCORE) * closeness),
+        signals: ['session'],
+        reason: `Same session hit "${issue.title}" ${formatGap(gapMs)} before the feedback`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the open issue a new feedback event belongs to, if any scores above the app's threshold
+ * Never throws: grouping failures fall back to a new issue
+ */
+export async function findFeedbackMatch(
+  event: Omit<Event, 'event_id'>,
+  app: App | null
+): Promise<FeedbackMatch | null> {
+  const policy = resolveFeedbackGrouping(app);
+  if (!policy.enabled || event.event_type !== 'feedback') return null;
+
+  const payload = event.payload as unknown as Record<string, unknown>;
+  const description = typeof payload.description === 'string' ? payload.description : '';
+
+  try {
+    const since = new Date(Date.now() - policy.lookback_days * DAY_MS).toISOString();
+    const openIssues = await firestoreService.getOpenIssuesSeenSince(
+      event.app_id,
+      event.environment,
+      since,
+      MAX_CANDIDATES
+    );
+
+    const candidates = new Map<string, FeedbackCandidate>();
+    const consider = (candidate: FeedbackCandidate) => {
+      const existing = candidates.get(candidate.issue_id);
+      if (!existing) {
+        candidates.set(candidate.issue_id, candidate);
+        return;
+      }
+      // Independent signals for the same issue: keep the strongest score, explain both
+      const [stronger, weaker] = candidate.score > existing.score ? [candidate, existing] : [existing, candidate];
+      candidates.set(candidate.issue_id, {
+        issue_id: candidate.issue_id,
+        score: stronger.score,
+        signals: [...new Set([...stronger.signals, ...weaker.signals])],
+        reason: `${stronger.reason}; ${weaker.reason}`,
+      });
+    };
+
+    // Text only compares against other feedback; error issue descriptions aren't user language
+    for (const issue of openIssues) {
+      if (issue.primary_fingerprint) continue;
+      const candidate = scoreTextMatch(description, event.route_or_url, issue);
+      if (candidate) consider(candidate);
+    }
+
+    if (payload.category === 'bug') {
+      const linked = await findLinkedErrorIssue(event);
+      if (linked) consider(linked);
+    }
+
+    let best: FeedbackCandidate | null = null;
+    for (const candidate of candidates.values()) {
+      if (!best || candidate.score > best.score) best = candidate;
+    }
+    if (!best || best.score < policy.similarity_threshold) return null;
+
+    return { ...best, matched_at: new Date().toISOString() };
+  } catch (error) {
+    console.error('[FeedbackGrouping] Matching failed, creating a new issue:', error);
+    return null;
+  }
+}
+
+/**
+ * Open issues a feedback issue may relate to, best match first, for the feedback analysis
+ * Feedback is compared on description and route; errors on their title, which carries the message
+ */
+export async function findRelatedIssueCandidates(
+  issue: Issue,
+  app: App | null
+): Promise<RelatedIssueCandidate[]> {
+  const policy = resolveFeedbackGrouping(app);
+  const { text, route } = extractIssueText(issue);
+  const since = new Date(Date.now() - policy.lookback_days * DAY_MS).toISOString();
+  const openIssues = await firestoreService.getOpenIssuesSeenSince(
+    issue.app_id,
+    issue.environment,
+    since,
+    MAX_CANDIDATES
+  );
+
+  const scored: Array<{ issue: Issue; score: number; reason: string }> = [];
+  for (const other of openIssues) {
+    if (other.issue_id === issue.issue_id) continue;
+
+    if (other.primary_fingerprint) {
+      const similarity = textSimilarity(text, other.title);
+      if (similarity >= MIN_TEXT_SIMILARITY) {
+        scored.push({
+          issue: other,
+          score: round(TEXT_WEIGHT * similarity),
+          reason: `Error message ${Math.round(similarity * 100)}% similar`,
+        });
+      }
+      continue;
+    }
+
+    const candidate = scoreTextMatch(text, route || '', other);
+    if (candidate) scored.push({ issue: other, score: candidate.score, reason: candidate.reason });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RELATED_CANDIDATES)
+    .map(({ issue: related, reason }) => ({
+      issue_id: related.issue_id,
+      title: related.title,
+      issue_type: related.issue_type,
+      status: related.status,
+      match_reason: reason,
+    }));
+}
+
+function round(score: number): number {
+  return Math.round(Math.min(score, 1) * 100) / 100;
+}
+
+function formatGap(gapMs: number): string {
+  const seconds = Math.max(Math.round(gapMs / 1000), 0);
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
@@ -4,7 +4,7 @@
  */
 
 import admin from 'firebase-admin';
-import { getFirestore as getAdminFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getFirestore as getAdminFirestore, FieldValue, FieldPath } from 'firebase-admin/firestore';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config.js';
 import type {
@@ -13,18 +13,59 @@ import type {
   Issue,
   IssueInput,
   IssueUpdateInput,
+  IssueStatus,
+  IssueRegression,
+  Severity,
   IssueFilters,
   IssueSortOptions,
   AuditLog,
   AuditLogInput,
+  AuditLogFilters,
   User,
   UserInput,
   InstallKeys,
   Attachment,
+  ExternalTicket,
+  TicketProviderType,
   IssueComment,
   Notification,
   NotificationType,
+  AlertFiring,
+  EventType,
+  WebhookDelivery,
+  AITriageJob,
+  AIUsage,
+  AIUsageDay,
+  IssueAIJob,
 } from '@britepulse/shared';
+import {
+  createCounterState,
+  recordOccurrence,
+  removeOccurrence,
+  computeRollingCounts,
+  mergeCounterStates,
+  pruneCounterState,
+  hourIndex,
+  type IssueCounterState,
+  type OccurrenceInput,
+} from './rolling-counters.js';
+import type {
+  IngestionStats,
+  IngestionTally,
+  OpenIssueCounts,
+} from './installation-health.js';
+import { searchTokens, newSearchTokens, matchesIssueFilters, issueDateRange } from './search-index.js';
+import { planAuditLogQuery, matchesAuditLogFilters } from './audit-query.js';
+import { hasIssueListIndex, type IssueEqualityField } from './issue-indexes.js';
+import {
+  SORT_FIELD_PATHS,
+  compareIssues,
+  cursorAfter,
+  encodeIssueCursor,
+  paginateSorted,
+  type IssueCursor,
+} from './issue-ordering.js';
+import { calculatePriorityScore } from './priority.js';
 
 // Initialize Firebase Admin
 let initialized = false;
@@ -70,6 +111,15 @@ const COLLECTIONS = {
   users: 'users',
   attachments: 'attachments',
   notifications: 'notifications',
+  issueCounters: 'issue_counters',
+  ingestionStats: 'ingestion_stats',
+  alertFirings: 'alert_firings',
+  alertCooldowns: 'alert_cooldowns',
+  webhookDeliveries: 'webhook_deliveries',
+  aiTriageJobs: 'ai_triage_jobs',
+  aiUsage: 'ai_usage',
+  aiJobSlots: 'ai_job_slots',
+  jobState: 'job_state',
 } as const;
 
 // ============ App Operations ============
@@ -241,7 +291,7 @@ export async function getEvent(eventId: string): Promise<Event | null> {
 
 export async function updateEvent(
   eventId: string,
-  updates: Partial<Pick<Event, 'attachment_refs'>>
+  updates: Partial<Pick<Event, 'attachment_refs' | 'feedback_match'>>
 ): Promise<Event | null> {
   const firestore = getFirestore();
   const docRef = firestore.collection(COLLECTIONS.events).doc(eventId);
@@ -253,6 +303,17 @@ export async function updateEvent(
   return updated.data() as Event;
 }
 
+/**
+ * Fetch several events by ID in one round trip (missing IDs are skipped)
+ */
+export async function getEventsById(eventIds: string[]): Promise<Event[]> {
+  if (eventIds.length === 0) return [];
+  const firestore = getFirestore();
+  const refs = eventIds.map((id) => firestore.collection(COLLECTIONS.events).doc(id));
+  const docs = await firestore.getAll(...refs);
+  return docs.filter((doc) => doc.exists).map((doc) => doc.data() as Event);
+}
+
 export async function getEventsByIssue(issueId: string, limit = 100): Promise<Event[]> {
   const firestore = getFirestore();
   // First get the issue to get event_refs
@@ -281,27 +342,45 @@ export async function getEventsByIssue(issueId: string, limit = 100): Promise<Ev
 
 // ============ Issue Operations ============
 
-export async function createIssue(input: IssueInput): Promise<Issue> {
+/**
+ * Persisted priority_score, so issue lists can order by it in Firestore
+ * Recomputed on every write that changes an issue's counts or severity
+ */
+function priorityScore(issue: Pick<Issue, 'severity' | 'environment' | 'counts'>): number {
+  return calculatePriorityScore(issue).total_score;
+}
+
+export async function createIssue(
+  input: IssueInput,
+  initialOccurrence: OccurrenceInput = {}
+): Promise<Issue> {
   const firestore = getFirestore();
   const issueId = uuidv4();
   const now = new Date().toISOString();
 
+  // Seed rolling counters with the initial occurrence
+  const counterState = recordOccurrence(createCounterState(issueId), initialOccurrence);
+  const rollingCounts = computeRollingCounts(counterState);
+
+  const severity = input.severity || 'P2';
+  const counts = {
+    occurrences_total: 1,
+    ...rollingCounts,
+  };
+
   const issue: Issue = {
     issue_id: issueId,
     app_id: input.app_id,
     environment: input.environment,
     status: 'new',
-    severity: input.severity || 'P2',
+    severity,
     title: input.title,
     description: input.description,
     issue_type: input.issue_type,
     primary_fingerprint: input.primary_fingerprint || null,
     event_refs: [input.initial_event_id],
-    counts: {
-      occurrences_total: 1,
-      occurrences_24h: 1,
-      unique_users_24h_est: 1,
-    },
+    counts,
+    priority_score: priorityScore({ severity, environment: input.environment, counts }),
     timestamps: {
       created_at: now,
       last_seen_at: now,
@@ -309,9 +388,14 @@ export async function createIssue(input: IssueInput): Promise<Issue> {
     reported_by: input.reported_by || null,
     ...(input.routing && { routing: input.routing }),
     tags: input.tags || [],
+    versions: input.version ? [input.version] : [],
+    search_tokens: searchTokens(input.title, input.description),
   };
 
-  await firestore.collection(COLLECTIONS.issues).doc(issueId).set(issue);
+  const batch = firestore.batch();
+  batch.set(firestore.collection(COLLECTIONS.issues).doc(issueId), issue);
+  batch.set(firestore.collection(COLLECTIONS.issueCounters).doc(issueId), counterState);
+  await batch.commit();
   return issue;
 }
 
@@ -341,6 +425,10 @@ export async function updateIssue(
     'timestamps.last_seen_at': now,
   };
 
+  if (updates.severity !== undefined) {
+    updateData['priority_score'] = priorityScore({ ...(doc.data() as Issue), severity: updates.severity });
+  }
+
   // Store assigned_to under routing.assigned_to (not top-level)
   if (assigned_to !== undefined) {
     updateData['routing.assigned_to'] = assigned_to;
@@ -361,45 +449,172 @@ export async function updateIssue(
     updateData['timestamps.wont_fix_at'] = now;
   }
 
+  // Wake conditions only apply while snoozed
+  if (updates.status !== undefined && updates.status !== 'snoozed') {
+    updateData['snooze'] = FieldValue.delete();
+  }
+
   await docRef.update(updateData);
 
   const updated = await docRef.get();
   return updated.data() as Issue;
 }
 
-export async function addEventToIssue(issueId: string, eventId: string): Promise<void> {
+/**
+ * What a newly added event contributes to the issue's version list and search index
+ */
+export interface IssueIndexInput {
+  version?: string;
+  text?: string; // error message or feedback description
+}
+
+/**
+ * Add an event to an issue and update its rolling-window counts
+ */
+export async function addEventToIssue(
+  issueId: string,
+  eventId: string,
+  occurrence: OccurrenceInput = {},
+  index: IssueIndexInput = {}
+): Promise<void> {
   const firestore = getFirestore();
-  await firestore
-    .collection(COLLECTIONS.issues)
-    .doc(issueId)
-    .update({
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+  const counterRef = firestore.collection(COLLECTIONS.issueCounters).doc(issueId);
+
+  await firestore.runTransaction(async (tx) => {
+    const [counterDoc, issueDoc] = await Promise.all([tx.get(counterRef), tx.get(issueRef)]);
+    const state = counterDoc.exists
+      ? (counterDoc.data() as IssueCounterState)
+      : createCounterState(issueId);
+
+    const updatedState = recordOccurrence(state, occurrence);
+    const rollingCounts = computeRollingCounts(updatedState);
+
+    const issue = issueDoc.data() as Issue | undefined;
+    // Messages often embed IDs, so only terms that fit under the cap are added
+    const tokens = newSearchTokens(issue?.search_tokens, index.text);
+
+    tx.set(counterRef, updatedState);
+    tx.update(issueRef, {
       event_refs: FieldValue.arrayUnion(eventId),
-      'counts.occurrences_total': FieldValue.increment(1),
-      'counts.occurrences_24h': FieldValue.increment(1),
+      'counts.occurrences_total': FieldValue.increment(occurrence.count || 1),
+      'counts.occurrences_24h': rollingCounts.occurrences_24h,
+      'counts.occurrences_prev_24h': rollingCounts.occurrences_prev_24h,
+      'counts.unique_users_24h_est': rollingCounts.unique_users_24h_est,
+      ...(issue && { priority_score: priorityScore({ ...issue, counts: { ...issue.counts, ...rollingCounts } }) }),
       'timestamps.last_seen_at': new Date().toISOString(),
+      ...(index.version && { versions: FieldValue.arrayUnion(index.version) }),
+      ...(tokens.length > 0 && { search_tokens: FieldValue.arrayUnion(...tokens) }),
+    });
+  });
+}
+
+/**
+ * Recompute an issue's rolling-window counts without recording an occurrence
+ * Lets counts decay for issues that have stopped receiving events
+ */
+export async function refreshIssueCounts(issueId: string): Promise<Issue['counts'] | null> {
+  const firestore = getFirestore();
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+  const counterRef = firestore.collection(COLLECTIONS.issueCounters).doc(issueId);
+
+  return firestore.runTransaction(async (tx) => {
+    const [issueDoc, counterDoc] = await Promise.all([tx.get(issueRef), tx.get(counterRef)]);
+    if (!issueDoc.exists) return null;
+
+    const issue = issueDoc.data() as Issue;
+    // Issues created before rolling counters existed keep their stored counts
+    if (!counterDoc.exists) {
+      if (issue.priority_score === undefined) {
+        tx.update(issueRef, { priority_score: priorityScore(issue) });
+      }
+      return issue.counts;
+    }
+
+    const state = pruneCounterState(counterDoc.data() as IssueCounterState);
+    const rollingCounts = computeRollingCounts(state);
+    const counts = { ...issue.counts, ...rollingCounts };
+
+    tx.set(counterRef, state);
+    tx.update(issueRef, {
+      'counts.occurrences_24h': rollingCounts.occurrences_24h,
+      'counts.occurrences_prev_24h': rollingCounts.occurrences_prev_24h,
+      'counts.unique_users_24h_est': rollingCounts.unique_users_24h_est,
+      priority_score: priorityScore({ ...issue, counts }),
     });
+
+    return counts;
+  });
+}
+
+/**
+ * Store priority_score on an app's issues written before it was persisted
+ * Walks the issues in document order; returns how many were updated
+ */
+export async function backfillIssuePriorityScores(appId: string): Promise<number> {
+  const firestore = getFirestore();
+  let updated = 0;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = firestore
+      .collection(COLLECTIONS.issues)
+      .where('app_id', '==', appId)
+      .orderBy(FieldPath.documentId())
+      .limit(MAX_BATCH_WRITES);
+    if (last) query = query.startAfter(last);
+
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = firestore.batch();
+    let pending = 0;
+    for (const doc of snapshot.docs) {
+      const issue = doc.data() as Issue;
+      if (issue.priority_score !== undefined) continue;
+      batch.update(doc.ref, { priority_score: priorityScore(issue) });
+      pending++;
+    }
+    if (pending > 0) await batch.commit();
+
+    updated += pending;
+    last = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < MAX_BATCH_WRITES) break;
+  }
+
+  return updated;
 }
 
+// Firestore allows at most 30 disjunctions ('in' values multiplied together) per query
+const MAX_QUERY_DISJUNCTIONS = 30;
+
+/**
+ * List issues in a stable order, one page at a time
+ * Pass the cursor decoded from a previous page's next_cursor; page numbers still work
+ * for older clients but use an offset, which costs a read per skipped issue
+ * Filter combinations without a composite index (see issue-indexes.ts) are ordered in memory
+ */
 export async function getIssues(
   filters: IssueFilters,
   sort: IssueSortOptions = { field: 'priority_score', direction: 'desc' },
   page = 1,
   pageSize = 20,
-  accessibleAppIds?: string[] | null
-): Promise<{ issues: Issue[]; total: number }> {
+  accessibleAppIds?: string[] | null,
+  cursor?: IssueCursor
+): Promise<{ issues: Issue[]; total: number; next_cursor: string | null }> {
   const firestore = getFirestore();
 
   // If accessibleAppIds is provided but empty, user has no access - return empty
   if (accessibleAppIds !== undefined && accessibleAppIds !== null && accessibleAppIds.length === 0) {
-    return { issues: [], total: 0 };
+    return { issues: [], total: 0, next_cursor: null };
   }
 
   let query: FirebaseFirestore.Query = firestore.collection(COLLECTIONS.issues);
+  let disjunctions = 1;
+  // Filters applied in Firestore, to find an index that can also order the query
+  const equalityFields: IssueEqualityField[] = [];
 
-  // Track if we've used an 'in' clause (Firestore only allows one per query)
-  let usedInClause = false;
-
-  // Filters that need to be applied in-memory due to Firestore 'in' clause limitation
+  // Multi-value filters that would exceed the disjunction limit are applied in memory
   const memoryFilters: {
     status?: string[];
     severity?: string[];
@@ -407,6 +622,19 @@ export async function getIssues(
     app_ids?: string[];
   } = {};
 
+  const applyValues = (fieldPath: IssueEqualityField, values: string[], key: keyof typeof memoryFilters) => {
+    if (values.length === 1) {
+      query = query.where(fieldPath, '==', values[0]);
+      equalityFields.push(fieldPath);
+    } else if (disjunctions * values.length <= MAX_QUERY_DISJUNCTIONS) {
+      query = query.where(fieldPath, 'in', values);
+      equalityFields.push(fieldPath);
+      disjunctions *= values.length;
+    } else {
+      memoryFilters[key] = values;
+    }
+  };
+
   // Resolve requested app IDs from filters (singular app_id or plural app_ids)
   let requestedAppIds: string[] | null = null;
   if (filters.app_ids && filters.app_ids.length > 0) {
@@ -419,101 +647,75 @@ export async function getIssues(
   let effectiveAppIds: string[] | null = null;
   if (accessibleAppIds && requestedAppIds) {
     effectiveAppIds = requestedAppIds.filter(id => accessibleAppIds.includes(id));
-    if (effectiveAppIds.length === 0) return { issues: [], total: 0 };
+    if (effectiveAppIds.length === 0) return { issues: [], total: 0, next_cursor: null };
   } else if (accessibleAppIds) {
     effectiveAppIds = accessibleAppIds;
   } else if (requestedAppIds) {
     effectiveAppIds = requestedAppIds;
   }
 
-  // Apply app filter to query
-  if (effectiveAppIds && effectiveAppIds.length === 1) {
-    query = query.where('app_id', '==', effectiveAppIds[0]);
-  } else if (effectiveAppIds && effectiveAppIds.length <= 10) {
-    query = query.where('app_id', 'in', effectiveAppIds);
-    usedInClause = true;
-  } else if (effectiveAppIds) {
-    memoryFilters.app_ids = effectiveAppIds;
+  if (effectiveAppIds) {
+    applyValues('app_id', effectiveAppIds, 'app_ids');
   }
 
   // Apply environment filter (always equality, no 'in' needed)
   if (filters.environment) {
     query = query.where('environment', '==', filters.environment);
+    equalityFields.push('environment');
   }
 
-  // Apply status filter
   if (filters.status) {
-    const statuses = Array.isArray(filters.status) ? filters.status : [filters.status];
-    if (statuses.length === 1) {
-      query = query.where('status', '==', statuses[0]);
-    } else if (!usedInClause) {
-      query = query.where('status', 'in', statuses);
-      usedInClause = true;
-    } else {
-      // Need to filter in memory
-      memoryFilters.status = statuses;
-    }
+    applyValues('status', Array.isArray(filters.status) ? filters.status : [filters.status], 'status');
   }
-
-  // Apply severity filter
   if (filters.severity) {
-    const severities = Array.isArray(filters.severity) ? filters.severity : [filters.severity];
-    if (severities.length === 1) {
-      query = query.where('severity', '==', severities[0]);
-    } else if (!usedInClause) {
-      query = query.where('severity', 'in', severities);
-      usedInClause = true;
-    } else {
-      // Need to filter in memory
-      memoryFilters.severity = severities;
-    }
+    applyValues('severity', Array.isArray(filters.severity) ? filters.severity : [filters.severity], 'severity');
   }
-
-  // Apply issue_type filter
   if (filters.issue_type) {
-    const types = Array.isArray(filters.issue_type) ? filters.issue_type : [filters.issue_type];
-    if (types.length === 1) {
-      query = query.where('issue_type', '==', types[0]);
-    } else if (!usedInClause) {
-      query = query.where('issue_type', 'in', types);
-      usedInClause = true;
-    } else {
-      // Need to filter in memory
-      memoryFilters.issue_type = types;
-    }
+    applyValues(
+      'issue_type',
+      Array.isArray(filters.issue_type) ? filters.issue_type : [filters.issue_type],
+      'issue_type'
+    );
   }
 
   // Apply assigned_to filter (always equality)
   if (filters.assigned_to) {
     query = query.where('routing.assigned_to', '==', filters.assigned_to);
+    equalityFields.push('routing.assigned_to');
+  }
+
+  // Narrow by one indexed term (longest is usually rarest), or by tag; Firestore allows
+  // a single array-contains per query, so the rest is checked in memory
+  const searchTerms = filters.search ? searchTokens(filters.search) : [];
+  const exactVersion = filters.version && !filters.version.includes('*') ? filters.version : undefined;
+  if (searchTerms.length > 0) {
+    const rarest = searchTerms.reduce((a, b) => (b.length > a.length ? b : a));
+    query = query.where('search_tokens', 'array-contains', rarest);
+  } else if (filters.tag) {
+    query = query.where('tags', 'array-contains', filters.tag);
+  } else if (exactVersion) {
+    query = query.where('versions', 'array-contains', exactVersion);
   }
+  const hasArrayFilter = !!(searchTerms.length > 0 || filters.tag || filters.version);
+
+  // A date range also narrows the query when an index covers it with the filters above;
+  // a second date filter, if any, is checked in memory
+  const range = hasArrayFilter ? null : issueDateRange(filters);
+  const rangeInQuery = !!range && hasIssueListIndex(equalityFields, range.fieldPath, 'desc');
+  if (range && rangeInQuery) {
+    if (range.from) query = query.where(range.fieldPath, '>=', range.from);
+    if (range.to) query = query.where(range.fieldPath, '<=', range.to);
+  }
+  const hasDateFilters = !!(filters.created_after || filters.created_before || filters.last_seen_after);
+  const hasIndexFilters = hasArrayFilter || (hasDateFilters && !(rangeInQuery && range?.complete));
 
-  // Determine sort field
-  const sortField =
-    sort.field === 'priority_score'
-      ? 'severity' // Use severity as proxy for priority
-      : sort.field === 'occurrences_24h'
-        ? 'counts.occurrences_24h'
-        : sort.field === 'unique_users_24h_est'
-          ? 'counts.unique_users_24h_est'
-          : sort.field === 'last_seen_at'
-            ? 'timestamps.last_seen_at'
-            : sort.field === 'created_at'
-              ? 'timestamps.created_at'
-              : sort.field;
-
-  // Check if we need memory filtering
-  // Also use memory filtering when 'in' clause is used, because Firestore requires
-  // composite indexes for 'in' + orderBy combinations that we may not have
-  const needsMemoryFilter = Object.keys(memoryFilters).length > 0 || usedInClause;
-
-  if (needsMemoryFilter) {
-    // Fetch all matching docs and filter/sort in memory
-    // Don't use orderBy with 'in' clause to avoid missing index errors
+  /**
+   * Finish filtering and ordering in memory; the query above has already narrowed the set
+   */
+  const listInMemory = async () => {
     const snapshot = await query.get();
     let allIssues = snapshot.docs.map((doc) => doc.data() as Issue);
 
-    // Apply memory filters
     if (memoryFilters.app_ids) {
       allIssues = allIssues.filter((i) => memoryFilters.app_ids!.includes(i.app_id));
     }
@@ -526,81 +728,292 @@ export async function getIssues(
     if (memoryFilters.issue_type) {
       allIssues = allIssues.filter((i) => memoryFilters.issue_type!.includes(i.issue_type));
     }
+    if (hasIndexFilters) {
+      allIssues = allIssues.filter((i) => matchesIssueFilters(i, filters));
+    }
 
-    // Sort in memory
-    allIssues.sort((a, b) => {
-      let aVal: string | number;
-      let bVal: string | number;
-
-      switch (sortField) {
-        case 'severity':
-          // P0 < P1 < P2 < P3 for ascending
-          aVal = ['P0', 'P1', 'P2', 'P3'].indexOf(a.severity);
-          bVal = ['P0', 'P1', 'P2', 'P3'].indexOf(b.severity);
-          break;
-        case 'counts.occurrences_24h':
-          aVal = a.counts.occurrences_24h;
-          bVal = b.counts.occurrences_24h;
-          break;
-        case 'counts.unique_users_24h_est':
-          aVal = a.counts.unique_users_24h_est;
-          bVal = b.counts.unique_users_24h_est;
-          break;
-        case 'timestamps.last_seen_at':
-          aVal = new Date(a.timestamps.last_seen_at).getTime();
-          bVal = new Date(b.timestamps.last_seen_at).getTime();
-          break;
-        case 'timestamps.created_at':
-          aVal = new Date(a.timestamps.created_at).getTime();
-          bVal = new Date(b.timestamps.created_at).getTime();
-          break;
-        default:
-          aVal = 0;
-          bVal = 0;
-      }
+    allIssues.sort((a, b) => compareIssues(a, b, sort));
+    const { issues, next_cursor } = paginateSorted(allIssues, sort, pageSize, { cursor, page });
 
-      return sort.direction === 'asc' ? (aVal < bVal ? -1 : aVal > bVal ? 1 : 0) : aVal > bVal ? -1 : aVal < bVal ? 1 : 0;
-    });
+    return { issues: issues.map(withoutSearchIndex), total: allIssues.length, next_cursor };
+  };
 
-    const total = allIssues.length;
-    const start = (page - 1) * pageSize;
-    const issues = allIssues.slice(start, start + pageSize);
+  const sortPath = SORT_FIELD_PATHS[sort.field];
+  if (
+    Object.keys(memoryFilters).length > 0 ||
+    hasIndexFilters ||
+    // Firestore orders a range query by the range field first
+    (rangeInQuery && range?.fieldPath !== sortPath) ||
+    !hasIssueListIndex(equalityFields, sortPath, sort.direction)
+  ) {
+    return listInMemory();
+  }
 
-    return { issues, total };
+  // Document ID breaks ties so equal scores keep the same order on every page
+  const orderedQuery = query.orderBy(sortPath, sort.direction).orderBy(FieldPath.documentId(), sort.direction);
+  let pageQuery = orderedQuery;
+  if (cursor) {
+    pageQuery = pageQuery.startAfter(cursor.value, cursor.issue_id);
+  } else if (page > 1) {
+    pageQuery = pageQuery.offset((page - 1) * pageSize);
   }
 
-  // No memory filtering needed - use Firestore pagination
-  // Get total count
-  const countSnapshot = await query.get();
-  const total = countSnapshot.size;
+  // One extra document tells us whether there is a next page
+  const [countSnapshot, orderedCountSnapshot, snapshot] = await Promise.all([
+    query.count().get(),
+    orderedQuery.count().get(),
+    pageQuery.limit(pageSize + 1).get(),
+  ]);
+
+  // orderBy skips documents without the sort field (e.g. priority_score on issues stored
+  // before it was persisted and not yet backfilled); sort those in memory so none go missing
+  const total = countSnapshot.data().count;
+  if (orderedCountSnapshot.data().count < total) {
+    return listInMemory();
+  }
 
-  // Apply sorting and pagination
-  query = query.orderBy(sortField, sort.direction);
-  query = query.offset((page - 1) * pageSize).limit(pageSize);
+  const issues = snapshot.docs.slice(0, pageSize).map((doc) => withoutSearchIndex(doc.data() as Issue));
+  const next_cursor =
+    snapshot.size > pageSize ? encodeIssueCursor(cursorAfter(issues[issues.length - 1], sort)) : null;
 
-  const snapshot = await query.get();
-  const issues = snapshot.docs.map((doc) => doc.data() as Issue);
+  return { issues, total, next_cursor };
+}
 
-  return { issues, total };
+/**
+ * The token index is only for querying; list responses leave it out
+ */
+function withoutSearchIndex(issue: Issue): Issue {
+  const { search_tokens: _searchTokens, ...rest } = issue;
+  return rest;
 }
 
+/**
+ * Open issue for a fingerprint
+ * Falls back to issues that absorbed the fingerprint in a merge, so events from a
+ * merged duplicate keep landing on the merge target
+ *
+ * Won't-fix issues count as open here on purpose: new events join them without
+ * reopening, since the team already decided not to act. Only resolved issues
+ * regress (see findResolvedIssueByFingerprint).
+ */
 export async function findIssueByFingerprint(
   appId: string,
   environment: string,
   fingerprint: string
 ): Promise<Issue | null> {
+  for (const field of ['primary_fingerprint', 'alternate_fingerprints'] as const) {
+    const snapshot = await fingerprintQuery(appId, environment, fingerprint, field)
+      .where('status', 'not-in', ['resolved'])
+      .limit(1)
+      .get();
+    if (!snapshot.empty) return snapshot.docs[0].data() as Issue;
+  }
+  return null;
+}
+
+/**
+ * Most recently resolved issue with a fingerprint (issues closed by a merge are skipped)
+ */
+export async function findResolvedIssueByFingerprint(
+  appId: string,
+  environment: string,
+  fingerprint: string
+): Promise<Issue | null> {
+  const snapshots = await Promise.all(
+    (['primary_fingerprint', 'alternate_fingerprints'] as const).map((field) =>
+      fingerprintQuery(appId, environment, fingerprint, field).where('status', '==', 'resolved').limit(10).get()
+    )
+  );
+
+  const resolved = snapshots
+    .flatMap((snapshot) => snapshot.docs.map((doc) => doc.data() as Issue))
+    .filter((issue) => !issue.merged_into)
+    .sort((a, b) => (b.timestamps.resolved_at || '').localeCompare(a.timestamps.resolved_at || ''));
+  return resolved[0] || null;
+}
+
+function fingerprintQuery(
+  appId: string,
+  environment: string,
+  fingerprint: string,
+  field: 'primary_fingerprint' | 'alternate_fingerprints'
+): FirebaseFirestore.Query {
+  return getFirestore()
+    .collection(COLLECTIONS.issues)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where(field, field === 'primary_fingerprint' ? '==' : 'array-contains', fingerprint);
+}
+
+/**
+ * Reopen a resolved issue as a regression
+ * Returns null if the issue is gone or is no longer resolved, e.g. because a
+ * concurrent event already reopened it
+ */
+export async function markIssueRegressed(
+  issueId: string,
+  update: { status: IssueStatus; severity: Severity; regression: IssueRegression }
+): Promise<Issue | null> {
+  const firestore = getFirestore();
+  const docRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+
+  return firestore.runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    if (!doc.exists) return null;
+
+    const issue = doc.data() as Issue;
+    if (issue.status !== 'resolved') return null;
+
+    const priority_score = priorityScore({ ...issue, severity: update.severity });
+    tx.update(docRef, {
+      status: update.status,
+      severity: update.severity,
+      priority_score,
+      regression: update.regression,
+      tags: FieldValue.arrayUnion('regression'),
+      // The resolution now lives on the regression record
+      'timestamps.resolved_at': FieldValue.delete(),
+    });
+
+    const { resolved_at: _resolvedAt, ...timestamps } = issue.timestamps;
+    return {
+      ...issue,
+      ...update,
+      priority_score,
+      tags: [...new Set([...(issue.tags || []), 'regression'])],
+      timestamps,
+    };
+  });
+}
+
+/**
+ * One page of snoozed issues across all apps, for the wake-up evaluator
+ * Pages are in document order; pass the last issue_id to get the next one
+ */
+export async function getSnoozedIssues(startAfterId?: string, limit = 500): Promise<Issue[]> {
+  const firestore = getFirestore();
+  let query = firestore
+    .collection(COLLECTIONS.issues)
+    .where('status', '==', 'snoozed')
+    .orderBy(FieldPath.documentId())
+    .limit(limit);
+  if (startAfterId) query = query.startAfter(startAfterId);
+
+  const snapshot = await query.get();
+
+  return snapshot.docs.map((doc) => doc.data() as Issue);
+}
+
+/**
+ * Move a snoozed issue to a new status and clear its wake conditions
+ * Returns null if someone already changed the status since it was read
+ */
+export async function wakeSnoozedIssue(issueId: string, status: IssueStatus): Promise<Issue | null> {
+  const firestore = getFirestore();
+  const docRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+
+  return firestore.runTransaction(async (tx) => {
+    const doc = await tx.get(docRef);
+    if (!doc.exists) return null;
+
+    const issue = doc.data() as Issue;
+    if (issue.status !== 'snoozed') return null;
+
+    tx.update(docRef, { status, snooze: FieldValue.delete() });
+    const { snooze: _snooze, ...woken } = issue;
+    return { ...woken, status };
+  });
+}
+
+/**
+ * Open issues seen since a cutoff, most recently seen first
+ * Candidates for grouping new feedback
+ */
+export async function getOpenIssuesSeenSince(
+  appId: string,
+  environment: string,
+  since: string,
+  limit = 100
+): Promise<Issue[]> {
   const firestore = getFirestore();
   const snapshot = await firestore
     .collection(COLLECTIONS.issues)
     .where('app_id', '==', appId)
     .where('environment', '==', environment)
-    .where('primary_fingerprint', '==', fingerprint)
-    .where('status', 'not-in', ['resolved'])
-    .limit(1)
+    .where('status', 'in', ['new', 'triaged', 'in_progress', 'blocked', 'snoozed'])
+    .where('timestamps.last_seen_at', '>=', since)
+    .orderBy('timestamps.last_seen_at', 'desc')
+    .limit(limit)
     .get();
 
-  if (snapshot.empty) return null;
-  return snapshot.docs[0].data() as Issue;
+  return snapshot.docs.map((doc) => doc.data() as Issue);
+}
+
+/**
+ * Recent events that share a trace or session, newest first
+ */
+export async function getEventsByLink(
+  appId: string,
+  environment: string,
+  field: 'trace_id' | 'session_id',
+  value: string,
+  limit = 20
+): Promise<Event[]> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.events)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where(field, '==', value)
+    .orderBy('timestamp', 'desc')
+    .limit(limit)
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as Event);
+}
+
+/**
+ * Detach an event from an issue and take its occurrences off the counts
+ */
+export async function removeEventFromIssue(issueId: string, event: Event): Promise<void> {
+  const firestore = getFirestore();
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+  const counterRef = firestore.collection(COLLECTIONS.issueCounters).doc(issueId);
+  const count = event.repeat_count || 1;
+
+  await firestore.runTransaction(async (tx) => {
+    const [counterDoc, issueDoc] = await Promise.all([tx.get(counterRef), tx.get(issueRef)]);
+    const issue = issueDoc.data() as Issue | undefined;
+    const countUpdates: Record<string, unknown> = {};
+
+    if (counterDoc.exists) {
+      const updatedState = removeOccurrence(
+        counterDoc.data() as IssueCounterState,
+        count,
+        new Date(event.timestamp).getTime()
+      );
+      const rollingCounts = computeRollingCounts(updatedState);
+      tx.set(counterRef, updatedState);
+      countUpdates['counts.occurrences_24h'] = rollingCounts.occurrences_24h;
+      countUpdates['counts.occurrences_prev_24h'] = rollingCounts.occurrences_prev_24h;
+      if (issue) {
+        countUpdates['priority_score'] = priorityScore({
+          ...issue,
+          counts: {
+            ...issue.counts,
+            occurrences_24h: rollingCounts.occurrences_24h,
+            occurrences_prev_24h: rollingCounts.occurrences_prev_24h,
+          },
+        });
+      }
+    }
+
+    tx.update(issueRef, {
+      event_refs: FieldValue.arrayRemove(event.event_id),
+      'counts.occurrences_total': FieldValue.increment(-count),
+      ...countUpdates,
+    });
+  });
 }
 
 /**
@@ -635,25 +1048,65 @@ export async function mergeIssues(
     return targetIssue;
   }
 
-  // Aggregate event_refs and counts from source issues
+  // Aggregate event_refs, counts and the search index from source issues
   const allEventRefs = new Set(targetIssue.event_refs);
+  const allVersions = new Set(targetIssue.versions || []);
+  const searchIndex = [...(targetIssue.search_tokens || [])];
+  const alternateFingerprints = new Set(targetIssue.alternate_fingerprints || []);
   let additionalOccurrences = 0;
-  let additionalUsers = 0;
 
   for (const source of sourceIssues) {
     source.event_refs.forEach((ref) => allEventRefs.add(ref));
+    // New events with a source's fingerprints find the target (see findIssueByFingerprint)
+    [source.primary_fingerprint, ...(source.alternate_fingerprints || [])].forEach((fingerprint) => {
+      if (fingerprint && fingerprint !== targetIssue.primary_fingerprint) alternateFingerprints.add(fingerprint);
+    });
+    (source.versions || []).forEach((version) => allVersions.add(version));
+    searchIndex.push(...newSearchTokens(searchIndex, ...(source.search_tokens || [])));
     additionalOccurrences += source.counts.occurrences_total;
-    additionalUsers += source.counts.unique_users_24h_est;
   }
 
-  // Update target issue with merged data
+  // Merge rolling counters so windowed counts and unique users stay accurate
+  const counterDocs = await Promise.all(
+    [targetIssueId, ...sourceIssues.map((s) => s.issue_id)].map((id) =>
+      firestore.collection(COLLECTIONS.issueCounters).doc(id).get()
+    )
+  );
+  const counterStates = counterDocs
+    .filter((doc) => doc.exists)
+    .map((doc) => doc.data() as IssueCounterState);
+
   const targetRef = firestore.collection(COLLECTIONS.issues).doc(targetIssueId);
+  const countUpdates: Record<string, unknown> = {};
+
+  if (counterStates.length > 0) {
+    const mergedState = mergeCounterStates(targetIssueId, counterStates);
+    const rollingCounts = computeRollingCounts(mergedState);
+    batch.set(firestore.collection(COLLECTIONS.issueCounters).doc(targetIssueId), mergedState);
+    countUpdates['counts.occurrences_24h'] = rollingCounts.occurrences_24h;
+    countUpdates['counts.occurrences_prev_24h'] = rollingCounts.occurrences_prev_24h;
+    countUpdates['counts.unique_users_24h_est'] = rollingCounts.unique_users_24h_est;
+    countUpdates['priority_score'] = priorityScore({
+      ...targetIssue,
+      counts: { ...targetIssue.counts, ...rollingCounts },
+    });
+  } else {
+    const additional24h = sourceIssues.reduce((sum, s) => sum + s.counts.occurrences_24h, 0);
+    countUpdates['counts.occurrences_24h'] = FieldValue.increment(additional24h);
+    countUpdates['priority_score'] = priorityScore({
+      ...targetIssue,
+      counts: { ...targetIssue.counts, occurrences_24h: targetIssue.counts.occurrences_24h + additional24h },
+    });
+  }
+
+  // Update target issue with merged data
   batch.update(targetRef, {
     event_refs: Array.from(allEventRefs),
+    versions: Array.from(allVersions),
+    ...(alternateFingerprints.size > 0 && { alternate_fingerprints: Array.from(alternateFingerprints) }),
+    search_tokens: searchIndex,
     'counts.occurrences_total': FieldValue.increment(additionalOccurrences),
-    'counts.occurrences_24h': FieldValue.increment(
-      sourceIssues.reduce((sum, s) => sum + s.counts.occurrences_24h, 0)
-    ),
+    ...countUpdates,
     'timestamps.last_seen_at': new Date().toISOString(),
   });
 
@@ -675,6 +1128,79 @@ export async function mergeIssues(
   return updatedDoc.data() as Issue;
 }
 
+// ============ External Ticket Operations ============
+
+/**
+ * A pending claim older than this is treated as abandoned (e.g., the request crashed)
+ */
+const TICKET_CLAIM_TTL_MS = 2 * 60 * 1000;
+
+export type TicketClaimResult = 'claimed' | 'exists' | 'pending' | 'not_found';
+
+/**
+ * Claim the right to create an external ticket for an issue
+ * Guards against double-clicks and concurrent requests creating two tickets
+ */
+export async function claimIssueTicket(issueId: string, now: Date = new Date()): Promise<TicketClaimResult> {
+  const firestore = getFirestore();
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+
+  return firestore.runTransaction(async (tx) => {
+    const doc = await tx.get(issueRef);
+    if (!doc.exists) return 'not_found';
+
+    const issue = doc.data() as Issue;
+    if (issue.external_ticket) return 'exists';
+    if (
+      issue.external_ticket_pending_at &&
+      now.getTime() - new Date(issue.external_ticket_pending_at).getTime() < TICKET_CLAIM_TTL_MS
+    ) {
+      return 'pending';
+    }
+
+    tx.update(issueRef, { external_ticket_pending_at: now.toISOString() });
+    return 'claimed';
+  });
+}
+
+export async function releaseIssueTicketClaim(issueId: string): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.issues)
+    .doc(issueId)
+    .update({ external_ticket_pending_at: FieldValue.delete() });
+}
+
+export async function setIssueExternalTicket(issueId: string, ticket: ExternalTicket): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.issues)
+    .doc(issueId)
+    .update({
+      external_ticket: ticket,
+      external_ticket_pending_at: FieldValue.delete(),
+    });
+}
+
+/**
+ * Find the issue linked to an external ticket
+ */
+export async function findIssueByExternalTicket(
+  provider: TicketProviderType,
+  key: string
+): Promise<Issue | null> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.issues)
+    .where('external_ticket.provider', '==', provider)
+    .where('external_ticket.key', '==', key)
+    .limit(1)
+    .get();
+
+  if (snapshot.empty) return null;
+  return snapshot.docs[0].data() as Issue;
+}
+
 // ============ Comment Operations ============
 
 export async function createComment(
@@ -691,12 +1217,17 @@ export async function createComment(
     created_at: now,
   };
 
-  await firestore
-    .collection(COLLECTIONS.issues)
-    .doc(issueId)
-    .collection('comments')
-    .doc(commentId)
-    .set(commentDoc);
+  // Comment bodies are searchable from the issue list
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+  await firestore.runTransaction(async (tx) => {
+    const issueDoc = await tx.get(issueRef);
+    const tokens = newSearchTokens((issueDoc.data() as Issue | undefined)?.search_tokens, comment.body);
+
+    tx.set(issueRef.collection('comments').doc(commentId), commentDoc);
+    if (issueDoc.exists && tokens.length > 0) {
+      tx.update(issueRef, { search_tokens: FieldValue.arrayUnion(...tokens) });
+    }
+  });
 
   return commentDoc;
 }
@@ -715,16 +1246,30 @@ export async function getComments(issueId: string): Promise<IssueComment[]> {
 
 // ============ Audit Log Operations ============
 
+// Logs examined per page when some filters are checked in memory
+const AUDIT_SCAN_BATCH = 200;
+const MAX_AUDIT_SCAN = 2000;
+
 export async function createAuditLog(input: AuditLogInput): Promise<AuditLog> {
   const firestore = getFirestore();
   const auditId = uuidv4();
   const now = new Date().toISOString();
 
+  // Firestore rejects undefined values, so drop them from metadata
+  const metadata = Object.fromEntries(
+    Object.entries(input.metadata || {}).filter(([, value]) => value !== undefined)
+  );
+
   const auditLog: AuditLog = {
-    ...input,
+    actor_id: input.actor_id,
+    actor_role: input.actor_role,
+    action: input.action,
+    target_type: input.target_type,
+    target_id: input.target_id,
+    ...(input.app_id && { app_id: input.app_id }),
     audit_id: auditId,
     timestamp: now,
-    metadata: input.metadata || {},
+    metadata,
   };
 
   await firestore.collection(COLLECTIONS.auditLogs).doc(auditId).set(auditLog);
@@ -732,27 +1277,16 @@ export async function createAuditLog(input: AuditLogInput): Promise<AuditLog> {
 }
 
 export async function getAuditLogs(
-  filters: {
-    actor_id?: string;
-    target_type?: string;
-    target_id?: string;
-    after?: string;
-    before?: string;
-  },
-  page = 1,
-  pageSize = 50
-): Promise<{ logs: AuditLog[]; total: number }> {
+  filters: AuditLogFilters,
+  options: { cursor?: string; limit?: number } = {}
+): Promise<{ logs: AuditLog[]; next_cursor: string | null }> {
   const firestore = getFirestore();
+  const limit = options.limit || 50;
+  const plan = planAuditLogQuery(filters);
   let query: FirebaseFirestore.Query = firestore.collection(COLLECTIONS.auditLogs);
 
-  if (filters.actor_id) {
-    query = query.where('actor_id', '==', filters.actor_id);
-  }
-  if (filters.target_type) {
-    query = query.where('target_type', '==', filters.target_type);
-  }
-  if (filters.target_id) {
-    query = query.where('target_id', '==', filters.target_id);
+  if (plan.indexed) {
+    query = query.where(plan.indexed.field, '==', plan.indexed.value);
   }
   if (filters.after) {
     query = query.where('timestamp', '>=', filters.after);
@@ -761,17 +1295,47 @@ export async function getAuditLogs(
     query = query.where('timestamp', '<=', filters.before);
   }
 
-  query = query.orderBy('timestamp', 'desc');
+  // Order by timestamp, with audit_id as a tiebreaker so cursors are stable
+  query = query.orderBy('timestamp', 'desc').orderBy('audit_id', 'desc');
 
-  const countSnapshot = await query.get();
-  const total = countSnapshot.size;
+  let startAfter: FirebaseFirestore.DocumentSnapshot | undefined;
+  if (options.cursor) {
+    const cursorDoc = await firestore.collection(COLLECTIONS.auditLogs).doc(options.cursor).get();
+    if (cursorDoc.exists) {
+      startAfter = cursorDoc;
+    }
+  }
 
-  query = query.offset((page - 1) * pageSize).limit(pageSize);
+  // Without in-memory filters one read of limit + 1 tells whether another page exists.
+  // With them, scan in larger batches up to a cap; a capped scan returns a short
+  // page whose cursor resumes after the last log examined
+  const inMemory = Object.keys(plan.inMemory).length > 0;
+  const batchSize = inMemory ? Math.max(limit + 1, AUDIT_SCAN_BATCH) : limit + 1;
+  const logs: AuditLog[] = [];
+  let scanned = 0;
+
+  while (scanned < MAX_AUDIT_SCAN) {
+    const page = startAfter ? query.startAfter(startAfter) : query;
+    const snapshot = await page.limit(batchSize).get();
+
+    for (const doc of snapshot.docs) {
+      scanned++;
+      startAfter = doc;
+      const log = doc.data() as AuditLog;
+      if (matchesAuditLogFilters(log, plan.inMemory)) {
+        logs.push(log);
+        if (logs.length > limit) {
+          return { logs: logs.slice(0, limit), next_cursor: logs[limit - 1].audit_id };
+        }
+      }
+    }
 
-  const snapshot = await query.get();
-  const logs = snapshot.docs.map((doc) => doc.data() as AuditLog);
+    if (snapshot.docs.length < batchSize) {
+      return { logs, next_cursor: null };
+    }
+  }
 
-  return { logs, total };
+  return { logs, next_cursor: startAfter ? startAfter.id : null };
 }
 
 // ============ User Operations ============
@@ -1065,3 +1629,633 @@ export async function markAllNotificationsRead(recipientEmail: string): Promise<
 
   return snapshot.size;
 }
+
+// ============ Retention Operations ============
+
+/**
+ * Firestore batches are limited to 500 writes
+ */
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Position to resume a retention query after: the last row's sort value and document ID
+ */
+export interface RetentionCursor {
+  value: string;
+  id: string;
+}
+
+/**
+ * Get a page of events older than a cutoff, oldest first
+ */
+export async function getEventsBefore(
+  appId: string,
+  environment: string,
+  before: string,
+  startAfter?: RetentionCursor,
+  limit = MAX_BATCH_WRITES
+): Promise<Event[]> {
+  const firestore = getFirestore();
+  let query = firestore
+    .collection(COLLECTIONS.events)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where('timestamp', '<', before)
+    .orderBy('timestamp', 'asc')
+    .orderBy(FieldPath.documentId(), 'asc');
+  if (startAfter) {
+    query = query.startAfter(startAfter.value, startAfter.id);
+  }
+  const snapshot = await query.limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as Event);
+}
+
+export async function deleteEvents(eventIds: string[]): Promise<number> {
+  if (eventIds.length === 0) return 0;
+  const firestore = getFirestore();
+
+  for (let i = 0; i < eventIds.length; i += MAX_BATCH_WRITES) {
+    const batch = firestore.batch();
+    eventIds
+      .slice(i, i + MAX_BATCH_WRITES)
+      .forEach((id) => batch.delete(firestore.collection(COLLECTIONS.events).doc(id)));
+    await batch.commit();
+  }
+
+  return eventIds.length;
+}
+
+/**
+ * Get a page of attachments whose uploaded_at or expires_at falls before a cutoff
+ */
+export async function getAttachmentsBefore(
+  appId: string,
+  environment: string,
+  field: 'uploaded_at' | 'expires_at',
+  before: string,
+  startAfter?: RetentionCursor,
+  limit = MAX_BATCH_WRITES
+): Promise<Attachment[]> {
+  const firestore = getFirestore();
+  let query = firestore
+    .collection(COLLECTIONS.attachments)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where(field, '<', before)
+    .orderBy(field, 'asc')
+    .orderBy(FieldPath.documentId(), 'asc');
+  if (startAfter) {
+    query = query.startAfter(startAfter.value, startAfter.id);
+  }
+  const snapshot = await query.limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as Attachment);
+}
+
+/**
+ * Get a page of closed (resolved/wont_fix) issues last seen before a cutoff
+ */
+export async function getClosedIssuesBefore(
+  appId: string,
+  environment: string,
+  before: string,
+  startAfter?: RetentionCursor,
+  limit = MAX_BATCH_WRITES
+): Promise<Issue[]> {
+  const firestore = getFirestore();
+  let query = firestore
+    .collection(COLLECTIONS.issues)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where('status', 'in', ['resolved', 'wont_fix'])
+    .where('timestamps.last_seen_at', '<', before)
+    .orderBy('timestamps.last_seen_at', 'asc')
+    .orderBy(FieldPath.documentId(), 'asc');
+  if (startAfter) {
+    query = query.startAfter(startAfter.value, startAfter.id);
+  }
+  const snapshot = await query.limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as Issue);
+}
+
+/**
+ * Delete an issue along with its comments and rolling counters
+ */
+export async function deleteIssueCascade(issueId: string): Promise<void> {
+  const firestore = getFirestore();
+  const issueRef = firestore.collection(COLLECTIONS.issues).doc(issueId);
+
+  const comments = await issueRef.collection('comments').get();
+  for (let i = 0; i < comments.docs.length; i += MAX_BATCH_WRITES) {
+    const batch = firestore.batch();
+    comments.docs.slice(i, i + MAX_BATCH_WRITES).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  const batch = firestore.batch();
+  batch.delete(firestore.collection(COLLECTIONS.issueCounters).doc(issueId));
+  batch.delete(issueRef);
+  await batch.commit();
+}
+
+/**
+ * App the next full retention run starts from, or null to start from the first
+ */
+export async function getRetentionResumeAppId(): Promise<string | null> {
+  const firestore = getFirestore();
+  const doc = await firestore.collection(COLLECTIONS.jobState).doc('retention').get();
+  return (doc.data()?.resume_app_id as string | undefined) ?? null;
+}
+
+export async function setRetentionResumeAppId(appId: string | null): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.jobState)
+    .doc('retention')
+    .set({ resume_app_id: appId, updated_at: new Date().toISOString() });
+}
+
+// ============ Installation Health Operations ============
+
+function ingestionStatsDocId(appId: string, environment: string): string {
+  return `${appId}__${environment}`;
+}
+
+export async function getIngestionStats(
+  appId: string,
+  environment: string
+): Promise<IngestionStats | null> {
+  const firestore = getFirestore();
+  const doc = await firestore
+    .collection(COLLECTIONS.ingestionStats)
+    .doc(ingestionStatsDocId(appId, environment))
+    .get();
+  return doc.exists ? (doc.data() as IngestionStats) : null;
+}
+
+/**
+ * Increment the current hour's counters with a request's tally
+ * Receiving any event clears the silent notification marker
+ */
+export async function recordIngestionStats(
+  appId: string,
+  environment: string,
+  tally: IngestionTally,
+  sdk?: string,
+  now: Date = new Date()
+): Promise<void> {
+  if (tally.received === 0 && tally.rejected === 0) return;
+  const firestore = getFirestore();
+  const timestamp = now.toISOString();
+
+  const update: Record<string, unknown> = {
+    app_id: appId,
+    environment,
+    hourly: {
+      [hourIndex(now.getTime())]: {
+        received: FieldValue.increment(tally.received),
+        rejected: FieldValue.increment(tally.rejected),
+        redacted: FieldValue.increment(tally.redacted),
+        missing_version: FieldValue.increment(tally.missing_version),
+        missing_trace: FieldValue.increment(tally.missing_trace),
+      },
+    },
+    updated_at: timestamp,
+  };
+
+  if (tally.received > 0) {
+    update.last_event_by_type = Object.fromEntries(tally.event_types.map((t) => [t, timestamp]));
+    update.silent_notified_at = FieldValue.delete();
+    if (sdk) {
+      update.sdk_versions = { [sdk]: timestamp };
+    }
+  }
+
+  await firestore
+    .collection(COLLECTIONS.ingestionStats)
+    .doc(ingestionStatsDocId(appId, environment))
+    .set(update, { merge: true });
+}
+
+/**
+ * Remove aged-out hour buckets and SDK versions
+ */
+export async function pruneIngestionStats(
+  appId: string,
+  environment: string,
+  expired: { hours: string[]; sdkVersions: string[] }
+): Promise<void> {
+  const fields = [
+    ...expired.hours.map((h) => new FieldPath('hourly', h)),
+    ...expired.sdkVersions.map((v) => new FieldPath('sdk_versions', v)),
+  ];
+  if (fields.length === 0) return;
+
+  const firestore = getFirestore();
+  const [first, ...rest] = fields;
+  await firestore
+    .collection(COLLECTIONS.ingestionStats)
+    .doc(ingestionStatsDocId(appId, environment))
+    .update(first, FieldValue.delete(), ...rest.flatMap((f) => [f, FieldValue.delete()]));
+}
+
+export async function markIngestionSilentNotified(
+  appId: string,
+  environment: string,
+  notifiedAt: string
+): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.ingestionStats)
+    .doc(ingestionStatsDocId(appId, environment))
+    .update({ silent_notified_at: notifiedAt });
+}
+
+/**
+ * Count open (not resolved/wont_fix) issues by severity
+ */
+export async function countOpenIssues(appId: string, environment: string): Promise<OpenIssueCounts> {
+  const firestore = getFirestore();
+  const openIssues = firestore
+    .collection(COLLECTIONS.issues)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment)
+    .where('status', 'in', ['new', 'triaged', 'in_progress', 'blocked', 'snoozed']);
+
+  const [total, p0, p1] = await Promise.all([
+    openIssues.count().get(),
+    openIssues.where('severity', '==', 'P0').count().get(),
+    openIssues.where('severity', '==', 'P1').count().get(),
+  ]);
+
+  return {
+    total_open: total.data().count,
+    p0_open: p0.data().count,
+    p1_open: p1.data().count,
+  };
+}
+
+// ============ Alert Operations ============
+
+/**
+ * Count events for an app environment within a time range
+ * Narrowed to one issue by fingerprint, or to the given event types
+ */
+export async function countEventsInRange(
+  appId: string,
+  environment: string,
+  range: { since: string; until?: string },
+  filter: { fingerprint?: string; eventTypes?: EventType[] } = {}
+): Promise<number> {
+  const firestore = getFirestore();
+  let query: FirebaseFirestore.Query = firestore
+    .collection(COLLECTIONS.events)
+    .where('app_id', '==', appId)
+    .where('environment', '==', environment);
+
+  if (filter.fingerprint) {
+    query = query.where('fingerprint', '==', filter.fingerprint);
+  } else if (filter.eventTypes) {
+    query = query.where('event_type', 'in', filter.eventTypes);
+  }
+
+  query = query.where('timestamp', '>=', range.since);
+  if (range.until) {
+    query = query.where('timestamp', '<', range.until);
+  }
+
+  const snapshot = await query.count().get();
+  return snapshot.data().count;
+}
+
+/**
+ * Record an alert firing unless the same rule already fired for the same key within its cooldown
+ * The cooldown check and the write share a transaction so concurrent ingest requests fire once
+ */
+export async function recordAlertFiring(
+  input: Omit<AlertFiring, 'firing_id' | 'fired_at'>,
+  cooldownMinutes: number,
+  now: Date = new Date()
+): Promise<AlertFiring | null> {
+  const firestore = getFirestore();
+  const cooldownRef = firestore
+    .collection(COLLECTIONS.alertCooldowns)
+    .doc(`${input.app_id}_${input.rule_id}_${input.dedupe_key}`);
+
+  return firestore.runTransaction(async (tx) => {
+    const cooldown = await tx.get(cooldownRef);
+    const lastFiredAt = cooldown.exists ? (cooldown.data()!.last_fired_at as string) : null;
+    if (lastFiredAt && now.getTime() - new Date(lastFiredAt).getTime() < cooldownMinutes * 60 * 1000) {
+      return null;
+    }
+
+    const firing: AlertFiring = {
+      ...input,
+      firing_id: uuidv4(),
+      fired_at: now.toISOString(),
+    };
+    tx.set(firestore.collection(COLLECTIONS.alertFirings).doc(firing.firing_id), firing);
+    tx.set(cooldownRef, {
+      app_id: input.app_id,
+      rule_id: input.rule_id,
+      dedupe_key: input.dedupe_key,
+      last_fired_at: firing.fired_at,
+    });
+    return firing;
+  });
+}
+
+/**
+ * Alert firing history for an app, newest first
+ */
+export async function getAlertFirings(
+  appId: string,
+  options: { ruleId?: string; limit?: number } = {}
+): Promise<AlertFiring[]> {
+  const firestore = getFirestore();
+  const { ruleId, limit = 50 } = options;
+
+  let query: FirebaseFirestore.Query = firestore
+    .collection(COLLECTIONS.alertFirings)
+    .where('app_id', '==', appId);
+  if (ruleId) {
+    query = query.where('rule_id', '==', ruleId);
+  }
+
+  const snapshot = await query.orderBy('fired_at', 'desc').limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as AlertFiring);
+}
+
+// ============ Webhook Delivery Operations ============
+
+export async function createWebhookDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+  if (deliveries.length === 0) return;
+  const firestore = getFirestore();
+  const batch = firestore.batch();
+  for (const delivery of deliveries) {
+    batch.set(firestore.collection(COLLECTIONS.webhookDeliveries).doc(delivery.delivery_id), delivery);
+  }
+  await batch.commit();
+}
+
+/**
+ * Store the outcome of a delivery attempt
+ * Fields left out of the outcome (next_attempt_at, error, response_status) are cleared
+ */
+export async function recordWebhookAttempt(
+  deliveryId: string,
+  outcome: Pick<WebhookDelivery, 'status' | 'attempts' | 'last_attempt_at'> &
+    Partial<Pick<WebhookDelivery, 'next_attempt_at' | 'response_status' | 'error' | 'delivered_at'>>
+): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.webhookDeliveries)
+    .doc(deliveryId)
+    .update({
+      status: outcome.status,
+      attempts: outcome.attempts,
+      last_attempt_at: outcome.last_attempt_at,
+      next_attempt_at: outcome.next_attempt_at ?? FieldValue.delete(),
+      response_status: outcome.response_status ?? FieldValue.delete(),
+      error: outcome.error ?? FieldValue.delete(),
+      ...(outcome.delivered_at && { delivered_at: outcome.delivered_at }),
+    });
+}
+
+/**
+ * Pending deliveries whose next attempt is due, oldest first
+ */
+export async function getDueWebhookDeliveries(now: Date, limit = 100): Promise<WebhookDelivery[]> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.webhookDeliveries)
+    .where('status', '==', 'pending')
+    .where('next_attempt_at', '<=', now.toISOString())
+    .orderBy('next_attempt_at', 'asc')
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as WebhookDelivery);
+}
+
+/**
+ * Delivery log for an app, newest first
+ */
+export async function getWebhookDeliveries(
+  appId: string,
+  options: { subscriptionId?: string; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const firestore = getFirestore();
+  const { subscriptionId, limit = 50 } = options;
+
+  let query: FirebaseFirestore.Query = firestore
+    .collection(COLLECTIONS.webhookDeliveries)
+    .where('app_id', '==', appId);
+  if (subscriptionId) {
+    query = query.where('subscription_id', '==', subscriptionId);
+  }
+
+  const snapshot = await query.orderBy('created_at', 'desc').limit(limit).get();
+  return snapshot.docs.map((doc) => doc.data() as WebhookDelivery);
+}
+
+// ============ AI Triage Job Operations ============
+
+export async function createAITriageJob(job: AITriageJob): Promise<void> {
+  const firestore = getFirestore();
+  await firestore.collection(COLLECTIONS.aiTriageJobs).doc(job.job_id).set(job);
+}
+
+/**
+ * Deployment-wide concurrency slots: running job ID -> lease expiry
+ * Leases left by a dead worker stop counting once they expire
+ */
+interface AIJobSlots {
+  leases: Record<string, string>;
+}
+
+/**
+ * Outcome of a claim: the running job, or null if it was claimed or
+ * rescheduled by someone else first, or every slot was taken
+ */
+export type AIJobClaim = { job: AITriageJob } | { job: null; slotsFull: boolean };
+
+function aiJobSlotsRef(firestore: FirebaseFirestore.Firestore): FirebaseFirestore.DocumentReference {
+  return firestore.collection(COLLECTIONS.aiJobSlots).doc('deployment');
+}
+
+/**
+ * Move a queued job that is due to running, under a lease
+ * Takes one of maxConcurrent slots in the same transaction, so instances
+ * claiming at once can't run more jobs than that between them
+ */
+export async function claimAITriageJob(
+  jobId: string,
+  now: Date,
+  leaseMs: number,
+  maxConcurrent: number
+): Promise<AIJobClaim> {
+  const firestore = getFirestore();
+  const jobRef = firestore.collection(COLLECTIONS.aiTriageJobs).doc(jobId);
+  const slotsRef = aiJobSlotsRef(firestore);
+
+  return firestore.runTransaction(async (tx) => {
+    const [doc, slotsDoc] = await Promise.all([tx.get(jobRef), tx.get(slotsRef)]);
+    if (!doc.exists) return { job: null, slotsFull: false };
+
+    const job = doc.data() as AITriageJob;
+    if (job.status !== 'queued' || (job.next_attempt_at && job.next_attempt_at > now.toISOString())) {
+      return { job: null, slotsFull: false };
+    }
+
+    const leases = Object.fromEntries(
+      Object.entries((slotsDoc.data() as AIJobSlots | undefined)?.leases ?? {}).filter(
+        ([id, expiresAt]) => id !== jobId && expiresAt > now.toISOString()
+      )
+    );
+    if (Object.keys(leases).length >= maxConcurrent) {
+      return { job: null, slotsFull: true };
+    }
+
+    const leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+    const { next_attempt_at: _next, deferred_reason: _deferred, ...rest } = job;
+    const claimed: AITriageJob = {
+      ...rest,
+      status: 'running',
+      attempts: job.attempts + 1,
+      started_at: now.toISOString(),
+      lease_expires_at: leaseExpiresAt,
+    };
+    tx.set(jobRef, claimed);
+    tx.set(slotsRef, { leases: { ...leases, [jobId]: leaseExpiresAt } } satisfies AIJobSlots);
+    return { job: claimed };
+  });
+}
+
+/**
+ * Store a job's new state and free its concurrency slot
+ * Scheduling fields left out of the update (next_attempt_at, lease_expires_at, deferred_reason) are cleared
+ */
+export async function updateAITriageJob(
+  jobId: string,
+  update: Pick<AITriageJob, 'status'> &
+    Partial<
+      Pick<
+        AITriageJob,
+        | 'next_attempt_at'
+        | 'lease_expires_at'
+        | 'deferred_reason'
+        | 'finished_at'
+        | 'analysis_id'
+        | 'skipped_reason'
+        | 'error'
+        | 'usage'
+      >
+    >
+): Promise<void> {
+  const firestore = getFirestore();
+  const batch = firestore.batch();
+  batch.update(firestore.collection(COLLECTIONS.aiTriageJobs).doc(jobId), {
+    ...update,
+    next_attempt_at: update.next_attempt_at ?? FieldValue.delete(),
+    lease_expires_at: update.lease_expires_at ?? FieldValue.delete(),
+    deferred_reason: update.deferred_reason ?? FieldValue.delete(),
+  });
+  batch.set(aiJobSlotsRef(firestore), { leases: { [jobId]: FieldValue.delete() } }, { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Queued jobs whose next attempt is due, oldest first
+ */
+export async function getDueAITriageJobs(now: Date, limit = 20): Promise<AITriageJob[]> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.aiTriageJobs)
+    .where('status', '==', 'queued')
+    .where('next_attempt_at', '<=', now.toISOString())
+    .orderBy('next_attempt_at', 'asc')
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as AITriageJob);
+}
+
+/**
+ * Running jobs whose lease ran out (the worker died or hung)
+ */
+export async function getExpiredAITriageJobs(now: Date, limit = 50): Promise<AITriageJob[]> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.aiTriageJobs)
+    .where('status', '==', 'running')
+    .where('lease_expires_at', '<=', now.toISOString())
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as AITriageJob);
+}
+
+/**
+ * Record an issue's triage job state, plus the analysis when the job produced one
+ * Unlike updateIssue this leaves last_seen_at alone: a model run isn't an occurrence
+ */
+export async function setIssueAIJob(
+  issueId: string,
+  aiJob: IssueAIJob,
+  analysis: Pick<IssueUpdateInput, 'ai_analysis' | 'ai_feedback_analysis'> = {}
+): Promise<void> {
+  const firestore = getFirestore();
+  await firestore
+    .collection(COLLECTIONS.issues)
+    .doc(issueId)
+    .update({ ai_job: aiJob, ...analysis });
+}
+
+// ============ AI Usage Operations ============
+
+function aiUsageDocId(date: string, appId?: string): string {
+  return appId ? `${date}__${appId}` : date;
+}
+
+/**
+ * Usage for one UTC day, deployment-wide or for one app
+ */
+export async function getAIUsage(date: string, appId?: string): Promise<AIUsageDay | null> {
+  const firestore = getFirestore();
+  const doc = await firestore.collection(COLLECTIONS.aiUsage).doc(aiUsageDocId(date, appId)).get();
+  return doc.exists ? (doc.data() as AIUsageDay) : null;
+}
+
+/**
+ * Add a model call to the day's totals for the app and the deployment
+ */
+export async function recordAIUsage(date: string, appId: string, usage: AIUsage): Promise<void> {
+  const firestore = getFirestore();
+  const increments = {
+    date,
+    calls: FieldValue.increment(1),
+    input_tokens: FieldValue.increment(usage.input_tokens),
+    output_tokens: FieldValue.increment(usage.output_tokens),
+    cost_usd: FieldValue.increment(usage.cost_usd),
+    updated_at: new Date().toISOString(),
+  };
+
+  const batch = firestore.batch();
+  batch.set(firestore.collection(COLLECTIONS.aiUsage).doc(aiUsageDocId(date)), increments, { merge: true });
+  batch.set(
+    firestore.collection(COLLECTIONS.aiUsage).doc(aiUsageDocId(date, appId)),
+    { ...increments, app_id: appId },
+    { merge: true }
+  );
+  await batch.commit();
+}
+
+/**
+ * Daily usage documents from a date on, newest first
+ */
+export async function getAIUsageSince(sinceDate: string): Promise<AIUsageDay[]> {
+  const firestore = getFirestore();
+  const snapshot = await firestore
+    .collection(COLLECTIONS.aiUsage)
+    .where('date', '>=', sinceDate)
+    .orderBy('date', 'desc')
+    .get();
+  return snapshot.docs.map((doc) => doc.data() as AIUsageDay);
+}
@@ -0,0 +1,159 @@
+/**
+ * Ingestion policy service
+ * Applies per-environment and per-app telemetry policies to incoming events
+ */
+
+import {
+  DEFAULT_POLICY,
+  type App,
+  type EventType,
+  type RedactionProfile,
+  type SamplingRule,
+  type SdkConfigResponse,
+  type TelemetryPolicy,
+} from '@britepulse/shared';
+
+/**
+ * Reason codes reported for events that are not ingested
+ */
+export type IngestionRejectReason =
+  | 'environment_disabled'
+  | 'frontend_telemetry_disabled'
+  | 'backend_telemetry_disabled'
+  | 'sampled_out'
+  | 'processing_failed';
+
+export type IngestionDecision =
+  | { accepted: true }
+  | { accepted: false; reason: IngestionRejectReason; message: string };
+
+/**
+ * Check whether an environment is enabled for an app.
+ * Environments missing from the app config are treated as disabled.
+ */
+export function isEnvironmentEnabled(app: App, environment: string): boolean {
+  const envConfig = app.environments.find((e) => e.env_name === environment);
+  return envConfig?.enabled === true;
+}
+
+/**
+ * Get the redaction profile configured for an app
+ */
+export function getRedactionProfile(app: App): RedactionProfile {
+  return app.policies?.redaction_profile || DEFAULT_POLICY.redaction_profile;
+}
+
+/**
+ * Get the telemetry policy for an app, merged with defaults
+ */
+export function getTelemetryPolicy(app: App): TelemetryPolicy {
+  return {
+    ...DEFAULT_POLICY.telemetry_policy,
+    ...app.policies?.telemetry_policy,
+  };
+}
+
+/**
+ * Extract the path portion of a route or URL for pattern matching
+ */
+function extractPath(routeOrUrl: string): string {
+  try {
+    return new URL(routeOrUrl).pathname;
+  } catch {
+    return routeOrUrl.split(/[?#]/)[0];
+  }
+}
+
+/**
+ * Match a route against a glob-style pattern ('*' matches any characters)
+ */
+export function matchesRoutePattern(routeOrUrl: string, pattern: string): boolean {
+  const path = extractPath(routeOrUrl);
+  const regex = new RegExp(
+    '^' + pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+  );
+  return regex.test(path) || regex.test(routeOrUrl);
+}
+
+/**
+ * Find the sample rate for a route.
+ * The first matching rule wins; rules without a route_pattern match everything.
+ */
+export function getSampleRate(rules: SamplingRule[], routeOrUrl: string): number {
+  const rule = rules.find(
+    (r) => !r.route_pattern || matchesRoutePattern(routeOrUrl, r.route_pattern)
+  );
+  if (!rule) return 1;
+  return Math.min(1, Math.max(0, rule.sample_rate));
+}
+
+/**
+ * Decide whether an event should be ingested.
+ * Feedback is always user-initiated, so it bypasses telemetry toggles and sampling.
+ * Events carrying sample_rate were already sampled by the SDK; only the part of the
+ * server's rate the SDK didn't apply is sampled again, so a client can't opt out.
+ */
+export function evaluateIngestion(
+  app: App,
+  environment: string,
+  event: { event_type: EventType; route_or_url?: string; sample_rate?: number },
+  random: () => number = Math.random
+): IngestionDecision {
+  if (!isEnvironmentEnabled(app, environment)) {
+    return {
+      accepted: false,
+      reason: 'environment_disabled',
+      message: `Environment '${environment}' is disabled for this app`,
+    };
+  }
+
+  if (event.event_type === 'feedback') {
+    return { accepted: true };
+  }
+
+  const telemetry = getTelemetryPolicy(app);
+
+  if (event.event_type === 'frontend_error' && !telemetry.frontend_enabled) {
+    return {
+      accepted: false,
+      reason: 'frontend_telemetry_disabled',
+      message: 'Frontend telemetry is disabled for this app',
+    };
+  }
+
+  if (event.event_type === 'backend_error' && !telemetry.backend_enabled) {
+    return {
+      accepted: false,
+      reason: 'backend_telemetry_disabled',
+      message: 'Backend telemetry is disabled for this app',
+    };
+  }
+
+  const sampleRate = getSampleRate(telemetry.sampling_rules || [], event.route_or_url || '');
+  // The SDK's rate is credited only down to the server's, so a client can't opt out by
+  // reporting a lower one: below it, the server rate applies on its own
+  const clientRate = event.sample_rate ?? 1;
+  const keepRate = clientRate >= sampleRate ? sampleRate / clientRate : sampleRate;
+  if (keepRate < 1 && random() >= keepRate) {
+    return {
+      accepted: false,
+      reason: 'sampled_out',
+      message: `Event dropped by sampling (rate ${sampleRate})`,
+    };
+  }
+
+  return { accepted: true };
+}
+
+/**
+ * Public SDK configuration for an app environment
+ */
+export function buildSdkConfig(app: App, environment: string): SdkConfigResponse {
+  const telemetry = getTelemetryPolicy(app);
+  return {
+    environment,
+    enabled: isEnvironmentEnabled(app, environment),
+    frontend_enabled: telemetry.frontend_enabled,
+    sampling_rules: telemetry.sampling_rules || [],
+  };
+}
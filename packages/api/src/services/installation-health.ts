@@ -0,0 +1,302 @@
+/**
+ * Installation Health Service
+ * Tracks ingestion stats per app environment and derives healthy/degraded/silent status
+ */
+
+import {
+  DEFAULT_HEALTH_THRESHOLDS,
+  type App,
+  type AppHealthResponse,
+  type HealthThresholds,
+} from '@britepulse/shared';
+import * as firestoreService from './firestore.js';
+import { hourIndex } from './rolling-counters.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hourly buckets kept on the stats document
+const STATS_WINDOW_HOURS = 48;
+
+// SDK versions not seen for this long are dropped from the stats document
+const SDK_VERSION_TTL_MS = 30 * 24 * HOUR_MS;
+
+/**
+ * Ingestion counters for a single hour
+ */
+export interface IngestionHourBucket {
+  received: number;
+  rejected: number;
+  redacted: number; // accepted events where redaction changed the payload
+  missing_version: number;
+  missing_trace: number;
+}
+
+/**
+ * Per app/environment ingestion stats (stored in ingestion_stats)
+ */
+export interface IngestionStats {
+  app_id: string;
+  environment: string;
+  hourly: Record<string, IngestionHourBucket>; // keyed by hour index
+  last_event_by_type: Record<string, string>; // event_type -> ISO timestamp
+  sdk_versions: Record<string, string>; // 'name/version' -> last seen ISO timestamp
+  silent_notified_at?: string;
+  updated_at: string;
+}
+
+/**
+ * Counters accumulated while processing one ingestion request
+ */
+export interface IngestionTally extends IngestionHourBucket {
+  event_types: string[];
+}
+
+export interface OpenIssueCounts {
+  total_open: number;
+  p0_open: number;
+  p1_open: number;
+}
+
+export function createIngestionTally(): IngestionTally {
+  return {
+    received: 0,
+    rejected: 0,
+    redacted: 0,
+    missing_version: 0,
+    missing_trace: 0,
+    event_types: [],
+  };
+}
+
+/**
+ * Count an accepted event
+ */
+export function tallyAccepted(
+  tally: IngestionTally,
+  event: { event_type: string; version?: string; trace_id?: string },
+  redactionsApplied: number
+): void {
+  tally.received++;
+  if (redactionsApplied > 0) tally.redacted++;
+  if (!event.version || event.version === 'unknown') tally.missing_version++;
+  if (!event.trace_id) tally.missing_trace++;
+  if (!tally.event_types.includes(event.event_type)) {
+    tally.event_types.push(event.event_type);
+  }
+}
+
+/**
+ * Resolve health thresholds for an app
+ */
+export function resolveHealthThresholds(app: App): HealthThresholds {
+  return { ...DEFAULT_HEALTH_THRESHOLDS, ...app.policies?.health_thresholds };
+}
+
+/**
+ * Sum hourly buckets in the 24h window ending at now
+ */
+function sumLast24h(stats: IngestionStats | null, now: number): IngestionHourBucket {
+  const totals: IngestionHourBucket = {
+    received: 0,
+    rejected: 0,
+    redacted: 0,
+    missing_version: 0,
+    missing_trace: 0,
+  };
+  if (!stats) return totals;
+
+  const current = hourIndex(now);
+  for (const [hour, bucket] of Object.entries(stats.hourly || {})) {
+    const h = Number(hour);
+    if (h > current - 24 && h <= current) {
+      totals.received += bucket.received || 0;
+      totals.rejected += bucket.rejected || 0;
+      totals.redacted += bucket.redacted || 0;
+      totals.missing_version += bucket.missing_version || 0;
+      totals.missing_trace += bucket.missing_trace || 0;
+    }
+  }
+  return totals;
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 1000 : 0;
+}
+
+/**
+ * Most recent event across all event types
+ */
+export function getLastEventReceived(stats: IngestionStats | null): string | undefined {
+  const timestamps = Object.values(stats?.last_event_by_type || {});
+  return timestamps.length > 0 ? timestamps.sort().at(-1) : undefined;
+}
+
+/**
+ * Derive health for an app environment from its ingestion stats
+ */
+export function computeInstallationHealth(
+  app: App,
+  environment: string,
+  stats: IngestionStats | null,
+  issues: OpenIssueCounts,
+  now: Date = new Date()
+): AppHealthResponse {
+  const thresholds = resolveHealthThresholds(app);
+  const totals = sumLast24h(stats, now.getTime());
+  const lastEventReceived = getLastEventReceived(stats);
+
+  const missingVersionRate = rate(totals.missing_version, totals.received);
+  const missingTraceRate = rate(totals.missing_trace, totals.received);
+  const rejectedRate = rate(totals.rejected, totals.received + totals.rejected);
+
+  const reasons: string[] = [];
+  const silentCutoff = now.getTime() - thresholds.silent_after_hours * HOUR_MS;
+  const silent = !lastEventReceived || new Date(lastEventReceived).getTime() < silentCutoff;
+
+  if (silent) {
+    reasons.push(
+      lastEventReceived
+        ? `No events in the last ${thresholds.silent_after_hours}h`
+        : 'No events received yet'
+    );
+  } else {
+    if (missingVersionRate > thresholds.max_missing_version_rate) {
+      reasons.push(`Missing version rate ${missingVersionRate} exceeds ${thresholds.max_missing_version_rate}`);
+    }
+    if (missingTraceRate > thresholds.max_missing_trace_rate) {
+      reasons.push(`Missing trace ID rate ${missingTraceRate} exceeds ${thresholds.max_missing_trace_rate}`);
+    }
+    if (rejectedRate > thresholds.max_rejected_rate) {
+      reasons.push(`Rejected rate ${rejectedRate} exceeds ${thresholds.max_rejected_rate}`);
+    }
+  }
+
+  const sdkVersions = Object.entries(stats?.sdk_versions || {})
+    .map(([sdk, last_seen_at]) => ({ sdk, last_seen_at }))
+    .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at));
+
+  return {
+    app_id: app.app_id,
+    environment,
+    status: silent ? 'silent' : reasons.length > 0 ? 'degraded' : 'healthy',
+    status_reasons: reasons,
+    thresholds,
+    metrics: {
+      last_event_received: lastEventReceived,
+      last_event_by_type: stats?.last_event_by_type || {},
+      events_24h: totals.received,
+      rejected_24h: totals.rejected,
+      redacted_24h: totals.redacted,
+      missing_version_rate: missingVersionRate,
+      missing_trace_rate: missingTraceRate,
+      rejected_rate: rejectedRate,
+      sdk_versions: sdkVersions,
+    },
+    issues,
+  };
+}
+
+/**
+ * Load stats and open issue counts, then compute health
+ */
+export async function getInstallationHealth(
+  app: App,
+  environment: string,
+  now: Date = new Date()
+): Promise<AppHealthResponse> {
+  const [stats, issues] = await Promise.all([
+    firestoreService.getIngestionStats(app.app_id, environment),
+    firestoreService.countOpenIssues(app.app_id, environment),
+  ]);
+  return computeInstallationHealth(app, environment, stats, issues, now);
+}
+
+/**
+ * Hour buckets and SDK versions that have aged out of the stats document
+ */
+export function getExpiredStatsKeys(
+  stats: IngestionStats,
+  now: number
+): { hours: string[]; sdkVersions: string[] } {
+  const oldestHour = hourIndex(now) - STATS_WINDOW_HOURS;
+  return {
+    hours: Object.keys(stats.hourly || {}).filter((h) => Number(h) <= oldestHour),
+    sdkVersions: Object.entries(stats.sdk_versions || {})
+      .filter(([, lastSeen]) => new Date(lastSeen).getTime() < now - SDK_VERSION_TTL_MS)
+      .map(([sdk]) => sdk),
+  };
+}
+
+export interface SilentInstallationResult {
+  checked: number;
+  silent: Array<{ app_id: string; environment: string; last_event_received?: string }>;
+  notified: number;
+}
+
+/**
+ * Check enabled environments for silent installations and notify app owners
+ * Environments that have never sent an event are skipped; owners are notified
+ * once per silent period (reset when events resume)
+ */
+export async function runSilentInstallationCheck(options: {
+  apps: App[];
+  now?: Date;
+}): Promise<SilentInstallationResult> {
+  const { apps, now = new Date() } = options;
+  const result: SilentInstallationResult = { checked: 0, silent: [], notified: 0 };
+
+  for (const app of apps) {
+    for (const env of app.environments.filter((e) => e.enabled)) {
+      try {
+        const stats = await firestoreService.getIngestionStats(app.app_id, env.env_name);
+        if (!stats) continue;
+        result.checked++;
+
+        const expired = getExpiredStatsKeys(stats, now.getTime());
+        if (expired.hours.length > 0 || expired.sdkVersions.length > 0) {
+          await firestoreService.pruneIngestionStats(app.app_id, env.env_name, expired);
+        }
+
+        const health = computeInstallationHealth(
+          app,
+          env.env_name,
+          stats,
+          { total_open: 0, p0_open: 0, p1_open: 0 },
+          now
+        );
+        if (health.status !== 'silent') continue;
+
+        result.silent.push({
+          app_id: app.app_id,
+          environment: env.env_name,
+          last_event_received: health.metrics.last_event_received,
+        });
+
+        if (stats.silent_notified_at) continue;
+
+        const recipients = app.owners.po_emails || [];
+        await firestoreService.createNotifications(
+          recipients.map((email) => ({
+            recipient_email: email,
+            type: 'silent_installation' as const,
+            app_id: app.app_id,
+            environment: env.env_name,
+            actor_email: 'system',
+            actor_name: 'BritePulse',
+            body_preview: `${app.name} (${env.env_name}) has not sent any events in the last ${health.thresholds.silent_after_hours}h`,
+          }))
+        );
+        await firestoreService.markIngestionSilentNotified(
+          app.app_id,
+          env.env_name,
+          now.toISOString()
+        );
+        result.notified += recipients.length;
+      } catch (error) {
+        console.error(`[Health] Silent check failed for ${app.app_id}/${env.env_name}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
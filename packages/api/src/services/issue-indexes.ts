@@ -0,0 +1,52 @@
+/**
+ * Issue List Indexes
+ * Composite indexes getIssues can filter, order and page with in Firestore. Each
+ * combination is declared in infrastructure/firestore.indexes.json (a test checks);
+ * every console filter and sort combination would need hundreds, more than Firestore
+ * allows, so queries without a matching index finish in memory instead
+ */
+
+import { SORT_FIELD_PATHS } from './issue-ordering.js';
+
+/**
+ * Fields getIssues filters on with == or in
+ */
+export type IssueEqualityField =
+  | 'app_id'
+  | 'environment'
+  | 'status'
+  | 'severity'
+  | 'issue_type'
+  | 'routing.assigned_to';
+
+/**
+ * Filter combinations with a descending index on every sort field
+ * Sorting with no filters only needs the automatic single-field indexes
+ */
+export const INDEXED_ISSUE_FILTERS: IssueEqualityField[][] = [
+  ['app_id'],
+  ['environment'],
+  ['status'],
+  ['app_id', 'environment'],
+  ['app_id', 'status'],
+  ['environment', 'status'],
+  ['app_id', 'environment', 'status'],
+];
+
+/**
+ * Whether a query with these equality filters can be ordered by a field in Firestore
+ * Also covers a range filter on that field
+ */
+export function hasIssueListIndex(
+  equalityFields: IssueEqualityField[],
+  fieldPath: string,
+  direction: 'asc' | 'desc'
+): boolean {
+  const fields = new Set(equalityFields);
+  if (fields.size === 0) return true;
+  if (direction !== 'desc' || !Object.values(SORT_FIELD_PATHS).includes(fieldPath)) return false;
+  return INDEXED_ISSUE_FILTERS.some(
+    (indexed) => indexed.length === fields.size && indexed.every((field) => fields.has(field))
+  );
+}
+
@@ -0,0 +1,140 @@
+/**
+ * Issue List Ordering
+ * Sort keys, tie-breaking and page cursors shared by the Firestore query in getIssues
+ * and its in-memory fallback, so both page through issues the same way
+ */
+
+import type { Issue, IssueSortField, IssueSortOptions } from '@britepulse/shared';
+import { calculatePriorityScore } from './priority.js';
+
+/**
+ * Firestore field each sort option orders by
+ */
+export const SORT_FIELD_PATHS: Record<IssueSortField, string> = {
+  priority_score: 'priority_score',
+  severity: 'severity',
+  occurrences_24h: 'counts.occurrences_24h',
+  unique_users_24h_est: 'counts.unique_users_24h_est',
+  last_seen_at: 'timestamps.last_seen_at',
+  created_at: 'timestamps.created_at',
+};
+
+/**
+ * Position of the last issue on a page (sent to clients base64url-encoded as next_cursor)
+ */
+export interface IssueCursor {
+  sort: IssueSortField;
+  direction: 'asc' | 'desc';
+  value: string | number;
+  issue_id: string;
+}
+
+/**
+ * Value an issue sorts by; issues stored before priority_score was persisted compute it
+ */
+export function issueSortValue(issue: Issue, field: IssueSortField): string | number {
+  switch (field) {
+    case 'priority_score':
+      return issue.priority_score ?? calculatePriorityScore(issue).total_score;
+    case 'severity':
+      return issue.severity;
+    case 'occurrences_24h':
+      return issue.counts.occurrences_24h;
+    case 'unique_users_24h_est':
+      return issue.counts.unique_users_24h_est;
+    case 'last_seen_at':
+      return issue.timestamps.last_seen_at;
+    case 'created_at':
+      return issue.timestamps.created_at;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareKeys(
+  a: { value: string | number; issue_id: string },
+  b: { value: string | number; issue_id: string },
+  direction: 'asc' | 'desc'
+): number {
+  // Issue ID breaks ties (as the document ID does in Firestore) so equal scores keep their order across pages
+  const order = compareValues(a.value, b.value) || compareValues(a.issue_id, b.issue_id);
+  return direction === 'asc' ? order : -order;
+}
+
+/**
+ * Compare two issues in list order
+ */
+export function compareIssues(a: Issue, b: Issue, sort: IssueSortOptions): number {
+  return compareKeys(
+    { value: issueSortValue(a, sort.field), issue_id: a.issue_id },
+    { value: issueSortValue(b, sort.field), issue_id: b.issue_id },
+    sort.direction
+  );
+}
+
+export function cursorAfter(issue: Issue, sort: IssueSortOptions): IssueCursor {
+  return {
+    sort: sort.field,
+    direction: sort.direction,
+    value: issueSortValue(issue, sort.field),
+    issue_id: issue.issue_id,
+  };
+}
+
+export function encodeIssueCursor(cursor: IssueCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a next_cursor from an earlier page; null if it was not produced by encodeIssueCursor
+ */
+export function decodeIssueCursor(encoded: string): IssueCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    const valid =
+      typeof cursor === 'object' &&
+      cursor !== null &&
+      Object.keys(SORT_FIELD_PATHS).includes(cursor.sort) &&
+      (cursor.direction === 'asc' || cursor.direction === 'desc') &&
+      (typeof cursor.value === 'string' || typeof cursor.value === 'number') &&
+      typeof cursor.issue_id === 'string';
+    return valid ? (cursor as IssueCursor) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take one page from issues already filtered and sorted in list order
+ */
+export function paginateSorted(
+  sorted: Issue[],
+  sort: IssueSortOptions,
+  pageSize: number,
+  position: { cursor?: IssueCursor; page?: number }
+): { issues: Issue[]; next_cursor: string | null } {
+  let start: number;
+  if (position.cursor) {
+    const cursor = position.cursor;
+    const index = sorted.findIndex(
+      (issue) =>
+        compareKeys(
+          { value: issueSortValue(issue, sort.field), issue_id: issue.issue_id },
+          cursor,
+          sort.direction
+        ) > 0
+    );
+    start = index === -1 ? sorted.length : index;
+  } else {
+    start = ((position.page || 1) - 1) * pageSize;
+  }
+
+  const issues = sorted.slice(start, start + pageSize);
+  const hasMore = start + pageSize < sorted.length;
+  return {
+    issues,
+    next_cursor: hasMore ? encodeIssueCursor(cursorAfter(issues[issues.length - 1], sort)) : null,
+  };
+}
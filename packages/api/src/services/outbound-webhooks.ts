@@ -0,0 +1,357 @@
+/**
+ * Outbound Webhooks Service
+ * Delivers issue and brief events to an app's webhook subscriptions, with
+ * HMAC signatures for JSON receivers, retries with backoff and a delivery log
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  AIAnalysis,
+  App,
+  AuditLogInput,
+  FeedbackAnalysis,
+  Issue,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription,
+} from '@britepulse/shared';
+import { formatWebhookBody } from './webhook-formatters.js';
+import { signWebhookBody } from './ticketing.js';
+import * as firestoreService from './firestore.js';
+import { config } from '../config.js';
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Wait before each retry (1m, 5m, 30m, 2h, 12h); the delivery fails after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * Result of a retry run
+ */
+export interface WebhookRetryResult {
+  checked: number;
+  delivered: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * When to try a delivery again after its nth failed attempt, or null once attempts are used up
+ */
+export function nextAttemptAt(attempts: number, now: Date): string | null {
+  const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay * 60 * 1000).toISOString();
+}
+
+/**
+ * Issue fields included in every issue event
+ */
+function issueSummary(issue: Issue): NonNullable<WebhookEvent['issue']> {
+  return {
+    issue_id: issue.issue_id,
+    title: issue.title,
+    severity: issue.severity,
+    status: issue.status,
+    issue_type: issue.issue_type,
+    environment: issue.environment,
+    occurrences_24h: issue.counts.occurrences_24h,
+    occurrences_total: issue.counts.occurrences_total,
+    unique_users_24h_est: issue.counts.unique_users_24h_est,
+    url: `${config.consoleBaseUrl}/issues/${issue.issue_id}`,
+  };
+}
+
+/**
+ * Build an event envelope
+ */
+export function buildWebhookEvent(
+  type: WebhookEvent['type'],
+  app: App,
+  details: Omit<Partial<WebhookEvent>, 'issue'> & { issue?: Issue } = {},
+  now: Date = new Date()
+): WebhookEvent {
+  const { issue, ...rest } = details;
+  return {
+    event_id: uuidv4(),
+    type,
+    created_at: now.toISOString(),
+    app: { app_id: app.app_id, name: app.name },
+    ...(issue && { environment: issue.environment, issue: issueSummary(issue) }),
+    ...rest,
+  };
+}
+
+/**
+ * Enabled subscriptions that want an event
+ */
+export function getSubscribers(app: App, event: WebhookEvent): WebhookSubscription[] {
+  return (app.webhooks || []).filter(
+    (sub) =>
+      sub.enabled &&
+      event.type !== 'webhook.test' &&
+      sub.events.includes(event.type) &&
+      (!event.environment || !sub.environments?.length || sub.environments.includes(event.environment))
+  );
+}
+
+/**
+ * Headers for a delivery; JSON bodies are signed when the subscription has a secret
+ */
+function deliveryHeaders(delivery: WebhookDelivery, subscription: WebhookSubscription): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'BritePulse-Webhooks/1.0',
+    'X-BritePulse-Event': delivery.event_type,
+    'X-BritePulse-Delivery': delivery.delivery_id,
+  };
+
+  if (subscription.format === 'json' && subscription.secret_env) {
+    const secret = process.env[subscription.secret_env];
+    if (!secret) {
+      throw new Error(`${subscription.secret_env} is not set`);
+    }
+    headers['X-BritePulse-Signature'] = signWebhookBody(delivery.body, secret);
+  }
+
+  return headers;
+}
+
+/**
+ * Send one delivery and record the outcome
+ * Failures are rescheduled with backoff unless retry is off or attempts are used up
+ */
+export async function attemptDelivery(
+  delivery: WebhookDelivery,
+  subscription: WebhookSubscription,
+  options: { retry?: boolean; now?: Date } = {}
+): Promise<WebhookDelivery> {
+  const { retry = true, now = new Date() } = options;
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: deliveryHeaders(delivery, subscription),
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      error = `HTTP ${response.status} ${text.slice(0, 200)}`.trim();
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  const retryAt = error && retry ? nextAttemptAt(attempts, now) : null;
+  const outcome = {
+    status: !error ? ('delivered' as const) : retryAt ? ('pending' as const) : ('failed' as const),
+    attempts,
+    last_attempt_at: now.toISOString(),
+    ...(retryAt && { next_attempt_at: retryAt }),
+    ...(responseStatus !== undefined && { response_status: responseStatus }),
+    ...(error && { error }),
+    ...(!error && { delivered_at: now.toISOString() }),
+  };
+
+  await firestoreService.recordWebhookAttempt(delivery.delivery_id, outcome);
+
+  const { next_attempt_at: _next, response_status: _status, error: _error, ...rest } = delivery;
+  return { ...rest, ...outcome };
+}
+
+function createDelivery(event: WebhookEvent, app: App, subscription: WebhookSubscription, now: Date): WebhookDelivery {
+  return {
+    delivery_id: uuidv4(),
+    app_id: app.app_id,
+    subscription_id: subscription.subscription_id,
+    event_id: event.event_id,
+    event_type: event.type,
+    url: subscription.url,
+    format: subscription.format,
+    body: formatWebhookBody(event, subscription.format),
+    status: 'pending',
+    attempts: 0,
+    // Picked up by the retry job if this process dies before the first attempt finishes
+    next_attempt_at: nextAttemptAt(1, now)!,
+    created_at: now.toISOString(),
+  };
+}
+
+/**
+ * Deliver an event to every subscription that wants it
+ */
+export async function emitWebhookEvent(app: App, event: WebhookEvent): Promise<WebhookDelivery[]> {
+  const subscribers = getSubscribers(app, event);
+  if (subscribers.length === 0) return [];
+
+  const now = new Date();
+  const deliveries = subscribers.map((sub) => createDelivery(event, app, sub, now));
+  await firestoreService.createWebhookDeliveries(deliveries);
+
+  return Promise.all(deliveries.map((delivery, i) => attemptDelivery(delivery, subscribers[i])));
+}
+
+/**
+ * Deliver an issue event, loading the app (and the issue, when given an ID)
+ */
+export async function emitIssueWebhookEvent(
+  type: WebhookEventType,
+  issueOrId: Issue | string,
+  details: Omit<Partial<WebhookEvent>, 'issue'> = {}
+): Promise<WebhookDelivery[]> {
+  const issue = typeof issueOrId === 'string' ? await firestoreService.getIssue(issueOrId) : issueOrId;
+  if (!issue) return [];
+
+  const app = await firestoreService.getApp(issue.app_id);
+  if (!app?.webhooks?.length) return [];
+
+  return emitWebhookEvent(app, buildWebhookEvent(type, app, { ...details, issue }));
+}
+
+/**
+ * Webhook event for an audited issue action, if it is one subscribers can ask for
+ */
+export function webhookEventForAudit(
+  input: AuditLogInput
+): { type: WebhookEventType; details: Omit<Partial<WebhookEvent>, 'issue'> } | null {
+  const metadata = (input.metadata || {}) as Record<string, unknown>;
+  const actor = input.actor_id;
+
+  switch (input.action) {
+    case 'change_status':
+    case 'change_severity':
+      return {
+        type: input.action === 'change_status' ? 'issue.status_changed' : 'issue.severity_changed',
+        details: {
+          actor,
+          changes: { previous_value: String(metadata.previous_value), new_value: String(metadata.new_value) },
+        },
+      };
+    case 'resolve_issue':
+      return {
+        type: 'issue.status_changed',
+        details: { actor, changes: { previous_value: String(metadata.previous_status), new_value: 'resolved' } },
+      };
+    case 'add_comment':
+      return typeof metadata.comment_id === 'string' ? { type: 'issue.comment_added', details: { actor } } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Deliver the webhook event for an audit log entry, if any
+ * Comment events are filled in from the stored comment; analysis events come
+ * from the triage job queue once the analysis exists
+ */
+export async function emitAuditWebhookEvent(input: AuditLogInput): Promise<WebhookDelivery[]> {
+  if (input.target_type !== 'issue') return [];
+  const mapped = webhookEventForAudit(input);
+  if (!mapped) return [];
+
+  const issue = await firestoreService.getIssue(input.target_id);
+  if (!issue) return [];
+
+  const details = { ...mapped.details };
+  if (mapped.type === 'issue.comment_added') {
+    const commentId = (input.metadata as Record<string, unknown>).comment_id;
+    const comment = (await firestoreService.getComments(issue.issue_id)).find((c) => c.comment_id === commentId);
+    if (!comment) return [];
+    details.comment = {
+      comment_id: comment.comment_id,
+      author: comment.author_name || comment.author_email,
+      body_preview: comment.body.slice(0, 500),
+    };
+  }
+
+  return emitIssueWebhookEvent(mapped.type, issue, details);
+}
+
+/**
+ * Analysis fields sent with issue.ai_analysis_ready
+ */
+export function analysisSummary(analysis: AIAnalysis): WebhookEvent['ai_analysis'] {
+  return {
+    analysis_id: analysis.analysis_id,
+    mode: 'bug',
+    impact_summary: analysis.impact_summary,
+    root_cause_hypothesis: analysis.root_cause_hypothesis,
+    confidence: analysis.confidence,
+  };
+}
+
+/**
+ * Feedback analysis fields sent with issue.ai_analysis_ready
+ */
+export function feedbackAnalysisSummary(analysis: FeedbackAnalysis): WebhookEvent['ai_analysis'] {
+  return {
+    analysis_id: analysis.analysis_id,
+    mode: 'feedback',
+    impact_summary: analysis.user_need_summary,
+    product_next_action: analysis.product_next_action,
+    confidence: analysis.confidence,
+  };
+}
+
+/**
+ * Send a one-off test event to a subscription (no retries)
+ */
+export async function sendTestWebhook(app: App, subscription: WebhookSubscription): Promise<WebhookDelivery> {
+  const now = new Date();
+  const event = buildWebhookEvent('webhook.test', app, {}, now);
+  const delivery = createDelivery(event, app, subscription, now);
+  await firestoreService.createWebhookDeliveries([delivery]);
+  return attemptDelivery(delivery, subscription, { retry: false, now });
+}
+
+/**
+ * Retry pending deliveries that are due
+ * Called by the scheduler
+ */
+export async function retryWebhookDeliveries(options: { now?: Date } = {}): Promise<WebhookRetryResult> {
+  const { now = new Date() } = options;
+  const result: WebhookRetryResult = { checked: 0, delivered: 0, failed: 0, errors: [] };
+
+  const due = await firestoreService.getDueWebhookDeliveries(now);
+  const apps = new Map<string, App | null>();
+
+  for (const delivery of due) {
+    result.checked++;
+    try {
+      if (!apps.has(delivery.app_id)) {
+        apps.set(delivery.app_id, await firestoreService.getApp(delivery.app_id));
+      }
+      const subscription = apps
+        .get(delivery.app_id)
+        ?.webhooks?.find((sub) => sub.subscription_id === delivery.subscription_id);
+
+      // Removed or disabled subscriptions don't get late deliveries
+      if (!subscription?.enabled) {
+        await firestoreService.recordWebhookAttempt(delivery.delivery_id, {
+          status: 'failed',
+          attempts: delivery.attempts,
+          last_attempt_at: now.toISOString(),
+          error: 'Subscription removed or disabled',
+        });
+        result.failed++;
+        continue;
+      }
+
+      const updated = await attemptDelivery(delivery, subscription, { now });
+      if (updated.status === 'delivered') result.delivered++;
+      if (updated.status === 'failed') result.failed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Webhooks] Retry failed for delivery ${delivery.delivery_id}:`, error);
+      result.errors.push(`${delivery.delivery_id}: ${message}`);
+    }
+  }
+
+  return result;
+}
@@ -3,38 +3,19 @@
  * Orchestrates event ingestion, redaction, fingerprinting, and issue grouping
  */
 
-import type { Event, Issue, IssueInput, EventType, RedactionProfile, Attachment, Environment } from '@britepulse/shared';
+import type { Event, Issue, IssueInput, EventType, RedactionProfile, Attachment, Environment, TriageMode } from '@britepulse/shared';
 import { v4 as uuidv4 } from 'uuid';
 import { redactObject } from './redaction.js';
 import { generateFingerprint, extractFingerprintInput } from './fingerprint.js';
+import { symbolicateEventStack } from './symbolication.js';
+import { findFeedbackMatch } from './feedback-grouping.js';
+import { reopenRegressedIssue } from './regression.js';
+import { eventSearchText } from './search-index.js';
+import { emitIssueWebhookEvent } from './outbound-webhooks.js';
+import { isAIEnabledForEnvironment, triageOptionsForApp } from './ai-policy.js';
+import { enqueueAITriageJob, kickAITriageQueue, loadAITriage } from './ai-jobs.js';
 import * as firestoreService from './firestore.js';
 import * as storageService from './storage.js';
-import { config } from '../config.js';
-
-// Lazy load AI triage to avoid startup issues if not configured
-let aiTriageInitialized = false;
-let aiTriageModule: typeof import('@britepulse/ai-triage') | null = null;
-
-async function initAITriage(): Promise<typeof import('@britepulse/ai-triage') | null> {
-  if (aiTriageInitialized) return aiTriageModule;
-
-  aiTriageInitialized = true;
-
-  if (!config.anthropicApiKey) {
-    console.log('[Pipeline] AI triage disabled - no ANTHROPIC_API_KEY configured');
-    return null;
-  }
-
-  try {
-    aiTriageModule = await import('@britepulse/ai-triage');
-    aiTriageModule.initClient(config.anthropicApiKey);
-    console.log('[Pipeline] AI triage initialized');
-    return aiTriageModule;
-  } catch (error) {
-    console.warn('[Pipeline] Failed to initialize AI triage:', error);
-    return null;
-  }
-}
 
 /**
  * Attachment upload input (from SDK)
@@ -53,6 +34,7 @@ export interface PipelineResult {
   event: Event;
   issue: Issue;
   isNewIssue: boolean;
+  isRegression: boolean; // a resolved issue was reopened by this event
   redactionsApplied: number;
   fingerprint: string | null;
   attachmentIds: string[];
@@ -61,21 +43,44 @@ export interface PipelineResult {
 /**
  * Process an incoming event through the pipeline
  * 1. Apply redaction
- * 2. Generate fingerprint (for errors)
- * 3. Find or create issue
- * 4. Store event and update issue
- * 5. Process attachments (if any)
+ * 2. Symbolicate minified frontend stacks
+ * 3. Generate fingerprint (for errors), or match feedback to an open issue
+ * 4. Find or create issue
+ * 5. Store event and update issue
+ * 6. Process attachments (if any)
  */
 export async function processEvent(
   eventData: Omit<Event, 'event_id' | 'fingerprint'>,
   redactionProfile: RedactionProfile = 'standard',
   attachments?: AttachmentUploadInput[]
 ): Promise<PipelineResult> {
-  // Step 1: Apply redaction to payload
-  const { data: redactedPayload, redactionsApplied } = redactObject(
+  // Step 1: Apply redaction to payload and breadcrumbs
+  const { data: redactedPayload, redactionsApplied: payloadRedactions } = redactObject(
     eventData.payload as unknown as Record<string, unknown>,
     redactionProfile
   );
+  let redactionsApplied = payloadRedactions;
+
+  // Breadcrumbs carry URLs, console output and click targets that can contain PII
+  let breadcrumbs = eventData.breadcrumbs;
+  if (breadcrumbs && breadcrumbs.length > 0) {
+    const redacted = redactObject({ breadcrumbs }, redactionProfile);
+    breadcrumbs = redacted.data.breadcrumbs;
+    redactionsApplied += redacted.redactionsApplied;
+  }
+
+  // Step 1b: Map minified frames to original source so grouping survives redeploys
+  if (eventData.event_type === 'frontend_error' && typeof redactedPayload.stack === 'string') {
+    const symbolicated = await symbolicateEventStack(
+      eventData.app_id,
+      eventData.version,
+      redactedPayload.stack
+    );
+    if (symbolicated) {
+      redactedPayload.raw_stack = redactedPayload.stack;
+      redactedPayload.stack = symbolicated;
+    }
+  }
 
   // Step 2: Generate fingerprint for error events
   let fingerprint: string | null = null;
@@ -94,16 +99,28 @@ export async function processEvent(
   const eventToCreate: Omit<Event, 'event_id'> = {
     ...eventData,
     payload: redactedPayload as unknown as Event['payload'],
+    ...(breadcrumbs && { breadcrumbs }),
   };
   // Only include fingerprint if it exists (Firestore doesn't allow undefined)
   if (fingerprint) {
     eventToCreate.fingerprint = fingerprint;
   }
+
+  // Step 3b: Match feedback against open issues (on redacted text) so the match is stored with the event
+  if (eventData.event_type === 'feedback') {
+    const app = await firestoreService.getApp(eventData.app_id);
+    const feedbackMatch = await findFeedbackMatch(eventToCreate, app);
+    if (feedbackMatch) {
+      eventToCreate.feedback_match = feedbackMatch;
+    }
+  }
+
   const event = await firestoreService.createEvent(eventToCreate);
 
   // Step 4: Find or create issue
   let issue: Issue;
   let isNewIssue = false;
+  let isRegression = false;
 
   if (fingerprint) {
     // Try to find existing issue with same fingerprint
@@ -115,15 +132,60 @@ export async function processEvent(
 
     if (existingIssue) {
       // Add event to existing issue
-      await firestoreService.addEventToIssue(existingIssue.issue_id, event.event_id);
+      await firestoreService.addEventToIssue(
+        existingIssue.issue_id,
+        event.event_id,
+        {
+          user_id: event.user?.user_id,
+          session_id: event.session_id,
+          count: event.repeat_count,
+        },
+        issueIndexInput(event)
+      );
       issue = (await firestoreService.getIssue(existingIssue.issue_id))!;
     } else {
-      // Create new issue
-      issue = await createIssueFromEvent(event, fingerprint);
-      isNewIssue = true;
+      // A resolved issue with this fingerprint means the fix didn't hold
+      const resolvedIssue = await firestoreService.findResolvedIssueByFingerprint(
+        event.app_id,
+        event.environment,
+        fingerprint
+      );
+
+      if (resolvedIssue) {
+        const reopened = await reopenRegressedIssue(resolvedIssue, event);
+        await firestoreService.addEventToIssue(
+          resolvedIssue.issue_id,
+          event.event_id,
+          {
+            user_id: event.user?.user_id,
+            session_id: event.session_id,
+            count: event.repeat_count,
+          },
+          issueIndexInput(event)
+        );
+        issue = (await firestoreService.getIssue(resolvedIssue.issue_id))!;
+        // A concurrent event may have reopened it first; only that one counts as the regression
+        isRegression = reopened !== null;
+      } else {
+        // Create new issue
+        issue = await createIssueFromEvent(event, fingerprint);
+        isNewIssue = true;
+      }
     }
+  } else if (event.feedback_match) {
+    // Feedback about a problem that already has an open issue
+    await firestoreService.addEventToIssue(
+      event.feedback_match.issue_id,
+      event.event_id,
+      {
+        user_id: event.user?.user_id,
+        session_id: event.session_id,
+      },
+      issueIndexInput(event)
+    );
+    issue = (await firestoreService.getIssue(event.feedback_match.issue_id))!;
   } else {
-    // Feedback events - create new issue (or use similarity matching later)
+    // Feedback nothing matched - create new issue
     issue = await createIssueFromEvent(event, null);
     isNewIssue = true;
   }
@@ -182,15 +244,22 @@ export async function processEvent(
     }
   }
 
-  // Step 6: Check for AI triage eligibility (async, non-blocking)
-  maybeRunAITriage(issue, event).catch((error) => {
-    console.error('[Pipeline] AI triage error:', error);
+  if (isNewIssue) {
+    emitIssueWebhookEvent('issue.created', issue).catch((error) => {
+      console.error('[Pipeline] Failed to emit issue.created webhook:', error);
+    });
+  }
+
+  // Step 6: Queue AI triage if eligible (async, non-blocking)
+  maybeQueueAITriage(issue, event).catch((error) => {
+    console.error('[Pipeline] Failed to queue AI triage:', error);
   });
 
   return {
     event,
     issue,
     isNewIssue,
+    isRegression,
     redactionsApplied,
     fingerprint,
     attachmentIds,
@@ -199,8 +268,9 @@ export async function processEvent(
 
 /**
  * Create an issue from an event
+ * Also used to split a wrongly grouped feedback event back out into its own issue
  */
-async function createIssueFromEvent(
+export async function createIssueFromEvent(
   event: Event,
   fingerprint: string | null
 ): Promise<Issue> {
@@ -226,11 +296,22 @@ async function createIssueFromEvent(
     severity: inferSeverity(event),
     primary_fingerprint: fingerprint || undefined,
     initial_event_id: event.event_id,
+    version: event.version,
     reported_by: reportedBy,
     ...(firstOwner && { routing: { assigned_to: firstOwner } }),
   };
 
-  return firestoreService.createIssue(issueInput);
+  return firestoreService.createIssue(issueInput, {
+    user_id: event.user?.user_id,
+    session_id: event.session_id,
+  });
+}
+
+/**
+ * Version and text an event adds to an existing issue's filters and search index
+ */
+function issueIndexInput(event: Event): firestoreService.IssueIndexInput {
+  return { version: event.version, text: eventSearchText(event) };
 }
 
 /**
@@ -260,6 +341,7 @@ function generateIssueTitle(event: Event): string {
 
 /**
  * Generate issue description from event
+ * ai-triage finds the feedback and stack sections by their headings, so keep them in sync
  */
 function generateIssueDescription(event: Event): string {
   const payload = event.payload as unknown as Record<string, unknown>;
@@ -365,47 +447,44 @@ export async function processBatch(
 }
 
 /**
- * Check if an issue is eligible for AI triage and run it if so
- * This runs asynchronously and doesn't block event ingestion
+ * Check if an issue is eligible for AI triage and queue a job if so
+ * The job queue runs the model; this only decides whether to ask
  */
-async function maybeRunAITriage(issue: Issue, event: Event): Promise<void> {
-  // Only run for error events (not feedback)
-  if (event.event_type !== 'frontend_error' && event.event_type !== 'backend_error') {
+async function maybeQueueAITriage(issue: Issue, event: Event): Promise<void> {
+  // Feedback that didn't join an error issue gets the feedback analysis instead
+  let mode: TriageMode;
+  if (event.event_type === 'frontend_error' || event.event_type === 'backend_error') {
+    mode = 'bug';
+  } else if (event.event_type === 'feedback' && issue.issue_type !== 'bug') {
+    mode = 'feedback';
+  } else {
     return;
   }
 
-  const aiTriage = await initAITriage();
+  const aiTriage = await loadAITriage();
   if (!aiTriage) return;
 
-  // Check eligibility
-  const eligibility = aiTriage.isEligibleForTriage(issue);
-  if (!eligibility.eligible) {
+  // The app's AI policy decides whether and with what evidence triage runs
+  const app = await firestoreService.getApp(issue.app_id);
+  if (!isAIEnabledForEnvironment(app, issue.environment)) {
     return;
   }
+  const { eligibility, allowedInputs } = triageOptionsForApp(app);
 
-  console.log(`[Pipeline] Issue ${issue.issue_id} eligible for AI triage: running analysis`);
-
-  // Get events for this issue
-  const events = await firestoreService.getEventsByIssue(issue.issue_id, 10);
-
-  // Get app name
-  const app = await firestoreService.getApp(issue.app_id);
-  const appName = app?.name || 'Unknown App';
-
-  // Run triage
-  const result = await aiTriage.runTriage(issue, events, appName, {
-    force: false,
-  });
+  if (mode === 'feedback' && !allowedInputs.includes('sanitized_feedback')) {
+    return;
+  }
+  const eligibilityCheck =
+    mode === 'feedback'
+      ? aiTriage.isEligibleForFeedbackTriage(issue, eligibility)
+      : aiTriage.isEligibleForTriage(issue, eligibility);
+  if (!eligibilityCheck.eligible) {
+    return;
+  }
 
-  if (result.success && result.analysis) {
-    // Store analysis on issue
-    await firestoreService.updateIssue(issue.issue_id, {
-      ai_analysis: result.analysis,
-    });
-    console.log(`[Pipeline] AI analysis stored for issue ${issue.issue_id}`);
-  } else if (result.skipped_reason) {
-    console.log(`[Pipeline] AI triage skipped: ${result.skipped_reason}`);
-  } else if (result.error) {
-    console.error(`[Pipeline] AI triage failed: ${result.error}`);
+  const { job, created } = await enqueueAITriageJob(issue, mode, { trigger: 'ingest' });
+  if (created) {
+    console.log(`[Pipeline] Issue ${issue.issue_id} eligible for ${mode} triage: queued job ${job.job_id}`);
+    kickAITriageQueue();
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Priority Refresh Service
+ * Rolling counts only change on new events, so quiet issues would keep a stale
+ * priority_score; this job decays their counts and rescores them
+ */
+
+import type { App } from '@britepulse/shared';
+import * as firestoreService from './firestore.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Counts cover the last 48 hours; the extra day gives issues that went quiet a final refresh to zero
+const REFRESH_WINDOW_MS = 72 * HOUR_MS;
+
+const MAX_ISSUES_PER_ENVIRONMENT = 500;
+
+/**
+ * Result of a priority refresh run
+ */
+export interface PriorityRefreshResult {
+  checked: number; // app environments scanned
+  refreshed: number; // issues rescored
+  backfilled: number; // issues that had no stored priority_score
+  errors: string[];
+}
+
+/**
+ * Rescore open issues seen recently in every enabled environment
+ * With backfill, also stores a score on issues written before it was persisted
+ */
+export async function runPriorityRefresh(options: {
+  apps: App[];
+  backfill?: boolean;
+  now?: Date;
+}): Promise<PriorityRefreshResult> {
+  const { apps, backfill = false, now = new Date() } = options;
+  const since = new Date(now.getTime() - REFRESH_WINDOW_MS).toISOString();
+  const result: PriorityRefreshResult = { checked: 0, refreshed: 0, backfilled: 0, errors: [] };
+
+  for (const app of apps) {
+    if (backfill) {
+      try {
+        result.backfilled += await firestoreService.backfillIssuePriorityScores(app.app_id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Priority] Backfill failed for ${app.app_id}:`, error);
+        result.errors.push(`${app.app_id}: ${message}`);
+      }
+    }
+
+    for (const env of app.environments.filter((e) => e.enabled)) {
+      try {
+        const issues = await firestoreService.getOpenIssuesSeenSince(
+          app.app_id,
+          env.env_name,
+          since,
+          MAX_ISSUES_PER_ENVIRONMENT
+        );
+        result.checked++;
+
+        for (const issue of issues) {
+          await firestoreService.refreshIssueCounts(issue.issue_id);
+          result.refreshed++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Priority] Refresh failed for ${app.app_id}/${env.env_name}:`, error);
+        result.errors.push(`${app.app_id}/${env.env_name}: ${message}`);
+      }
+    }
+  }
+
+  return result;
+}
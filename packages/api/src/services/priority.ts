@@ -41,7 +41,7 @@ export interface PriorityComponents {
  */
 export function calculatePriorityScore(
   issue: Pick<Issue, 'severity' | 'environment' | 'counts'>,
-  previousOccurrences24h?: number
+  previousOccurrences24h: number | undefined = issue.counts.occurrences_prev_24h
 ): PriorityComponents {
   // Severity weight (Section 8.1)
   const severityWeight = SEVERITY_WEIGHTS[issue.severity as Severity];
@@ -0,0 +1,129 @@
+/**
+ * Regression Service
+ * Reopens resolved issues when their error comes back, instead of starting a fresh issue
+ * Won't-fix issues are not reopened; their new events simply join them
+ */
+
+import {
+  ALLOWED_STATUS_TRANSITIONS,
+  DEFAULT_REGRESSION_POLICY,
+  type App,
+  type Event,
+  type Issue,
+  type IssueStatus,
+  type RegressionPolicy,
+  type Severity,
+} from '@britepulse/shared';
+import { emitIssueWebhookEvent } from './outbound-webhooks.js';
+import * as firestoreService from './firestore.js';
+
+const SEVERITY_ORDER: Severity[] = ['P0', 'P1', 'P2', 'P3'];
+
+/**
+ * Resolve regression settings for an app
+ */
+export function resolveRegressionPolicy(app: App | null): RegressionPolicy {
+  return { ...DEFAULT_REGRESSION_POLICY, ...app?.policies?.regression_policy };
+}
+
+/**
+ * Raise severity by the given number of levels, stopping at P0
+ */
+export function bumpSeverity(severity: Severity, levels: number): Severity {
+  const index = SEVERITY_ORDER.indexOf(severity);
+  return SEVERITY_ORDER[Math.max(index - Math.max(levels, 0), 0)];
+}
+
+/**
+ * Status to reopen with; falls back to the first allowed reopen transition
+ */
+function reopenStatus(current: IssueStatus, policy: RegressionPolicy): IssueStatus {
+  const allowed = ALLOWED_STATUS_TRANSITIONS[current];
+  return allowed.includes(policy.reopen_status) ? policy.reopen_status : allowed[0];
+}
+
+/**
+ * Reopen a resolved issue that matched a new event's fingerprint
+ * The caller still attaches the event to the issue
+ * Returns null if another event reopened it first; that event already audited and notified
+ */
+export async function reopenRegressedIssue(issue: Issue, event: Event): Promise<Issue | null> {
+  const app = await firestoreService.getApp(issue.app_id);
+  const policy = resolveRegressionPolicy(app);
+
+  // The newest event before resolution tells us which version was thought to be fixed
+  const lastEventId = issue.event_refs[issue.event_refs.length - 1];
+  const lastEvent = lastEventId ? await firestoreService.getEvent(lastEventId) : null;
+
+  const status = reopenStatus(issue.status, policy);
+  const severity = bumpSeverity(issue.severity, policy.severity_bump);
+  const regression = {
+    detected_at: new Date().toISOString(),
+    version: event.version,
+    ...(lastEvent?.version && { resolved_version: lastEvent.version }),
+    ...(issue.timestamps.resolved_at && { resolved_at: issue.timestamps.resolved_at }),
+    ...(issue.resolved_by && { resolved_by: issue.resolved_by }),
+    previous_severity: issue.severity,
+    count: (issue.regression?.count || 0) + 1,
+  };
+
+  const reopened = await firestoreService.markIssueRegressed(issue.issue_id, {
+    status,
+    severity,
+    regression,
+  });
+  if (!reopened) return null;
+
+  // Audit and notifications are best effort; the reopen itself must not be lost
+  try {
+    await firestoreService.createAuditLog({
+      actor_id: 'regression-detection',
+      actor_role: 'system',
+      action: 'change_status',
+      target_type: 'issue',
+      target_id: issue.issue_id,
+      app_id: issue.app_id,
+      metadata: {
+        previous_value: issue.status,
+        new_value: status,
+        reason: 'regression',
+        event_id: event.event_id,
+        version: regression.version,
+        resolved_version: regression.resolved_version,
+        previous_severity: issue.severity,
+        severity,
+      },
+    });
+
+    const recipients = [...new Set([issue.routing?.assigned_to, issue.resolved_by].filter(Boolean) as string[])];
+    const versions = regression.resolved_version
+      ? `in ${regression.version} (last seen in ${regression.resolved_version} before it was resolved)`
+      : `in ${regression.version}`;
+    await firestoreService.createNotifications(
+      recipients.map((email) => ({
+        recipient_email: email,
+        type: 'regression' as const,
+        issue_id: issue.issue_id,
+        issue_title: issue.title,
+        app_id: issue.app_id,
+        environment: issue.environment,
+        actor_email: 'system',
+        actor_name: 'BritePulse',
+        body_preview:
+          `Resolved issue reappeared ${versions}` +
+          (severity !== issue.severity ? `; severity raised ${issue.severity} -> ${severity}` : ''),
+      }))
+    );
+  } catch (error) {
+    console.error(`[Regression] Failed to audit or notify for ${issue.issue_id}:`, error);
+  }
+
+  emitIssueWebhookEvent('issue.status_changed', reopened, {
+    actor: 'regression-detection',
+    changes: { previous_value: issue.status, new_value: status },
+  }).catch((error) => {
+    console.error(`[Regression] Failed to emit webhook for ${issue.issue_id}:`, error);
+  });
+
+  return reopened;
+}
@@ -0,0 +1,286 @@
+/**
+ * Data Retention Service
+ * Purges expired events, attachments and stale closed issues per Build Contract Section 3.3
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_RETENTION, type App, type Issue, type RetentionPeriods } from '@britepulse/shared';
+import * as firestoreService from './firestore.js';
+import * as storageService from './storage.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leaves headroom under Cloud Scheduler's 3 minute attempt deadline
+const DEFAULT_TIME_BUDGET_MS = 150 * 1000;
+
+/**
+ * Per app/environment sweep result
+ */
+export interface RetentionTargetResult {
+  app_id: string;
+  environment: string;
+  periods: RetentionPeriods;
+  events_deleted: number;
+  attachments_deleted: number;
+  issues_deleted: number;
+  errors: string[];
+  truncated: boolean; // time budget ran out before every page was swept
+}
+
+/**
+ * Result of a full retention run
+ */
+export interface RetentionRunResult {
+  run_id: string;
+  dry_run: boolean;
+  truncated: boolean; // some targets still have expired data; the next run picks it up
+  resume_app_id: string | null; // where the next run should start; null once every app was swept
+  started_at: string;
+  completed_at: string;
+  targets: RetentionTargetResult[];
+  totals: {
+    events: number;
+    attachments: number;
+    issues: number;
+    errors: number;
+  };
+}
+
+export interface RetentionRunOptions {
+  apps: App[];
+  dryRun?: boolean;
+  resumeAppId?: string | null; // start from this app, wrapping round to the ones before it
+  now?: Date;
+  timeBudgetMs?: number;
+}
+
+/**
+ * Resolve retention periods for an app environment
+ * Per-app overrides on Policy take precedence over DEFAULT_RETENTION
+ */
+export function resolveRetentionPeriods(app: App, environment: string): RetentionPeriods {
+  const defaults =
+    DEFAULT_RETENTION[environment as keyof typeof DEFAULT_RETENTION] || DEFAULT_RETENTION.dev;
+  const overrides = app.policies?.retention_overrides?.[environment] || {};
+  return { ...defaults, ...overrides };
+}
+
+/**
+ * Cutoff timestamp for a retention period
+ */
+function cutoff(now: Date, days: number): string {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+/**
+ * Get the time an issue was closed
+ */
+function getClosedAt(issue: Issue): string {
+  return issue.timestamps.resolved_at || issue.timestamps.wont_fix_at || issue.timestamps.last_seen_at;
+}
+
+/**
+ * Walk a retention query page by page until it comes back empty
+ * Pages resume after the last row seen, so rows that fail to delete aren't
+ * fetched again. Returns true if the deadline stopped it early.
+ */
+async function forEachPage<T>(
+  fetchPage: (startAfter?: firestoreService.RetentionCursor) => Promise<T[]>,
+  cursorOf: (row: T) => firestoreService.RetentionCursor,
+  deadline: number,
+  handlePage: (rows: T[]) => Promise<void>
+): Promise<boolean> {
+  let startAfter: firestoreService.RetentionCursor | undefined;
+  for (;;) {
+    const rows = await fetchPage(startAfter);
+    if (rows.length === 0) return false;
+    await handlePage(rows);
+    if (Date.now() >= deadline) return true;
+    startAfter = cursorOf(rows[rows.length - 1]);
+  }
+}
+
+/**
+ * Sweep a single app environment
+ */
+async function sweepEnvironment(
+  app: App,
+  environment: string,
+  now: Date,
+  dryRun: boolean,
+  deadline: number
+): Promise<RetentionTargetResult> {
+  const periods = resolveRetentionPeriods(app, environment);
+  const result: RetentionTargetResult = {
+    app_id: app.app_id,
+    environment,
+    periods,
+    events_deleted: 0,
+    attachments_deleted: 0,
+    issues_deleted: 0,
+    errors: [],
+    truncated: false,
+  };
+
+  // Attachments: past their stamped expiry or older than the policy allows.
+  // One attachment can match both queries, so handled IDs are remembered
+  const seenAttachments = new Set<string>();
+  const attachmentQueries: Array<{ field: 'expires_at' | 'uploaded_at'; before: string }> = [
+    { field: 'expires_at', before: now.toISOString() },
+    { field: 'uploaded_at', before: cutoff(now, periods.attachments_days) },
+  ];
+  for (const { field, before } of attachmentQueries) {
+    result.truncated =
+      (await forEachPage(
+        (startAfter) => firestoreService.getAttachmentsBefore(app.app_id, environment, field, before, startAfter),
+        (a) => ({ value: a[field], id: a.attachment_id }),
+        deadline,
+        async (attachments) => {
+          for (const attachment of attachments) {
+            if (seenAttachments.has(attachment.attachment_id)) continue;
+            seenAttachments.add(attachment.attachment_id);
+            if (!dryRun) {
+              try {
+                if (storageService.isStorageConfigured()) {
+                  await storageService.deleteAttachment(attachment.storage_path);
+                }
+                await firestoreService.deleteAttachment(attachment.attachment_id);
+              } catch (error) {
+                result.errors.push(
+                  `attachment ${attachment.attachment_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+                );
+                continue;
+              }
+            }
+            result.attachments_deleted++;
+          }
+        }
+      )) || result.truncated;
+    if (result.truncated) break;
+  }
+
+  // Raw events
+  if (!result.truncated) {
+    result.truncated = await forEachPage(
+      (startAfter) =>
+        firestoreService.getEventsBefore(app.app_id, environment, cutoff(now, periods.raw_events_days), startAfter),
+      (e) => ({ value: e.timestamp, id: e.event_id }),
+      deadline,
+      async (events) => {
+        const eventIds = events.map((e) => e.event_id);
+        if (!dryRun) {
+          try {
+            await firestoreService.deleteEvents(eventIds);
+          } catch (error) {
+            result.errors.push(`events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return;
+          }
+        }
+        result.events_deleted += eventIds.length;
+      }
+    );
+  }
+
+  // Closed issues past the issue retention period
+  if (!result.truncated) {
+    const issuesCutoff = cutoff(now, periods.issues_days);
+    result.truncated = await forEachPage(
+      (startAfter) => firestoreService.getClosedIssuesBefore(app.app_id, environment, issuesCutoff, startAfter),
+      (issue) => ({ value: issue.timestamps.last_seen_at, id: issue.issue_id }),
+      deadline,
+      async (issues) => {
+        for (const issue of issues.filter((i) => getClosedAt(i) < issuesCutoff)) {
+          if (!dryRun) {
+            try {
+              await firestoreService.deleteIssueCascade(issue.issue_id);
+            } catch (error) {
+              result.errors.push(
+                `issue ${issue.issue_id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+              );
+              continue;
+            }
+          }
+          result.issues_deleted++;
+        }
+      }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Run the retention sweep across apps and their environments
+ * In dry-run mode nothing is deleted; the result counts what would be.
+ * Each run stops at its time budget, says so in truncated and names the
+ * app the next run should resume from.
+ */
+export async function runRetentionSweep(options: RetentionRunOptions): Promise<RetentionRunResult> {
+  const {
+    apps,
+    dryRun = false,
+    resumeAppId = null,
+    now = new Date(),
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+  } = options;
+  const startedAt = new Date().toISOString();
+  const deadline = Date.now() + timeBudgetMs;
+  const targets: RetentionTargetResult[] = [];
+  let truncated = false;
+  let nextAppId: string | null = null;
+
+  const start = Math.max(0, apps.findIndex((app) => app.app_id === resumeAppId));
+  const ordered = [...apps.slice(start), ...apps.slice(0, start)];
+
+  for (const app of ordered) {
+    for (const env of app.environments) {
+      // Targets the budget didn't reach are left for the next run
+      if (Date.now() >= deadline) {
+        truncated = true;
+        nextAppId ??= app.app_id;
+        continue;
+      }
+      try {
+        const target = await sweepEnvironment(app, env.env_name, now, dryRun, deadline);
+        if (target.truncated) {
+          truncated = true;
+          nextAppId ??= app.app_id;
+        }
+        targets.push(target);
+      } catch (error) {
+        console.error(`[Retention] Sweep failed for ${app.app_id}/${env.env_name}:`, error);
+        targets.push({
+          app_id: app.app_id,
+          environment: env.env_name,
+          periods: resolveRetentionPeriods(app, env.env_name),
+          events_deleted: 0,
+          attachments_deleted: 0,
+          issues_deleted: 0,
+          errors: [error instanceof Error ? error.message : 'Unknown error'],
+          truncated: false,
+        });
+      }
+    }
+  }
+
+  // An app that used up a whole run on its own lets the others go first next time
+  if (nextAppId !== null && nextAppId === ordered[0].app_id && ordered.length > 1) {
+    nextAppId = ordered[1].app_id;
+  }
+
+  return {
+    run_id: uuidv4(),
+    dry_run: dryRun,
+    truncated,
+    resume_app_id: nextAppId,
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+    targets,
+    totals: {
+      events: targets.reduce((sum, t) => sum + t.events_deleted, 0),
+      attachments: targets.reduce((sum, t) => sum + t.attachments_deleted, 0),
+      issues: targets.reduce((sum, t) => sum + t.issues_deleted, 0),
+      errors: targets.reduce((sum, t) => sum + t.errors.length, 0),
+    },
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Rolling Window Counters
+ * Hourly occurrence buckets and HyperLogLog unique-user sketches per issue
+ */
+
+import { createHash } from 'crypto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Window sizes in hourly buckets
+ */
+const WINDOW_HOURS = 24;
+const RETAINED_HOURS = WINDOW_HOURS * 2; // current + previous window
+
+/**
+ * HyperLogLog precision: 2^8 = 256 registers (~6.5% standard error)
+ */
+const HLL_PRECISION = 8;
+const HLL_REGISTERS = 1 << HLL_PRECISION;
+
+/**
+ * Persisted counter state for an issue (stored in issue_counters/{issue_id})
+ * Bucket keys are hour indexes since epoch (Math.floor(ms / 1h))
+ */
+export interface IssueCounterState {
+  issue_id: string;
+  hourly_buckets: Record<string, number>;
+  user_sketches: Record<string, string>; // base36-encoded HLL registers per hour
+  updated_at: string;
+}
+
+/**
+ * Counts derived from the rolling windows
+ */
+export interface RollingCounts {
+  occurrences_24h: number;
+  occurrences_prev_24h: number;
+  unique_users_24h_est: number;
+}
+
+/**
+ * A single occurrence to record
+ */
+export interface OccurrenceInput {
+  user_id?: string;
+  session_id?: string;
+  count?: number; // occurrences represented (SDKs collapse repeats), default 1
+}
+
+/**
+ * Get the hourly bucket index for a timestamp
+ */
+export function hourIndex(timeMs: number): number {
+  return Math.floor(timeMs / HOUR_MS);
+}
+
+/**
+ * Create empty counter state
+ */
+export function createCounterState(issueId: string, now = Date.now()): IssueCounterState {
+  return {
+    issue_id: issueId,
+    hourly_buckets: {},
+    user_sketches: {},
+    updated_at: new Date(now).toISOString(),
+  };
+}
+
+/**
+ * Pick the identity used for unique-user estimation.
+ * Anonymous users fall back to their session.
+ */
+export function getOccurrenceIdentity(occurrence: OccurrenceInput): string | null {
+  if (occurrence.user_id && occurrence.user_id !== 'anonymous' && occurrence.user_id !== 'unknown') {
+    return `u:${occurrence.user_id}`;
+  }
+  if (occurrence.session_id) {
+    return `s:${occurrence.session_id}`;
+  }
+  return null;
+}
+
+// ============ HyperLogLog Sketch ============
+
+/**
+ * Create an empty sketch
+ */
+export function createSketch(): string {
+  return '0'.repeat(HLL_REGISTERS);
+}
+
+function decodeSketch(sketch: string): number[] {
+  const registers = new Array<number>(HLL_REGISTERS).fill(0);
+  for (let i = 0; i < HLL_REGISTERS && i < sketch.length; i++) {
+    registers[i] = parseInt(sketch[i], 36) || 0;
+  }
+  return registers;
+}
+
+function encodeSketch(registers: number[]): string {
+  return registers.map((r) => r.toString(36)).join('');
+}
+
+/**
+ * Add a value to a sketch
+ */
+export function addToSketch(sketch: string, value: string): string {
+  const hash = createHash('md5').update(value).digest();
+  const index = hash.readUInt32BE(0) >>> (32 - HLL_PRECISION);
+  const rank = Math.clz32(hash.readUInt32BE(4)) + 1;
+
+  const registers = decodeSketch(sketch);
+  if (rank > registers[index]) {
+    registers[index] = rank;
+  }
+  return encodeSketch(registers);
+}
+
+/**
+ * Merge sketches (register-wise max)
+ */
+export function mergeSketches(sketches: string[]): string {
+  const merged = new Array<number>(HLL_REGISTERS).fill(0);
+  for (const sketch of sketches) {
+    const registers = decodeSketch(sketch);
+    for (let i = 0; i < HLL_REGISTERS; i++) {
+      if (registers[i] > merged[i]) merged[i] = registers[i];
+    }
+  }
+  return encodeSketch(merged);
+}
+
+/**
+ * Estimate distinct values in a sketch
+ * Uses linear counting for small cardinalities
+ */
+export function estimateCardinality(sketch: string): number {
+  const registers = decodeSketch(sketch);
+  const alpha = 0.7213 / (1 + 1.079 / HLL_REGISTERS);
+
+  let sum = 0;
+  let zeros = 0;
+  for (const r of registers) {
+    sum += Math.pow(2, -r);
+    if (r === 0) zeros++;
+  }
+
+  const estimate = (alpha * HLL_REGISTERS * HLL_REGISTERS) / sum;
+  if (estimate <= 2.5 * HLL_REGISTERS && zeros > 0) {
+    return Math.round(HLL_REGISTERS * Math.log(HLL_REGISTERS / zeros));
+  }
+  return Math.round(estimate);
+}
+
+// ============ Window Operations ============
+
+/**
+ * Drop buckets and sketches that fall outside the retained windows
+ */
+export function pruneCounterState(state: IssueCounterState, now = Date.now()): IssueCounterState {
+  const current = hourIndex(now);
+  const bucketCutoff = current - RETAINED_HOURS;
+  const sketchCutoff = current - WINDOW_HOURS;
+
+  const hourly_buckets: Record<string, number> = {};
+  for (const [key, count] of Object.entries(state.hourly_buckets || {})) {
+    if (Number(key) > bucketCutoff) hourly_buckets[key] = count;
+  }
+
+  const user_sketches: Record<string, string> = {};
+  for (const [key, sketch] of Object.entries(state.user_sketches || {})) {
+    if (Number(key) > sketchCutoff) user_sketches[key] = sketch;
+  }
+
+  return { ...state, hourly_buckets, user_sketches };
+}
+
+/**
+ * Record an occurrence in the current hourly bucket
+ */
+export function recordOccurrence(
+  state: IssueCounterState,
+  occurrence: OccurrenceInput,
+  now = Date.now()
+): IssueCounterState {
+  const pruned = pruneCounterState(state, now);
+  const key = String(hourIndex(now));
+
+  pruned.hourly_buckets[key] = (pruned.hourly_buckets[key] || 0) + (occurrence.count || 1);
+
+  const identity = getOccurrenceIdentity(occurrence);
+  if (identity) {
+    pruned.user_sketches[key] = addToSketch(pruned.user_sketches[key] || createSketch(), identity);
+  }
+
+  pruned.updated_at = new Date(now).toISOString();
+  return pruned;
+}
+
+/**
+ * Remove an occurrence from the bucket it was recorded in (used when an event is split out)
+ * Unique-user sketches can't forget a user, so the estimate stays as is
+ */
+export function removeOccurrence(
+  state: IssueCounterState,
+  count: number,
+  occurredAtMs: number,
+  now = Date.now()
+): IssueCounterState {
+  const pruned = pruneCounterState(state, now);
+  const key = String(hourIndex(occurredAtMs));
+
+  if (pruned.hourly_buckets[key] !== undefined) {
+    const remaining = pruned.hourly_buckets[key] - count;
+    if (remaining > 0) {
+      pruned.hourly_buckets[key] = remaining;
+    } else {
+      delete pruned.hourly_buckets[key];
+    }
+  }
+
+  pruned.updated_at = new Date(now).toISOString();
+  return pruned;
+}
+
+/**
+ * Merge several counter states into one (used when issues are merged)
+ */
+export function mergeCounterStates(
+  issueId: string,
+  states: IssueCounterState[],
+  now = Date.now()
+): IssueCounterState {
+  const merged = createCounterState(issueId, now);
+
+  for (const state of states) {
+    for (const [key, count] of Object.entries(state.hourly_buckets || {})) {
+      merged.hourly_buckets[key] = (merged.hourly_buckets[key] || 0) + count;
+    }
+    for (const [key, sketch] of Object.entries(state.user_sketches || {})) {
+      merged.user_sketches[key] = merged.user_sketches[key]
+        ? mergeSketches([merged.user_sketches[key], sketch])
+        : sketch;
+    }
+  }
+
+  return pruneCounterState(merged, now);
+}
+
+/**
+ * Compute the current and previous 24h counts from counter state
+ */
+export function computeRollingCounts(state: IssueCounterState, now = Date.now()): RollingCounts {
+  const current = hourIndex(now);
+  let occurrences24h = 0;
+  let occurrencesPrev24h = 0;
+
+  for (const [key, count] of Object.entries(state.hourly_buckets || {})) {
+    const age = current - Number(key);
+    if (age < 0) continue;
+    if (age < WINDOW_HOURS) {
+      occurrences24h += count;
+    } else if (age < RETAINED_HOURS) {
+      occurrencesPrev24h += count;
+    }
+  }
+
+  const windowSketches = Object.entries(state.user_sketches || {})
+    .filter(([key]) => {
+      const age = current - Number(key);
+      return age >= 0 && age < WINDOW_HOURS;
+    })
+    .map(([, sketch]) => sketch);
+
+  const uniqueUsers = windowSketches.length > 0 ? estimateCardinality(mergeSketches(windowSketches)) : 0;
+
+  return {
+    occurrences_24h: occurrences24h,
+    occurrences_prev_24h: occurrencesPrev24h,
+    // Never report fewer users than "someone saw it" when there were occurrences
+    unique_users_24h_est: occurrences24h > 0 ? Math.min(Math.max(uniqueUsers, 1), occurrences24h) : 0,
+  };
+}
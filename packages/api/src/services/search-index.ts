@@ -0,0 +1,134 @@
+/**
+ * Issue Search Index
+ * Terms stored on each issue (search_tokens) so GET /issues can search with an
+ * array-contains query instead of scanning every issue, plus the in-memory checks
+ * for the filters Firestore can't combine in one query
+ */
+
+import type { Event, Issue, IssueFilters } from '@britepulse/shared';
+
+// Keeps the array (and its index entries) well inside Firestore's document limits
+export const MAX_SEARCH_TOKENS = 400;
+
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+
+// Letters and digits in any script, plus the punctuation inside identifiers
+const WORD_SEPARATOR = /[^\p{L}\p{M}\p{N}_.-]+/u;
+
+/**
+ * Lowercased words from the given texts, deduplicated, in order of first appearance
+ * Identifiers stay whole ('order_id', 'checkout.tsx') and are also split into their parts
+ * Text is NFKC-normalized so composed and decomposed accents index the same way
+ */
+export function searchTokens(...texts: Array<string | undefined | null>): string[] {
+  const tokens = new Set<string>();
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const word of text.normalize('NFKC').toLowerCase().split(WORD_SEPARATOR)) {
+      const whole = word.replace(/^[_.-]+|[_.-]+$/g, '');
+      const parts = whole.includes('_') || whole.includes('.') || whole.includes('-') ? whole.split(/[_.-]+/) : [];
+      for (const token of [whole, ...parts]) {
+        if (token.length >= MIN_TOKEN_LENGTH && token.length <= MAX_TOKEN_LENGTH) {
+          tokens.add(token);
+        }
+      }
+    }
+  }
+
+  return [...tokens].slice(0, MAX_SEARCH_TOKENS);
+}
+
+/**
+ * Terms from new text that the issue hasn't indexed yet, up to the cap
+ */
+export function newSearchTokens(
+  indexed: string[] | undefined,
+  ...texts: Array<string | undefined | null>
+): string[] {
+  const existing = new Set(indexed || []);
+  const room = MAX_SEARCH_TOKENS - existing.size;
+  if (room <= 0) return [];
+  return searchTokens(...texts)
+    .filter((token) => !existing.has(token))
+    .slice(0, room);
+}
+
+/**
+ * Text an event contributes to its issue's index (error message or feedback description)
+ */
+export function eventSearchText(event: Event): string | undefined {
+  const payload = event.payload as unknown as Record<string, unknown>;
+  const text = event.event_type === 'feedback' ? payload.description : payload.message;
+  return typeof text === 'string' ? text : undefined;
+}
+
+/**
+ * Match a version against an exact version or a pattern with * wildcards ('1.4.*')
+ */
+export function matchesVersion(version: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return version === pattern;
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(version);
+}
+
+/**
+ * Date filter getIssues can apply in Firestore, with bounds as stored ISO strings
+ * complete is false when another date filter still has to be checked in memory
+ */
+export interface IssueDateRange {
+  fieldPath: 'timestamps.created_at' | 'timestamps.last_seen_at';
+  from?: string;
+  to?: string;
+  complete: boolean;
+}
+
+export function issueDateRange(filters: IssueFilters): IssueDateRange | null {
+  const iso = (value: string | undefined) => {
+    const time = value ? new Date(value).getTime() : NaN;
+    return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+  };
+
+  const createdFrom = iso(filters.created_after);
+  const createdTo = iso(filters.created_before);
+  const lastSeenFrom = iso(filters.last_seen_after);
+  if (createdFrom || createdTo) {
+    return {
+      fieldPath: 'timestamps.created_at',
+      ...(createdFrom && { from: createdFrom }),
+      ...(createdTo && { to: createdTo }),
+      complete: !filters.last_seen_after,
+    };
+  }
+  if (lastSeenFrom) {
+    return { fieldPath: 'timestamps.last_seen_at', from: lastSeenFrom, complete: true };
+  }
+  return null;
+}
+
+/**
+ * Check the tag, version, date and search filters against an issue
+ * Used for whatever getIssues could not push down into the Firestore query
+ */
+export function matchesIssueFilters(issue: Issue, filters: IssueFilters): boolean {
+  if (filters.tag && !(issue.tags || []).includes(filters.tag)) return false;
+
+  if (filters.version) {
+    const pattern = filters.version;
+    if (!(issue.versions || []).some((version) => matchesVersion(version, pattern))) return false;
+  }
+
+  const time = (iso: string) => new Date(iso).getTime();
+  const createdAt = time(issue.timestamps.created_at);
+  if (filters.created_after && createdAt < time(filters.created_after)) return false;
+  if (filters.created_before && createdAt > time(filters.created_before)) return false;
+  if (filters.last_seen_after && time(issue.timestamps.last_seen_at) < time(filters.last_seen_after)) return false;
+
+  if (filters.search) {
+    const indexed = new Set(issue.search_tokens || []);
+    if (!searchTokens(filters.search).every((token) => indexed.has(token))) return false;
+  }
+
+  return true;
+}
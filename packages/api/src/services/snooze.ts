@@ -0,0 +1,176 @@
+/**
+ * Snooze Service
+ * Wakes snoozed issues when one of their wake conditions is met: the snooze date
+ * passes, occurrences or affected users climb past a threshold, or a new version shows up
+ */
+
+import type { Issue, IssueCounts } from '@britepulse/shared';
+import { emitIssueWebhookEvent } from './outbound-webhooks.js';
+import * as firestoreService from './firestore.js';
+
+// Woken issues go back into the triage queue
+const WAKE_STATUS = 'triaged';
+
+/**
+ * An issue moved out of snooze by the evaluator
+ */
+export interface WokenIssue {
+  issue_id: string;
+  app_id: string;
+  reason: string;
+}
+
+/**
+ * Result of a snooze evaluation run
+ */
+export interface SnoozeEvaluationResult {
+  checked: number;
+  woken: WokenIssue[];
+  errors: string[];
+}
+
+/**
+ * Why a snoozed issue should wake, or null if it should stay snoozed
+ */
+export function findWakeReason(issue: Issue, counts: IssueCounts, now: Date): string | null {
+  const snooze = issue.snooze;
+  if (!snooze) return null;
+
+  if (snooze.until && new Date(snooze.until).getTime() <= now.getTime()) {
+    return `the snooze ended at ${snooze.until}`;
+  }
+
+  if (snooze.occurrences_24h_above !== undefined && counts.occurrences_24h > snooze.occurrences_24h_above) {
+    return `it occurred ${counts.occurrences_24h} times in the last 24h (threshold ${snooze.occurrences_24h_above})`;
+  }
+
+  if (
+    snooze.unique_users_24h_above !== undefined &&
+    counts.unique_users_24h_est > snooze.unique_users_24h_above
+  ) {
+    return `it affected about ${counts.unique_users_24h_est} users in the last 24h (threshold ${snooze.unique_users_24h_above})`;
+  }
+
+  if (snooze.new_version) {
+    const known = new Set(snooze.versions_at_snooze || []);
+    const newVersions = (issue.versions || []).filter((version) => !known.has(version));
+    if (newVersions.length > 0) {
+      return `it was seen in new version ${newVersions.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Move an issue out of snooze, explain why on the issue, and tell the assignee
+ * Returns false if the issue was no longer snoozed
+ */
+async function wakeIssue(issue: Issue, reason: string): Promise<boolean> {
+  const woken = await firestoreService.wakeSnoozedIssue(issue.issue_id, WAKE_STATUS);
+  if (!woken) return false;
+
+  // The status change stands even if the follow-up writes fail
+  try {
+    await firestoreService.createComment(issue.issue_id, {
+      issue_id: issue.issue_id,
+      author_email: 'system',
+      author_name: 'BritePulse',
+      body: `Woke from snooze because ${reason}. Status changed from snoozed to ${WAKE_STATUS}.`,
+      source: 'system',
+    });
+
+    await firestoreService.createAuditLog({
+      actor_id: 'snooze-evaluator',
+      actor_role: 'system',
+      action: 'change_status',
+      target_type: 'issue',
+      target_id: issue.issue_id,
+      app_id: issue.app_id,
+      metadata: {
+        previous_value: 'snoozed',
+        new_value: WAKE_STATUS,
+        reason: 'snooze_woken',
+        wake_reason: reason,
+        snoozed_by: issue.snooze?.snoozed_by,
+      },
+    });
+
+    // Unassigned issues go back to whoever snoozed them
+    const recipient = issue.routing?.assigned_to || issue.snooze?.snoozed_by;
+    if (recipient) {
+      await firestoreService.createNotifications([
+        {
+          recipient_email: recipient,
+          type: 'snooze_woken',
+          issue_id: issue.issue_id,
+          issue_title: issue.title,
+          app_id: issue.app_id,
+          environment: issue.environment,
+          actor_email: 'system',
+          actor_name: 'BritePulse',
+          body_preview: `Snoozed issue woke up because ${reason}`,
+        },
+      ]);
+    }
+  } catch (error) {
+    console.error(`[Snooze] Failed to comment or notify for ${issue.issue_id}:`, error);
+  }
+
+  emitIssueWebhookEvent('issue.status_changed', woken, {
+    actor: 'snooze-evaluator',
+    changes: { previous_value: 'snoozed', new_value: WAKE_STATUS },
+  }).catch((error) => {
+    console.error(`[Snooze] Failed to emit webhook for ${issue.issue_id}:`, error);
+  });
+
+  return true;
+}
+
+/**
+ * Check every snoozed issue and wake the ones whose conditions have fired
+ * Called by the scheduler
+ */
+export async function runSnoozeEvaluation(options: { now?: Date } = {}): Promise<SnoozeEvaluationResult> {
+  const { now = new Date() } = options;
+  const result: SnoozeEvaluationResult = { checked: 0, woken: [], errors: [] };
+
+  let startAfter: string | undefined;
+  for (;;) {
+    const issues = await firestoreService.getSnoozedIssues(startAfter);
+    if (issues.length === 0) break;
+    for (const issue of issues) {
+      await evaluateIssue(issue, now, result);
+    }
+    startAfter = issues[issues.length - 1].issue_id;
+  }
+
+  return result;
+}
+
+/**
+ * Wake one snoozed issue if a condition has fired, recording the outcome
+ */
+async function evaluateIssue(issue: Issue, now: Date, result: SnoozeEvaluationResult): Promise<void> {
+  try {
+    result.checked++;
+
+    // Stored counts only change on new events; decay them before comparing to thresholds
+    const hasCountCondition =
+      issue.snooze?.occurrences_24h_above !== undefined || issue.snooze?.unique_users_24h_above !== undefined;
+    const counts = hasCountCondition
+      ? ((await firestoreService.refreshIssueCounts(issue.issue_id)) ?? issue.counts)
+      : issue.counts;
+
+    const reason = findWakeReason(issue, counts, now);
+    if (!reason) return;
+
+    if (await wakeIssue(issue, reason)) {
+      result.woken.push({ issue_id: issue.issue_id, app_id: issue.app_id, reason });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Snooze] Evaluation failed for ${issue.issue_id}:`, error);
+    result.errors.push(`${issue.issue_id}: ${message}`);
+  }
+}
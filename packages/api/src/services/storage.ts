@@ -176,6 +176,62 @@ export async function attachmentExists(storagePath: string): Promise<boolean> {
   return exists;
 }
 
+/**
+ * Storage prefix for all source maps of an app version
+ */
+export function getSourceMapPrefix(appId: string, version: string): string {
+  return `sourcemaps/${appId}/${encodeURIComponent(version)}/`;
+}
+
+/**
+ * Storage path for a bundle's source map
+ * Bundles are matched by file name only, since stack traces carry full CDN URLs
+ */
+export function generateSourceMapPath(appId: string, version: string, file: string): string {
+  const basename = file.split(/[?#]/)[0].split('/').pop() || file;
+  return `${getSourceMapPrefix(appId, version)}${encodeURIComponent(basename)}.map`;
+}
+
+/**
+ * Upload a source map to GCS
+ */
+export async function uploadSourceMap(storagePath: string, content: string): Promise<string> {
+  if (!isStorageConfigured()) {
+    throw new Error('GCS bucket not configured');
+  }
+
+  const bucket = getStorage().bucket(config.gcsBucket);
+  await bucket.file(storagePath).save(content, {
+    contentType: 'application/json',
+    metadata: {
+      cacheControl: 'private, no-cache',
+    },
+  });
+
+  return storagePath;
+}
+
+/**
+ * Download a source map from GCS
+ * @returns The source map JSON, or null if none was uploaded
+ */
+export async function downloadSourceMap(storagePath: string): Promise<string | null> {
+  if (!isStorageConfigured()) {
+    return null;
+  }
+
+  const bucket = getStorage().bucket(config.gcsBucket);
+  try {
+    const [contents] = await bucket.file(storagePath).download();
+    return contents.toString('utf8');
+  } catch (error: any) {
+    if (error.code === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 /**
  * Calculate expiration date for an attachment
  */
@@ -0,0 +1,193 @@
+/**
+ * Symbolication Service
+ * Maps minified frontend stack frames back to original source using uploaded source maps
+ */
+
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import * as storageService from './storage.js';
+
+/**
+ * A parsed stack frame
+ * - v8: "at fn (https://host/assets/index-3f2a.js:1:2345)" (Chrome, Edge, Node)
+ * - gecko: "fn@https://host/assets/index-3f2a.js:1:2345" (Firefox, Safari)
+ */
+export interface StackFrame {
+  style: 'v8' | 'gecko';
+  indent: string;
+  functionName?: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export type SourceMapResolver = (file: string) => Promise<TraceMap | null>;
+
+const V8_FRAME = /^(\s*)at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+const GECKO_FRAME = /^(\s*)([^@]*)@(.+?):(\d+):(\d+)$/;
+
+// Source maps are large; keep a bounded number parsed in memory
+const MAX_CACHED_MAPS = 50;
+const HIT_TTL_MS = 60 * 60 * 1000;
+// Misses expire sooner so a map uploaded after the first error is picked up
+const MISS_TTL_MS = 5 * 60 * 1000;
+
+const mapCache = new Map<string, { map: TraceMap | null; expiresAt: number }>();
+
+/**
+ * Parse a single stack trace line
+ */
+export function parseStackFrame(line: string): StackFrame | null {
+  const v8 = line.match(V8_FRAME);
+  if (v8) {
+    return {
+      style: 'v8',
+      indent: v8[1],
+      functionName: v8[2],
+      file: v8[3],
+      line: Number(v8[4]),
+      column: Number(v8[5]),
+    };
+  }
+
+  const gecko = line.match(GECKO_FRAME);
+  if (gecko) {
+    return {
+      style: 'gecko',
+      indent: gecko[1],
+      functionName: gecko[2] || undefined,
+      file: gecko[3],
+      line: Number(gecko[4]),
+      column: Number(gecko[5]),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Format a frame in the same style it was captured in
+ */
+export function formatStackFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}:${frame.column}`;
+  if (frame.style === 'gecko') {
+    return `${frame.indent}${frame.functionName || ''}@${location}`;
+  }
+  return frame.functionName
+    ? `${frame.indent}at ${frame.functionName} (${location})`
+    : `${frame.indent}at ${location}`;
+}
+
+/**
+ * Strip bundler prefixes from source paths (webpack://app/./src/x.ts -> src/x.ts)
+ */
+function cleanSourcePath(source: string): string {
+  return source
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^(?:\.\.?\/)+/, '');
+}
+
+/**
+ * Rewrite every frame that has a source map; frames without one are left as-is
+ * @returns The symbolicated stack, or null if no frame could be mapped
+ */
+export async function symbolicateStack(
+  stack: string,
+  resolveMap: SourceMapResolver
+): Promise<string | null> {
+  let mapped = 0;
+  const lines: string[] = [];
+
+  for (const line of stack.split('\n')) {
+    const frame = parseStackFrame(line);
+    const map = frame ? await resolveMap(frame.file) : null;
+    if (!frame || !map) {
+      lines.push(line);
+      continue;
+    }
+
+    // Stack columns are 1-based, source map columns 0-based
+    const original = originalPositionFor(map, { line: frame.line, column: frame.column - 1 });
+    if (original.source === null || original.line === null || original.column === null) {
+      lines.push(line);
+      continue;
+    }
+
+    mapped++;
+    lines.push(
+      formatStackFrame({
+        ...frame,
+        functionName: original.name || frame.functionName,
+        file: cleanSourcePath(original.source),
+        line: original.line,
+        column: original.column + 1,
+      })
+    );
+  }
+
+  return mapped > 0 ? lines.join('\n') : null;
+}
+
+/**
+ * Load a parsed source map for a bundle file, with caching
+ */
+async function loadSourceMap(appId: string, version: string, file: string): Promise<TraceMap | null> {
+  const storagePath = storageService.generateSourceMapPath(appId, version, file);
+  const cached = mapCache.get(storagePath);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.map;
+  }
+
+  let map: TraceMap | null = null;
+  const contents = await storageService.downloadSourceMap(storagePath);
+  if (contents) {
+    try {
+      map = new TraceMap(contents);
+    } catch (error) {
+      console.warn(`[Symbolication] Invalid source map at ${storagePath}:`, error);
+    }
+  }
+
+  if (mapCache.size >= MAX_CACHED_MAPS) {
+    // Maps iterate in insertion order, so this evicts the oldest entry
+    mapCache.delete(mapCache.keys().next().value!);
+  }
+  mapCache.set(storagePath, {
+    map,
+    expiresAt: Date.now() + (map ? HIT_TTL_MS : MISS_TTL_MS),
+  });
+
+  return map;
+}
+
+/**
+ * Symbolicate an event's stack with the source maps uploaded for its version
+ * Never throws; a failed lookup just leaves the stack minified
+ */
+export async function symbolicateEventStack(
+  appId: string,
+  version: string,
+  stack: string
+): Promise<string | null> {
+  if (!version || version === 'unknown' || !storageService.isStorageConfigured()) {
+    return null;
+  }
+
+  try {
+    return await symbolicateStack(stack, (file) => loadSourceMap(appId, version, file));
+  } catch (error) {
+    console.error('[Symbolication] Failed to symbolicate stack:', error);
+    return null;
+  }
+}
+
+/**
+ * Drop cached maps for a version (after a new upload replaces them)
+ */
+export function clearSourceMapCache(appId: string, version: string): void {
+  const prefix = storageService.getSourceMapPrefix(appId, version);
+  for (const key of [...mapCache.keys()]) {
+    if (key.startsWith(prefix)) {
+      mapCache.delete(key);
+    }
+  }
+}
@@ -0,0 +1,451 @@
+/**
+ * Ticketing Service
+ * Pluggable providers for the create-ticket action (Jira, GitHub Issues, outbound webhook)
+ */
+
+import crypto from 'crypto';
+import {
+  TICKET_SECRET_ENV_PREFIX,
+  type App,
+  type Issue,
+  type IssueStatus,
+  type ExternalTicket,
+  type TicketingConfig,
+  type TicketProviderType,
+  type JiraTicketConfig,
+  type GitHubTicketConfig,
+  type WebhookTicketConfig,
+} from '@britepulse/shared';
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Jira rejects descriptions over 32767 characters
+const MAX_JIRA_DESCRIPTION_LENGTH = 32_000;
+
+// GitHub rejects issue bodies over 65536 characters
+const MAX_GITHUB_BODY_LENGTH = 65_000;
+
+/**
+ * Ticket content passed to a provider
+ */
+export interface TicketRequest {
+  title: string;
+  body: string; // markdown, from generateContextFile
+  issue: Issue;
+  app: App;
+}
+
+/**
+ * Ticket reference returned by a provider
+ */
+export interface CreatedTicket {
+  key: string;
+  url: string;
+}
+
+/**
+ * Provider-neutral ticket state, used in both sync directions
+ */
+export type TicketState = 'todo' | 'in_progress' | 'blocked' | 'done' | 'wont_do';
+
+/**
+ * BritePulse status change pushed to a linked ticket
+ */
+export interface TicketStatusUpdate {
+  status: IssueStatus;
+  state: TicketState;
+  note?: string;
+  issue: Issue;
+}
+
+export interface TicketProvider {
+  type: TicketProviderType;
+  createTicket(request: TicketRequest): Promise<CreatedTicket>;
+  updateStatus(ticket: ExternalTicket, update: TicketStatusUpdate): Promise<void>;
+}
+
+/**
+ * Inbound mapping: ticket state -> issue status
+ */
+export const ISSUE_STATUS_FOR_TICKET_STATE: Record<TicketState, IssueStatus> = {
+  todo: 'triaged',
+  in_progress: 'in_progress',
+  blocked: 'blocked',
+  done: 'resolved',
+  wont_do: 'wont_fix',
+};
+
+/**
+ * Outbound mapping: issue status -> ticket state
+ * Snoozing has no tracker equivalent and is not pushed
+ */
+export function getTicketStateForStatus(status: IssueStatus): TicketState | null {
+  switch (status) {
+    case 'new':
+    case 'triaged':
+      return 'todo';
+    case 'in_progress':
+      return 'in_progress';
+    case 'blocked':
+      return 'blocked';
+    case 'resolved':
+      return 'done';
+    case 'wont_fix':
+      return 'wont_do';
+    case 'snoozed':
+      return null;
+  }
+}
+
+/**
+ * Error raised when a provider is misconfigured or the external system rejects the ticket
+ */
+export class TicketProviderError extends Error {
+  constructor(
+    public provider: TicketProviderType,
+    message: string
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'TicketProviderError';
+  }
+}
+
+/**
+ * Read a credential from the environment
+ * Only names with the ticket prefix, even if a stored config predates the schema check
+ */
+function readSecret(provider: TicketProviderType, envName: string): string {
+  if (!envName.startsWith(TICKET_SECRET_ENV_PREFIX)) {
+    throw new TicketProviderError(provider, `${envName} is not a ticket credential (must start with ${TICKET_SECRET_ENV_PREFIX})`);
+  }
+  const value = process.env[envName];
+  if (!value) {
+    throw new TicketProviderError(provider, `${envName} is not set`);
+  }
+  return value;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.slice(0, maxLength - 20) + '\n\n...(truncated)';
+}
+
+/**
+ * Send a JSON request and return the parsed response body
+ */
+async function requestJson(
+  provider: TicketProviderType,
+  method: 'GET' | 'POST' | 'PATCH',
+  url: string,
+  body: string | undefined,
+  headers: Record<string, string>
+): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new TicketProviderError(
+      provider,
+      `request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new TicketProviderError(provider, `HTTP ${response.status} ${text.slice(0, 200)}`.trim());
+  }
+
+  return (await response.json().catch(() => ({}))) as Record<string, unknown>;
+}
+
+/**
+ * Comment posted on the ticket alongside a status push
+ */
+function buildStatusComment(update: TicketStatusUpdate): string {
+  const line = `BritePulse issue ${update.issue.issue_id} was marked ${update.status}.`;
+  return update.note ? `${line}\n\n${update.note}` : line;
+}
+
+// ============ Providers ============
+
+/**
+ * Jira Cloud (REST API v2, plain-text description)
+ */
+export function createJiraProvider(config: JiraTicketConfig): TicketProvider {
+  const baseUrl = config.base_url.replace(/\/+$/, '');
+
+  function authHeaders(): Record<string, string> {
+    const token = readSecret('jira', config.api_token_env);
+    return { Authorization: `Basic ${Buffer.from(`${config.user_email}:${token}`).toString('base64')}` };
+  }
+
+  return {
+    type: 'jira',
+    async createTicket(request) {
+      const result = await requestJson(
+        'jira',
+        'POST',
+        `${baseUrl}/rest/api/2/issue`,
+        JSON.stringify({
+          fields: {
+            project: { key: config.project_key },
+            issuetype: { name: config.issue_type || 'Bug' },
+            summary: request.title.slice(0, 255),
+            description: truncate(request.body, MAX_JIRA_DESCRIPTION_LENGTH),
+            labels: ['britepulse', `severity-${request.issue.severity.toLowerCase()}`],
+          },
+        }),
+        authHeaders()
+      );
+
+      if (typeof result.key !== 'string') {
+        throw new TicketProviderError('jira', 'response did not include an issue key');
+      }
+      return { key: result.key, url: `${baseUrl}/browse/${result.key}` };
+    },
+
+    async updateStatus(ticket, update) {
+      const headers = authHeaders();
+      const issueUrl = `${baseUrl}/rest/api/2/issue/${encodeURIComponent(ticket.key)}`;
+
+      // Jira workflows are project-specific, so pick an available transition by its target status
+      const result = await requestJson('jira', 'GET', `${issueUrl}/transitions`, undefined, headers);
+      const transitions = (Array.isArray(result.transitions) ? result.transitions : []) as JiraTransition[];
+      const transition = pickJiraTransition(transitions, update.state);
+      if (!transition) {
+        throw new TicketProviderError('jira', `no transition to ${update.state} is available for ${ticket.key}`);
+      }
+
+      await requestJson(
+        'jira',
+        'POST',
+        `${issueUrl}/transitions`,
+        JSON.stringify({ transition: { id: transition.id } }),
+        headers
+      );
+
+      await requestJson(
+        'jira',
+        'POST',
+        `${issueUrl}/comment`,
+        JSON.stringify({ body: buildStatusComment(update) }),
+        headers
+      );
+    },
+  };
+}
+
+interface JiraTransition {
+  id: string;
+  name?: string;
+  to?: { name?: string; statusCategory?: { key?: string } };
+}
+
+const JIRA_CATEGORY_FOR_STATE: Record<TicketState, string> = {
+  todo: 'new',
+  in_progress: 'indeterminate',
+  blocked: 'indeterminate',
+  done: 'done',
+  wont_do: 'done',
+};
+
+/**
+ * Choose the transition whose target status best matches a ticket state
+ * Prefers a status named like the state (e.g. "Blocked", "Won't Do") within the right category
+ */
+export function pickJiraTransition(
+  transitions: JiraTransition[],
+  state: TicketState
+): JiraTransition | undefined {
+  const category = JIRA_CATEGORY_FOR_STATE[state];
+  const candidates = transitions.filter((t) => t.to?.statusCategory?.key === category);
+  const namePattern: Partial<Record<TicketState, RegExp>> = {
+    blocked: /block/i,
+    in_progress: /progress/i,
+    wont_do: /won'?t|declin|reject/i,
+    done: /done|resolv|clos/i,
+  };
+  const pattern = namePattern[state];
+  const named = pattern && candidates.find((t) => pattern.test(t.to?.name || t.name || ''));
+  if (named) return named;
+  // Don't move a ticket to a generic in-progress status when asked to block it
+  return state === 'blocked' ? undefined : candidates[0];
+}
+
+/**
+ * GitHub Issues
+ */
+export function createGitHubProvider(config: GitHubTicketConfig): TicketProvider {
+  const apiUrl = (config.api_url || 'https://api.github.com').replace(/\/+$/, '');
+
+  function authHeaders(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${readSecret('github', config.token_env)}`,
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+  }
+
+  return {
+    type: 'github',
+    async createTicket(request) {
+      const result = await requestJson(
+        'github',
+        'POST',
+        `${apiUrl}/repos/${config.owner}/${config.repo}/issues`,
+        JSON.stringify({
+          title: request.title,
+          body: truncate(request.body, MAX_GITHUB_BODY_LENGTH),
+          labels: config.labels || [],
+        }),
+        authHeaders()
+      );
+
+      if (typeof result.number !== 'number' || typeof result.html_url !== 'string') {
+        throw new TicketProviderError('github', 'response did not include an issue number');
+      }
+      return { key: `${config.owner}/${config.repo}#${result.number}`, url: result.html_url };
+    },
+
+    async updateStatus(ticket, update) {
+      const match = ticket.key.match(/^([^/]+)\/([^#]+)#(\d+)$/);
+      if (!match) {
+        throw new TicketProviderError('github', `invalid ticket key ${ticket.key}`);
+      }
+      const [, owner, repo, number] = match;
+      const issueUrl = `${apiUrl}/repos/${owner}/${repo}/issues/${number}`;
+      const headers = authHeaders();
+
+      // GitHub issues are only open or closed; other states just reopen
+      const closed = update.state === 'done' || update.state === 'wont_do';
+      await requestJson(
+        'github',
+        'PATCH',
+        issueUrl,
+        JSON.stringify(
+          closed
+            ? { state: 'closed', state_reason: update.state === 'wont_do' ? 'not_planned' : 'completed' }
+            : { state: 'open' }
+        ),
+        headers
+      );
+
+      await requestJson(
+        'github',
+        'POST',
+        `${issueUrl}/comments`,
+        JSON.stringify({ body: buildStatusComment(update) }),
+        headers
+      );
+    },
+  };
+}
+
+/**
+ * Sign a webhook body (X-BritePulse-Signature: sha256=<hex>)
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Generic outbound webhook
+ * The receiver creates the ticket and responds with { key, url }
+ */
+export function createWebhookProvider(config: WebhookTicketConfig): TicketProvider {
+  function signatureHeaders(body: string): Record<string, string> {
+    if (!config.secret_env) return {};
+    return { 'X-BritePulse-Signature': signWebhookBody(body, readSecret('webhook', config.secret_env)) };
+  }
+
+  return {
+    type: 'webhook',
+    async createTicket(request) {
+      const body = JSON.stringify({
+        type: 'ticket.create',
+        title: request.title,
+        body: request.body,
+        issue: {
+          issue_id: request.issue.issue_id,
+          app_id: request.issue.app_id,
+          environment: request.issue.environment,
+          severity: request.issue.severity,
+          status: request.issue.status,
+          issue_type: request.issue.issue_type,
+        },
+        app: { app_id: request.app.app_id, name: request.app.name },
+      });
+
+      const result = await requestJson('webhook', 'POST', config.url, body, signatureHeaders(body));
+
+      if (typeof result.key !== 'string' || typeof result.url !== 'string') {
+        throw new TicketProviderError('webhook', 'response must include key and url');
+      }
+      return { key: result.key, url: result.url };
+    },
+
+    async updateStatus(ticket, update) {
+      const body = JSON.stringify({
+        type: 'ticket.status_changed',
+        ticket: { key: ticket.key, url: ticket.url },
+        state: update.state,
+        status: update.status,
+        note: update.note,
+        issue: { issue_id: update.issue.issue_id, app_id: update.issue.app_id },
+      });
+
+      await requestJson('webhook', 'POST', config.url, body, signatureHeaders(body));
+    },
+  };
+}
+
+/**
+ * Get the provider configured for an app
+ */
+export function getTicketProvider(config: TicketingConfig): TicketProvider {
+  switch (config.provider) {
+    case 'jira':
+      if (!config.jira) throw new TicketProviderError('jira', 'Jira settings are missing');
+      return createJiraProvider(config.jira);
+    case 'github':
+      if (!config.github) throw new TicketProviderError('github', 'GitHub settings are missing');
+      return createGitHubProvider(config.github);
+    case 'webhook':
+      if (!config.webhook) throw new TicketProviderError('webhook', 'Webhook settings are missing');
+      return createWebhookProvider(config.webhook);
+  }
+}
+
+/**
+ * Build the ticket title for an issue
+ */
+export function buildTicketTitle(issue: Issue): string {
+  return `[${issue.severity}] ${issue.title}`;
+}
+
+/**
+ * Push a BritePulse status change to the issue's linked ticket
+ * No-op when the issue has no ticket, the app no longer uses that provider,
+ * or the status has no ticket equivalent
+ */
+export async function syncTicketStatus(
+  app: App,
+  issue: Issue,
+  status: IssueStatus,
+  note?: string
+): Promise<boolean> {
+  const ticket = issue.external_ticket;
+  if (!ticket || !app.ticketing || app.ticketing.provider !== ticket.provider) return false;
+
+  const state = getTicketStateForStatus(status);
+  if (!state) return false;
+
+  const provider = getTicketProvider(app.ticketing);
+  await provider.updateStatus(ticket, { status, state, note, issue });
+  return true;
+}
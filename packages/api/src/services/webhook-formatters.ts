@@ -0,0 +1,145 @@
+/**
+ * Webhook Formatters
+ * Render a webhook event as the JSON envelope, a Slack incoming-webhook message,
+ * or a Microsoft Teams incoming-webhook card
+ */
+
+import type { WebhookEvent, WebhookFormat } from '@britepulse/shared';
+
+const SEVERITY_COLORS: Record<string, string> = {
+  P0: '#dc2626',
+  P1: '#ea580c',
+  P2: '#ca8a04',
+  P3: '#6b7280',
+};
+const DEFAULT_COLOR = '#2563eb';
+
+/**
+ * One-line summary of what happened, shared by the chat formats
+ */
+export function describeWebhookEvent(event: WebhookEvent): string {
+  const actor = event.actor ? ` by ${event.actor}` : '';
+  switch (event.type) {
+    case 'issue.created':
+      return `New ${event.issue?.severity} issue in ${event.app.name}`;
+    case 'issue.status_changed':
+      return `Status changed ${event.changes?.previous_value} → ${event.changes?.new_value}${actor}`;
+    case 'issue.severity_changed':
+      return `Severity changed ${event.changes?.previous_value} → ${event.changes?.new_value}${actor}`;
+    case 'issue.comment_added':
+      return `New comment from ${event.comment?.author}`;
+    case 'issue.ai_analysis_ready':
+      return 'AI analysis ready';
+    case 'brief.sent':
+      return `Daily brief sent for ${event.app.name} (${event.brief?.issues_selected} issues, ${event.brief?.recipients_sent} recipients)`;
+    case 'webhook.test':
+      return `Test message from BritePulse for ${event.app.name}`;
+  }
+}
+
+/**
+ * Extra detail line for the chat formats (comment text, analysis summary)
+ */
+function eventDetail(event: WebhookEvent): string | undefined {
+  if (event.comment) return event.comment.body_preview;
+  if (event.ai_analysis) return event.ai_analysis.impact_summary;
+  return undefined;
+}
+
+function issueFacts(issue: NonNullable<WebhookEvent['issue']>): Array<{ name: string; value: string }> {
+  return [
+    { name: 'Severity', value: issue.severity },
+    { name: 'Status', value: issue.status.replace('_', ' ') },
+    { name: 'Environment', value: issue.environment },
+    { name: 'Last 24h', value: `${issue.occurrences_24h} events, ~${issue.unique_users_24h_est} users` },
+    { name: 'Total', value: `${issue.occurrences_total} events` },
+  ];
+}
+
+/**
+ * Slack incoming-webhook message (Block Kit with a plain-text fallback)
+ */
+export function formatSlackMessage(event: WebhookEvent): Record<string, unknown> {
+  const summary = describeWebhookEvent(event);
+  const detail = eventDetail(event);
+  const issue = event.issue;
+
+  if (!issue) {
+    return {
+      text: summary,
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: summary } }],
+    };
+  }
+
+  return {
+    text: `[${issue.severity}] ${issue.title}: ${summary}`,
+    attachments: [
+      {
+        color: SEVERITY_COLORS[issue.severity] || DEFAULT_COLOR,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `*<${issue.url}|[${issue.severity}] ${escapeSlack(issue.title)}>*\n${summary}` },
+          },
+          ...(detail ? [{ type: 'section', text: { type: 'mrkdwn', text: `>${escapeSlack(detail)}` } }] : []),
+          {
+            type: 'section',
+            fields: issueFacts(issue).map((fact) => ({ type: 'mrkdwn', text: `*${fact.name}*\n${fact.value}` })),
+          },
+          {
+            type: 'actions',
+            elements: [{ type: 'button', text: { type: 'plain_text', text: 'Open in BritePulse' }, url: issue.url }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Microsoft Teams incoming-webhook card (MessageCard)
+ */
+export function formatTeamsMessage(event: WebhookEvent): Record<string, unknown> {
+  const summary = describeWebhookEvent(event);
+  const detail = eventDetail(event);
+  const issue = event.issue;
+
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary,
+    themeColor: (issue ? SEVERITY_COLORS[issue.severity] || DEFAULT_COLOR : DEFAULT_COLOR).slice(1),
+    title: issue ? `[${issue.severity}] ${issue.title}` : summary,
+    sections: [
+      {
+        activityTitle: issue ? summary : event.app.name,
+        ...(detail && { text: detail }),
+        ...(issue && { facts: issueFacts(issue) }),
+      },
+    ],
+    ...(issue && {
+      potentialAction: [
+        { '@type': 'OpenUri', name: 'Open in BritePulse', targets: [{ os: 'default', uri: issue.url }] },
+      ],
+    }),
+  };
+}
+
+/**
+ * Serialize an event for a subscription's format
+ */
+export function formatWebhookBody(event: WebhookEvent, format: WebhookFormat): string {
+  switch (format) {
+    case 'slack':
+      return JSON.stringify(formatSlackMessage(event));
+    case 'teams':
+      return JSON.stringify(formatTeamsMessage(event));
+    case 'json':
+      return JSON.stringify(event);
+  }
+}
+
+// Slack treats &, < and > as control characters in mrkdwn
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -7,6 +7,7 @@ import DashboardPage from './pages/DashboardPage';
 import AppsListPage from './pages/admin/AppsListPage';
 import AppDetailPage from './pages/admin/AppDetailPage';
 import UsersPage from './pages/admin/UsersPage';
+import AuditLogsPage from './pages/admin/AuditLogsPage';
 import IssuesListPage from './pages/issues/IssuesListPage';
 import IssueDetailPage from './pages/issues/IssueDetailPage';
 import NotificationsPage from './pages/NotificationsPage';
@@ -106,6 +107,14 @@ export default function App() {
             </AdminRoute>
           }
         />
+        <Route
+          path="admin/audit-logs"
+          element={
+            <AdminRoute>
+              <AuditLogsPage />
+            </AdminRoute>
+          }
+        />
 
         {/* Issue routes (PO and above) */}
         <Route path="issues" element={<IssuesListPage />} />
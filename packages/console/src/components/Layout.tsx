@@ -9,6 +9,7 @@ const navigation = [
   { name: 'Notifications', href: '/notifications', icon: BellIcon },
   { name: 'Apps', href: '/admin/apps', icon: CubeIcon, roles: ['Admin', 'PO'] },
   { name: 'Users', href: '/admin/users', icon: UsersIcon, roles: ['Admin'] },
+  { name: 'Audit Logs', href: '/admin/audit-logs', icon: ClipboardIcon, roles: ['Admin'] },
 ];
 
 function HomeIcon({ className }: { className?: string }) {
@@ -43,6 +44,14 @@ function UsersIcon({ className }: { className?: string }) {
   );
 }
 
+function ClipboardIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+    </svg>
+  );
+}
+
 function BellIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,4 +1,4 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import type {
   App,
   Issue,
@@ -7,6 +7,19 @@ import type {
   IssueStatus,
   Severity,
   Notification,
+  AppHealth,
+  ExternalTicket,
+  AuditLog,
+  AuditLogFilters,
+  AuditLogExportFormat,
+  SimilarIssue,
+  SnoozeCondition,
+  AlertRule,
+  AlertFiring,
+  WebhookSubscription,
+  WebhookDelivery,
+  TriageMode,
+  IssueAIJob,
 } from '../types';
 
 // API base URL - use VITE_API_URL in production, localhost in dev
@@ -161,6 +174,79 @@ export function useSendTestBrief(appId: string) {
   });
 }
 
+export function useUpdateAlertRules(appId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rules: AlertRule[]) =>
+      fetchApi<{ data: App }>(`/admin/apps/${appId}/alert-rules`, {
+        method: 'PUT',
+        body: JSON.stringify({ rules }),
+      }).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apps', appId] });
+    },
+  });
+}
+
+export function useAlertFirings(appId: string) {
+  return useQuery({
+    queryKey: ['apps', appId, 'alert-firings'],
+    queryFn: () =>
+      fetchApi<{ data: AlertFiring[] }>(`/admin/apps/${appId}/alert-firings?limit=20`).then((r) => r.data),
+    enabled: !!appId,
+    refetchInterval: 60_000,
+  });
+}
+
+export function useUpdateWebhooks(appId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (subscriptions: WebhookSubscription[]) =>
+      fetchApi<{ data: App }>(`/admin/apps/${appId}/webhooks`, {
+        method: 'PUT',
+        body: JSON.stringify({ subscriptions }),
+      }).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apps', appId] });
+    },
+  });
+}
+
+export function useTestWebhook(appId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (subscriptionId: string) =>
+      fetchApi<{ data: WebhookDelivery }>(`/admin/apps/${appId}/webhooks/${subscriptionId}/test`, {
+        method: 'POST',
+      }).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['apps', appId, 'webhook-deliveries'] });
+    },
+  });
+}
+
+export function useWebhookDeliveries(appId: string) {
+  return useQuery({
+    queryKey: ['apps', appId, 'webhook-deliveries'],
+    queryFn: () =>
+      fetchApi<{ data: WebhookDelivery[] }>(`/admin/apps/${appId}/webhook-deliveries?limit=20`).then((r) => r.data),
+    enabled: !!appId,
+    refetchInterval: 60_000,
+  });
+}
+
+export function useAppHealth(appId: string, environment: string) {
+  return useQuery({
+    queryKey: ['apps', appId, 'health', environment],
+    queryFn: () =>
+      fetchApi<{ data: AppHealth }>(
+        `/admin/apps/${appId}/health?environment=${encodeURIComponent(environment)}`
+      ).then((r) => r.data),
+    enabled: !!appId && !!environment,
+    refetchInterval: 60_000,
+  });
+}
+
 // Issues
 export function useIssues(filters: Partial<IssueFilters> = {}) {
   const params = new URLSearchParams();
@@ -169,19 +255,26 @@ export function useIssues(filters: Partial<IssueFilters> = {}) {
   if (filters.environment) params.set('environment', filters.environment);
   if (filters.status?.length) params.set('status', filters.status.join(','));
   if (filters.severity?.length) params.set('severity', filters.severity.join(','));
+  if (filters.issue_type?.length) params.set('issue_type', filters.issue_type.join(','));
   if (filters.assigned_to) params.set('assigned_to', filters.assigned_to);
+  if (filters.tag) params.set('tag', filters.tag);
+  if (filters.version) params.set('version', filters.version);
+  if (filters.created_after) params.set('created_after', filters.created_after);
+  if (filters.created_before) params.set('created_before', filters.created_before);
+  if (filters.last_seen_after) params.set('last_seen_after', filters.last_seen_after);
   if (filters.search) params.set('search', filters.search);
   if (filters.sort_by) params.set('sort_by', filters.sort_by);
   if (filters.sort_dir) params.set('sort_dir', filters.sort_dir);
   if (filters.page) params.set('page', String(filters.page));
   if (filters.page_size) params.set('page_size', String(filters.page_size));
+  if (filters.cursor) params.set('cursor', filters.cursor);
 
   return useQuery({
     queryKey: ['issues', filters],
     queryFn: () =>
-      fetchApi<{ data: Issue[]; pagination: { total: number } }>(`/issues?${params}`).then(
-        (r) => ({ issues: r.data, total: r.pagination.total })
-      ),
+      fetchApi<{ data: Issue[]; pagination: { total: number; next_cursor: string | null } }>(
+        `/issues?${params}`
+      ).then((r) => ({ issues: r.data, total: r.pagination.total, nextCursor: r.pagination.next_cursor })),
   });
 }
 
@@ -191,6 +284,11 @@ export function useIssue(issueId: string) {
     queryFn: () =>
       fetchApi<{ data: Issue }>(`/issues/${issueId}`).then((r) => r.data),
     enabled: !!issueId,
+    // Poll while an AI triage job is waiting or running so its result shows up
+    refetchInterval: (query) => {
+      const status = query.state.data?.ai_job?.status;
+      return status === 'queued' || status === 'running' ? 5000 : false;
+    },
   });
 }
 
@@ -205,16 +303,31 @@ export function useIssueEvents(issueId: string) {
   });
 }
 
+export function useSimilarIssues(issueId: string) {
+  return useQuery({
+    queryKey: ['issues', issueId, 'similar'],
+    queryFn: () =>
+      fetchApi<{ data: SimilarIssue[] }>(`/issues/${issueId}/similar`).then((r) => r.data),
+    enabled: !!issueId,
+  });
+}
+
 export function useUpdateIssueStatus(issueId: string) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (data: { status: IssueStatus; reason?: string; resolution_note?: string }) =>
+    mutationFn: (data: {
+      status: IssueStatus;
+      reason?: string;
+      resolution_note?: string;
+      snooze?: SnoozeCondition;
+    }) =>
       fetchApi<{ data: Issue }>(`/issues/${issueId}/actions/set-status`, {
         method: 'POST',
         body: JSON.stringify({
           status: data.status,
           reason: data.reason || 'Status updated via console',
           ...(data.resolution_note && { resolution_note: data.resolution_note }),
+          ...(data.snooze && { snooze: data.snooze }),
         }),
       }),
     onSuccess: () => {
@@ -254,6 +367,23 @@ export function useAssignIssue(issueId: string) {
   });
 }
 
+export function useCreateTicket(issueId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: { reason?: string } = {}) =>
+      fetchApi<{ data: { ticket_url: string; external_ticket: ExternalTicket } }>(
+        `/issues/${issueId}/actions/create-ticket`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ reason: data.reason || 'Ticket created via console' }),
+        }
+      ).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['issues', issueId] });
+    },
+  });
+}
+
 // Keep backwards compatibility alias
 export function useUpdateIssue(issueId: string) {
   return useUpdateIssueStatus(issueId);
@@ -262,10 +392,10 @@ export function useUpdateIssue(issueId: string) {
 export function useTriageIssue(issueId: string) {
   const queryClient = useQueryClient();
   return useMutation({
-    mutationFn: (force: boolean = false) =>
-      fetchApi<{ data: { success: boolean; analysis?: unknown } }>(`/issues/${issueId}/actions/triage`, {
+    mutationFn: ({ force = false, mode }: { force?: boolean; mode?: TriageMode } = {}) =>
+      fetchApi<{ data: { job: IssueAIJob } }>(`/issues/${issueId}/actions/triage`, {
         method: 'POST',
-        body: JSON.stringify({ force }),
+        body: JSON.stringify({ force, ...(mode && { mode }) }),
       }).then((r) => r.data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['issues', issueId] });
@@ -287,6 +417,19 @@ export function useMergeIssues() {
   });
 }
 
+export function useSplitEvent(issueId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (eventId: string) =>
+      fetchApi<{ data: Issue }>(`/issues/${issueId}/events/${eventId}/actions/split`, {
+        method: 'POST',
+      }).then((r) => r.data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['issues'] });
+    },
+  });
+}
+
 // Comments
 interface IssueComment {
   comment_id: string;
@@ -294,7 +437,7 @@ interface IssueComment {
   author_email: string;
   author_name?: string;
   body: string;
-  source: 'console' | 'email';
+  source: 'console' | 'email' | 'ticket' | 'system';
   created_at: string;
   mentions?: string[];
   attachment_refs?: string[];
@@ -415,6 +558,54 @@ export function getAttachmentRedirectUrl(attachmentId: string): string {
   return `${API_BASE}/attachments/${attachmentId}/redirect?token=${encodeURIComponent(token || '')}`;
 }
 
+// Audit Logs
+function buildAuditLogParams(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+export function useAuditLogs(filters: AuditLogFilters) {
+  return useInfiniteQuery({
+    queryKey: ['audit-logs', filters],
+    queryFn: ({ pageParam }) => {
+      const params = buildAuditLogParams(filters);
+      if (pageParam) params.set('cursor', pageParam);
+      return fetchApi<{ data: AuditLog[]; pagination: { limit: number; next_cursor: string | null } }>(
+        `/admin/audit-logs?${params}`
+      );
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.pagination.next_cursor ?? undefined,
+  });
+}
+
+export async function downloadAuditLogExport(
+  filters: AuditLogFilters,
+  format: AuditLogExportFormat
+): Promise<void> {
+  const params = buildAuditLogParams(filters);
+  params.set('format', format);
+  const response = await fetch(`${API_BASE}/admin/audit-logs?${params}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({ message: 'Export failed' }));
+    throw new Error(errorBody.message || `HTTP ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Notifications
 export function useNotifications(options?: { type?: string; appIds?: string[] }) {
   return useQuery({
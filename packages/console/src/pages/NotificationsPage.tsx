@@ -53,7 +53,12 @@ export default function NotificationsPage() {
     if (!notification.read) {
       markRead.mutate(notification.notification_id);
     }
-    navigate(`/issues/${notification.issue_id}`);
+    // App-wide notifications (silent installs, error rate alerts) have no issue to open
+    if (notification.type === 'silent_installation' || !notification.issue_id) {
+      navigate(`/admin/apps/${notification.app_id}`);
+    } else {
+      navigate(`/issues/${notification.issue_id}`);
+    }
   }
 
   const filters: { key: FilterMode; label: string }[] = [
@@ -135,15 +140,37 @@ export default function NotificationsPage() {
 
               {/* Content */}
               <div className="flex-1 min-w-0">
-                <p className="text-sm text-gray-900">
-                  <span className="font-medium">
-                    {n.actor_name || n.actor_email}
-                  </span>{' '}
-                  {n.type === 'mention'
-                    ? 'mentioned you in'
-                    : 'commented on'}{' '}
-                  <span className="font-medium">{n.issue_title}</span>
-                </p>
+                {n.type === 'silent_installation' ? (
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">Silent installation</span>
+                    {n.environment && <> in {n.environment}</>}
+                  </p>
+                ) : n.type === 'regression' ? (
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium text-red-700">Regression:</span>{' '}
+                    <span className="font-medium">{n.issue_title}</span>
+                  </p>
+                ) : n.type === 'alert' ? (
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium text-red-700">{n.actor_name || 'Alert'}:</span>{' '}
+                    <span className="font-medium">{n.issue_title || n.environment}</span>
+                  </p>
+                ) : n.type === 'snooze_woken' ? (
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium text-amber-700">Woke from snooze:</span>{' '}
+                    <span className="font-medium">{n.issue_title}</span>
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {n.actor_name || n.actor_email}
+                    </span>{' '}
+                    {n.type === 'mention'
+                      ? 'mentioned you in'
+                      : 'commented on'}{' '}
+                    <span className="font-medium">{n.issue_title}</span>
+                  </p>
+                )}
                 <p className="text-sm text-gray-500 mt-0.5 truncate">
                   {n.body_preview}
                 </p>
@@ -1,6 +1,29 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useApp, useUpdateOwners, useRotateKeys, useUpdateAppSchedules, useSendTestBrief } from '../../hooks/useApi';
+import {
+  useApp,
+  useAppHealth,
+  useUpdateOwners,
+  useRotateKeys,
+  useUpdateAppSchedules,
+  useSendTestBrief,
+  useUpdateAlertRules,
+  useAlertFirings,
+  useUpdateWebhooks,
+  useTestWebhook,
+  useWebhookDeliveries,
+} from '../../hooks/useApi';
+import type {
+  AlertChannel,
+  AlertRule,
+  AlertRuleType,
+  InstallationHealthStatus,
+  Severity,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookFormat,
+  WebhookSubscription,
+} from '../../types';
 
 type BriefFrequency = 'disabled' | 'daily' | 'only_on_issues' | 'instant';
 
@@ -17,6 +40,756 @@ interface EnvironmentConfig {
   ai_enabled?: boolean;
 }
 
+const HEALTH_STATUS_COLORS: Record<InstallationHealthStatus, string> = {
+  healthy: 'bg-green-100 text-green-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  silent: 'bg-red-100 text-red-800',
+};
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function InstallationHealth({ appId, environments }: { appId: string; environments: EnvironmentConfig[] }) {
+  const [environment, setEnvironment] = useState(
+    environments.find((e) => e.env_name === 'prod')?.env_name || environments[0]?.env_name || ''
+  );
+  const { data: health, isLoading, error } = useAppHealth(appId, environment);
+
+  return (
+    <div className="card">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Installation Health</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Ingestion metrics for the last 24 hours
+          </p>
+        </div>
+        <select
+          className="input w-auto"
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value)}
+        >
+          {environments.map((env) => (
+            <option key={env.env_name} value={env.env_name}>
+              {env.env_name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="px-4 py-5 sm:px-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">Failed to load health: {(error as Error).message}</p>
+        ) : health ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${HEALTH_STATUS_COLORS[health.status]}`}>
+                {health.status}
+              </span>
+              <span className="text-sm text-gray-500">
+                Last event:{' '}
+                {health.metrics.last_event_received
+                  ? new Date(health.metrics.last_event_received).toLocaleString()
+                  : 'never'}
+              </span>
+            </div>
+            {health.status_reasons.length > 0 && (
+              <ul className="text-sm text-gray-600 list-disc list-inside">
+                {health.status_reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <div>
+                <dt className="text-xs text-gray-500">Events (24h)</dt>
+                <dd className="text-lg font-semibold text-gray-900">{health.metrics.events_24h}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Rejected (24h)</dt>
+                <dd className="text-lg font-semibold text-gray-900">{health.metrics.rejected_24h}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Redacted (24h)</dt>
+                <dd className="text-lg font-semibold text-gray-900">{health.metrics.redacted_24h}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Open P0 / P1</dt>
+                <dd className="text-lg font-semibold text-gray-900">
+                  {health.issues.p0_open} / {health.issues.p1_open}
+                  <span className="text-sm font-normal text-gray-500"> of {health.issues.total_open}</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Missing version</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatPercent(health.metrics.missing_version_rate)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Missing trace ID</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatPercent(health.metrics.missing_trace_rate)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Rejected rate</dt>
+                <dd className="text-lg font-semibold text-gray-900">{formatPercent(health.metrics.rejected_rate)}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-gray-500">Silent after</dt>
+                <dd className="text-lg font-semibold text-gray-900">{health.thresholds.silent_after_hours}h</dd>
+              </div>
+            </dl>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-1">Last event by type</h3>
+                {Object.keys(health.metrics.last_event_by_type).length === 0 ? (
+                  <p className="text-sm text-gray-500">No events received</p>
+                ) : (
+                  <ul className="text-sm text-gray-600 space-y-0.5">
+                    {Object.entries(health.metrics.last_event_by_type).map(([type, at]) => (
+                      <li key={type}>
+                        <span className="font-mono">{type}</span>: {new Date(at).toLocaleString()}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-1">SDK versions</h3>
+                {health.metrics.sdk_versions.length === 0 ? (
+                  <p className="text-sm text-gray-500">None reported</p>
+                ) : (
+                  <ul className="text-sm text-gray-600 space-y-0.5">
+                    {health.metrics.sdk_versions.map((v) => (
+                      <li key={v.sdk}>
+                        <span className="font-mono">{v.sdk}</span> (last seen {new Date(v.last_seen_at).toLocaleDateString()})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+const ALERT_RULE_TYPES: Record<AlertRuleType, string> = {
+  new_issue: 'New issue at or above a severity',
+  occurrence_threshold: 'Issue occurrences above a threshold',
+  error_rate_spike: 'Error rate spike vs. baseline',
+  regression: 'Regression detected',
+  new_issue_route: 'New issue on a route',
+};
+
+interface AlertRuleForm {
+  name: string;
+  type: AlertRuleType;
+  severity_min: Severity;
+  threshold: string;
+  window_minutes: string;
+  spike_multiplier: string;
+  route_pattern: string;
+  environments: string;
+  cooldown_minutes: string;
+  channels: AlertChannel[];
+  recipients: string;
+}
+
+const EMPTY_ALERT_RULE_FORM: AlertRuleForm = {
+  name: '',
+  type: 'new_issue',
+  severity_min: 'P0',
+  threshold: '',
+  window_minutes: '60',
+  spike_multiplier: '3',
+  route_pattern: '',
+  environments: 'prod',
+  cooldown_minutes: '60',
+  channels: ['in_app', 'email'],
+  recipients: '',
+};
+
+function splitList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+function describeAlertRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'new_issue':
+      return `New ${rule.severity_min || 'P0'} or higher issue`;
+    case 'occurrence_threshold':
+      return `More than ${rule.threshold} occurrences in ${rule.window_minutes || 60} min`;
+    case 'error_rate_spike':
+      return `Errors at ${rule.spike_multiplier || 3}x the ${rule.baseline_hours || 24}h baseline over ${rule.window_minutes || 60} min`;
+    case 'regression':
+      return 'Resolved issue reappears';
+    case 'new_issue_route':
+      return `New issue on ${rule.route_pattern}`;
+  }
+}
+
+function AlertRules({ appId, rules, ownerEmails }: { appId: string; rules: AlertRule[]; ownerEmails: string[] }) {
+  const updateRules = useUpdateAlertRules(appId);
+  const { data: firings } = useAlertFirings(appId);
+  const [form, setForm] = useState<AlertRuleForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function saveRules(next: AlertRule[]) {
+    setError(null);
+    try {
+      await updateRules.mutateAsync(next);
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save alert rules');
+      return false;
+    }
+  }
+
+  async function handleAddRule() {
+    if (!form) return;
+    const rule: AlertRule = {
+      rule_id: crypto.randomUUID(),
+      name: form.name || ALERT_RULE_TYPES[form.type],
+      type: form.type,
+      enabled: true,
+      cooldown_minutes: Number(form.cooldown_minutes) || 0,
+      channels: form.channels,
+    };
+    const environments = splitList(form.environments);
+    if (environments.length) rule.environments = environments;
+    const recipients = splitList(form.recipients);
+    if (recipients.length) rule.recipients = recipients;
+    if (form.type === 'new_issue') rule.severity_min = form.severity_min;
+    if (form.type === 'occurrence_threshold' || form.type === 'error_rate_spike') {
+      if (form.threshold) rule.threshold = Number(form.threshold);
+      if (form.window_minutes) rule.window_minutes = Number(form.window_minutes);
+    }
+    if (form.type === 'error_rate_spike' && form.spike_multiplier) rule.spike_multiplier = Number(form.spike_multiplier);
+    if (form.type === 'new_issue_route') rule.route_pattern = form.route_pattern;
+
+    if (await saveRules([...rules, rule])) setForm(null);
+  }
+
+  function toggleChannel(channel: AlertChannel) {
+    if (!form) return;
+    setForm({
+      ...form,
+      channels: form.channels.includes(channel)
+        ? form.channels.filter((c) => c !== channel)
+        : [...form.channels, channel],
+    });
+  }
+
+  return (
+    <div className="card">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Alert Rules</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Real-time notifications while events are ingested. Recipients default to the owners
+            {ownerEmails.length > 0 && <> ({ownerEmails.join(', ')})</>}.
+          </p>
+        </div>
+        {!form && (
+          <button onClick={() => setForm(EMPTY_ALERT_RULE_FORM)} className="btn-secondary">
+            Add Rule
+          </button>
+        )}
+      </div>
+      <div className="divide-y divide-gray-200">
+        {rules.length === 0 && !form && (
+          <div className="px-4 py-5 sm:px-6 text-sm text-gray-500">No alert rules configured</div>
+        )}
+        {rules.map((rule) => (
+          <div key={rule.rule_id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">{rule.name}</h3>
+              <p className="text-sm text-gray-500">
+                {describeAlertRule(rule)} | {rule.environments?.length ? rule.environments.join(', ') : 'all environments'}
+                {' '}| cooldown {rule.cooldown_minutes} min | {rule.channels.join(' + ')}
+                {rule.recipients?.length ? <> | {rule.recipients.join(', ')}</> : null}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() =>
+                  saveRules(rules.map((r) => (r.rule_id === rule.rule_id ? { ...r, enabled: !r.enabled } : r)))
+                }
+                className={rule.enabled ? 'btn-secondary' : 'btn-ghost'}
+                disabled={updateRules.isPending}
+              >
+                {rule.enabled ? 'Enabled' : 'Disabled'}
+              </button>
+              <button
+                onClick={() => saveRules(rules.filter((r) => r.rule_id !== rule.rule_id))}
+                className="btn-ghost text-red-600"
+                disabled={updateRules.isPending}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+        {form && (
+          <div className="px-4 py-5 sm:px-6 space-y-3">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="block text-sm text-gray-700">
+                Name
+                <input
+                  className="input w-full mt-1"
+                  placeholder={ALERT_RULE_TYPES[form.type]}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Fires on
+                <select
+                  className="input w-full mt-1"
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as AlertRuleType })}
+                >
+                  {Object.entries(ALERT_RULE_TYPES).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {form.type === 'new_issue' && (
+                <label className="block text-sm text-gray-700">
+                  Minimum severity
+                  <select
+                    className="input w-full mt-1"
+                    value={form.severity_min}
+                    onChange={(e) => setForm({ ...form, severity_min: e.target.value as Severity })}
+                  >
+                    {(['P0', 'P1', 'P2', 'P3'] as Severity[]).map((severity) => (
+                      <option key={severity} value={severity}>
+                        {severity}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {(form.type === 'occurrence_threshold' || form.type === 'error_rate_spike') && (
+                <>
+                  <label className="block text-sm text-gray-700">
+                    {form.type === 'occurrence_threshold' ? 'Occurrences above' : 'Minimum errors in window'}
+                    <input
+                      type="number"
+                      min={1}
+                      className="input w-full mt-1"
+                      placeholder={form.type === 'error_rate_spike' ? '10' : undefined}
+                      value={form.threshold}
+                      onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Window (minutes)
+                    <input
+                      type="number"
+                      min={1}
+                      max={1440}
+                      className="input w-full mt-1"
+                      value={form.window_minutes}
+                      onChange={(e) => setForm({ ...form, window_minutes: e.target.value })}
+                    />
+                  </label>
+                </>
+              )}
+              {form.type === 'error_rate_spike' && (
+                <label className="block text-sm text-gray-700">
+                  Times the 24h baseline rate
+                  <input
+                    type="number"
+                    min={1}
+                    step="0.5"
+                    className="input w-full mt-1"
+                    value={form.spike_multiplier}
+                    onChange={(e) => setForm({ ...form, spike_multiplier: e.target.value })}
+                  />
+                </label>
+              )}
+              {form.type === 'new_issue_route' && (
+                <label className="block text-sm text-gray-700">
+                  Route pattern
+                  <input
+                    className="input w-full mt-1"
+                    placeholder="/checkout/*"
+                    value={form.route_pattern}
+                    onChange={(e) => setForm({ ...form, route_pattern: e.target.value })}
+                  />
+                </label>
+              )}
+              <label className="block text-sm text-gray-700">
+                Environments (comma-separated, empty for all)
+                <input
+                  className="input w-full mt-1"
+                  value={form.environments}
+                  onChange={(e) => setForm({ ...form, environments: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Cooldown (minutes)
+                <input
+                  type="number"
+                  min={0}
+                  className="input w-full mt-1"
+                  value={form.cooldown_minutes}
+                  onChange={(e) => setForm({ ...form, cooldown_minutes: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Recipients (comma-separated, empty for owners)
+                <input
+                  className="input w-full mt-1"
+                  value={form.recipients}
+                  onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                />
+              </label>
+            </div>
+            <div className="flex items-center space-x-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes('in_app')}
+                  onChange={() => toggleChannel('in_app')}
+                />
+                In-app
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.channels.includes('email')}
+                  onChange={() => toggleChannel('email')}
+                />
+                Email
+              </label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleAddRule}
+                className="btn-primary"
+                disabled={updateRules.isPending || form.channels.length === 0}
+              >
+                {updateRules.isPending ? 'Saving...' : 'Save Rule'}
+              </button>
+              <button onClick={() => setForm(null)} className="btn-ghost">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        {error && (
+          <div className="px-4 py-3 sm:px-6 text-sm text-red-700 bg-red-50">{error}</div>
+        )}
+        {firings && firings.length > 0 && (
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Recent firings</h3>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {firings.map((firing) => (
+                <li key={firing.firing_id}>
+                  <span className="text-gray-400">{new Date(firing.fired_at).toLocaleString()}</span>{' '}
+                  <span className="font-medium text-gray-900">{firing.rule_name}</span> ({firing.environment}):{' '}
+                  {firing.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const WEBHOOK_EVENTS: Record<WebhookEventType, string> = {
+  'issue.created': 'Issue created',
+  'issue.status_changed': 'Status changed',
+  'issue.severity_changed': 'Severity changed',
+  'issue.comment_added': 'Comment added',
+  'issue.ai_analysis_ready': 'AI analysis ready',
+  'brief.sent': 'Daily brief sent',
+};
+
+const WEBHOOK_FORMATS: Record<WebhookFormat, string> = {
+  json: 'JSON (signed)',
+  slack: 'Slack incoming webhook',
+  teams: 'Microsoft Teams incoming webhook',
+};
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  delivered: 'text-green-700',
+  pending: 'text-yellow-700',
+  failed: 'text-red-700',
+};
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[];
+  environments: string;
+  secret_env: string;
+}
+
+const EMPTY_WEBHOOK_FORM: WebhookForm = {
+  name: '',
+  url: '',
+  format: 'json',
+  events: ['issue.created', 'issue.status_changed'],
+  environments: 'prod',
+  secret_env: '',
+};
+
+function describeDelivery(delivery: WebhookDelivery): string {
+  if (delivery.status === 'delivered') return `delivered (HTTP ${delivery.response_status})`;
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`;
+  if (delivery.status === 'pending') {
+    return delivery.next_attempt_at
+      ? `retrying at ${new Date(delivery.next_attempt_at).toLocaleTimeString()} after ${attempts}`
+      : 'sending';
+  }
+  return `failed after ${attempts}: ${delivery.error}`;
+}
+
+function Webhooks({ appId, subscriptions }: { appId: string; subscriptions: WebhookSubscription[] }) {
+  const updateWebhooks = useUpdateWebhooks(appId);
+  const testWebhook = useTestWebhook(appId);
+  const { data: deliveries } = useWebhookDeliveries(appId);
+  const [form, setForm] = useState<WebhookForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<{ subscriptionId: string; delivery: WebhookDelivery } | null>(null);
+
+  const names = new Map(subscriptions.map((s) => [s.subscription_id, s.name]));
+
+  async function saveSubscriptions(next: WebhookSubscription[]) {
+    setError(null);
+    try {
+      await updateWebhooks.mutateAsync(next);
+      return true;
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhooks');
+      return false;
+    }
+  }
+
+  async function handleAdd() {
+    if (!form) return;
+    const subscription: WebhookSubscription = {
+      subscription_id: crypto.randomUUID(),
+      name: form.name || WEBHOOK_FORMATS[form.format],
+      url: form.url.trim(),
+      format: form.format,
+      events: form.events,
+      enabled: true,
+    };
+    const environments = splitList(form.environments);
+    if (environments.length) subscription.environments = environments;
+    if (form.format === 'json' && form.secret_env.trim()) subscription.secret_env = form.secret_env.trim();
+
+    if (await saveSubscriptions([...subscriptions, subscription])) setForm(null);
+  }
+
+  async function handleTest(subscriptionId: string) {
+    setError(null);
+    setTestResult(null);
+    try {
+      const delivery = await testWebhook.mutateAsync(subscriptionId);
+      setTestResult({ subscriptionId, delivery });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to send test');
+    }
+  }
+
+  function toggleEvent(event: WebhookEventType) {
+    if (!form) return;
+    setForm({
+      ...form,
+      events: form.events.includes(event) ? form.events.filter((e) => e !== event) : [...form.events, event],
+    });
+  }
+
+  return (
+    <div className="card">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Webhooks</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Send issue and brief events to your own endpoint, Slack or Microsoft Teams. Failed deliveries are
+            retried with backoff for about 15 hours.
+          </p>
+        </div>
+        {!form && (
+          <button onClick={() => setForm(EMPTY_WEBHOOK_FORM)} className="btn-secondary">
+            Add Webhook
+          </button>
+        )}
+      </div>
+      <div className="divide-y divide-gray-200">
+        {subscriptions.length === 0 && !form && (
+          <div className="px-4 py-5 sm:px-6 text-sm text-gray-500">No webhooks configured</div>
+        )}
+        {subscriptions.map((subscription) => (
+          <div key={subscription.subscription_id} className="px-4 py-4 sm:px-6">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <h3 className="text-sm font-medium text-gray-900">{subscription.name}</h3>
+                <p className="text-sm text-gray-500 truncate">
+                  {WEBHOOK_FORMATS[subscription.format]} | {subscription.url}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {subscription.events.map((e) => WEBHOOK_EVENTS[e]).join(', ')} |{' '}
+                  {subscription.environments?.length ? subscription.environments.join(', ') : 'all environments'}
+                  {subscription.secret_env && <> | signed with {subscription.secret_env}</>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleTest(subscription.subscription_id)}
+                  className="btn-ghost"
+                  disabled={testWebhook.isPending}
+                >
+                  Send test
+                </button>
+                <button
+                  onClick={() =>
+                    saveSubscriptions(
+                      subscriptions.map((s) =>
+                        s.subscription_id === subscription.subscription_id ? { ...s, enabled: !s.enabled } : s
+                      )
+                    )
+                  }
+                  className={subscription.enabled ? 'btn-secondary' : 'btn-ghost'}
+                  disabled={updateWebhooks.isPending}
+                >
+                  {subscription.enabled ? 'Enabled' : 'Disabled'}
+                </button>
+                <button
+                  onClick={() =>
+                    saveSubscriptions(subscriptions.filter((s) => s.subscription_id !== subscription.subscription_id))
+                  }
+                  className="btn-ghost text-red-600"
+                  disabled={updateWebhooks.isPending}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            {testResult?.subscriptionId === subscription.subscription_id && (
+              <p className={`mt-2 text-sm ${DELIVERY_STATUS_COLORS[testResult.delivery.status]}`}>
+                Test {describeDelivery(testResult.delivery)}
+              </p>
+            )}
+          </div>
+        ))}
+        {form && (
+          <div className="px-4 py-5 sm:px-6 space-y-3">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="block text-sm text-gray-700">
+                Name
+                <input
+                  className="input w-full mt-1"
+                  placeholder={WEBHOOK_FORMATS[form.format]}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Format
+                <select
+                  className="input w-full mt-1"
+                  value={form.format}
+                  onChange={(e) => setForm({ ...form, format: e.target.value as WebhookFormat })}
+                >
+                  {Object.entries(WEBHOOK_FORMATS).map(([format, label]) => (
+                    <option key={format} value={format}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-700 sm:col-span-2">
+                URL
+                <input
+                  className="input w-full mt-1"
+                  placeholder="https://"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Environments (comma-separated, empty for all)
+                <input
+                  className="input w-full mt-1"
+                  value={form.environments}
+                  onChange={(e) => setForm({ ...form, environments: e.target.value })}
+                />
+              </label>
+              {form.format === 'json' && (
+                <label className="block text-sm text-gray-700">
+                  Signing secret env var (optional)
+                  <input
+                    className="input w-full mt-1"
+                    placeholder="ACME_WEBHOOK_SECRET"
+                    value={form.secret_env}
+                    onChange={(e) => setForm({ ...form, secret_env: e.target.value })}
+                  />
+                </label>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+              {(Object.keys(WEBHOOK_EVENTS) as WebhookEventType[]).map((event) => (
+                <label key={event} className="flex items-center gap-2">
+                  <input type="checkbox" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                  {WEBHOOK_EVENTS[event]}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleAdd}
+                className="btn-primary"
+                disabled={updateWebhooks.isPending || !form.url || form.events.length === 0}
+              >
+                {updateWebhooks.isPending ? 'Saving...' : 'Save Webhook'}
+              </button>
+              <button onClick={() => setForm(null)} className="btn-ghost">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        {error && (
+          <div className="px-4 py-3 sm:px-6 text-sm text-red-700 bg-red-50">{error}</div>
+        )}
+        {deliveries && deliveries.length > 0 && (
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Recent deliveries</h3>
+            <ul className="space-y-1 text-sm text-gray-600">
+              {deliveries.map((delivery) => (
+                <li key={delivery.delivery_id}>
+                  <span className="text-gray-400">{new Date(delivery.created_at).toLocaleString()}</span>{' '}
+                  <span className="font-medium text-gray-900">
+                    {names.get(delivery.subscription_id) || delivery.subscription_id}
+                  </span>{' '}
+                  {delivery.event_type}:{' '}
+                  <span className={DELIVERY_STATUS_COLORS[delivery.status]}>{describeDelivery(delivery)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export default function AppDetailPage() {
   const { appId } = useParams<{ appId: string }>();
   const navigate = useNavigate();
@@ -508,6 +1281,17 @@ ${stageKey ? `\`\`\`html
         </div>
       </div>
 
+      {/* Installation Health Section */}
+      {environments.length > 0 && (
+        <InstallationHealth appId={app.app_id} environments={environments} />
+      )}
+
+      {/* Alert Rules Section */}
+      <AlertRules appId={app.app_id} rules={app.alert_rules || []} ownerEmails={ownerEmails} />
+
+      {/* Webhooks Section */}
+      <Webhooks appId={app.app_id} subscriptions={app.webhooks || []} />
+
       {/* Owners Section */}
       <div className="card">
         <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
@@ -0,0 +1,289 @@
+import { Fragment, useState } from 'react';
+import { useAuditLogs, useApps, downloadAuditLogExport } from '../../hooks/useApi';
+import type { AuditLogFilters, AuditLogExportFormat } from '../../types';
+
+const TARGET_TYPES = ['app', 'issue', 'event', 'attachment', 'user'];
+
+interface FilterForm {
+  actor_id: string;
+  action: string;
+  target_type: string;
+  target_id: string;
+  app_id: string;
+  after: string;
+  before: string;
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  actor_id: '',
+  action: '',
+  target_type: '',
+  target_id: '',
+  app_id: '',
+  after: '',
+  before: '',
+};
+
+/**
+ * Convert the filter form to API filters (date inputs become ISO timestamps)
+ */
+function toApiFilters(form: FilterForm): AuditLogFilters {
+  return {
+    actor_id: form.actor_id.trim() || undefined,
+    action: form.action.trim() || undefined,
+    target_type: form.target_type || undefined,
+    target_id: form.target_id.trim() || undefined,
+    app_id: form.app_id || undefined,
+    after: form.after ? new Date(`${form.after}T00:00:00`).toISOString() : undefined,
+    before: form.before ? new Date(`${form.before}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export default function AuditLogsPage() {
+  const { data: apps } = useApps();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<AuditLogExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useAuditLogs(filters);
+  const logs = data?.pages.flatMap((page) => page.data) ?? [];
+
+  function handleApplyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    setFilters(toApiFilters(form));
+  }
+
+  function handleResetFilters() {
+    setForm(EMPTY_FILTERS);
+    setFilters({});
+  }
+
+  async function handleExport(format: AuditLogExportFormat) {
+    setExporting(format);
+    setExportError(null);
+    try {
+      await downloadAuditLogExport(filters, format);
+    } catch (err) {
+      setExportError((err as Error).message);
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Logs</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            Review who did what, when, across BritePulse
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={exporting !== null}
+            className="btn-secondary"
+          >
+            {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+          </button>
+          <button
+            onClick={() => handleExport('ndjson')}
+            disabled={exporting !== null}
+            className="btn-secondary"
+          >
+            {exporting === 'ndjson' ? 'Exporting...' : 'Export NDJSON'}
+          </button>
+        </div>
+      </div>
+
+      {exportError && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">
+          Export failed: {exportError}
+        </div>
+      )}
+
+      {/* Filters */}
+      <form onSubmit={handleApplyFilters} className="card p-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div>
+            <label className="label">Actor</label>
+            <input
+              className="input mt-1"
+              placeholder="User ID or email"
+              value={form.actor_id}
+              onChange={(e) => setForm((p) => ({ ...p, actor_id: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="label">Action</label>
+            <input
+              className="input mt-1"
+              placeholder="e.g. change_status"
+              value={form.action}
+              onChange={(e) => setForm((p) => ({ ...p, action: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="label">Target Type</label>
+            <select
+              className="input mt-1"
+              value={form.target_type}
+              onChange={(e) => setForm((p) => ({ ...p, target_type: e.target.value }))}
+            >
+              <option value="">All</option>
+              {TARGET_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">Target ID</label>
+            <input
+              className="input mt-1"
+              value={form.target_id}
+              onChange={(e) => setForm((p) => ({ ...p, target_id: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="label">App</label>
+            <select
+              className="input mt-1"
+              value={form.app_id}
+              onChange={(e) => setForm((p) => ({ ...p, app_id: e.target.value }))}
+            >
+              <option value="">All Apps</option>
+              {apps?.map((app) => (
+                <option key={app.app_id} value={app.app_id}>
+                  {app.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">From</label>
+            <input
+              type="date"
+              className="input mt-1"
+              value={form.after}
+              onChange={(e) => setForm((p) => ({ ...p, after: e.target.value }))}
+            />
+          </div>
+          <div>
+            <label className="label">To</label>
+            <input
+              type="date"
+              className="input mt-1"
+              value={form.before}
+              onChange={(e) => setForm((p) => ({ ...p, before: e.target.value }))}
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <button type="submit" className="btn-primary">
+              Apply
+            </button>
+            <button type="button" onClick={handleResetFilters} className="btn-ghost">
+              Reset
+            </button>
+          </div>
+        </div>
+      </form>
+
+      <div className="card overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">
+            Failed to load audit logs: {(error as Error).message}
+          </div>
+        ) : logs.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No audit logs match these filters.
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actor
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Target
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  App
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {logs.map((log) => (
+                <Fragment key={log.audit_id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === log.audit_id ? null : log.audit_id)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(log.timestamp).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="text-gray-900">{log.actor_id}</div>
+                      <div className="text-xs text-gray-500">{log.actor_role}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {log.action}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded text-xs mr-2">
+                        {log.target_type}
+                      </span>
+                      <span className="font-mono text-xs">{log.target_id}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {log.app_id
+                        ? apps?.find((a) => a.app_id === log.app_id)?.name || log.app_id
+                        : '-'}
+                    </td>
+                  </tr>
+                  {expandedId === log.audit_id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4">
+                        <pre className="text-xs text-gray-700 whitespace-pre-wrap break-all">
+                          {JSON.stringify(log.metadata, null, 2)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="btn-secondary"
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,35 @@
 import { useState, useRef, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import {
   useIssue,
   useIssueEvents,
   useUpdateIssueStatus,
   useUpdateIssueSeverity,
   useAssignIssue,
+  useCreateTicket,
   useUsers,
   useIssueComments,
   useAddComment,
   useAttachmentUrl,
   useUploadCommentImage,
+  useSplitEvent,
+  useSimilarIssues,
+  useMergeIssues,
+  useTriageIssue,
 } from '../../hooks/useApi';
 import { useAuth } from '../../contexts/AuthContext';
-import type { IssueStatus, IssueType, Severity } from '../../types';
+import type {
+  AIAnalysis,
+  AnalysisValidation,
+  Breadcrumb,
+  BreadcrumbCategory,
+  FeedbackAnalysis,
+  IssueAIJob,
+  IssueStatus,
+  IssueType,
+  Severity,
+  SnoozeCondition,
+} from '../../types';
 
 // Allowed status transitions - mirrors @britepulse/shared ALLOWED_STATUS_TRANSITIONS
 const ALLOWED_STATUS_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
@@ -75,6 +91,315 @@ function AttachmentThumbnail({ attachmentId }: { attachmentId: string }) {
   );
 }
 
+const BREADCRUMB_COLORS: Record<BreadcrumbCategory, string> = {
+  navigation: 'bg-blue-100 text-blue-800',
+  click: 'bg-green-100 text-green-800',
+  console: 'bg-yellow-100 text-yellow-800',
+  fetch: 'bg-purple-100 text-purple-800',
+  xhr: 'bg-purple-100 text-purple-800',
+};
+
+// What happened before an event, oldest first, with time relative to the event
+function BreadcrumbTimeline({ breadcrumbs, eventTimestamp }: { breadcrumbs: Breadcrumb[]; eventTimestamp: string }) {
+  const eventTime = new Date(eventTimestamp).getTime();
+
+  return (
+    <details className="mt-3 pt-3 border-t border-gray-100">
+      <summary className="text-xs font-medium text-gray-500 cursor-pointer">
+        Breadcrumbs ({breadcrumbs.length})
+      </summary>
+      <ol className="mt-2 space-y-1">
+        {breadcrumbs.map((crumb, i) => {
+          const offsetMs = new Date(crumb.timestamp).getTime() - eventTime;
+          return (
+            <li key={i} className="flex items-start space-x-2 text-xs">
+              <span className="w-14 shrink-0 text-right font-mono text-gray-400">
+                {isNaN(offsetMs) ? '?' : `${(offsetMs / 1000).toFixed(1)}s`}
+              </span>
+              <span className={`badge shrink-0 ${BREADCRUMB_COLORS[crumb.category] || 'bg-gray-100 text-gray-800'}`}>
+                {crumb.category}
+              </span>
+              <span
+                className={`font-mono break-all ${
+                  crumb.level === 'error' ? 'text-red-700' : crumb.level === 'warning' ? 'text-yellow-700' : 'text-gray-700'
+                }`}
+              >
+                {crumb.message}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
+
+const URGENCY_COLORS: Record<FeedbackAnalysis['urgency'], string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-800',
+};
+
+const humanize = (value: string) => value.replace(/_/g, ' ');
+
+// Why the latest triage job hasn't produced an analysis, if it hasn't
+function describeAIJob(job: IssueAIJob): string | null {
+  switch (job.status) {
+    case 'queued':
+      if (job.deferred_reason) return `Queued until tomorrow: ${job.deferred_reason}`;
+      if (job.error) return `Queued for retry after an error: ${job.error}`;
+      return 'Queued';
+    case 'failed':
+      return `Last run failed: ${job.error || 'unknown error'}`;
+    case 'skipped':
+      return `Last run skipped: ${job.skipped_reason}`;
+    default:
+      return null;
+  }
+}
+
+// Repairs and rule failures behind a stored analysis, collapsed by default
+function AnalysisValidationNote({ validation }: { validation?: AnalysisValidation }) {
+  if (!validation || (validation.warnings.length === 0 && validation.attempts < 2)) return null;
+
+  return (
+    <details className="rounded bg-yellow-50 px-3 py-2 text-xs text-yellow-800">
+      <summary className="cursor-pointer">
+        {validation.status === 'repaired' ? 'Model output was repaired' : 'Validation warnings'}
+        {validation.attempts > 1 && ' · model was asked twice'}
+        {validation.warnings.length > 0 && ` · ${validation.warnings.length} warnings`}
+      </summary>
+      {validation.warnings.length > 0 && (
+        <ul className="mt-1 list-disc pl-4">
+          {validation.warnings.map((warning, i) => (
+            <li key={i}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
+
+// AI triage of a bug: impact, likely cause, fix options and the evidence behind them.
+// Sections the model left empty are skipped rather than shown blank
+function AIAnalysisCard({
+  analysis,
+  job,
+  canRun,
+  requesting,
+  onRun,
+}: {
+  analysis?: AIAnalysis;
+  job?: IssueAIJob;
+  canRun: boolean;
+  requesting: boolean;
+  onRun: () => void;
+}) {
+  const running = requesting || job?.status === 'queued' || job?.status === 'running';
+  const jobNote = job ? describeAIJob(job) : null;
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">AI triage</h3>
+        {canRun && (
+          <button onClick={onRun} disabled={running} className="btn-secondary text-xs">
+            {running ? 'Triaging...' : analysis ? 'Re-run' : 'Run triage'}
+          </button>
+        )}
+      </div>
+
+      {jobNote && <p className="mt-1 text-xs text-gray-500">{jobNote}</p>}
+
+      {!analysis ? (
+        <p className="mt-2 text-sm text-gray-500">No analysis yet.</p>
+      ) : (
+        <div className="mt-2 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`badge-${analysis.severity.toLowerCase()}`}>{analysis.severity}</span>
+            <span className="badge bg-primary-100 text-primary-800">{analysis.classification}</span>
+            <span className="text-xs text-gray-500">
+              {Math.round(analysis.confidence * 100)}% confidence · {formatDate(analysis.generated_at)}
+            </span>
+          </div>
+
+          <AnalysisValidationNote validation={analysis.validation} />
+
+          {analysis.impact_summary && <p className="text-gray-900">{analysis.impact_summary}</p>}
+          {analysis.severity_rationale && <p className="text-gray-600">{analysis.severity_rationale}</p>}
+
+          {analysis.root_cause_hypothesis && (
+            <div>
+              <p className="font-medium text-gray-900">Likely root cause</p>
+              <p className="text-gray-600">{analysis.root_cause_hypothesis}</p>
+            </div>
+          )}
+
+          <div>
+            <p className="font-medium text-gray-900">
+              Next action: <span className="capitalize">{humanize(analysis.next_action)}</span>
+            </p>
+            {analysis.next_action_rationale && <p className="text-gray-600">{analysis.next_action_rationale}</p>}
+          </div>
+
+          {analysis.fix_plan?.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900">Fix options</p>
+              <ol className="mt-1 space-y-1">
+                {analysis.fix_plan.map((fix) => (
+                  <li key={fix.option_number} className="text-gray-600">
+                    {fix.option_number}. {fix.description}{' '}
+                    <span className="text-gray-500">({fix.complexity} complexity)</span>
+                    {fix.files_likely_touched?.length > 0 && (
+                      <span className="block font-mono text-xs text-gray-500">
+                        {fix.files_likely_touched.join(', ')}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {analysis.test_plan?.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900">Test plan</p>
+              <ul className="mt-1 space-y-1">
+                {analysis.test_plan.map((test, i) => (
+                  <li key={i} className="text-gray-600">
+                    <span className="badge bg-gray-100 text-gray-800">{test.test_type}</span>{' '}
+                    {test.description} <span className="text-gray-500">({test.priority})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {analysis.evidence_refs?.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900">Evidence</p>
+              <ul className="mt-1 space-y-1">
+                {analysis.evidence_refs.map((ref, i) => (
+                  <li key={i} className="text-gray-600">
+                    <span className="badge bg-gray-100 text-gray-800">{humanize(ref.type)}</span>
+                    {ref.ref_id && <span className="ml-1 font-mono text-xs text-gray-500">{ref.ref_id}</span>}{' '}
+                    {ref.relevance}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {analysis.additional_info_needed && analysis.additional_info_needed.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900">Information needed</p>
+              <ul className="mt-1 list-disc pl-5 text-gray-600">
+                {analysis.additional_info_needed.map((info, i) => (
+                  <li key={i}>{info}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// AI read of a feedback or feature-request issue: the need behind it, who asked, and what to do next
+function FeedbackAnalysisCard({
+  analysis,
+  job,
+  canRun,
+  requesting,
+  onRun,
+}: {
+  analysis?: FeedbackAnalysis;
+  job?: IssueAIJob;
+  canRun: boolean;
+  requesting: boolean;
+  onRun: () => void;
+}) {
+  const running = requesting || job?.status === 'queued' || job?.status === 'running';
+  const jobNote = job ? describeAIJob(job) : null;
+
+  return (
+    <div className="card p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Feedback analysis</h3>
+        {canRun && (
+          <button onClick={onRun} disabled={running} className="btn-secondary text-xs">
+            {running ? 'Analyzing...' : analysis ? 'Re-run' : 'Analyze feedback'}
+          </button>
+        )}
+      </div>
+
+      {jobNote && <p className="mt-1 text-xs text-gray-500">{jobNote}</p>}
+
+      {!analysis ? (
+        <p className="mt-2 text-sm text-gray-500">No analysis yet.</p>
+      ) : (
+        <div className="mt-2 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="badge bg-primary-100 text-primary-800">{humanize(analysis.request_type)}</span>
+            <span className={`badge ${URGENCY_COLORS[analysis.urgency] || 'bg-gray-100 text-gray-800'}`}>
+              {analysis.urgency} urgency
+            </span>
+            <span className="badge bg-gray-100 text-gray-800">{analysis.sentiment}</span>
+            <span className="text-xs text-gray-500">
+              {Math.round(analysis.confidence * 100)}% confidence · {formatDate(analysis.generated_at)}
+            </span>
+          </div>
+
+          <AnalysisValidationNote validation={analysis.validation} />
+
+          <p className="text-gray-900">{analysis.user_need_summary}</p>
+          <p className="text-gray-600">{analysis.urgency_rationale}</p>
+
+          <div>
+            <p className="font-medium text-gray-900">
+              Next action: <span className="capitalize">{humanize(analysis.product_next_action)}</span>
+            </p>
+            <p className="text-gray-600">{analysis.next_action_rationale}</p>
+          </div>
+
+          <div>
+            <p className="font-medium text-gray-900">Who is asking</p>
+            <p className="text-gray-600">{analysis.segment_summary}</p>
+            {analysis.affected_segments.length > 0 && (
+              <ul className="mt-1 flex flex-wrap gap-2">
+                {analysis.affected_segments.map((segment) => (
+                  <li key={segment.role} className="badge bg-gray-100 text-gray-800">
+                    {segment.role}: {segment.reports} reports ({Math.round(segment.share * 100)}%)
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {analysis.related_issues.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-900">Related issues</p>
+              <ul className="mt-1 space-y-1">
+                {analysis.related_issues.map((related) => (
+                  <li key={related.issue_id}>
+                    <Link to={`/issues/${related.issue_id}`} className="text-primary-600 hover:underline">
+                      {related.title}
+                    </Link>
+                    <span className="ml-2 text-gray-500">
+                      {humanize(related.relation)} · {related.rationale}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function IssueDetailPage() {
   const { issueId } = useParams<{ issueId: string }>();
   const navigate = useNavigate();
@@ -84,16 +409,24 @@ export default function IssueDetailPage() {
   const updateStatus = useUpdateIssueStatus(issueId!);
   const updateSeverity = useUpdateIssueSeverity(issueId!);
   const assignIssue = useAssignIssue(issueId!);
+  const createTicket = useCreateTicket(issueId!);
   const { data: users } = useUsers();
   const { data: comments, isLoading: commentsLoading } = useIssueComments(issueId!);
   const addComment = useAddComment(issueId!);
   const uploadImage = useUploadCommentImage(issueId!);
+  const splitEvent = useSplitEvent(issueId!);
+  const { data: similarIssues } = useSimilarIssues(issueId!);
+  const mergeIssues = useMergeIssues();
+  const triageIssue = useTriageIssue(issueId!);
 
   const [activeTab, setActiveTab] = useState<'timeline' | 'events' | 'comments'>('timeline');
   const [commentText, setCommentText] = useState('');
   const [resolutionModal, setResolutionModal] = useState<{ status: IssueStatus } | null>(null);
   const [resolutionNote, setResolutionNote] = useState('');
   const [resolutionError, setResolutionError] = useState<string | null>(null);
+  const [snoozeModal, setSnoozeModal] = useState(false);
+  const [snoozeForm, setSnoozeForm] = useState({ until: '', occurrences: '', users: '', newVersion: false });
+  const [snoozeError, setSnoozeError] = useState<string | null>(null);
   const [pendingAttachments, setPendingAttachments] = useState<Array<{ id: string; url: string; filename: string }>>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -234,6 +567,12 @@ export default function IssueDetailPage() {
       setResolutionError(null);
       return;
     }
+    if (status === 'snoozed') {
+      setSnoozeModal(true);
+      setSnoozeForm({ until: '', occurrences: '', users: '', newVersion: false });
+      setSnoozeError(null);
+      return;
+    }
     try {
       await updateStatus.mutateAsync({ status });
     } catch (err: unknown) {
@@ -258,6 +597,27 @@ export default function IssueDetailPage() {
     }
   }
 
+  async function handleSnoozeSubmit() {
+    const snooze: SnoozeCondition = {};
+    if (snoozeForm.until) snooze.until = new Date(snoozeForm.until).toISOString();
+    if (snoozeForm.occurrences) snooze.occurrences_24h_above = Number(snoozeForm.occurrences);
+    if (snoozeForm.users) snooze.unique_users_24h_above = Number(snoozeForm.users);
+    if (snoozeForm.newVersion) snooze.new_version = true;
+
+    setSnoozeError(null);
+    try {
+      await updateStatus.mutateAsync({
+        status: 'snoozed',
+        // Without a condition the issue stays snoozed until someone changes it
+        ...(Object.keys(snooze).length > 0 && { snooze }),
+      });
+      setSnoozeModal(false);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : 'Failed to snooze issue';
+      setSnoozeError(message);
+    }
+  }
+
   async function handleSeverityChange(severity: Severity) {
     await updateSeverity.mutateAsync({ severity });
   }
@@ -374,8 +734,41 @@ export default function IssueDetailPage() {
               <span className={`badge-${issue.status}`}>
                 {issue.status.replace('_', ' ')}
               </span>
+              {issue.regression && issue.status !== 'resolved' && issue.status !== 'wont_fix' && (
+                <span className="badge bg-red-600 text-white">regression</span>
+              )}
               <h1 className="text-2xl font-bold text-gray-900">{issue.title}</h1>
             </div>
+            {issue.regression && (
+              <div className="mt-2 rounded bg-red-50 px-3 py-2 text-sm text-red-800">
+                Reappeared in <span className="font-mono">{issue.regression.version}</span>
+                {issue.regression.resolved_version && (
+                  <> (last seen in <span className="font-mono">{issue.regression.resolved_version}</span> before it was resolved)</>
+                )}
+                {issue.regression.resolved_by && <>, resolved by {issue.regression.resolved_by},</>}
+                {' '}on {formatDate(issue.regression.detected_at)}
+                {issue.regression.previous_severity !== issue.severity && (
+                  <>; severity raised from {issue.regression.previous_severity}</>
+                )}
+                {issue.regression.count > 1 && <>. Regressed {issue.regression.count} times.</>}
+              </div>
+            )}
+            {issue.status === 'snoozed' && issue.snooze && (
+              <div className="mt-2 rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                Snoozed by {issue.snooze.snoozed_by} on {formatDate(issue.snooze.snoozed_at)}. Wakes up{' '}
+                {[
+                  issue.snooze.until && `on ${formatDate(issue.snooze.until)}`,
+                  issue.snooze.occurrences_24h_above !== undefined &&
+                    `above ${issue.snooze.occurrences_24h_above} occurrences in 24h`,
+                  issue.snooze.unique_users_24h_above !== undefined &&
+                    `above ${issue.snooze.unique_users_24h_above} users in 24h`,
+                  issue.snooze.new_version && 'when seen in a new version',
+                ]
+                  .filter(Boolean)
+                  .join(', or ')}
+                .
+              </div>
+            )}
             <p className="mt-2 text-gray-600 whitespace-pre-wrap">{issue.description}</p>
             <div className="mt-2 text-sm text-gray-500">
               {issue.app_id} / {issue.environment} | First seen:{' '}
@@ -387,17 +780,46 @@ export default function IssueDetailPage() {
             <div className="mt-1 text-sm text-gray-500">
               Assigned to: {issue.routing?.assigned_to || 'Unassigned'}
             </div>
+            {issue.external_ticket && (
+              <div className="mt-1 text-sm text-gray-500">
+                Ticket:{' '}
+                <a
+                  href={issue.external_ticket.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary-600 hover:text-primary-800"
+                >
+                  {issue.external_ticket.key}
+                </a>
+              </div>
+            )}
+            {createTicket.error && (
+              <div className="mt-1 text-sm text-red-600">
+                {(createTicket.error as Error).message}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {!issue.external_ticket && (
+              <button
+                onClick={() => createTicket.mutate({})}
+                disabled={createTicket.isPending}
+                className="btn-secondary"
+              >
+                {createTicket.isPending ? 'Creating...' : 'Create Ticket'}
+              </button>
+            )}
+            <button
+              onClick={handleDownloadContext}
+              className="btn-primary flex items-center gap-2"
+              title="Download a context file to give to your AI coding agent"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Download for AI Agent
+            </button>
           </div>
-          <button
-            onClick={handleDownloadContext}
-            className="btn-primary flex items-center gap-2"
-            title="Download a context file to give to your AI coding agent"
-          >
-            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-            </svg>
-            Download for AI Agent
-          </button>
         </div>
       </div>
 
@@ -486,6 +908,74 @@ export default function IssueDetailPage() {
         </div>
       )}
 
+      {/* Possible duplicates */}
+      {similarIssues && similarIssues.length > 0 && (
+        <div className="card p-4">
+          <h3 className="text-sm font-medium text-gray-900">Possible duplicates</h3>
+          <ul className="mt-2 divide-y divide-gray-100">
+            {similarIssues.map((similar) => (
+              <li key={similar.issue_id} className="flex items-center justify-between py-2 text-sm">
+                <div className="min-w-0">
+                  <Link to={`/issues/${similar.issue_id}`} className="font-medium text-primary-600 hover:underline">
+                    {similar.title}
+                  </Link>
+                  <span className="ml-2 text-gray-500">
+                    {Math.round(similar.similarity * 100)}% similar · {similar.severity} · {similar.occurrences_total} events · last seen {formatDate(similar.last_seen_at)}
+                  </span>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() =>
+                      mergeIssues.mutate({
+                        targetId: issue.issue_id,
+                        sourceIds: [similar.issue_id],
+                        reason: `Near-duplicate (${Math.round(similar.similarity * 100)}% similar)`,
+                      })
+                    }
+                    disabled={mergeIssues.isPending}
+                    className="btn-secondary ml-3 shrink-0 text-xs"
+                  >
+                    Merge into this issue
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* AI triage */}
+      {issue.issue_type === ISSUE_TYPE_BUG && (
+        <AIAnalysisCard
+          analysis={issue.ai_analysis}
+          job={issue.ai_job?.mode === 'bug' ? issue.ai_job : undefined}
+          canRun={canEdit}
+          requesting={triageIssue.isPending}
+          onRun={() =>
+            triageIssue.mutate(
+              { force: true, mode: 'bug' },
+              { onError: (err) => alert(err instanceof Error ? err.message : 'Failed to queue triage') }
+            )
+          }
+        />
+      )}
+
+      {/* Feedback analysis */}
+      {issue.issue_type !== ISSUE_TYPE_BUG && (
+        <FeedbackAnalysisCard
+          analysis={issue.ai_feedback_analysis}
+          job={issue.ai_job?.mode === 'feedback' ? issue.ai_job : undefined}
+          canRun={canEdit}
+          requesting={triageIssue.isPending}
+          onRun={() =>
+            triageIssue.mutate(
+              { force: true, mode: 'feedback' },
+              { onError: (err) => alert(err instanceof Error ? err.message : 'Failed to queue analysis') }
+            )
+          }
+        />
+      )}
+
       {/* Tabs */}
       <div className="card">
         <div className="border-b border-gray-200">
@@ -692,6 +1182,26 @@ export default function IssueDetailPage() {
                         </div>
                         <span className="text-xs text-gray-400">{event.event_id}</span>
                       </div>
+                      {event.feedback_match && event.feedback_match.issue_id === issue.issue_id && !event.feedback_match.split_at && (
+                        <div className="mt-2 flex items-center justify-between rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                          <span>
+                            Grouped automatically ({Math.round(event.feedback_match.score * 100)}% match): {event.feedback_match.reason}
+                          </span>
+                          {canEdit && (
+                            <button
+                              onClick={() =>
+                                splitEvent.mutate(event.event_id, {
+                                  onSuccess: (newIssue) => navigate(`/issues/${newIssue.issue_id}`),
+                                })
+                              }
+                              disabled={splitEvent.isPending}
+                              className="ml-3 shrink-0 text-xs font-medium text-amber-900 underline hover:no-underline disabled:opacity-50"
+                            >
+                              Split out
+                            </button>
+                          )}
+                        </div>
+                      )}
                       {event.payload.error && (
                         <div className="mt-2">
                           <p className="text-sm font-medium text-gray-900">
@@ -728,6 +1238,9 @@ export default function IssueDetailPage() {
                           </div>
                         </div>
                       )}
+                      {event.breadcrumbs && event.breadcrumbs.length > 0 && (
+                        <BreadcrumbTimeline breadcrumbs={event.breadcrumbs} eventTimestamp={event.timestamp} />
+                      )}
                     </div>
                   ))}
                   {events && events.length > 20 && (
@@ -762,9 +1275,19 @@ export default function IssueDetailPage() {
                           <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
                             comment.source === 'email'
                               ? 'bg-blue-100 text-blue-800'
-                              : 'bg-gray-100 text-gray-800'
+                              : comment.source === 'ticket'
+                                ? 'bg-purple-100 text-purple-800'
+                                : comment.source === 'system'
+                                  ? 'bg-amber-100 text-amber-800'
+                                  : 'bg-gray-100 text-gray-800'
                           }`}>
-                            {comment.source === 'email' ? 'via email' : 'console'}
+                            {comment.source === 'email'
+                              ? 'via email'
+                              : comment.source === 'ticket'
+                                ? 'via ticket'
+                                : comment.source === 'system'
+                                  ? 'system'
+                                  : 'console'}
                           </span>
                         </div>
                         <span className="text-xs text-gray-500">
@@ -924,6 +1447,71 @@ export default function IssueDetailPage() {
           </div>
         </div>
       )}
+
+      {/* Snooze Modal */}
+      {snoozeModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Snooze Issue</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              The issue moves back to triaged when any of these conditions is met. Leave them all empty to snooze
+              until someone changes the status.
+            </p>
+            <div className="space-y-3">
+              <label className="block text-sm text-gray-700">
+                Until
+                <input
+                  type="datetime-local"
+                  className="input w-full mt-1"
+                  value={snoozeForm.until}
+                  onChange={(e) => setSnoozeForm({ ...snoozeForm, until: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Occurrences in 24h above
+                <input
+                  type="number"
+                  min={0}
+                  className="input w-full mt-1"
+                  value={snoozeForm.occurrences}
+                  onChange={(e) => setSnoozeForm({ ...snoozeForm, occurrences: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Affected users in 24h above
+                <input
+                  type="number"
+                  min={0}
+                  className="input w-full mt-1"
+                  value={snoozeForm.users}
+                  onChange={(e) => setSnoozeForm({ ...snoozeForm, users: e.target.value })}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={snoozeForm.newVersion}
+                  onChange={(e) => setSnoozeForm({ ...snoozeForm, newVersion: e.target.checked })}
+                />
+                Wake when seen in a new version
+              </label>
+            </div>
+            {snoozeError && (
+              <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                {snoozeError}
+              </div>
+            )}
+            <div className="flex justify-end gap-3 mt-4">
+              <button className="btn-secondary" onClick={() => setSnoozeModal(false)}>
+                Cancel
+              </button>
+              <button className="btn-primary" onClick={handleSnoozeSubmit} disabled={updateStatus.isPending}>
+                {updateStatus.isPending ? 'Saving...' : 'Snooze'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
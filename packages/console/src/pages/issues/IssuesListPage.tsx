@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { useIssues, useApps } from '../../hooks/useApi';
 import { useMyAppIds } from '../../hooks/useMyAppIds';
 import type { IssueStatus, Severity, Environment, Issue } from '../../types';
+import { parseFilterQuery, loadSavedFilters, storeSavedFilters, type SavedFilter } from './filterQuery';
 
 const STATUSES: IssueStatus[] = ['new', 'triaged', 'in_progress', 'blocked', 'snoozed', 'resolved', 'wont_fix'];
 const SEVERITIES: Severity[] = ['P0', 'P1', 'P2', 'P3'];
@@ -40,13 +41,17 @@ export default function IssuesListPage() {
     environment: '' as Environment | '',
     status: ['new', 'triaged', 'in_progress', 'blocked'] as IssueStatus[],
     severity: [] as Severity[],
-    search: '',
+    query: '',
     sort_by: 'priority_score' as const,
     sort_dir: 'desc' as const,
     page: 1,
     page_size: 25,
   });
 
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(loadSavedFilters);
+  // pageCursors[n] fetches page n + 1; filled in as the user pages forward
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined]);
+
   const { data: apps } = useApps();
 
   // Filter apps shown in dropdown based on scope
@@ -58,14 +63,19 @@ export default function IssuesListPage() {
     return apps;
   }, [apps, appScope, ownsApps, myAppIds]);
 
+  // Qualifiers typed into the filter query take precedence over the controls above it
+  const parsedQuery = useMemo(() => parseFilterQuery(filters.query), [filters.query]);
+
   // Build effective filters for the API call
   const effectiveFilters = useMemo(() => {
-    const base = { ...filters };
-    if (appScope === 'my_apps' && ownsApps && !filters.app_id) {
+    const { query: _query, ...controls } = filters;
+    const cursor = filters.page > 1 ? pageCursors[filters.page - 1] : undefined;
+    const base = { ...controls, ...parsedQuery.filters, cursor };
+    if (appScope === 'my_apps' && ownsApps && !base.app_id) {
       return { ...base, app_ids: myAppIds };
     }
     return base;
-  }, [filters, appScope, ownsApps, myAppIds]);
+  }, [filters, parsedQuery, pageCursors, appScope, ownsApps, myAppIds]);
 
   const { data, isLoading, error } = useIssues(effectiveFilters);
 
@@ -102,7 +112,35 @@ export default function IssuesListPage() {
     }));
   }
 
+  function applySavedFilter(name: string) {
+    const saved = savedFilters.find((f) => f.name === name);
+    if (saved) setFilters((f) => ({ ...f, query: saved.query, page: 1 }));
+  }
+
+  function saveCurrentFilter() {
+    const name = prompt('Name this filter')?.trim();
+    if (!name) return;
+    const updated = [...savedFilters.filter((f) => f.name !== name), { name, query: filters.query.trim() }];
+    storeSavedFilters(updated);
+    setSavedFilters(updated);
+  }
+
+  function deleteSavedFilter(name: string) {
+    const updated = savedFilters.filter((f) => f.name !== name);
+    storeSavedFilters(updated);
+    setSavedFilters(updated);
+  }
+
+  const activeSavedFilter = savedFilters.find((f) => f.query === filters.query.trim());
+
   function handleNextPage() {
+    const nextCursor = data?.nextCursor;
+    if (!nextCursor) return;
+    setPageCursors((cursors) => {
+      const updated = cursors.slice(0, filters.page);
+      updated[filters.page] = nextCursor;
+      return updated;
+    });
     setFilters((f) => ({ ...f, page: f.page + 1 }));
   }
 
@@ -191,16 +229,64 @@ export default function IssuesListPage() {
           </div>
           <div className="sm:col-span-2">
             <label className="label">Search</label>
-            <input
-              type="text"
-              className="input mt-1"
-              placeholder="Search by title or description..."
-              value={filters.search}
-              onChange={(e) => setFilters((f) => ({ ...f, search: e.target.value, page: 1 }))}
-            />
+            <div className="mt-1 flex space-x-2">
+              <input
+                type="text"
+                className="input flex-1"
+                placeholder="severity:P0 tag:checkout version:1.4.* seen>7d payment declined"
+                value={filters.query}
+                onChange={(e) => setFilters((f) => ({ ...f, query: e.target.value, page: 1 }))}
+              />
+              <button
+                onClick={saveCurrentFilter}
+                disabled={!filters.query.trim()}
+                className="btn-secondary whitespace-nowrap"
+              >
+                Save
+              </button>
+            </div>
+            {parsedQuery.errors.length > 0 ? (
+              <p className="mt-1 text-xs text-red-600">{parsedQuery.errors.join('; ')}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Words match titles, descriptions, error messages and comments. Filters: severity: status:
+                type: env: app: assignee: tag: version: created&gt; created&lt; seen&gt; (dates or 7d, 24h)
+              </p>
+            )}
           </div>
         </div>
 
+        {savedFilters.length > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">Saved:</span>
+            {savedFilters.map((saved) => (
+              <span
+                key={saved.name}
+                className={`inline-flex items-center rounded-full border text-xs ${
+                  activeSavedFilter?.name === saved.name
+                    ? 'bg-primary-100 border-primary-300 text-primary-800'
+                    : 'bg-white border-gray-300 text-gray-600'
+                }`}
+              >
+                <button
+                  onClick={() => applySavedFilter(saved.name)}
+                  title={saved.query}
+                  className="px-2 py-1 hover:underline"
+                >
+                  {saved.name}
+                </button>
+                <button
+                  onClick={() => deleteSavedFilter(saved.name)}
+                  title="Delete saved filter"
+                  className="pr-2 text-gray-400 hover:text-red-600"
+                >
+                  &times;
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
         <div className="mt-4 flex flex-wrap gap-4">
           <div>
             <span className="text-sm font-medium text-gray-700 mr-2">Status:</span>
@@ -347,7 +433,7 @@ export default function IssuesListPage() {
                 </button>
                 <button
                   onClick={handleNextPage}
-                  disabled={currentPage >= totalPages}
+                  disabled={!data?.nextCursor}
                   className="btn-ghost"
                 >
                   Next
@@ -376,7 +462,7 @@ export default function IssuesListPage() {
                     </span>
                     <button
                       onClick={handleNextPage}
-                      disabled={currentPage >= totalPages}
+                      disabled={!data?.nextCursor}
                       className="relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium text-gray-500 hover:bg-gray-50 disabled:opacity-50"
                     >
                       Next
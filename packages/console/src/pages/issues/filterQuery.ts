@@ -0,0 +1,162 @@
+/**
+ * Issue filter query syntax for the issues list
+ * e.g. `severity:P0,P1 tag:checkout version:1.4.* seen>7d payment declined`
+ * Qualifiers map to API filters; remaining words become the full-text search
+ */
+
+import type { Environment, IssueFilters, IssueStatus, IssueType, Severity } from '../../types';
+
+const SEVERITIES: Severity[] = ['P0', 'P1', 'P2', 'P3'];
+const STATUSES: IssueStatus[] = ['new', 'triaged', 'in_progress', 'blocked', 'snoozed', 'resolved', 'wont_fix'];
+const ISSUE_TYPES: IssueType[] = ['bug', 'feature', 'feedback', 'question'];
+const ENVIRONMENTS: Environment[] = ['prod', 'stage', 'dev'];
+
+const SAVED_FILTERS_KEY = 'britepulse_saved_issue_filters';
+
+export type QueryFilters = Pick<
+  IssueFilters,
+  | 'app_id'
+  | 'environment'
+  | 'status'
+  | 'severity'
+  | 'issue_type'
+  | 'assigned_to'
+  | 'tag'
+  | 'version'
+  | 'created_after'
+  | 'created_before'
+  | 'last_seen_after'
+  | 'search'
+>;
+
+export interface ParsedFilterQuery {
+  filters: QueryFilters;
+  errors: string[];
+}
+
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+/**
+ * Resolve a date qualifier value: an ISO date/time or a relative age like 7d or 12h
+ */
+function parseDate(value: string, now: Date): string | null {
+  const relative = value.match(/^(\d+)([hdw])$/);
+  if (relative) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[relative[2] as 'h' | 'd' | 'w'];
+    return new Date(now.getTime() - Number(relative[1]) * hours * 60 * 60 * 1000).toISOString();
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseList<T extends string>(value: string, allowed: T[], normalize: (v: string) => string): T[] | null {
+  const values = value.split(',').map(normalize);
+  return values.every((v) => allowed.includes(v as T)) ? (values as T[]) : null;
+}
+
+/**
+ * Split a query into words, keeping "quoted phrases" together
+ */
+function splitQuery(query: string): string[] {
+  return (query.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map((part) => part.replace(/"/g, ''));
+}
+
+/**
+ * Parse a filter query; unknown or invalid qualifiers are reported and left out
+ */
+export function parseFilterQuery(query: string, now: Date = new Date()): ParsedFilterQuery {
+  const filters: QueryFilters = {};
+  const errors: string[] = [];
+  const words: string[] = [];
+
+  for (const part of splitQuery(query)) {
+    const match = part.match(/^([a-z_]+)(:|>|<)(.+)$/i);
+    if (!match) {
+      if (part) words.push(part);
+      continue;
+    }
+
+    const [, rawKey, operator, value] = match;
+    const key = rawKey.toLowerCase();
+
+    if (operator !== ':') {
+      const date = parseDate(value, now);
+      if (!date) {
+        errors.push(`Invalid date "${value}" in ${part}`);
+      } else if (key === 'created') {
+        filters[operator === '>' ? 'created_after' : 'created_before'] = date;
+      } else if ((key === 'seen' || key === 'last_seen') && operator === '>') {
+        filters.last_seen_after = date;
+      } else {
+        errors.push(`Unsupported filter ${key}${operator}`);
+      }
+      continue;
+    }
+
+    switch (key) {
+      case 'severity':
+      case 'sev': {
+        const severities = parseList(value, SEVERITIES, (v) => v.toUpperCase());
+        if (severities) filters.severity = severities;
+        else errors.push(`Unknown severity in ${part}`);
+        break;
+      }
+      case 'status':
+      case 'is': {
+        const statuses = parseList(value, STATUSES, (v) => v.toLowerCase().replace('-', '_'));
+        if (statuses) filters.status = statuses;
+        else errors.push(`Unknown status in ${part}`);
+        break;
+      }
+      case 'type': {
+        const types = parseList(value, ISSUE_TYPES, (v) => v.toLowerCase());
+        if (types) filters.issue_type = types;
+        else errors.push(`Unknown issue type in ${part}`);
+        break;
+      }
+      case 'env':
+      case 'environment': {
+        const env = value.toLowerCase() as Environment;
+        if (ENVIRONMENTS.includes(env)) filters.environment = env;
+        else errors.push(`Unknown environment in ${part}`);
+        break;
+      }
+      case 'app':
+        filters.app_id = value;
+        break;
+      case 'assignee':
+      case 'assigned':
+        filters.assigned_to = value;
+        break;
+      case 'tag':
+        filters.tag = value;
+        break;
+      case 'version':
+      case 'v':
+        filters.version = value;
+        break;
+      default:
+        // Not a qualifier we know (e.g. "Error: timeout"), so search for it as text
+        words.push(part);
+    }
+  }
+
+  if (words.length > 0) filters.search = words.join(' ');
+  return { filters, errors };
+}
+
+export function loadSavedFilters(): SavedFilter[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_FILTERS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedFilters(filters: SavedFilter[]): void {
+  localStorage.setItem(SAVED_FILTERS_KEY, JSON.stringify(filters));
+}
@@ -31,10 +31,14 @@ export interface AppOwners {
   engineering_owner_group?: string | string[];
 }
 
+export type AIInputCategory = 'sanitized_feedback' | 'sanitized_stack' | 'retrieved_code_excerpts' | 'metrics_summary';
+
 export interface AIPolicy {
   eligible_severity_min: Severity;
   eligible_recurrence_min: number;
-  model_allowed_inputs: string[];
+  model_allowed_inputs: AIInputCategory[];
+  daily_token_budget?: number;
+  daily_cost_budget_usd?: number;
 }
 
 export interface AttachmentPolicy {
@@ -54,6 +58,40 @@ export interface Policy {
       sample_rate: number;
     }>;
   };
+  health_thresholds?: Partial<HealthThresholds>;
+}
+
+export interface HealthThresholds {
+  silent_after_hours: number;
+  max_missing_version_rate: number;
+  max_missing_trace_rate: number;
+  max_rejected_rate: number;
+}
+
+export type InstallationHealthStatus = 'healthy' | 'degraded' | 'silent';
+
+export interface AppHealth {
+  app_id: string;
+  environment: string;
+  status: InstallationHealthStatus;
+  status_reasons: string[];
+  thresholds: HealthThresholds;
+  metrics: {
+    last_event_received?: string;
+    last_event_by_type: Record<string, string>;
+    events_24h: number;
+    rejected_24h: number;
+    redacted_24h: number;
+    missing_version_rate: number;
+    missing_trace_rate: number;
+    rejected_rate: number;
+    sdk_versions: Array<{ sdk: string; last_seen_at: string }>;
+  };
+  issues: {
+    total_open: number;
+    p0_open: number;
+    p1_open: number;
+  };
 }
 
 export interface Schedule {
@@ -65,6 +103,87 @@ export interface Schedule {
   brief_mode?: 'daily' | 'only_on_issues';
 }
 
+export type AlertRuleType =
+  | 'new_issue'
+  | 'occurrence_threshold'
+  | 'error_rate_spike'
+  | 'regression'
+  | 'new_issue_route';
+
+export type AlertChannel = 'in_app' | 'email';
+
+export interface AlertRule {
+  rule_id: string;
+  name: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  environments?: string[];
+  severity_min?: Severity;
+  threshold?: number;
+  window_minutes?: number;
+  spike_multiplier?: number;
+  baseline_hours?: number;
+  route_pattern?: string;
+  cooldown_minutes: number;
+  channels: AlertChannel[];
+  recipients?: string[];
+}
+
+export interface AlertFiring {
+  firing_id: string;
+  app_id: string;
+  environment: string;
+  rule_id: string;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  dedupe_key: string;
+  issue_id?: string;
+  issue_title?: string;
+  message: string;
+  recipients: string[];
+  channels: AlertChannel[];
+  fired_at: string;
+}
+
+export type WebhookEventType =
+  | 'issue.created'
+  | 'issue.status_changed'
+  | 'issue.severity_changed'
+  | 'issue.comment_added'
+  | 'issue.ai_analysis_ready'
+  | 'brief.sent';
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface WebhookSubscription {
+  subscription_id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[];
+  enabled: boolean;
+  environments?: string[];
+  secret_env?: string;
+}
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  app_id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEventType | 'webhook.test';
+  url: string;
+  format: WebhookFormat;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at?: string;
+  last_attempt_at?: string;
+  response_status?: number;
+  error?: string;
+  created_at: string;
+  delivered_at?: string;
+}
+
 export interface App {
   app_id: string;
   name: string;
@@ -73,6 +192,8 @@ export interface App {
   owners: AppOwners;
   policies?: Policy;
   schedules?: Schedule;
+  alert_rules?: AlertRule[];
+  webhooks?: WebhookSubscription[];
   install_keys?: Record<string, {
     public_key: string;
     server_key: string;
@@ -85,6 +206,7 @@ export interface IssueCounts {
   occurrences_24h: number;
   occurrences_total: number;
   unique_users_24h_est: number;
+  occurrences_prev_24h?: number;
 }
 
 export interface IssueTimestamps {
@@ -94,12 +216,31 @@ export interface IssueTimestamps {
   wont_fix_at?: string;
 }
 
+export interface EvidenceRef {
+  type: 'event' | 'stack_trace' | 'code_excerpt' | 'metric' | 'feedback';
+  ref_id?: string;
+  excerpt?: string;
+  relevance: string;
+}
+
 export interface FixOption {
   option_number: number;
   description: string;
+  files_likely_touched: string[];
   complexity: 'low' | 'medium' | 'high';
-  risk_level: 'low' | 'medium' | 'high';
-  steps: string[];
+  confidence: number;
+}
+
+export interface TestPlanItem {
+  test_type: 'unit' | 'integration' | 'e2e' | 'manual';
+  description: string;
+  priority: 'required' | 'recommended' | 'optional';
+}
+
+export interface AnalysisValidation {
+  status: 'valid' | 'repaired';
+  attempts: number;
+  warnings: string[];
 }
 
 export interface AIAnalysis {
@@ -110,14 +251,88 @@ export interface AIAnalysis {
   severity: Severity;
   severity_rationale: string;
   impact_summary: string;
+  evidence_refs: EvidenceRef[];
   root_cause_hypothesis: string;
   fix_plan: FixOption[];
+  test_plan: TestPlanItem[];
+  rollout_plan: string;
+  rollback_plan: string;
   confidence: number;
   assumptions: string[];
   limitations: string[];
   next_action: string;
   next_action_rationale: string;
   additional_info_needed?: string[];
+  inputs_sent?: AIInputCategory[];
+  validation?: AnalysisValidation;
+}
+
+export type TriageMode = 'bug' | 'feedback';
+
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'skipped' | 'failed';
+
+export interface IssueAIJob {
+  job_id: string;
+  mode: TriageMode;
+  status: AIJobStatus;
+  updated_at: string;
+  deferred_reason?: string;
+  skipped_reason?: string;
+  error?: string;
+}
+
+export type FeedbackRequestType =
+  | 'feature_request'
+  | 'improvement'
+  | 'usability'
+  | 'bug_report'
+  | 'question'
+  | 'praise'
+  | 'complaint';
+
+export type ProductNextAction =
+  | 'add_to_backlog'
+  | 'quick_win'
+  | 'needs_research'
+  | 'merge_with_existing'
+  | 'route_engineering'
+  | 'reply_to_user'
+  | 'no_action';
+
+export interface UserSegment {
+  role: string;
+  reports: number;
+  users: number;
+  share: number;
+}
+
+export interface RelatedIssueLink {
+  issue_id: string;
+  title: string;
+  relation: 'duplicate' | 'related' | 'underlying_bug';
+  rationale: string;
+}
+
+export interface FeedbackAnalysis {
+  analysis_id: string;
+  model_name: string;
+  generated_at: string;
+  request_type: FeedbackRequestType;
+  user_need_summary: string;
+  sentiment: 'positive' | 'neutral' | 'mixed' | 'negative';
+  urgency: 'low' | 'medium' | 'high';
+  urgency_rationale: string;
+  related_issues: RelatedIssueLink[];
+  affected_segments: UserSegment[];
+  segment_summary: string;
+  product_next_action: ProductNextAction;
+  next_action_rationale: string;
+  confidence: number;
+  assumptions: string[];
+  limitations: string[];
+  occurrences_at_analysis: number;
+  inputs_sent?: AIInputCategory[];
+  validation?: AnalysisValidation;
 }
 
 export type IssueType = 'bug' | 'feature' | 'feedback' | 'question';
@@ -131,6 +346,29 @@ export interface IssueRouting {
   assigned_to?: string;
 }
 
+export interface IssueRegression {
+  detected_at: string;
+  version: string;
+  resolved_version?: string;
+  resolved_at?: string;
+  resolved_by?: string;
+  previous_severity: Severity;
+  count: number;
+}
+
+export interface SnoozeCondition {
+  until?: string;
+  occurrences_24h_above?: number;
+  unique_users_24h_above?: number;
+  new_version?: boolean;
+}
+
+export interface IssueSnooze extends SnoozeCondition {
+  snoozed_at: string;
+  snoozed_by: string;
+  versions_at_snooze?: string[];
+}
+
 export interface Issue {
   issue_id: string;
   app_id: string;
@@ -149,6 +387,29 @@ export interface Issue {
   resolution_note?: string;
   reported_by?: IssueReporter | null;
   ai_analysis?: AIAnalysis;
+  ai_feedback_analysis?: FeedbackAnalysis;
+  ai_job?: IssueAIJob;
+  external_ticket?: ExternalTicket;
+  regression?: IssueRegression;
+  snooze?: IssueSnooze;
+}
+
+export interface SimilarIssue {
+  issue_id: string;
+  title: string;
+  status: IssueStatus;
+  severity: Severity;
+  similarity: number;
+  occurrences_total: number;
+  last_seen_at: string;
+}
+
+export interface ExternalTicket {
+  provider: 'jira' | 'github' | 'webhook';
+  key: string;
+  url: string;
+  created_at: string;
+  created_by: string;
 }
 
 export interface EventPayload {
@@ -163,6 +424,26 @@ export interface EventPayload {
   };
 }
 
+export type BreadcrumbCategory = 'navigation' | 'click' | 'console' | 'fetch' | 'xhr';
+
+export interface Breadcrumb {
+  timestamp: string;
+  category: BreadcrumbCategory;
+  message: string;
+  level?: 'info' | 'warning' | 'error';
+  data?: Record<string, string | number | boolean>;
+}
+
+export interface FeedbackMatch {
+  issue_id: string;
+  score: number;
+  signals: Array<'text' | 'route' | 'trace' | 'session'>;
+  reason: string;
+  matched_at: string;
+  split_at?: string;
+  split_by?: string;
+}
+
 export interface Event {
   event_id: string;
   app_id: string;
@@ -172,18 +453,27 @@ export interface Event {
   route_or_url?: string;
   payload: EventPayload;
   attachment_refs?: string[];
+  breadcrumbs?: Breadcrumb[];
+  feedback_match?: FeedbackMatch;
 }
 
-export type NotificationType = 'mention' | 'comment_on_thread';
+export type NotificationType =
+  | 'mention'
+  | 'comment_on_thread'
+  | 'silent_installation'
+  | 'regression'
+  | 'snooze_woken'
+  | 'alert';
 
 export interface Notification {
   notification_id: string;
   recipient_email: string;
   type: NotificationType;
-  issue_id: string;
-  issue_title: string;
+  issue_id?: string;
+  issue_title?: string;
   app_id: string;
-  comment_id: string;
+  environment?: string;
+  comment_id?: string;
   actor_email: string;
   actor_name?: string;
   body_preview: string;
@@ -197,10 +487,41 @@ export interface IssueFilters {
   environment?: Environment | '';
   status?: IssueStatus[];
   severity?: Severity[];
+  issue_type?: IssueType[];
   assigned_to?: string;
+  tag?: string;
+  version?: string; // exact or with * wildcards, e.g. '1.4.*'
+  created_after?: string;
+  created_before?: string;
+  last_seen_after?: string;
   search?: string;
   sort_by?: 'priority_score' | 'severity' | 'occurrences_24h' | 'unique_users_24h_est' | 'last_seen_at' | 'created_at';
   sort_dir?: 'asc' | 'desc';
   page?: number;
   page_size?: number;
+  cursor?: string; // next_cursor from the previous page
 }
+
+export interface AuditLog {
+  audit_id: string;
+  actor_id: string;
+  actor_role: UserRole | 'system';
+  action: string;
+  target_type: string;
+  target_id: string;
+  app_id?: string;
+  timestamp: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+  actor_id?: string;
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  app_id?: string;
+  after?: string;
+  before?: string;
+}
+
+export type AuditLogExportFormat = 'csv' | 'ndjson';
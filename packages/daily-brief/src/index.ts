@@ -8,7 +8,7 @@ export * from './template.js';
 export * from './sender.js';
 
 import type { Issue, App } from '@britepulse/shared';
-import { selectIssuesForBrief, SelectionConfig, DEFAULT_SELECTION_CONFIG } from './selector.js';
+import { selectIssuesForBrief, isRecentRegression, SelectionConfig, DEFAULT_SELECTION_CONFIG } from './selector.js';
 import { generateHtmlEmail, generateTextEmail, generateSubject, BriefData } from './template.js';
 import { sendBriefToRecipients, SendGridConfig } from './sender.js';
 
@@ -61,6 +61,7 @@ export function generateBriefData(
     date: dateStr,
     consoleUrl: config.consoleUrl,
     issues: rankedIssues,
+    regressions: issues.filter((issue) => isRecentRegression(issue)),
     stats: {
       totalIssues24h: issues.filter(
         (i) => i.status !== 'resolved' && i.status !== 'wont_fix'
@@ -41,6 +41,14 @@ const SEVERITY_WEIGHTS: Record<Severity, number> = {
   P3: 10,
 };
 
+/**
+ * Check if an issue was reopened as a regression in the last 24h
+ */
+export function isRecentRegression(issue: Issue, now: number = Date.now()): boolean {
+  if (!issue.regression || issue.status === 'resolved' || issue.status === 'wont_fix') return false;
+  return new Date(issue.regression.detected_at).getTime() > now - 24 * 60 * 60 * 1000;
+}
+
 /**
  * Calculate brief priority score for an issue
  */
@@ -67,6 +75,19 @@ function calculateBriefScore(issue: Issue): { score: number; reason: string } {
     reasons.push(`${issue.counts.unique_users_24h_est} users affected`);
   }
 
+  // Trend bonus: occurrences rising versus the previous 24h window
+  const previous24h = issue.counts.occurrences_prev_24h;
+  if (previous24h !== undefined && previous24h > 0 && issue.counts.occurrences_24h >= previous24h * 2) {
+    score += 15;
+    reasons.push(`up from ${previous24h} the previous day`);
+  }
+
+  // Regression bonus: a fix that didn't hold outranks a fresh issue
+  if (isRecentRegression(issue)) {
+    score += 40;
+    reasons.push(`regressed in ${issue.regression!.version}`);
+  }
+
   // New issue bonus
   const firstSeenTime = new Date(issue.timestamps.created_at).getTime();
   const twentyFourHoursAgo = Date.now() - 24 * 60 * 60 * 1000;
@@ -3,8 +3,8 @@
  * Generates HTML and plain text emails for the daily brief
  */
 
-import type { Severity } from '@britepulse/shared';
-import type { RankedIssue } from './selector.js';
+import type { Issue, Severity } from '@britepulse/shared';
+import { isRecentRegression, type RankedIssue } from './selector.js';
 
 /**
  * Brief data for template rendering
@@ -14,6 +14,7 @@ export interface BriefData {
   date: string;
   consoleUrl: string;
   issues: RankedIssue[];
+  regressions: Issue[]; // resolved issues that came back in the last 24h
   stats: {
     totalIssues24h: number;
     totalEvents24h: number;
@@ -57,6 +58,11 @@ function formatIssueHtml(ranked: RankedIssue, consoleUrl: string): string {
         <span style="display: inline-block; padding: 2px 8px; background: ${colors.border}; color: white; border-radius: 4px; font-size: 12px; font-weight: bold; margin-right: 8px;">
           ${issue.severity}
         </span>
+        ${
+          issue.regression && isRecentRegression(issue)
+            ? '<span style="display: inline-block; padding: 2px 8px; background: #DC2626; color: white; border-radius: 4px; font-size: 12px; font-weight: bold; margin-right: 8px;">REGRESSION</span>'
+            : ''
+        }
         <a href="${issueUrl}" style="color: ${colors.text}; text-decoration: none; font-weight: 600; font-size: 15px;">
           ${escapeHtml(issue.title)}
         </a>
@@ -76,6 +82,43 @@ function formatIssueHtml(ranked: RankedIssue, consoleUrl: string): string {
   `;
 }
 
+/**
+ * Describe where a regression reappeared
+ */
+function formatRegressionVersions(issue: Issue): string {
+  const regression = issue.regression!;
+  const resolved = regression.resolved_version ? ` (was fixed after ${regression.resolved_version})` : '';
+  return `Back in ${regression.version}${resolved}`;
+}
+
+/**
+ * Format regressions for display
+ */
+function formatRegressionsHtml(regressions: Issue[], consoleUrl: string): string {
+  const items = regressions
+    .map(
+      (issue) => `
+      <li style="margin-bottom: 8px;">
+        <span style="display: inline-block; padding: 2px 8px; background: #DC2626; color: white; border-radius: 4px; font-size: 12px; font-weight: bold; margin-right: 8px;">
+          ${issue.severity}
+        </span>
+        <a href="${consoleUrl}/issues/${issue.issue_id}" style="color: #991B1B; font-weight: 600; text-decoration: none;">
+          ${escapeHtml(issue.title)}
+        </a>
+        <div style="font-size: 13px; color: #7F1D1D; margin-top: 2px;">${escapeHtml(formatRegressionVersions(issue))}</div>
+      </li>`
+    )
+    .join('');
+
+  return `
+  <div style="margin: 20px 0 0 0; padding: 16px; background: #FEF2F2; border: 2px solid #F87171; border-radius: 8px;">
+    <h2 style="margin: 0 0 12px 0; font-size: 18px; color: #991B1B;">&#9888; Regressions (${regressions.length})</h2>
+    <p style="margin: 0 0 12px 0; font-size: 13px; color: #7F1D1D;">These issues were resolved but have started happening again.</p>
+    <ul style="margin: 0; padding-left: 0; list-style: none;">${items}</ul>
+  </div>
+  `;
+}
+
 /**
  * Format status for display
  */
@@ -142,6 +185,8 @@ export function generateHtmlEmail(data: BriefData): string {
     </div>
   </div>
 
+  ${data.regressions.length > 0 ? formatRegressionsHtml(data.regressions, data.consoleUrl) : ''}
+
   <!-- Priority Issues -->
   <div style="padding: 20px 0;">
     <h2 style="margin: 0 0 16px 0; font-size: 18px; color: #374151;">Priority Issues</h2>
@@ -196,10 +241,22 @@ export function generateTextEmail(data: BriefData): string {
     `New Issues: ${data.stats.newIssues24h}`,
     `Resolved: ${data.stats.resolvedIssues24h}`,
     ``,
-    `PRIORITY ISSUES`,
-    `---------------`,
   ];
 
+  if (data.regressions.length > 0) {
+    lines.push(`⚠ REGRESSIONS (${data.regressions.length})`);
+    lines.push(`---------------`);
+    for (const issue of data.regressions) {
+      lines.push(`[${issue.severity}] ${issue.title}`);
+      lines.push(`  ${formatRegressionVersions(issue)}`);
+      lines.push(`  View: ${data.consoleUrl}/issues/${issue.issue_id}`);
+    }
+    lines.push(``);
+  }
+
+  lines.push(`PRIORITY ISSUES`);
+  lines.push(`---------------`);
+
   if (data.issues.length === 0) {
     lines.push(``);
     lines.push(`🎉 ALL CLEAR!`);
@@ -209,7 +266,7 @@ export function generateTextEmail(data: BriefData): string {
     for (const ranked of data.issues) {
       const issue = ranked.issue;
       lines.push(``);
-      lines.push(`[${issue.severity}] ${issue.title}`);
+      lines.push(`[${issue.severity}]${isRecentRegression(issue) ? ' [REGRESSION]' : ''} ${issue.title}`);
       lines.push(`  ${issue.description || 'No description'}`);
       lines.push(`  Events: ${issue.counts.occurrences_24h} | Users: ${issue.counts.unique_users_24h_est} | Status: ${formatStatus(issue.status)}`);
       lines.push(`  View: ${data.consoleUrl}/issues/${issue.issue_id}`);
@@ -248,6 +305,8 @@ export function generateSubject(data: BriefData): string {
 
   if (criticalCount > 0) {
     parts.push(`${criticalCount} Critical`);
+  } else if (data.regressions.length > 0) {
+    parts.push(`${data.regressions.length} Regression${data.regressions.length === 1 ? '' : 's'}`);
   } else if (highCount > 0) {
     parts.push(`${highCount} High Priority`);
   } else if (stats.newIssues24h > 0) {
@@ -0,0 +1,107 @@
+/**
+ * Capture tests - Building backend_error events and local redaction
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createErrorEvent, setupCapture, teardownCapture, captureError } from '../capture.js';
+import { runWithRequest } from '../context.js';
+import type { BackendEvent } from '../types.js';
+
+const config = { apiKey: 'sk_test', serviceName: 'orders-api', revision: 'orders-api-00042', version: 'abc123' };
+
+afterEach(() => {
+  teardownCapture();
+});
+
+describe('createErrorEvent', () => {
+  it('builds an event from the error and request without undefined values', () => {
+    const error = new TypeError('cart is undefined');
+
+    const event = createErrorEvent(
+      error,
+      { method: 'POST', url: '/orders/42', route: '/orders/:id', statusCode: 500, traceId: 'trace-1', requestId: 'req-1' },
+      config
+    );
+
+    expect(event).toEqual({
+      event_type: 'backend_error',
+      timestamp: expect.any(String),
+      route_or_url: '/orders/:id',
+      version: 'abc123',
+      trace_id: 'trace-1',
+      payload: {
+        error_type: 'TypeError',
+        message: 'cart is undefined',
+        stack: expect.stringContaining('TypeError: cart is undefined'),
+        service_name: 'orders-api',
+        revision: 'orders-api-00042',
+        endpoint: '/orders/:id',
+        http_method: 'POST',
+        http_status: 500,
+      },
+      request_metadata: {
+        service_name: 'orders-api',
+        revision: 'orders-api-00042',
+        endpoint: '/orders/:id',
+        http_method: 'POST',
+        http_status: 500,
+        request_id: 'req-1',
+      },
+    });
+    // toEqual ignores undefined properties, which Firestore rejects
+    expect(Object.values(event)).not.toContain(undefined);
+    expect(Object.values(event.payload)).not.toContain(undefined);
+
+    const bare = createErrorEvent('boom', undefined, { apiKey: 'sk_test', serviceName: 'worker' });
+    expect(bare).toEqual(
+      expect.objectContaining({ route_or_url: 'worker', version: 'unknown', payload: { error_type: 'Error', message: 'boom', service_name: 'worker' } })
+    );
+    expect(Object.values(bare)).not.toContain(undefined);
+    expect(Object.values(bare.payload)).not.toContain(undefined);
+    expect(Object.values(bare.request_metadata)).not.toContain(undefined);
+  });
+
+  it('redacts PII from the message, stack and URL unless redaction is off', () => {
+    const error = new Error('No account for jane@example.com (token=abcdef0123456789abcdef)');
+    const request = { url: '/reset?email=jane@example.com&token=secret' };
+
+    const event = createErrorEvent(error, request, config);
+
+    expect(event.payload.message).toBe('No account for [REDACTED_EMAIL] ([REDACTED_SECRET])');
+    expect(event.payload.stack).not.toContain('jane@example.com');
+    expect(event.route_or_url).toBe('/reset');
+
+    const raw = createErrorEvent(error, request, { ...config, redact: false });
+    expect(raw.payload.message).toContain('jane@example.com');
+    expect(raw.route_or_url).toBe(request.url);
+  });
+});
+
+describe('captureError', () => {
+  it('fills request details from the current request context', () => {
+    const events: BackendEvent[] = [];
+    setupCapture(config, (event) => events.push(event));
+
+    runWithRequest({ method: 'GET', url: '/orders', traceId: 'trace-9' }, () => {
+      captureError(new Error('timeout'), { statusCode: 504 });
+    });
+    captureError(new Error('outside a request'));
+
+    expect(events[0]).toEqual(
+      expect.objectContaining({
+        trace_id: 'trace-9',
+        route_or_url: '/orders',
+        payload: expect.objectContaining({ http_method: 'GET', http_status: 504 }),
+      })
+    );
+    expect(events[1].trace_id).toBeUndefined();
+  });
+
+  it('never throws into the host application', () => {
+    setupCapture(config, () => {
+      throw new Error('handler failed');
+    });
+
+    expect(() => captureError(new Error('boom'))).not.toThrow();
+  });
+});
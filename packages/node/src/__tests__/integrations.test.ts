@@ -0,0 +1,132 @@
+/**
+ * Framework integration tests - Trace ID propagation and the Express and Fastify error hooks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { expressRequestHandler, expressErrorHandler } from '../express.js';
+import { setupFastify } from '../fastify.js';
+import { setupCapture, teardownCapture, captureError } from '../capture.js';
+import { extractRequestInfo } from '../context.js';
+import type { BackendEvent } from '../types.js';
+
+let events: BackendEvent[];
+
+beforeEach(() => {
+  events = [];
+  setupCapture({ apiKey: 'sk_test', serviceName: 'orders-api' }, (event) => events.push(event));
+});
+
+afterEach(() => {
+  teardownCapture();
+});
+
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+describe('extractRequestInfo', () => {
+  it('reads the trace ID and the first request ID header', () => {
+    expect(
+      extractRequestInfo({
+        method: 'GET',
+        url: '/orders',
+        headers: { 'x-trace-id': ['trace-1', 'trace-2'], 'x-cloud-trace-context': 'cloud-1/2;o=1' },
+      })
+    ).toEqual({ method: 'GET', url: '/orders', traceId: 'trace-1', requestId: 'cloud-1/2;o=1' });
+  });
+});
+
+describe('expressRequestHandler', () => {
+  it('propagates the x-trace-id header to errors captured later in the request', async () => {
+    const req = { method: 'GET', url: '/42', originalUrl: '/orders/42', headers: { 'x-trace-id': 'trace-1' } };
+
+    await new Promise<void>((resolve) => {
+      expressRequestHandler()(req, { statusCode: 200 }, () => {
+        setTimeout(() => {
+          captureError(new Error('lookup failed'));
+          resolve();
+        }, 0);
+      });
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].trace_id).toBe('trace-1');
+    expect(events[0].route_or_url).toBe('/orders/42');
+  });
+});
+
+describe('expressErrorHandler', () => {
+  const req = {
+    method: 'POST',
+    url: '/42',
+    originalUrl: '/orders/42',
+    baseUrl: '/orders',
+    route: { path: '/:id' },
+    headers: { 'x-trace-id': 'trace-1' },
+  };
+
+  it('reports server errors with the route pattern and always forwards the error', () => {
+    const next = vi.fn();
+    const error = new Error('db down');
+
+    expressErrorHandler()(error, req, { statusCode: 200 }, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(events[0]).toEqual(
+      expect.objectContaining({
+        trace_id: 'trace-1',
+        route_or_url: '/orders/:id',
+        payload: expect.objectContaining({ http_status: 500, http_method: 'POST' }),
+      })
+    );
+  });
+
+  it('skips client errors unless shouldCapture says otherwise', () => {
+    const next = vi.fn();
+    const notFound = httpError('Not found', 404);
+
+    expressErrorHandler()(notFound, req, { statusCode: 200 }, next);
+    expect(events).toHaveLength(0);
+    expect(next).toHaveBeenCalledWith(notFound);
+
+    expressErrorHandler({ shouldCapture: () => true })(notFound, req, { statusCode: 200 }, next);
+    expect(events[0].payload.http_status).toBe(404);
+  });
+});
+
+describe('setupFastify', () => {
+  type Hook = (...args: unknown[]) => void;
+
+  function fakeFastify() {
+    const hooks: Record<string, Hook> = {};
+    const instance = {
+      addHook(name: string, hook: Hook) {
+        hooks[name] = hook;
+      },
+    } as unknown as Parameters<typeof setupFastify>[0];
+    return { hooks, instance };
+  }
+
+  const request = {
+    method: 'DELETE',
+    url: '/orders/42',
+    headers: { 'x-trace-id': 'trace-2' },
+    routeOptions: { url: '/orders/:id' },
+  };
+
+  it('runs the request in context and reports server errors', () => {
+    const fastify = fakeFastify();
+    setupFastify(fastify.instance);
+
+    fastify.hooks.onRequest(request, { statusCode: 200 }, () => captureError(new Error('inside request')));
+    const done = vi.fn();
+    fastify.hooks.onError(request, { statusCode: 200 }, new Error('db down'), done);
+    fastify.hooks.onError(request, { statusCode: 200 }, Object.assign(new Error('Bad input'), { statusCode: 400 }), done);
+
+    expect(events.map((e) => e.trace_id)).toEqual(['trace-2', 'trace-2']);
+    expect(events[1]).toEqual(
+      expect.objectContaining({ route_or_url: '/orders/:id', payload: expect.objectContaining({ http_status: 500 }) })
+    );
+    expect(done).toHaveBeenCalledTimes(2);
+  });
+});
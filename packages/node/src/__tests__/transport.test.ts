@@ -0,0 +1,98 @@
+/**
+ * Transport tests - Batching, retries with backoff and flush
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTransport } from '../transport.js';
+import { createErrorEvent } from '../capture.js';
+
+const config = { apiKey: 'sk_test', apiUrl: 'https://api.test/', serviceName: 'orders-api' };
+
+const fetchMock = vi.fn();
+
+function event(message: string) {
+  return createErrorEvent(new Error(message), undefined, config);
+}
+
+function response(status: number): Response {
+  return new Response(JSON.stringify({ accepted: 1 }), { status });
+}
+
+function sentMessages(call: number): string[] {
+  const body = JSON.parse(fetchMock.mock.calls[call][1].body);
+  return body.events.map((e: { payload: { message: string } }) => e.payload.message);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createTransport', () => {
+  it('sends a full batch at once and the rest after the flush interval', async () => {
+    fetchMock.mockResolvedValue(response(200));
+    const transport = createTransport({ ...config, batchSize: 2, flushIntervalMs: 1000 });
+
+    transport.enqueue(event('one'));
+    transport.enqueue(event('two'));
+    transport.enqueue(event('three'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.test/events',
+      expect.objectContaining({ method: 'POST', headers: expect.objectContaining({ 'X-API-Key': 'sk_test' }) })
+    );
+    expect(sentMessages(0)).toEqual(['one', 'two']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentMessages(1)).toEqual(['three']);
+  });
+
+  it('retries network errors, 429 and 5xx with exponential backoff', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(200));
+    const transport = createTransport(config);
+
+    transport.enqueue(event('retry me'));
+    const flushed = transport.flush();
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await expect(flushed).resolves.toBe(true);
+  });
+
+  it('does not retry other client errors', async () => {
+    fetchMock.mockResolvedValue(response(400));
+    const transport = createTransport(config);
+
+    transport.enqueue(event('bad'));
+    await transport.flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves flush false when sending outlasts the timeout', async () => {
+    fetchMock.mockReturnValue(new Promise(() => {}));
+    const transport = createTransport(config);
+
+    transport.enqueue(event('slow'));
+    const flushed = transport.flush(200);
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(flushed).resolves.toBe(false);
+    await expect(createTransport(config).flush()).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Error Capture Module
+ * Normalizes errors into backend_error events
+ */
+
+import type { BackendEvent, BritePulseNodeConfig, RequestInfo } from './types.js';
+import { getCurrentRequest } from './context.js';
+import { redactText, redactUrl } from './redaction.js';
+
+type CaptureHandler = (event: BackendEvent) => void;
+
+let captureHandler: CaptureHandler | null = null;
+let activeConfig: BritePulseNodeConfig | null = null;
+
+/**
+ * Service identity, from config or the Cloud Run environment
+ */
+export function getServiceInfo(config: BritePulseNodeConfig): { serviceName: string; revision?: string } {
+  return {
+    serviceName: config.serviceName || process.env.K_SERVICE || 'unknown',
+    revision: config.revision || process.env.K_REVISION,
+  };
+}
+
+function normalizeError(error: unknown): { type: string; message: string; stack?: string } {
+  if (error instanceof Error) {
+    return {
+      type: error.name || 'Error',
+      message: error.message || 'Unknown error',
+      stack: error.stack,
+    };
+  }
+  if (typeof error === 'string') {
+    return { type: 'Error', message: error };
+  }
+  return { type: 'Error', message: String(error) };
+}
+
+/**
+ * Build a backend_error event (Firestore-safe: no undefined values)
+ */
+export function createErrorEvent(
+  error: unknown,
+  request: RequestInfo | undefined,
+  config: BritePulseNodeConfig
+): BackendEvent {
+  const { serviceName, revision } = getServiceInfo(config);
+  const normalized = normalizeError(error);
+  const redact = config.redact !== false;
+  const clean = (text: string) => (redact ? redactText(text) : text);
+
+  const path = request?.url ? (redact ? redactUrl(request.url) : request.url) : undefined;
+  const endpoint = request?.route || path;
+
+  const event: BackendEvent = {
+    event_type: 'backend_error',
+    timestamp: new Date().toISOString(),
+    route_or_url: endpoint || serviceName,
+    version: config.version || revision || 'unknown',
+    payload: {
+      error_type: normalized.type,
+      message: clean(normalized.message),
+      service_name: serviceName,
+    },
+    request_metadata: { service_name: serviceName },
+  };
+
+  if (normalized.stack) event.payload.stack = clean(normalized.stack);
+  if (revision) {
+    event.payload.revision = revision;
+    event.request_metadata.revision = revision;
+  }
+  if (endpoint) {
+    event.payload.endpoint = endpoint;
+    event.request_metadata.endpoint = endpoint;
+  }
+  if (request?.method) {
+    event.payload.http_method = request.method;
+    event.request_metadata.http_method = request.method;
+  }
+  if (request?.statusCode) {
+    event.payload.http_status = request.statusCode;
+    event.request_metadata.http_status = request.statusCode;
+  }
+  if (request?.requestId) event.request_metadata.request_id = request.requestId;
+  if (request?.traceId) event.trace_id = request.traceId;
+
+  const user = request?.user;
+  if (user && (user.id || user.role || user.email)) {
+    event.user = {};
+    if (user.id) event.user.user_id = user.id;
+    if (user.role) event.user.role = user.role;
+    if (user.email) event.user.email = user.email;
+  }
+
+  return event;
+}
+
+/**
+ * Setup capture with the active config and a handler for built events
+ */
+export function setupCapture(config: BritePulseNodeConfig, handler: CaptureHandler): void {
+  activeConfig = config;
+  captureHandler = handler;
+}
+
+export function teardownCapture(): void {
+  activeConfig = null;
+  captureHandler = null;
+}
+
+/**
+ * Capture an error
+ * Request details default to the current request context (see runWithRequest)
+ */
+export function captureError(error: unknown, request?: RequestInfo): void {
+  if (!captureHandler || !activeConfig) return;
+
+  try {
+    const current = getCurrentRequest();
+    const event = createErrorEvent(error, { ...current, ...request }, activeConfig);
+    captureHandler(event);
+  } catch (captureFailure) {
+    // Never let error reporting throw into the host application
+    if (activeConfig.debug) {
+      console.error('[BritePulse] Failed to capture error:', captureFailure);
+    }
+  }
+}
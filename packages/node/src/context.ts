@@ -0,0 +1,66 @@
+/**
+ * Request Context Module
+ * Tracks the current request (and its trace ID) across async calls
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { RequestInfo } from './types.js';
+
+// Header injected by the browser SDK's trace interceptor
+export const TRACE_HEADER = 'x-trace-id';
+
+// Cloud Run and most load balancers set one of these
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-cloud-trace-context'];
+
+type Headers = Record<string, string | string[] | undefined>;
+
+const storage = new AsyncLocalStorage<RequestInfo>();
+
+function firstHeader(headers: Headers, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build request info from an incoming request's method, URL and headers
+ */
+export function extractRequestInfo(request: {
+  method?: string;
+  url?: string;
+  headers: Headers;
+}): RequestInfo {
+  let requestId: string | undefined;
+  for (const name of REQUEST_ID_HEADERS) {
+    requestId = firstHeader(request.headers, name);
+    if (requestId) break;
+  }
+
+  return {
+    method: request.method,
+    url: request.url,
+    traceId: firstHeader(request.headers, TRACE_HEADER),
+    requestId,
+  };
+}
+
+/**
+ * Run a function with request info available to captureError
+ */
+export function runWithRequest<T>(info: RequestInfo, fn: () => T): T {
+  return storage.run(info, fn);
+}
+
+/**
+ * Request info for the current async context, if any
+ */
+export function getCurrentRequest(): RequestInfo | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Attach the authenticated user to the current request context
+ */
+export function setRequestUser(user: RequestInfo['user']): void {
+  const current = storage.getStore();
+  if (current) current.user = user;
+}
@@ -0,0 +1,85 @@
+/**
+ * Express Integration
+ * Request context middleware and error middleware
+ *
+ *   app.use(britepulse.expressRequestHandler());
+ *   // ...routes
+ *   app.use(britepulse.expressErrorHandler());
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import { extractRequestInfo, runWithRequest } from './context.js';
+import { captureError } from './capture.js';
+
+// Structural types so the SDK does not depend on express
+interface ExpressRequest {
+  method: string;
+  url: string;
+  originalUrl?: string;
+  baseUrl?: string;
+  headers: IncomingHttpHeaders;
+  route?: { path?: string };
+}
+
+interface ExpressResponse {
+  statusCode: number;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+export interface ExpressErrorHandlerOptions {
+  /** Decide which errors are reported (default: HTTP status >= 500) */
+  shouldCapture?: (error: unknown, statusCode: number) => boolean;
+}
+
+/**
+ * Read the HTTP status an error maps to (http-errors / APIError style)
+ */
+function getErrorStatus(error: unknown, res: ExpressResponse): number {
+  if (error && typeof error === 'object') {
+    const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+    if (typeof statusCode === 'number') return statusCode;
+    if (typeof status === 'number') return status;
+  }
+  return res.statusCode >= 400 ? res.statusCode : 500;
+}
+
+/**
+ * Make the request (and its x-trace-id) available to captureError for the rest of the request
+ * Register before your routes
+ */
+export function expressRequestHandler() {
+  return (req: ExpressRequest, _res: ExpressResponse, next: NextFunction): void => {
+    const info = extractRequestInfo({
+      method: req.method,
+      url: req.originalUrl || req.url,
+      headers: req.headers,
+    });
+    runWithRequest(info, () => next());
+  };
+}
+
+/**
+ * Report errors passed to next(); the error is always forwarded to the next error handler
+ * Register after your routes, before your own error handler
+ */
+export function expressErrorHandler(options: ExpressErrorHandlerOptions = {}) {
+  const shouldCapture = options.shouldCapture || ((_error: unknown, status: number) => status >= 500);
+
+  return (error: unknown, req: ExpressRequest, res: ExpressResponse, next: NextFunction): void => {
+    const statusCode = getErrorStatus(error, res);
+    if (shouldCapture(error, statusCode)) {
+      const info = extractRequestInfo({
+        method: req.method,
+        url: req.originalUrl || req.url,
+        headers: req.headers,
+      });
+      captureError(error, {
+        ...info,
+        route: req.route?.path ? `${req.baseUrl || ''}${req.route.path}` : undefined,
+        statusCode,
+      });
+    }
+    next(error);
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Fastify Integration
+ * onRequest hook for request context and onError hook for capture
+ *
+ *   britepulse.setupFastify(fastify);
+ */
+
+import type { IncomingHttpHeaders } from 'http';
+import { extractRequestInfo, runWithRequest } from './context.js';
+import { captureError } from './capture.js';
+
+// Structural types so the SDK does not depend on fastify
+interface FastifyRequest {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  routeOptions?: { url?: string };
+}
+
+interface FastifyReply {
+  statusCode: number;
+}
+
+type HookDone = () => void;
+
+interface FastifyInstance {
+  addHook(
+    name: 'onRequest',
+    hook: (request: FastifyRequest, reply: FastifyReply, done: HookDone) => void
+  ): unknown;
+  addHook(
+    name: 'onError',
+    hook: (request: FastifyRequest, reply: FastifyReply, error: Error, done: HookDone) => void
+  ): unknown;
+}
+
+export interface FastifyOptions {
+  /** Decide which errors are reported (default: HTTP status >= 500) */
+  shouldCapture?: (error: Error, statusCode: number) => boolean;
+}
+
+/**
+ * Register BritePulse hooks on a Fastify instance
+ * Call on the root instance so hooks apply to every route
+ */
+export function setupFastify(fastify: FastifyInstance, options: FastifyOptions = {}): void {
+  const shouldCapture = options.shouldCapture || ((_error: Error, status: number) => status >= 500);
+
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    const info = extractRequestInfo(request);
+    runWithRequest(info, () => done());
+  });
+
+  fastify.addHook('onError', (request, reply, error, done) => {
+    const errorStatus = (error as Error & { statusCode?: number }).statusCode;
+    const statusCode = errorStatus || (reply.statusCode >= 400 ? reply.statusCode : 500);
+    if (shouldCapture(error, statusCode)) {
+      captureError(error, {
+        ...extractRequestInfo(request),
+        route: request.routeOptions?.url,
+        statusCode,
+      });
+    }
+    done();
+  });
+}
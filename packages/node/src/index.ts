@@ -0,0 +1,107 @@
+/**
+ * BritePulse Node SDK
+ * Server-side backend_error capture with trace correlation
+ */
+
+import type { BritePulseNodeConfig, RequestInfo } from './types.js';
+import { createTransport } from './transport.js';
+import { setupCapture, teardownCapture, captureError as captureWithContext } from './capture.js';
+import { setupProcessHandlers, teardownProcessHandlers } from './process.js';
+
+/**
+ * BritePulse Node SDK instance
+ */
+export interface BritePulseNode {
+  /** Capture an error (request details default to the current request context) */
+  captureError: (error: unknown, request?: RequestInfo) => void;
+  /** Send queued events; resolves false if the timeout elapses first */
+  flush: (timeoutMs?: number) => Promise<boolean>;
+  /** Flush and remove process hooks */
+  close: (timeoutMs?: number) => Promise<boolean>;
+}
+
+let instance: BritePulseNode | null = null;
+
+/**
+ * Initialize BritePulse for this process
+ */
+export function init(config: BritePulseNodeConfig): BritePulseNode {
+  // Validate config
+  if (!config.apiKey) {
+    throw new Error('[BritePulse] apiKey is required');
+  }
+  if (!config.apiKey.startsWith('sk_')) {
+    throw new Error('[BritePulse] apiKey must be a server key (starting with sk_)');
+  }
+  if (instance) {
+    throw new Error('[BritePulse] Already initialized - call close() first');
+  }
+
+  // Default config values
+  const fullConfig: BritePulseNodeConfig = {
+    captureProcessErrors: true,
+    exitOnUncaughtException: true,
+    redact: true,
+    debug: false,
+    ...config,
+  };
+
+  const transport = createTransport(fullConfig);
+
+  setupCapture(fullConfig, (event) => {
+    const final = fullConfig.beforeSend ? fullConfig.beforeSend(event) : event;
+    if (final) transport.enqueue(final);
+  });
+
+  if (fullConfig.captureProcessErrors) {
+    setupProcessHandlers(fullConfig, transport.flush);
+  }
+
+  instance = {
+    captureError: captureWithContext,
+    flush: transport.flush,
+    close: async (timeoutMs) => {
+      teardownProcessHandlers();
+      const flushed = await transport.flush(timeoutMs);
+      teardownCapture();
+      instance = null;
+      return flushed;
+    },
+  };
+
+  if (fullConfig.debug) {
+    console.log('[BritePulse] Initialized', { apiUrl: fullConfig.apiUrl, serviceName: fullConfig.serviceName });
+  }
+
+  return instance;
+}
+
+/**
+ * Get the current SDK instance
+ */
+export function getInstance(): BritePulseNode | null {
+  return instance;
+}
+
+/**
+ * Capture an error with the initialized instance (no-op before init)
+ */
+export function captureError(error: unknown, request?: RequestInfo): void {
+  instance?.captureError(error, request);
+}
+
+/**
+ * Flush queued events with the initialized instance
+ */
+export async function flush(timeoutMs?: number): Promise<boolean> {
+  return instance ? instance.flush(timeoutMs) : true;
+}
+
+export { expressRequestHandler, expressErrorHandler } from './express.js';
+export type { ExpressErrorHandlerOptions } from './express.js';
+export { setupFastify } from './fastify.js';
+export type { FastifyOptions } from './fastify.js';
+export { runWithRequest, getCurrentRequest, setRequestUser, extractRequestInfo, TRACE_HEADER } from './context.js';
+
+// Export types
+export type { BritePulseNodeConfig, RequestInfo, BackendEvent } from './types.js';
@@ -0,0 +1,48 @@
+/**
+ * Process Hooks
+ * Reports uncaughtException and unhandledRejection
+ */
+
+import type { BritePulseNodeConfig } from './types.js';
+import { captureError } from './capture.js';
+
+// Time allowed to deliver the crash report before exiting
+const EXIT_FLUSH_TIMEOUT_MS = 2000;
+
+type FlushFn = (timeoutMs?: number) => Promise<boolean>;
+
+let uncaughtListener: ((error: Error) => void) | null = null;
+let rejectionListener: ((reason: unknown) => void) | null = null;
+
+/**
+ * Install process listeners
+ * Listening for these events disables Node's default crash, so when
+ * exitOnUncaughtException is set (default) we report, flush and exit(1)
+ * to keep the same behavior
+ */
+export function setupProcessHandlers(config: BritePulseNodeConfig, flush: FlushFn): void {
+  if (uncaughtListener) return;
+
+  const exitAfterReport = config.exitOnUncaughtException !== false;
+
+  const reportAndMaybeExit = (error: unknown) => {
+    captureError(error);
+    if (!exitAfterReport) return;
+
+    console.error(error);
+    flush(EXIT_FLUSH_TIMEOUT_MS).finally(() => process.exit(1));
+  };
+
+  uncaughtListener = (error) => reportAndMaybeExit(error);
+  rejectionListener = (reason) => reportAndMaybeExit(reason);
+
+  process.on('uncaughtException', uncaughtListener);
+  process.on('unhandledRejection', rejectionListener);
+}
+
+export function teardownProcessHandlers(): void {
+  if (uncaughtListener) process.off('uncaughtException', uncaughtListener);
+  if (rejectionListener) process.off('unhandledRejection', rejectionListener);
+  uncaughtListener = null;
+  rejectionListener = null;
+}
@@ -0,0 +1,34 @@
+/**
+ * Local Redaction
+ * Strips PII from error text before it is sent; the API applies the app's
+ * redaction profile again on ingestion
+ */
+
+const REDACTIONS: Array<[RegExp, string]> = [
+  [
+    /(api[_-]?key|token|password|secret|credential|bearer|authorization)['":\s]*[=:]\s*['"]?[\w\-.]{16,}['"]?/gi,
+    '[REDACTED_SECRET]',
+  ],
+  [/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '[REDACTED_EMAIL]'],
+  [/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, '[REDACTED_CARD]'],
+  [/\b\d{3}[-\s]?\d{2}[-\s]?\d{4}\b/g, '[REDACTED_SSN]'],
+  [/(\+?1?[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/g, '[REDACTED_PHONE]'],
+];
+
+// Query strings often carry tokens and identifiers
+const QUERY_STRING = /\?.*$/;
+
+export function redactText(text: string): string {
+  let result = text;
+  for (const [pattern, token] of REDACTIONS) {
+    result = result.replace(pattern, token);
+  }
+  return result;
+}
+
+/**
+ * Strip the query string from a URL and redact the path
+ */
+export function redactUrl(url: string): string {
+  return redactText(url.replace(QUERY_STRING, ''));
+}
@@ -0,0 +1,139 @@
+/**
+ * Transport Module
+ * Queues events and sends them to the BritePulse API in batches with retries
+ */
+
+import type { BackendEvent, BritePulseNodeConfig } from './types.js';
+
+const DEFAULT_API_URL = 'https://britepulse-api-29820647719.us-central1.run.app';
+
+// Reported with each batch so the console can show which SDK versions are installed
+const SDK_INFO = { name: 'britepulse-node', version: '0.1.0' };
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 2000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Events beyond this are dropped rather than growing memory without bound
+const MAX_QUEUE_SIZE = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Create transport
+ */
+export function createTransport(config: BritePulseNodeConfig) {
+  const apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+  const batchSize = Math.min(config.batchSize || DEFAULT_BATCH_SIZE, 100);
+  const flushIntervalMs = config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const queue: BackendEvent[] = [];
+  const inFlight = new Set<Promise<void>>();
+  let timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Send one batch, retrying network errors, 429 and 5xx with exponential backoff
+   */
+  async function sendBatch(events: BackendEvent[]): Promise<boolean> {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+
+      try {
+        const response = await fetch(`${apiUrl}/events`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-API-Key': config.apiKey,
+          },
+          body: JSON.stringify({ events, sdk: SDK_INFO }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+          if (config.debug) {
+            console.log('[BritePulse] Events sent:', await response.json());
+          }
+          return true;
+        }
+
+        const retryable = response.status === 429 || response.status >= 500;
+        if (config.debug) {
+          console.error('[BritePulse] API error:', response.status, await response.text());
+        }
+        if (!retryable) return false;
+      } catch (error) {
+        if (config.debug) {
+          console.error('[BritePulse] Failed to send events:', error);
+        }
+      }
+    }
+    return false;
+  }
+
+  function drain(): void {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length > 0) {
+      const batch = queue.splice(0, batchSize);
+      const pending = sendBatch(batch).then(() => undefined);
+      inFlight.add(pending);
+      pending.finally(() => inFlight.delete(pending));
+    }
+  }
+
+  /**
+   * Queue an event; a full batch is sent immediately, otherwise after flushIntervalMs
+   */
+  function enqueue(event: BackendEvent): void {
+    if (queue.length >= MAX_QUEUE_SIZE) {
+      if (config.debug) {
+        console.warn('[BritePulse] Queue full, dropping event');
+      }
+      return;
+    }
+
+    queue.push(event);
+    if (queue.length >= batchSize) {
+      drain();
+    } else if (!timer) {
+      timer = setTimeout(drain, flushIntervalMs);
+      // Don't keep the process alive just to send telemetry
+      timer.unref();
+    }
+  }
+
+  /**
+   * Send everything queued and wait for in-flight batches
+   * Resolves false if the timeout elapses first
+   */
+  async function flush(timeoutMs = REQUEST_TIMEOUT_MS): Promise<boolean> {
+    drain();
+    if (inFlight.size === 0) return true;
+
+    let timeout: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timeout = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const done = Promise.all([...inFlight]).then(() => true);
+
+    const result = await Promise.race([done, timedOut]);
+    clearTimeout(timeout);
+    return result;
+  }
+
+  return {
+    enqueue,
+    flush,
+  };
+}
+
+export type Transport = ReturnType<typeof createTransport>;
@@ -0,0 +1,85 @@
+/**
+ * BritePulse Node SDK Types
+ */
+
+export interface BritePulseNodeConfig {
+  /** API key (server key starting with sk_) */
+  apiKey: string;
+  /** API endpoint URL */
+  apiUrl?: string;
+  /** Service name (defaults to K_SERVICE on Cloud Run) */
+  serviceName?: string;
+  /** Service revision (defaults to K_REVISION on Cloud Run) */
+  revision?: string;
+  /** App version (commit SHA or build ID) */
+  version?: string;
+  /** Capture uncaughtException and unhandledRejection */
+  captureProcessErrors?: boolean;
+  /** Exit after reporting an uncaught exception (Node's default behavior) */
+  exitOnUncaughtException?: boolean;
+  /** Redact PII from messages and stacks before they leave the process */
+  redact?: boolean;
+  /** Max events per request (API limit is 100) */
+  batchSize?: number;
+  /** How long to wait for more events before sending a batch */
+  flushIntervalMs?: number;
+  /** Retries for failed batches (network errors, 429, 5xx) */
+  maxRetries?: number;
+  /** Inspect or drop an event before it is queued; return null to drop */
+  beforeSend?: (event: BackendEvent) => BackendEvent | null;
+  /** Debug mode */
+  debug?: boolean;
+}
+
+/**
+ * Request details attached to a captured error
+ */
+export interface RequestInfo {
+  method?: string;
+  url?: string;
+  /** Route pattern (e.g. /users/:id) when the framework exposes it */
+  route?: string;
+  statusCode?: number;
+  traceId?: string;
+  requestId?: string;
+  user?: {
+    id?: string;
+    role?: string;
+    email?: string;
+  };
+}
+
+export interface BackendErrorPayload {
+  error_type: string;
+  message: string;
+  stack?: string;
+  service_name: string;
+  revision?: string;
+  endpoint?: string;
+  http_method?: string;
+  http_status?: number;
+}
+
+export interface RequestMetadata {
+  request_id?: string;
+  service_name?: string;
+  revision?: string;
+  endpoint?: string;
+  http_method?: string;
+  http_status?: number;
+}
+
+export interface BackendEvent {
+  event_type: 'backend_error';
+  timestamp: string;
+  trace_id?: string;
+  route_or_url: string;
+  version: string;
+  user?: {
+    user_id?: string;
+    role?: string;
+    email?: string;
+  };
+  payload: BackendErrorPayload;
+  request_metadata: RequestMetadata;
+}
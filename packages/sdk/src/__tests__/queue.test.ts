@@ -0,0 +1,248 @@
+/**
+ * Event queue tests - Batching, backoff, beacons on pagehide and per-tab persistence
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createEventQueue, type EventQueue } from '../queue.js';
+import { createErrorThrottle } from '../throttle.js';
+import type { ApiClient, EventWithAttachments, SendResult } from '../api.js';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length(): number {
+    return this.items.size;
+  }
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+let storage: MemoryStorage;
+let win: EventTarget;
+const queues: EventQueue[] = [];
+
+function event(message: string): EventWithAttachments {
+  return {
+    event_type: 'frontend_error',
+    timestamp: '2026-01-10T12:00:00.000Z',
+    route_or_url: '/checkout',
+    payload: { message },
+  } as unknown as EventWithAttachments;
+}
+
+function fakeClient(result: SendResult = { status: 'sent' }) {
+  return {
+    sendEvents: vi.fn().mockResolvedValue(result),
+    sendBeacon: vi.fn().mockReturnValue(true),
+  };
+}
+
+function createQueue(client: ReturnType<typeof fakeClient>, overrides = {}): EventQueue {
+  const queue = createEventQueue(
+    { apiKey: 'pk_test', batchSize: 2, flushInterval: 1000, ...overrides },
+    client as unknown as ApiClient
+  );
+  queues.push(queue);
+  return queue;
+}
+
+function sentMessages(client: ReturnType<typeof fakeClient>, call = 0): string[] {
+  return client.sendEvents.mock.calls[call][0].map((e: { payload: { message: string } }) => e.payload.message);
+}
+
+function storedQueues(): Array<{ key: string; released?: boolean; messages: string[] }> {
+  const result = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i)!;
+    const stored = JSON.parse(storage.getItem(key)!);
+    result.push({
+      key,
+      released: stored.released,
+      messages: stored.entries.map((entry: { event: { payload: { message: string } } }) => entry.event.payload.message),
+    });
+  }
+  return result;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2026-01-10T12:00:00.000Z') });
+  storage = new MemoryStorage();
+  win = new EventTarget();
+  vi.stubGlobal('localStorage', storage);
+  vi.stubGlobal('window', win);
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+afterEach(() => {
+  queues.splice(0).forEach((queue) => queue.destroy());
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createEventQueue', () => {
+  it('sends a full batch at once and smaller ones on the flush interval', async () => {
+    const client = fakeClient();
+    const queue = createQueue(client);
+
+    queue.enqueue(event('one'));
+    expect(storedQueues()).toEqual([{ key: expect.stringMatching(/^britepulse_queue:/), messages: ['one'] }]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(client.sendEvents).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sentMessages(client)).toEqual(['one']);
+
+    queue.enqueue(event('two'));
+    queue.enqueue(event('three'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sentMessages(client, 1)).toEqual(['two', 'three']);
+    expect(queue.size()).toBe(0);
+    expect(storage.length).toBe(0);
+  });
+
+  it('backs off exponentially after retryable failures and honors Retry-After', async () => {
+    // Jitter picks 75% of the exponential delay
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const client = fakeClient({ status: 'retry' });
+    const queue = createQueue(client);
+
+    queue.enqueue(event('one'));
+    queue.enqueue(event('two'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(client.sendEvents).toHaveBeenCalledTimes(1);
+
+    // Events queued while backing off wait for the retry timer
+    queue.enqueue(event('three'));
+    await expect(queue.send(event('feedback'))).resolves.toBe('queued');
+    expect(client.sendEvents).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(client.sendEvents).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.sendEvents).toHaveBeenCalledTimes(2);
+
+    client.sendEvents.mockResolvedValueOnce({ status: 'retry', retryAfterMs: 30_000 });
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(client.sendEvents).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(client.sendEvents).toHaveBeenCalledTimes(3);
+
+    client.sendEvents.mockResolvedValue({ status: 'sent' });
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.sendEvents).toHaveBeenCalledTimes(5);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('drops batches the API rejects', async () => {
+    const client = fakeClient({ status: 'rejected' });
+    const queue = createQueue(client);
+
+    queue.enqueue(event('one'));
+    queue.enqueue(event('two'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(queue.size()).toBe(0);
+    expect(storage.length).toBe(0);
+  });
+
+  it('hands queued events to sendBeacon on pagehide and releases what is left', () => {
+    const client = fakeClient();
+    const queue = createQueue(client, { batchSize: 10 });
+    ['one', 'two', 'three'].forEach((message) => queue.enqueue(event(message)));
+
+    win.dispatchEvent(new Event('pagehide'));
+    expect(client.sendBeacon).toHaveBeenCalledTimes(1);
+    expect(client.sendBeacon.mock.calls[0][0]).toHaveLength(3);
+    expect(storage.length).toBe(0);
+
+    client.sendBeacon.mockReturnValue(false);
+    queue.enqueue(event('four'));
+    win.dispatchEvent(new Event('pagehide'));
+    expect(storedQueues()).toEqual([expect.objectContaining({ released: true, messages: ['four'] })]);
+  });
+
+  it('includes pending repeat counts from the throttle in the pagehide beacon', () => {
+    const client = fakeClient();
+    const queue = createQueue(client, { batchSize: 10 });
+    const throttle = createErrorThrottle({ apiKey: 'pk_test' }, queue.enqueue);
+    queue.onPageHide(throttle.flush);
+
+    const error = { type: 'TypeError', message: 'cart is undefined' };
+    for (let i = 0; i < 3; i++) throttle.capture(error, event('cart is undefined'));
+    expect(queue.size()).toBe(1);
+
+    win.dispatchEvent(new Event('pagehide'));
+
+    expect(client.sendBeacon.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ payload: { message: 'cart is undefined' } }),
+      expect.objectContaining({ repeat_count: 2 }),
+    ]);
+    expect(storage.length).toBe(0);
+  });
+});
+
+describe('persistence across tabs', () => {
+  it('keeps each open tab to its own entries', async () => {
+    const clientA = fakeClient({ status: 'retry' });
+    const tabA = createQueue(clientA);
+    tabA.enqueue(event('from A'));
+
+    const clientB = fakeClient();
+    const tabB = createQueue(clientB);
+    tabB.enqueue(event('from B'));
+    await tabB.flush();
+
+    expect(tabB.size()).toBe(0);
+    expect(sentMessages(clientB)).toEqual(['from B']);
+    expect(storedQueues()).toEqual([expect.objectContaining({ messages: ['from A'] })]);
+  });
+
+  it('adopts released and stale stores, and the old owner drops what was taken over', async () => {
+    const clientA = fakeClient();
+    clientA.sendBeacon.mockReturnValue(false);
+    const tabA = createQueue(clientA);
+    tabA.enqueue(event('from A'));
+    win.dispatchEvent(new Event('pagehide'));
+
+    const clientB = fakeClient();
+    const tabB = createQueue(clientB);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sentMessages(clientB)).toEqual(['from A']);
+
+    // Tab A comes back from the back/forward cache; its entries now belong to tab B
+    win.dispatchEvent(new Event('pageshow'));
+    await tabA.flush();
+    expect(tabA.size()).toBe(0);
+    expect(clientA.sendEvents).not.toHaveBeenCalled();
+    expect(tabB.size()).toBe(0);
+  });
+
+  it('adopts stores from tabs that closed without pagehide and the legacy shared key', async () => {
+    storage.setItem(
+      'britepulse_queue:crashed-tab',
+      JSON.stringify({ updated_at: Date.now() - 11 * 60 * 1000, entries: [{ id: 'e1', event: event('crashed') }] })
+    );
+    storage.setItem(
+      'britepulse_queue:live-tab',
+      JSON.stringify({ updated_at: Date.now() - 30 * 1000, entries: [{ id: 'e2', event: event('live') }] })
+    );
+    storage.setItem('britepulse_queue', JSON.stringify([{ id: 'e3', event: event('legacy') }]));
+
+    const client = fakeClient();
+    const queue = createQueue(client, { batchSize: 10 });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sentMessages(client)).toEqual(['crashed', 'legacy']);
+    expect(queue.size()).toBe(0);
+    expect(storedQueues()).toEqual([expect.objectContaining({ key: 'britepulse_queue:live-tab' })]);
+  });
+});
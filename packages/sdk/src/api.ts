@@ -3,16 +3,52 @@
  * Handles communication with BritePulse API
  */
 
-import type { BritePulseConfig, EventPayload, FeedbackData, ErrorData, ContextData, AttachmentData } from './types.js';
+import type {
+  BritePulseConfig,
+  EventPayload,
+  FeedbackData,
+  ErrorData,
+  ContextData,
+  AttachmentData,
+  RemoteConfig,
+} from './types.js';
 
 /**
  * Event with attachments (extended for feedback)
  */
-interface EventWithAttachments extends EventPayload {
+export interface EventWithAttachments extends EventPayload {
   attachments?: AttachmentData[];
 }
 
-const DEFAULT_API_URL = 'https://britepulse-api-29820647719.us-central1.run.app';
+/**
+ * Outcome of a send attempt
+ * - sent: accepted by the API
+ * - retry: network error, 429 or 5xx; safe to send again later
+ * - rejected: the API refused the batch (bad key, invalid payload); retrying won't help
+ */
+export interface SendResult {
+  status: 'sent' | 'retry' | 'rejected';
+  retryAfterMs?: number;
+}
+
+// sendBeacon payloads above this are refused by most browsers
+const MAX_BEACON_BYTES = 60 * 1024;
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export const DEFAULT_API_URL = 'https://britepulse-api-29820647719.us-central1.run.app';
+
+// Reported with each batch so the console can show which SDK versions are installed
+const SDK_INFO = { name: 'britepulse-js', version: '0.1.0' };
 
 /**
  * Build user object with only defined values (Firestore-safe)
@@ -38,7 +74,7 @@ export function createApiClient(config: BritePulseConfig) {
   /**
    * Send events to the API
    */
-  async function sendEvents(events: (EventPayload | EventWithAttachments)[]): Promise<boolean> {
+  async function sendEvents(events: (EventPayload | EventWithAttachments)[]): Promise<SendResult> {
     try {
       const response = await fetch(`${apiUrl}/events`, {
         method: 'POST',
@@ -46,14 +82,17 @@ export function createApiClient(config: BritePulseConfig) {
           'Content-Type': 'application/json',
           'X-API-Key': apiKey,
         },
-        body: JSON.stringify({ events }),
+        body: JSON.stringify({ events, sdk: SDK_INFO }),
       });
 
       if (!response.ok) {
         if (config.debug) {
           console.error('[BritePulse] API error:', response.status, await response.text());
         }
-        return false;
+        if (response.status === 429 || response.status >= 500) {
+          return { status: 'retry', retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) };
+        }
+        return { status: 'rejected' };
       }
 
       if (config.debug) {
@@ -61,20 +100,60 @@ export function createApiClient(config: BritePulseConfig) {
         console.log('[BritePulse] Events sent:', result);
       }
 
-      return true;
+      return { status: 'sent' };
     } catch (error) {
       if (config.debug) {
         console.error('[BritePulse] Failed to send events:', error);
       }
+      return { status: 'retry' };
+    }
+  }
+
+  /**
+   * Hand events to the browser to deliver after the page unloads
+   * Beacons can't set headers, so the public key goes in the query string and
+   * the body is sent as text/plain to avoid a CORS preflight
+   */
+  function sendBeacon(events: (EventPayload | EventWithAttachments)[]): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+    const body = JSON.stringify({ events, sdk: SDK_INFO });
+    if (body.length > MAX_BEACON_BYTES) return false;
+
+    try {
+      return navigator.sendBeacon(
+        `${apiUrl}/events?key=${encodeURIComponent(apiKey)}`,
+        new Blob([body], { type: 'text/plain' })
+      );
+    } catch {
       return false;
     }
   }
 
   /**
-   * Send a single event
+   * Fetch ingestion settings for this key's environment
+   * Returns null on failure so callers can fall back to sending everything
    */
-  async function sendEvent(event: EventPayload): Promise<boolean> {
-    return sendEvents([event]);
+  async function fetchConfig(): Promise<RemoteConfig | null> {
+    try {
+      const response = await fetch(`${apiUrl}/events/config`, {
+        headers: { 'X-API-Key': apiKey },
+      });
+      if (!response.ok) {
+        if (config.debug) {
+          console.error('[BritePulse] Failed to load config:', response.status);
+        }
+        return null;
+      }
+      const body = (await response.json()) as { data: RemoteConfig };
+      return body.data;
+    } catch (error) {
+      if (config.debug) {
+        console.error('[BritePulse] Failed to load config:', error);
+      }
+      return null;
+    }
   }
 
   /**
@@ -83,6 +162,7 @@ export function createApiClient(config: BritePulseConfig) {
   function createFeedbackEvent(feedback: FeedbackData, context: ContextData): EventWithAttachments {
     const event: EventWithAttachments = {
       event_type: 'feedback',
+      timestamp: new Date().toISOString(),
       session_id: context.sessionId,
       trace_id: context.traceId,
       route_or_url: context.route || '/',
@@ -100,6 +180,9 @@ export function createApiClient(config: BritePulseConfig) {
     if (feedback.attachments && feedback.attachments.length > 0) {
       event.attachments = feedback.attachments;
     }
+    if (context.breadcrumbs && context.breadcrumbs.length > 0) {
+      event.breadcrumbs = context.breadcrumbs;
+    }
 
     return event;
   }
@@ -108,8 +191,9 @@ export function createApiClient(config: BritePulseConfig) {
    * Create event payload from error data
    */
   function createErrorEvent(error: ErrorData, context: ContextData): EventPayload {
-    return {
+    const event: EventPayload = {
       event_type: 'frontend_error',
+      timestamp: new Date().toISOString(),
       session_id: context.sessionId,
       trace_id: context.traceId,
       route_or_url: context.route || '/',
@@ -125,11 +209,18 @@ export function createApiClient(config: BritePulseConfig) {
         column_number: error.columnNumber,
       },
     };
+
+    if (context.breadcrumbs && context.breadcrumbs.length > 0) {
+      event.breadcrumbs = context.breadcrumbs;
+    }
+
+    return event;
   }
 
   return {
     sendEvents,
-    sendEvent,
+    sendBeacon,
+    fetchConfig,
     createFeedbackEvent,
     createErrorEvent,
   };
@@ -1,13 +1,16 @@
 /**
  * Context Collection Module
- * Collects session, trace, route, and version information
+ * Collects session, trace, route, version and breadcrumb information
  */
 
-import type { ContextData, BritePulseConfig, ErrorData } from './types.js';
+import type { ContextData, BritePulseConfig, ErrorData, Breadcrumb } from './types.js';
 
 const SESSION_KEY = 'britepulse_session_id';
 const TRACE_HEADER = 'x-trace-id';
 
+const DEFAULT_MAX_BREADCRUMBS = 50;
+const MAX_BREADCRUMB_MESSAGE_LENGTH = 300;
+
 // Stored user context that can be updated after init
 let currentUser: { id?: string; role?: string; email?: string } | undefined;
 
@@ -21,6 +24,18 @@ let originalFetch: typeof fetch | null = null;
 let originalXHROpen: typeof XMLHttpRequest.prototype.open | null = null;
 let originalXHRSend: typeof XMLHttpRequest.prototype.send | null = null;
 
+// Breadcrumb ring buffer (oldest first once unrolled)
+let breadcrumbs: Breadcrumb[] = [];
+let breadcrumbStart = 0;
+let maxBreadcrumbs = 0;
+
+// Originals replaced for breadcrumb capture
+let originalPushState: typeof history.pushState | null = null;
+let originalReplaceState: typeof history.replaceState | null = null;
+let originalConsoleWarn: typeof console.warn | null = null;
+let originalConsoleError: typeof console.error | null = null;
+let lastRoute = '';
+
 /**
  * Set the network error handler (called from SDK init)
  */
@@ -63,7 +78,7 @@ export function getUser(): { id?: string; role?: string; email?: string } | unde
 /**
  * Generate a unique ID (UUID v4 format)
  */
-function generateId(): string {
+export function generateId(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
     const r = (Math.random() * 16) | 0;
     const v = c === 'x' ? r : (r & 0x3) | 0x8;
@@ -130,14 +145,9 @@ const SENSITIVE_PARAMS = [
 ];
 
 /**
- * Get current route (URL path) with sensitive query params redacted
+ * Join a path with its query string, sensitive query params redacted
  */
-export function getCurrentRoute(): string {
-  if (typeof window === 'undefined') return '';
-
-  const pathname = window.location.pathname;
-  const search = window.location.search;
-
+function redactQuery(pathname: string, search: string): string {
   if (!search) return pathname;
 
   // Redact sensitive query parameters
@@ -159,6 +169,204 @@ export function getCurrentRoute(): string {
   }
 }
 
+/**
+ * Get current route (URL path) with sensitive query params redacted
+ */
+export function getCurrentRoute(): string {
+  if (typeof window === 'undefined') return '';
+  return redactQuery(window.location.pathname, window.location.search);
+}
+
+/**
+ * Redact a request URL for breadcrumbs; same-origin URLs are shortened to their path
+ */
+function redactRequestUrl(url: string): string {
+  try {
+    const parsed = new URL(url, window.location.href);
+    const path = redactQuery(parsed.pathname, parsed.search);
+    return parsed.origin === window.location.origin ? path : parsed.origin + path;
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+// ============ Breadcrumbs ============
+
+/**
+ * Record a breadcrumb; the oldest is overwritten once the buffer is full
+ */
+export function addBreadcrumb(crumb: Omit<Breadcrumb, 'timestamp'>): void {
+  if (maxBreadcrumbs <= 0) return;
+
+  const entry: Breadcrumb = {
+    ...crumb,
+    message: crumb.message.slice(0, MAX_BREADCRUMB_MESSAGE_LENGTH),
+    timestamp: new Date().toISOString(),
+  };
+
+  if (breadcrumbs.length < maxBreadcrumbs) {
+    breadcrumbs.push(entry);
+  } else {
+    breadcrumbs[breadcrumbStart] = entry;
+    breadcrumbStart = (breadcrumbStart + 1) % maxBreadcrumbs;
+  }
+}
+
+/**
+ * Breadcrumbs recorded so far, oldest first
+ */
+export function getBreadcrumbs(): Breadcrumb[] {
+  return [...breadcrumbs.slice(breadcrumbStart), ...breadcrumbs.slice(0, breadcrumbStart)];
+}
+
+/**
+ * Short CSS-like summary of a clicked element (e.g. "form#checkout > button.btn-primary")
+ * Text content is left out since it often holds user data
+ */
+function describeElement(element: Element): string {
+  const parts: string[] = [];
+  let node: Element | null = element;
+
+  while (node && node !== document.body && parts.length < 3) {
+    let part = node.tagName.toLowerCase();
+    if (node.id) {
+      part += `#${node.id}`;
+    } else {
+      const classes = Array.from(node.classList).slice(0, 2);
+      if (classes.length > 0) part += `.${classes.join('.')}`;
+    }
+    const testId = node.getAttribute('data-testid');
+    if (testId) part += `[data-testid="${testId}"]`;
+    const label = node.getAttribute('aria-label');
+    if (label) part += `[aria-label="${label}"]`;
+
+    parts.unshift(part);
+    if (node.id) break; // ids are specific enough
+    node = node.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+function handleClick(event: MouseEvent): void {
+  const target = event.target instanceof Element ? event.target : null;
+  if (!target) return;
+  // Attribute the click to the interactive element rather than an icon inside it
+  const element = target.closest('a, button, input, select, textarea, label, [role="button"], [data-testid]') || target;
+  addBreadcrumb({ category: 'click', message: describeElement(element) });
+}
+
+function recordNavigation(): void {
+  const route = getCurrentRoute();
+  if (route === lastRoute) return;
+  addBreadcrumb({ category: 'navigation', message: `${lastRoute || '(initial)'} -> ${route}` });
+  lastRoute = route;
+}
+
+function formatConsoleArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+function wrapConsole(level: 'warn' | 'error'): typeof console.warn {
+  const original = console[level];
+  return function (...args: unknown[]) {
+    const message = args.map(formatConsoleArg).join(' ');
+    // Skip the SDK's own debug output
+    if (!message.startsWith('[BritePulse]')) {
+      addBreadcrumb({ category: 'console', level: level === 'warn' ? 'warning' : 'error', message });
+    }
+    return original.apply(console, args);
+  };
+}
+
+/**
+ * Start recording navigation, click and console breadcrumbs
+ * (fetch/XHR breadcrumbs are recorded by the trace interceptors)
+ */
+export function setupBreadcrumbs(config: BritePulseConfig): void {
+  maxBreadcrumbs = config.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS;
+  if (maxBreadcrumbs <= 0 || typeof window === 'undefined') return;
+  if (originalPushState) return; // Already set up
+
+  lastRoute = getCurrentRoute();
+
+  // SPA routers navigate through the history API without page loads
+  originalPushState = history.pushState;
+  originalReplaceState = history.replaceState;
+  const savedPushState = originalPushState;
+  const savedReplaceState = originalReplaceState;
+  history.pushState = function (...args: Parameters<typeof history.pushState>) {
+    savedPushState.apply(this, args);
+    recordNavigation();
+  };
+  history.replaceState = function (...args: Parameters<typeof history.replaceState>) {
+    savedReplaceState.apply(this, args);
+    recordNavigation();
+  };
+  window.addEventListener('popstate', recordNavigation);
+
+  // Capture phase so clicks are seen even if the app stops propagation
+  document.addEventListener('click', handleClick, true);
+
+  originalConsoleWarn = console.warn;
+  originalConsoleError = console.error;
+  console.warn = wrapConsole('warn');
+  console.error = wrapConsole('error');
+}
+
+/**
+ * Stop recording breadcrumbs and clear the buffer
+ */
+export function teardownBreadcrumbs(): void {
+  if (originalPushState && typeof window !== 'undefined') {
+    history.pushState = originalPushState;
+    history.replaceState = originalReplaceState!;
+    window.removeEventListener('popstate', recordNavigation);
+    document.removeEventListener('click', handleClick, true);
+    originalPushState = null;
+    originalReplaceState = null;
+  }
+  if (originalConsoleWarn) {
+    console.warn = originalConsoleWarn;
+    console.error = originalConsoleError!;
+    originalConsoleWarn = null;
+    originalConsoleError = null;
+  }
+
+  breadcrumbs = [];
+  breadcrumbStart = 0;
+  maxBreadcrumbs = 0;
+}
+
+/**
+ * Record a completed fetch/XHR request
+ */
+function addRequestBreadcrumb(
+  category: 'fetch' | 'xhr',
+  method: string,
+  url: string,
+  startedAt: number,
+  statusCode?: number
+): void {
+  const durationMs = Math.round(performance.now() - startedAt);
+  const status = statusCode ? String(statusCode) : 'failed';
+  const data: Record<string, string | number> = { method: method.toUpperCase(), duration_ms: durationMs };
+  if (statusCode) data.status_code = statusCode;
+
+  addBreadcrumb({
+    category,
+    level: !statusCode || statusCode >= 400 ? 'error' : 'info',
+    message: `${method.toUpperCase()} ${redactRequestUrl(url)} -> ${status} (${durationMs}ms)`,
+    data,
+  });
+}
+
 /**
  * Collect all context data
  */
@@ -170,6 +378,7 @@ export function collectContext(config: BritePulseConfig): ContextData {
     traceId: getTraceId(),
     route: getCurrentRoute(),
     version: config.version || 'unknown',
+    breadcrumbs: maxBreadcrumbs > 0 ? getBreadcrumbs() : undefined,
     user: user
       ? {
           id: user.id,
@@ -202,11 +411,15 @@ export function setupTraceInterceptor(): void {
     // Get URL and method for error reporting
     const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
     const method = init?.method || 'GET';
+    const startedAt = performance.now();
+    const ownRequest = isBritePulseUrl(url);
 
     return savedFetch.call(this, input, {
       ...init,
       headers,
     }).then((response) => {
+      if (!ownRequest) addRequestBreadcrumb('fetch', method, url, startedAt, response.status);
+
       // Capture 4xx/5xx errors (but not for BritePulse's own API)
       if (!response.ok && networkErrorHandler && !isBritePulseUrl(url)) {
         const errorData: ErrorData = {
@@ -221,6 +434,7 @@ export function setupTraceInterceptor(): void {
       }
       return response;
     }).catch((error) => {
+      if (!ownRequest) addRequestBreadcrumb('fetch', method, url, startedAt);
       // Capture network failures (connection errors, CORS, etc.)
       if (networkErrorHandler && !isBritePulseUrl(url)) {
         const errorData: ErrorData = {
@@ -284,6 +498,16 @@ export function setupXHRInterceptor(): void {
       // Headers already sent or not allowed
     }
 
+    if (xhr._britepulse_url && !isBritePulseUrl(xhr._britepulse_url)) {
+      const url = xhr._britepulse_url;
+      const method = xhr._britepulse_method || 'GET';
+      const startedAt = performance.now();
+      // Registered before the 4xx/5xx listener so the request shows up in that error's breadcrumbs
+      this.addEventListener('loadend', function () {
+        addRequestBreadcrumb('xhr', method, url, startedAt, this.status || undefined);
+      });
+    }
+
     // Add error capture listener
     if (networkErrorHandler && xhr._britepulse_url && !isBritePulseUrl(xhr._britepulse_url)) {
       const url = xhr._britepulse_url;
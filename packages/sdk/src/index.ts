@@ -3,13 +3,17 @@
  * Client-side feedback widget and error capture
  */
 
-import type { BritePulseConfig, FeedbackData, ErrorData } from './types.js';
-import { createApiClient, type ApiClient } from './api.js';
+import type { BritePulseConfig, FeedbackData, FeedbackSubmitResult, ErrorData } from './types.js';
+import { createApiClient, DEFAULT_API_URL } from './api.js';
+import { createEventQueue } from './queue.js';
+import { createErrorThrottle } from './throttle.js';
 import {
   collectContext,
   setupTraceInterceptor,
   setupXHRInterceptor,
   teardownInterceptors,
+  setupBreadcrumbs,
+  teardownBreadcrumbs,
   setNetworkErrorHandler,
   getSessionId,
   generateTraceId,
@@ -23,8 +27,10 @@ import { mountWidget, destroyWidget } from './widget/index.js';
  * BritePulse SDK instance
  */
 export interface BritePulse {
-  /** Submit feedback manually */
+  /** Submit feedback manually (true if sent, or saved to send when the connection recovers) */
   submitFeedback: (feedback: FeedbackData) => Promise<boolean>;
+  /** Send queued events now */
+  flush: () => Promise<void>;
   /** Capture an error manually */
   captureError: (error: Error | string, metadata?: Record<string, unknown>) => void;
   /** Capture React error boundary errors */
@@ -65,31 +71,43 @@ export function init(config: BritePulseConfig): BritePulse {
     ...config,
   };
 
-  // Create API client
+  // Create API client and the queue that batches, persists and retries events
   const apiClient = createApiClient(fullConfig);
+  const eventQueue = createEventQueue(fullConfig, apiClient);
+  const errorThrottle = createErrorThrottle(fullConfig, eventQueue.enqueue);
+  // Pending repeat counts must reach the queue before it beacons and releases its store
+  eventQueue.onPageHide(errorThrottle.flush);
+
+  // Environment toggles and sampling rules; errors are sent unthrottled by policy until this loads
+  void apiClient.fetchConfig().then((remoteConfig) => {
+    if (remoteConfig) errorThrottle.setRemoteConfig(remoteConfig);
+  });
 
   // Setup trace interceptors for correlation
   setupTraceInterceptor();
   setupXHRInterceptor();
 
+  // Record navigation, clicks and console output for event context
+  setupBreadcrumbs(fullConfig);
+
   // Handler for sending feedback
-  const handleFeedbackSubmit = async (feedback: FeedbackData): Promise<boolean> => {
+  const handleFeedbackSubmit = async (feedback: FeedbackData): Promise<FeedbackSubmitResult> => {
     const context = collectContext(fullConfig);
     const event = apiClient.createFeedbackEvent(feedback, context);
-    const success = await apiClient.sendEvent(event);
+    const result = await eventQueue.send(event);
 
     if (fullConfig.onFeedbackSubmit) {
       fullConfig.onFeedbackSubmit(feedback);
     }
 
-    return success;
+    return result;
   };
 
   // Handler for captured errors
   const handleErrorCapture = async (error: ErrorData): Promise<void> => {
     const context = collectContext(fullConfig);
     const event = apiClient.createErrorEvent(error, context);
-    await apiClient.sendEvent(event);
+    errorThrottle.capture(error, event);
 
     if (fullConfig.onErrorCapture) {
       fullConfig.onErrorCapture(error);
@@ -101,7 +119,8 @@ export function init(config: BritePulseConfig): BritePulse {
 
   // Setup network error capture (fetch/XHR 4xx/5xx)
   if (fullConfig.captureNetworkErrors) {
-    setNetworkErrorHandler(handleErrorCapture, fullConfig.apiUrl);
+    // Exclude the API itself so failed sends aren't reported as network errors
+    setNetworkErrorHandler(handleErrorCapture, fullConfig.apiUrl || DEFAULT_API_URL);
     if (fullConfig.debug) {
       console.log('[BritePulse] Network error capture enabled');
     }
@@ -112,7 +131,11 @@ export function init(config: BritePulseConfig): BritePulse {
 
   // Create instance
   instance = {
-    submitFeedback: handleFeedbackSubmit,
+    submitFeedback: async (feedback) => (await handleFeedbackSubmit(feedback)) !== 'failed',
+    flush: () => {
+      errorThrottle.flush();
+      return eventQueue.flush();
+    },
     captureError: (error, metadata) => captureError(error, metadata),
     captureComponentError,
     getSessionId,
@@ -127,8 +150,11 @@ export function init(config: BritePulseConfig): BritePulse {
     destroy: () => {
       teardownErrorCapture();
       teardownInterceptors();
+      teardownBreadcrumbs();
       setNetworkErrorHandler(null);
       destroyWidget();
+      errorThrottle.destroy();
+      eventQueue.destroy();
       instance = null;
       if (fullConfig.debug) {
         console.log('[BritePulse] Destroyed');
@@ -151,7 +177,7 @@ export function getInstance(): BritePulse | null {
 }
 
 // Export types
-export type { BritePulseConfig, FeedbackData, ErrorData } from './types.js';
+export type { BritePulseConfig, FeedbackData, FeedbackSubmitResult, ErrorData, Breadcrumb } from './types.js';
 
 // Note: BritePulseErrorBoundary is available via separate import:
 // import { BritePulseErrorBoundary } from '@britepulse/sdk/ErrorBoundary'
@@ -0,0 +1,365 @@
+/**
+ * Event Queue Module
+ * Batches events, keeps unsent events across page loads, and retries with backoff
+ */
+
+import type { BritePulseConfig, FeedbackSubmitResult } from './types.js';
+import type { ApiClient, EventWithAttachments, SendResult } from './api.js';
+import { generateId } from './context.js';
+
+// Each tab persists under its own key so two open tabs never load and send the same entries
+const STORAGE_PREFIX = 'britepulse_queue:';
+// Shared key used before per-tab storage; adopted once on upgrade
+const LEGACY_STORAGE_KEY = 'britepulse_queue';
+
+// A tab refreshes its store at least this often while events are pending
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Stores untouched for this long belong to a tab that closed without pagehide
+const STALE_STORE_MS = 10 * 60 * 1000;
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// localStorage is usually capped at ~5MB per origin; leave room for the host app
+const MAX_PERSISTED_BYTES = 1024 * 1024;
+
+interface QueueEntry {
+  id: string;
+  event: EventWithAttachments;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * One tab's persisted queue
+ * released is set on pagehide so the next page load can take the entries over
+ */
+interface StoredQueue {
+  updated_at: number;
+  released?: boolean;
+  entries: QueueEntry[];
+}
+
+function readStored(key: string): StoredQueue | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    // Legacy key held a bare array
+    if (Array.isArray(parsed)) return { updated_at: 0, released: true, entries: parsed };
+    return parsed && Array.isArray(parsed.entries) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a tab's queue; returns false if it couldn't be stored
+ */
+function writeStored(key: string, stored: StoredQueue): boolean {
+  try {
+    if (stored.entries.length === 0) {
+      localStorage.removeItem(key);
+      return true;
+    }
+
+    let serialized = JSON.stringify(stored);
+    if (serialized.length > MAX_PERSISTED_BYTES) {
+      // Keep the feedback text even if screenshots don't fit
+      serialized = JSON.stringify({
+        ...stored,
+        entries: stored.entries.map(({ id, event: { attachments: _attachments, ...event } }) => ({ id, event })),
+      });
+    }
+    if (serialized.length > MAX_PERSISTED_BYTES) return false;
+
+    localStorage.setItem(key, serialized);
+    return true;
+  } catch {
+    // localStorage not available (privacy mode) or quota exceeded - keep events in memory only
+    return false;
+  }
+}
+
+/**
+ * Take over entries from closed tabs, removing their stores so no other tab adopts them too
+ */
+function adoptOrphanedEntries(ownKey: string): QueueEntry[] {
+  const adopted: QueueEntry[] = [];
+  try {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key !== ownKey && (key === LEGACY_STORAGE_KEY || key.startsWith(STORAGE_PREFIX))) {
+        keys.push(key);
+      }
+    }
+
+    for (const key of keys) {
+      const stored = readStored(key);
+      if (stored && !stored.released && Date.now() - stored.updated_at < STALE_STORE_MS) continue;
+      localStorage.removeItem(key);
+      if (stored) adopted.push(...stored.entries);
+    }
+  } catch {
+    // localStorage not available
+  }
+  return adopted;
+}
+
+/**
+ * Create event queue
+ */
+export function createEventQueue(config: BritePulseConfig, client: ApiClient) {
+  const batchSize = Math.min(config.batchSize || DEFAULT_BATCH_SIZE, 100);
+  const flushInterval = config.flushInterval ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxQueueSize = config.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE;
+  const persistEnabled = config.persistQueue !== false && typeof localStorage !== 'undefined';
+
+  const storageKey = STORAGE_PREFIX + generateId();
+
+  let queue: QueueEntry[] = [];
+  // Entries in this tab's store as last written, to spot a takeover by another tab
+  let persistedIds = new Set<string>();
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let retryAttempt = 0;
+  let retryUntil = 0;
+  let flushing: Promise<void> | null = null;
+  // Run before the beacon so events they enqueue go out with it
+  const pageHideHooks: Array<() => void> = [];
+
+  /**
+   * Write this tab's queue to its own key
+   */
+  function persist(released = false): void {
+    if (!persistEnabled) return;
+    const written = writeStored(storageKey, {
+      updated_at: Date.now(),
+      ...(released && { released }),
+      entries: queue,
+    });
+    persistedIds = written ? new Set(queue.map((entry) => entry.id)) : new Set();
+    updateHeartbeat();
+  }
+
+  /**
+   * Keep the store fresh while events are pending so other tabs don't treat it as orphaned
+   */
+  function updateHeartbeat(): void {
+    if (queue.length > 0 && !heartbeat) {
+      heartbeat = setInterval(() => persist(), HEARTBEAT_INTERVAL_MS);
+    } else if (queue.length === 0 && heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+  }
+
+  /**
+   * Drop entries another tab took over (e.g. after this tab was frozen or restored
+   * from the back/forward cache), so they aren't sent twice
+   */
+  function dropAdoptedEntries(): void {
+    if (!persistEnabled || persistedIds.size === 0) return;
+    const stored = readStored(storageKey);
+    const kept = new Set(stored?.entries.map((entry) => entry.id));
+    const adopted = [...persistedIds].filter((id) => !kept.has(id));
+    if (adopted.length === 0) return;
+
+    queue = queue.filter((entry) => !adopted.includes(entry.id));
+    persistedIds = kept;
+    if (config.debug) {
+      console.log(`[BritePulse] ${adopted.length} queued event(s) were taken over by another tab`);
+    }
+  }
+
+  function add(entries: QueueEntry[]): void {
+    queue.push(...entries);
+    if (queue.length > maxQueueSize) {
+      const dropped = queue.length - maxQueueSize;
+      queue = queue.slice(dropped);
+      if (config.debug) {
+        console.warn(`[BritePulse] Queue full, dropped ${dropped} oldest event(s)`);
+      }
+    }
+  }
+
+  function scheduleFlush(delay: number): void {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      void flush();
+    }, delay);
+  }
+
+  /**
+   * Back off after a retryable failure, honoring Retry-After when present
+   */
+  function backOff(result: SendResult): void {
+    retryAttempt++;
+    const exponential = Math.min(BASE_RETRY_DELAY_MS * 2 ** (retryAttempt - 1), MAX_RETRY_DELAY_MS);
+    // Jitter so many clients recovering at once don't retry in lockstep
+    const delay = result.retryAfterMs ?? exponential * (0.5 + Math.random() / 2);
+    retryUntil = Date.now() + delay;
+    scheduleFlush(delay);
+
+    if (config.debug) {
+      console.log(`[BritePulse] Send failed, retrying in ${Math.round(delay)}ms`);
+    }
+  }
+
+  function isBackingOff(): boolean {
+    return Date.now() < retryUntil;
+  }
+
+  /**
+   * Send queued events in batches until the queue is empty or a retryable failure occurs
+   */
+  async function flush(): Promise<void> {
+    if (flushing) return flushing;
+    if (queue.length === 0 || isOffline()) return;
+
+    flushing = (async () => {
+      dropAdoptedEntries();
+      while (queue.length > 0) {
+        const batch = queue.slice(0, batchSize);
+        const result = await client.sendEvents(batch.map((entry) => entry.event));
+
+        if (result.status === 'retry') {
+          backOff(result);
+          break;
+        }
+
+        if (result.status === 'rejected' && config.debug) {
+          console.error(`[BritePulse] Dropping ${batch.length} event(s) rejected by the API`);
+        }
+        retryAttempt = 0;
+        retryUntil = 0;
+        queue = queue.filter((entry) => !batch.includes(entry));
+        persist();
+      }
+    })().finally(() => {
+      flushing = null;
+    });
+
+    return flushing;
+  }
+
+  /**
+   * Queue an event; a full batch is sent right away, otherwise on the flush interval
+   */
+  function enqueue(event: EventWithAttachments): void {
+    add([{ id: generateId(), event }]);
+    persist();
+
+    if (isBackingOff()) return; // the retry timer will pick it up
+    if (queue.length >= batchSize) {
+      void flush();
+    } else if (!timer) {
+      scheduleFlush(flushInterval);
+    }
+  }
+
+  /**
+   * Send an event immediately (used for feedback, where the user waits for the result)
+   * Falls back to the queue when offline or the API is unreachable
+   */
+  async function send(event: EventWithAttachments): Promise<FeedbackSubmitResult> {
+    if (isOffline() || isBackingOff()) {
+      enqueue(event);
+      return 'queued';
+    }
+
+    const result = await client.sendEvents([event]);
+    if (result.status === 'sent') return 'sent';
+    if (result.status === 'rejected') return 'failed';
+
+    add([{ id: generateId(), event }]);
+    persist();
+    backOff(result);
+    return 'queued';
+  }
+
+  /**
+   * Hand queued events to the browser before the page goes away
+   * Skipped while offline so events stay persisted for the next page load
+   */
+  function handlePageHide(): void {
+    pageHideHooks.forEach((hook) => hook());
+    if (queue.length === 0) return;
+    dropAdoptedEntries();
+
+    if (!isOffline()) {
+      while (queue.length > 0) {
+        const batch = queue.slice(0, batchSize);
+        if (!client.sendBeacon(batch.map((entry) => entry.event))) break;
+        queue = queue.slice(batch.length);
+      }
+    }
+    persist(true);
+  }
+
+  /**
+   * Reclaim this tab's store when the page comes back from the back/forward cache
+   */
+  function handlePageShow(): void {
+    if (queue.length === 0) return;
+    dropAdoptedEntries();
+    persist();
+  }
+
+  function handleOnline(): void {
+    retryUntil = 0;
+    void flush();
+  }
+
+  // Pick up events left behind by previous page loads
+  if (persistEnabled) {
+    const adopted = adoptOrphanedEntries(storageKey);
+    if (adopted.length > 0) {
+      add(adopted);
+      persist();
+      scheduleFlush(0);
+    }
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('pageshow', handlePageShow);
+    window.addEventListener('online', handleOnline);
+  }
+
+  return {
+    enqueue,
+    send,
+    flush,
+    /** Number of events waiting to be sent */
+    size: () => queue.length,
+    /** Run a hook on pagehide before queued events are handed to the browser */
+    onPageHide: (hook: () => void) => {
+      pageHideHooks.push(hook);
+    },
+    destroy: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('pagehide', handlePageHide);
+        window.removeEventListener('pageshow', handlePageShow);
+        window.removeEventListener('online', handleOnline);
+      }
+      // Leave unsent events for the next page load
+      persist(true);
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = null;
+    },
+  };
+}
+
+export type EventQueue = ReturnType<typeof createEventQueue>;
@@ -0,0 +1,216 @@
+/**
+ * Error Throttle Module
+ * Collapses repeated errors, caps errors per session and applies server sampling
+ * before events reach the queue
+ */
+
+import type { BritePulseConfig, ErrorData, EventPayload, RemoteConfig, SamplingRule } from './types.js';
+import { getSessionId } from './context.js';
+
+const BUDGET_KEY = 'britepulse_error_budget';
+
+const DEFAULT_DEDUP_WINDOW_MS = 10 * 1000;
+const DEFAULT_MAX_ERRORS_PER_SESSION = 100;
+
+interface DedupWindow {
+  /** Latest occurrence, sent as the summary when the window closes */
+  latest: EventPayload | null;
+  repeats: number;
+  sampled: boolean;
+  /** Sample rate applied to the first occurrence, carried over to the summary */
+  sampleRate?: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * djb2 string hash, base36 encoded
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function extractPath(routeOrUrl: string): string {
+  try {
+    return new URL(routeOrUrl).pathname;
+  } catch {
+    return routeOrUrl.split(/[?#]/)[0];
+  }
+}
+
+/**
+ * Strip values that change between otherwise identical errors (ids, numbers, quoted input)
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>')
+    .replace(/(["'`]).*?\1/g, '<str>')
+    .slice(0, 200);
+}
+
+function firstStackFrame(stack: string | undefined): string {
+  if (!stack) return '';
+  const frame = stack
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.startsWith('at ') || line.includes('@'));
+  // Cache-busting query strings differ between deploys of the same code
+  return frame ? frame.replace(/\?[^:)\s]*/g, '') : '';
+}
+
+/**
+ * Local fingerprint: error type, normalized message, top stack frame and route
+ */
+export function fingerprintError(error: ErrorData, route: string): string {
+  const location = error.url ? `${error.method || 'GET'} ${extractPath(error.url)}` : firstStackFrame(error.stack);
+  return hashString([error.type, normalizeMessage(error.message), location, extractPath(route)].join('|'));
+}
+
+/**
+ * Sample rate for a route; same first-match-wins rules as the API
+ */
+function getSampleRate(rules: SamplingRule[], routeOrUrl: string): number {
+  const path = extractPath(routeOrUrl);
+  const rule = rules.find((r) => {
+    if (!r.route_pattern) return true;
+    const regex = new RegExp(
+      '^' + r.route_pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+    );
+    return regex.test(path) || regex.test(routeOrUrl);
+  });
+  if (!rule) return 1;
+  return Math.min(1, Math.max(0, rule.sample_rate));
+}
+
+/**
+ * Errors already sent this session (survives reloads within the tab)
+ */
+function readBudgetUsed(sessionId: string): number {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(BUDGET_KEY) || 'null');
+    return stored && stored.session_id === sessionId ? Number(stored.used) || 0 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeBudgetUsed(sessionId: string, used: number): void {
+  try {
+    sessionStorage.setItem(BUDGET_KEY, JSON.stringify({ session_id: sessionId, used }));
+  } catch {
+    // sessionStorage not available - the budget only lasts for this page load
+  }
+}
+
+/**
+ * Create error throttle
+ * The first occurrence of an error is sent right away; repeats within the
+ * dedup window are counted and sent as one event with repeat_count when it closes
+ */
+export function createErrorThrottle(config: BritePulseConfig, emit: (event: EventPayload) => void) {
+  const dedupWindowMs = config.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+  const maxErrors = config.maxErrorsPerSession ?? DEFAULT_MAX_ERRORS_PER_SESSION;
+
+  const windows = new Map<string, DedupWindow>();
+  let remoteConfig: RemoteConfig | null = null;
+  let budgetWarned = false;
+
+  /**
+   * Spend one unit of the session budget; false once it is used up
+   */
+  function takeBudget(): boolean {
+    const sessionId = getSessionId();
+    const used = readBudgetUsed(sessionId);
+    if (used >= maxErrors) {
+      if (config.debug && !budgetWarned) {
+        console.warn(`[BritePulse] Session error limit (${maxErrors}) reached, dropping further errors`);
+      }
+      budgetWarned = true;
+      return false;
+    }
+    writeBudgetUsed(sessionId, used + 1);
+    return true;
+  }
+
+  function send(event: EventPayload): void {
+    if (takeBudget()) emit(event);
+  }
+
+  function closeWindow(fingerprint: string): void {
+    const entry = windows.get(fingerprint);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    windows.delete(fingerprint);
+
+    if (entry.sampled && entry.latest && entry.repeats > 0) {
+      const summary: EventPayload = { ...entry.latest, repeat_count: entry.repeats };
+      if (entry.sampleRate !== undefined) summary.sample_rate = entry.sampleRate;
+      send(summary);
+    }
+  }
+
+  /**
+   * Remote sampling decision; fails open (send everything) until the config loads
+   */
+  function sample(route: string): { keep: boolean; rate?: number } {
+    if (!remoteConfig) return { keep: true };
+    const rate = getSampleRate(remoteConfig.sampling_rules, route);
+    return { keep: rate >= 1 || Math.random() < rate, rate };
+  }
+
+  /**
+   * Route an error through dedup, sampling and the session budget
+   */
+  function capture(error: ErrorData, event: EventPayload): void {
+    if (remoteConfig && (!remoteConfig.enabled || !remoteConfig.frontend_enabled)) return;
+
+    const fingerprint = fingerprintError(error, event.route_or_url);
+    const existing = windows.get(fingerprint);
+    if (existing) {
+      existing.repeats++;
+      existing.latest = event;
+      return;
+    }
+
+    // Repeats follow the first occurrence's sampling decision
+    const { keep, rate } = sample(event.route_or_url);
+    windows.set(fingerprint, {
+      latest: null,
+      repeats: 0,
+      sampled: keep,
+      sampleRate: rate,
+      timer: setTimeout(() => closeWindow(fingerprint), dedupWindowMs),
+    });
+
+    if (!keep) {
+      if (config.debug) console.log('[BritePulse] Error sampled out');
+      return;
+    }
+    send(rate === undefined ? event : { ...event, sample_rate: rate });
+  }
+
+  /**
+   * Send pending repeat counts now
+   */
+  function flush(): void {
+    for (const fingerprint of [...windows.keys()]) {
+      closeWindow(fingerprint);
+    }
+  }
+
+  return {
+    capture,
+    flush,
+    setRemoteConfig: (next: RemoteConfig) => {
+      remoteConfig = next;
+    },
+    destroy: flush,
+  };
+}
+
+export type ErrorThrottle = ReturnType<typeof createErrorThrottle>;
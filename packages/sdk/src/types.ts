@@ -29,10 +29,32 @@ export interface BritePulseConfig {
   onFeedbackSubmit?: (feedback: FeedbackData) => void;
   /** Callback when error is captured */
   onErrorCapture?: (error: ErrorData) => void;
+  /** Max events per request */
+  batchSize?: number;
+  /** How often queued events are sent (ms) */
+  flushInterval?: number;
+  /** Max events kept while offline; the oldest are dropped first */
+  maxQueueSize?: number;
+  /** Keep unsent events in localStorage across page loads */
+  persistQueue?: boolean;
+  /** Repeats of the same error within this window are sent as one event with a count (ms) */
+  dedupWindowMs?: number;
+  /** Max error events sent per browser session */
+  maxErrorsPerSession?: number;
+  /** Breadcrumbs kept and attached to events (0 disables breadcrumbs) */
+  maxBreadcrumbs?: number;
   /** Debug mode */
   debug?: boolean;
 }
 
+/**
+ * Result of submitting feedback
+ * - sent: delivered
+ * - queued: saved and will be sent when the connection recovers
+ * - failed: rejected by the API
+ */
+export type FeedbackSubmitResult = 'sent' | 'queued' | 'failed';
+
 export interface AttachmentData {
   filename: string;
   content_type: string;
@@ -69,6 +91,8 @@ export interface ErrorData {
 
 export interface EventPayload {
   event_type: 'feedback' | 'frontend_error' | 'backend_error';
+  /** When the event happened (events may be sent later from the queue) */
+  timestamp?: string;
   session_id: string;
   trace_id?: string;
   route_or_url: string;
@@ -79,6 +103,40 @@ export interface EventPayload {
     email?: string;
   };
   payload: Record<string, unknown>;
+  /** Occurrences collapsed into this event by client-side dedup */
+  repeat_count?: number;
+  /** Sample rate already applied by the SDK (the API won't sample again) */
+  sample_rate?: number;
+  breadcrumbs?: Breadcrumb[];
+}
+
+/**
+ * Something the user or app did before an event
+ */
+export interface Breadcrumb {
+  timestamp: string;
+  category: 'navigation' | 'click' | 'console' | 'fetch' | 'xhr';
+  message: string;
+  level?: 'info' | 'warning' | 'error';
+  data?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Sampling rule from the app's telemetry policy
+ */
+export interface SamplingRule {
+  route_pattern?: string;
+  sample_rate: number;
+}
+
+/**
+ * Ingestion settings served by GET /events/config
+ */
+export interface RemoteConfig {
+  environment: string;
+  enabled: boolean;
+  frontend_enabled: boolean;
+  sampling_rules: SamplingRule[];
 }
 
 export interface ContextData {
@@ -91,4 +149,5 @@ export interface ContextData {
     role?: string;
     email?: string;
   };
+  breadcrumbs?: Breadcrumb[];
 }
@@ -4,12 +4,12 @@
  */
 
 import { useState, useCallback, useRef } from 'preact/hooks';
-import type { FeedbackData, BritePulseConfig, AttachmentData } from '../types.js';
+import type { FeedbackData, FeedbackSubmitResult, BritePulseConfig, AttachmentData } from '../types.js';
 import { styles } from './styles.js';
 
 interface WidgetProps {
   config: BritePulseConfig;
-  onSubmit: (feedback: FeedbackData) => Promise<boolean>;
+  onSubmit: (feedback: FeedbackData) => Promise<FeedbackSubmitResult>;
 }
 
 type Category = 'bug' | 'feature' | 'feedback';
@@ -27,6 +27,8 @@ export function Widget({ config, onSubmit }: WidgetProps) {
   const [allowContact, setAllowContact] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [isQueued, setIsQueued] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [isButtonHovered, setIsButtonHovered] = useState(false);
   const [attachments, setAttachments] = useState<{ file: File; preview: string }[]>([]);
   const [attachmentError, setAttachmentError] = useState<string | null>(null);
@@ -117,6 +119,7 @@ export function Widget({ config, onSubmit }: WidgetProps) {
     if (!description.trim()) return;
 
     setIsSubmitting(true);
+    setSubmitError(null);
 
     // Convert attachments to base64 if present
     let attachmentData: AttachmentData[] | undefined;
@@ -146,23 +149,31 @@ export function Widget({ config, onSubmit }: WidgetProps) {
       attachments: attachmentData,
     };
 
-    const success = await onSubmit(feedback);
+    const result = await onSubmit(feedback);
 
     setIsSubmitting(false);
 
-    if (success) {
-      setIsSuccess(true);
-      // Reset form after delay
-      setTimeout(() => {
+    if (result === 'failed') {
+      setSubmitError("Your feedback couldn't be sent. Please try again.");
+      return;
+    }
+
+    setIsSuccess(true);
+    setIsQueued(result === 'queued');
+    // Reset form after delay (longer when queued so the offline notice can be read)
+    setTimeout(
+      () => {
         setIsOpen(false);
         setIsSuccess(false);
+        setIsQueued(false);
         setDescription('');
         setSteps('');
         setAllowContact(false);
         setCategory('bug');
         setAttachments([]);
-      }, 2000);
-    }
+      },
+      result === 'queued' ? 4000 : 2000
+    );
   }, [category, description, steps, allowContact, attachments, onSubmit]);
 
   const handleClose = useCallback(() => {
@@ -223,7 +234,11 @@ export function Widget({ config, onSubmit }: WidgetProps) {
               <div style={styles.successMessage}>
                 <div style={styles.successIcon}>✓</div>
                 <p style={styles.successText}>Thank you!</p>
-                <p style={styles.successSubtext}>Your feedback has been submitted.</p>
+                <p style={styles.successSubtext}>
+                  {isQueued
+                    ? "You appear to be offline. We've saved your feedback and will send it when your connection is back."
+                    : 'Your feedback has been submitted.'}
+                </p>
               </div>
             ) : (
               <>
@@ -336,6 +351,9 @@ export function Widget({ config, onSubmit }: WidgetProps) {
                 >
                   {isSubmitting ? 'Sending...' : 'Send Feedback'}
                 </button>
+                {submitError && (
+                  <p style={styles.attachmentError}>{submitError}</p>
+                )}
               </>
             )}
           </div>
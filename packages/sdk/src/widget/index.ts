@@ -6,7 +6,7 @@
 import { render } from 'preact';
 import { jsx } from 'preact/jsx-runtime';
 import { Widget } from './Widget.js';
-import type { BritePulseConfig, FeedbackData } from '../types.js';
+import type { BritePulseConfig, FeedbackData, FeedbackSubmitResult } from '../types.js';
 
 let widgetContainer: HTMLElement | null = null;
 let unmountWidget: (() => void) | null = null;
@@ -16,7 +16,7 @@ let unmountWidget: (() => void) | null = null;
  */
 export function mountWidget(
   config: BritePulseConfig,
-  onSubmit: (feedback: FeedbackData) => Promise<boolean>
+  onSubmit: (feedback: FeedbackData) => Promise<FeedbackSubmitResult>
 ): void {
   if (typeof document === 'undefined') return;
   if (!config.enableWidget) return;
@@ -0,0 +1,102 @@
+/**
+ * Zod schemas for AI analysis output
+ * These describe what the model must return; IDs, timestamps and counted
+ * fields are added by ai-triage after validation
+ */
+
+import { z } from 'zod';
+import { IssueTypeSchema, NextActionSchema, SeveritySchema } from './enums.js';
+
+const ConfidenceSchema = z.number().min(0).max(1);
+
+export const EvidenceRefSchema = z.object({
+  type: z.enum(['event', 'stack_trace', 'code_excerpt', 'metric', 'feedback']),
+  ref_id: z.string().min(1).optional(),
+  excerpt: z.string().optional(),
+  line_numbers: z
+    .object({
+      start: z.number().int().min(1),
+      end: z.number().int().min(1),
+    })
+    .optional(),
+  relevance: z.string().min(1),
+});
+
+export const FixOptionSchema = z.object({
+  option_number: z.number().int().min(1).max(3),
+  description: z.string().min(1),
+  files_likely_touched: z.array(z.string()).default([]),
+  complexity: z.enum(['low', 'medium', 'high']),
+  confidence: ConfidenceSchema,
+});
+
+export const TestPlanItemSchema = z.object({
+  test_type: z.enum(['unit', 'integration', 'e2e', 'manual']),
+  description: z.string().min(1),
+  priority: z.enum(['required', 'recommended', 'optional']),
+});
+
+export const TriageOutputSchema = z.object({
+  classification: IssueTypeSchema,
+  severity: SeveritySchema,
+  severity_rationale: z.string().min(1),
+  impact_summary: z.string().min(1),
+  evidence_refs: z.array(EvidenceRefSchema).default([]),
+  root_cause_hypothesis: z.string().min(1),
+  fix_plan: z.array(FixOptionSchema).max(3),
+  test_plan: z.array(TestPlanItemSchema),
+  rollout_plan: z.string().min(1),
+  rollback_plan: z.string().min(1),
+  confidence: ConfidenceSchema,
+  assumptions: z.array(z.string()).default([]),
+  limitations: z.array(z.string()).default([]),
+  next_action: NextActionSchema,
+  next_action_rationale: z.string().min(1),
+  additional_info_needed: z.array(z.string()).optional(),
+});
+
+export const FeedbackRequestTypeSchema = z.enum([
+  'feature_request',
+  'improvement',
+  'usability',
+  'bug_report',
+  'question',
+  'praise',
+  'complaint',
+]);
+
+export const FeedbackSentimentSchema = z.enum(['positive', 'neutral', 'mixed', 'negative']);
+
+export const FeedbackUrgencySchema = z.enum(['low', 'medium', 'high']);
+
+export const ProductNextActionSchema = z.enum([
+  'add_to_backlog',
+  'quick_win',
+  'needs_research',
+  'merge_with_existing',
+  'route_engineering',
+  'reply_to_user',
+  'no_action',
+]);
+
+// Titles are filled in from our own issue data, so the model only returns the ID
+export const RelatedIssueOutputSchema = z.object({
+  issue_id: z.string().min(1),
+  relation: z.enum(['duplicate', 'related', 'underlying_bug']),
+  rationale: z.string().min(1),
+});
+
+export const FeedbackOutputSchema = z.object({
+  request_type: FeedbackRequestTypeSchema,
+  user_need_summary: z.string().min(1),
+  sentiment: FeedbackSentimentSchema,
+  urgency: FeedbackUrgencySchema,
+  urgency_rationale: z.string().min(1),
+  related_issues: z.array(RelatedIssueOutputSchema).default([]),
+  segment_summary: z.string().min(1),
+  product_next_action: ProductNextActionSchema,
+  next_action_rationale: z.string().min(1),
+  confidence: ConfidenceSchema,
+  assumptions: z.array(z.string()).default([]),
+  limitations: z.array(z.string()).default([]),
+});
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { TICKET_SECRET_ENV_PREFIX } from '../types/app.js';
 import { RedactionProfileSchema, SeveritySchema, UserRoleSchema } from './enums.js';
 
 export const EnvironmentConfigSchema = z.object({
@@ -30,17 +31,26 @@ export const AttachmentPolicySchema = z.object({
   restricted_roles: z.array(UserRoleSchema).default(['ReadOnly']),
 });
 
+export const AIInputCategorySchema = z.enum([
+  'sanitized_feedback',
+  'sanitized_stack',
+  'retrieved_code_excerpts',
+  'metrics_summary',
+]);
+
 export const AIPolicySchema = z.object({
   eligible_severity_min: SeveritySchema.default('P1'),
   eligible_recurrence_min: z.number().int().min(1).default(5),
   model_allowed_inputs: z
-    .array(z.string())
+    .array(AIInputCategorySchema)
     .default([
       'sanitized_feedback',
       'sanitized_stack',
       'retrieved_code_excerpts',
       'metrics_summary',
     ]),
+  daily_token_budget: z.number().int().positive().optional(),
+  daily_cost_budget_usd: z.number().positive().optional(),
 });
 
 export const SamplingRuleSchema = z.object({
@@ -54,6 +64,37 @@ export const TelemetryPolicySchema = z.object({
   sampling_rules: z.array(SamplingRuleSchema).default([]),
 });
 
+export const RetentionPeriodsSchema = z.object({
+  raw_events_days: z.number().int().min(1),
+  issues_days: z.number().int().min(1),
+  attachments_days: z.number().int().min(1),
+});
+
+export const HealthThresholdsSchema = z.object({
+  silent_after_hours: z.number().int().min(1).max(720),
+  max_missing_version_rate: z.number().min(0).max(1),
+  max_missing_trace_rate: z.number().min(0).max(1),
+  max_rejected_rate: z.number().min(0).max(1),
+});
+
+export const FeedbackGroupingPolicySchema = z.object({
+  enabled: z.boolean(),
+  similarity_threshold: z.number().min(0).max(1),
+  lookback_days: z.number().int().min(1).max(90),
+});
+
+export const DuplicateDetectionPolicySchema = z.object({
+  min_similarity: z.number().min(0).max(1),
+  auto_merge_enabled: z.boolean(),
+  auto_merge_threshold: z.number().min(0).max(1),
+  lookback_days: z.number().int().min(1).max(90),
+});
+
+export const RegressionPolicySchema = z.object({
+  reopen_status: z.enum(['triaged', 'in_progress']),
+  severity_bump: z.number().int().min(0).max(3),
+});
+
 export const PolicySchema = z.object({
   redaction_profile: RedactionProfileSchema.default('standard'),
   attachment_policy: AttachmentPolicySchema.default({
@@ -75,6 +116,11 @@ export const PolicySchema = z.object({
     backend_enabled: true,
     sampling_rules: [],
   }),
+  retention_overrides: z.record(z.string(), RetentionPeriodsSchema.partial()).optional(),
+  health_thresholds: HealthThresholdsSchema.partial().optional(),
+  feedback_grouping: FeedbackGroupingPolicySchema.partial().optional(),
+  duplicate_detection: DuplicateDetectionPolicySchema.partial().optional(),
+  regression_policy: RegressionPolicySchema.partial().optional(),
 });
 
 export const BriefModeSchema = z.enum(['daily', 'only_on_issues']);
@@ -95,6 +141,101 @@ export const AppOwnersSchema = z.object({
   engineering_owner_group: z.union([z.string(), z.array(z.string())]).optional(),
 });
 
+// Ticket credentials may only come from env vars set aside for them
+const TicketSecretEnvSchema = z
+  .string()
+  .regex(new RegExp(`^${TICKET_SECRET_ENV_PREFIX}[A-Z0-9_]+$`), {
+    message: `Must be an environment variable name starting with ${TICKET_SECRET_ENV_PREFIX}`,
+  });
+
+export const TicketProviderTypeSchema = z.enum(['jira', 'github', 'webhook']);
+
+export const JiraTicketConfigSchema = z.object({
+  base_url: z.string().url(),
+  project_key: z.string().min(1),
+  issue_type: z.string().min(1).optional(),
+  user_email: z.string().email(),
+  api_token_env: TicketSecretEnvSchema,
+});
+
+export const GitHubTicketConfigSchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+  labels: z.array(z.string()).optional(),
+  token_env: TicketSecretEnvSchema,
+  api_url: z.string().url().optional(),
+});
+
+export const WebhookTicketConfigSchema = z.object({
+  url: z.string().url(),
+  secret_env: TicketSecretEnvSchema.optional(),
+});
+
+export const TicketingConfigSchema = z
+  .object({
+    provider: TicketProviderTypeSchema,
+    jira: JiraTicketConfigSchema.optional(),
+    github: GitHubTicketConfigSchema.optional(),
+    webhook: WebhookTicketConfigSchema.optional(),
+  })
+  .refine((config) => config[config.provider] !== undefined, {
+    message: 'Settings for the selected provider are required',
+  });
+
+export const AlertRuleTypeSchema = z.enum([
+  'new_issue',
+  'occurrence_threshold',
+  'error_rate_spike',
+  'regression',
+  'new_issue_route',
+]);
+
+export const AlertRuleSchema = z
+  .object({
+    rule_id: z.string().min(1).max(100),
+    name: z.string().min(1).max(200),
+    type: AlertRuleTypeSchema,
+    enabled: z.boolean().default(true),
+    environments: z.array(z.string().min(1)).optional(),
+    severity_min: SeveritySchema.optional(),
+    threshold: z.number().int().min(1).optional(),
+    window_minutes: z.number().int().min(1).max(1440).optional(),
+    spike_multiplier: z.number().min(1).max(100).optional(),
+    baseline_hours: z.number().int().min(1).max(168).optional(),
+    route_pattern: z.string().min(1).max(500).optional(),
+    cooldown_minutes: z.number().int().min(0).max(10080).default(60),
+    channels: z.array(z.enum(['in_app', 'email'])).min(1).default(['in_app']),
+    recipients: z.array(z.string().email()).optional(),
+  })
+  .refine((rule) => rule.type !== 'new_issue_route' || rule.route_pattern !== undefined, {
+    message: 'route_pattern is required for new_issue_route rules',
+    path: ['route_pattern'],
+  })
+  .refine((rule) => rule.type !== 'occurrence_threshold' || rule.threshold !== undefined, {
+    message: 'threshold is required for occurrence_threshold rules',
+    path: ['threshold'],
+  });
+
+export const WebhookEventTypeSchema = z.enum([
+  'issue.created',
+  'issue.status_changed',
+  'issue.severity_changed',
+  'issue.comment_added',
+  'issue.ai_analysis_ready',
+  'brief.sent',
+]);
+
+export const WebhookSubscriptionSchema = z.object({
+  subscription_id: z.string().min(1).max(100),
+  name: z.string().min(1).max(200),
+  url: z.string().url().refine((url) => url.startsWith('https://'), { message: 'Webhook URLs must use https' }),
+  format: z.enum(['json', 'slack', 'teams']).default('json'),
+  events: z.array(WebhookEventTypeSchema).min(1),
+  enabled: z.boolean().default(true),
+  environments: z.array(z.string().min(1)).optional(),
+  secret_env: z.string().min(1).optional(),
+});
+
 export const AppSchema = z.object({
   app_id: z.string().min(1),
   name: z.string().min(1),
@@ -104,6 +245,9 @@ export const AppSchema = z.object({
   repo_mapping: z.array(RepoMappingSchema).optional(),
   policies: PolicySchema.optional(),
   schedules: ScheduleSchema.optional(),
+  ticketing: TicketingConfigSchema.optional(),
+  alert_rules: z.array(AlertRuleSchema).optional(),
+  webhooks: z.array(WebhookSubscriptionSchema).optional(),
   created_at: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
 });
@@ -129,3 +273,36 @@ export const UpdateOwnersInputSchema = AppOwnersSchema;
 export const UpdatePoliciesInputSchema = PolicySchema.partial();
 
 export const UpdateSchedulesInputSchema = ScheduleSchema.partial();
+
+export const UpdateTicketingInputSchema = TicketingConfigSchema;
+
+export const UpdateAlertRulesInputSchema = z.object({
+  rules: z
+    .array(AlertRuleSchema)
+    .max(50)
+    .refine((rules) => new Set(rules.map((r) => r.rule_id)).size === rules.length, {
+      message: 'rule_id must be unique',
+    }),
+});
+
+export const UpdateWebhooksInputSchema = z.object({
+  subscriptions: z
+    .array(WebhookSubscriptionSchema)
+    .max(20)
+    .refine((subs) => new Set(subs.map((s) => s.subscription_id)).size === subs.length, {
+      message: 'subscription_id must be unique',
+    }),
+});
+
+export const SourceMapUploadSchema = z.object({
+  version: z.string().min(1).max(100),
+  files: z
+    .array(
+      z.object({
+        file: z.string().min(1).max(500),
+        source_map: z.union([z.string().min(1), z.record(z.unknown())]),
+      })
+    )
+    .min(1)
+    .max(100),
+});
@@ -28,6 +28,7 @@ export const AuditLogSchema = z.object({
   action: z.string(),
   target_type: AuditTargetTypeSchema,
   target_id: z.string(),
+  app_id: z.string().optional(),
   timestamp: z.string().datetime(),
   metadata: AuditMetadataSchema,
 });
@@ -38,6 +39,7 @@ export const AuditLogInputSchema = z.object({
   action: z.string(),
   target_type: AuditTargetTypeSchema,
   target_id: z.string(),
+  app_id: z.string().optional(),
   metadata: AuditMetadataSchema.optional(),
 });
 
@@ -47,12 +49,14 @@ export const AuditLogFiltersSchema = z.object({
   action: z.string().optional(),
   target_type: AuditTargetTypeSchema.optional(),
   target_id: z.string().optional(),
+  app_id: z.string().optional(),
   after: z.string().datetime().optional(),
   before: z.string().datetime().optional(),
 });
 
 export const AuditLogQuerySchema = z.object({
-  page: z.coerce.number().int().min(1).default(1),
-  page_size: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  format: z.enum(['json', 'csv', 'ndjson']).default('json'),
   ...AuditLogFiltersSchema.shape,
 });
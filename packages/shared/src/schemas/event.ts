@@ -15,9 +15,29 @@ export const RequestMetadataSchema = z.object({
   request_id: z.string().optional(),
   service_name: z.string().optional(),
   revision: z.string().optional(),
+  endpoint: z.string().optional(),
+  http_method: z.string().optional(),
   http_status: z.number().int().optional(),
 });
 
+export const BreadcrumbSchema = z.object({
+  timestamp: z.string().datetime(),
+  category: z.enum(['navigation', 'click', 'console', 'fetch', 'xhr']),
+  message: z.string().max(1000),
+  level: z.enum(['info', 'warning', 'error']).optional(),
+  data: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+export const FeedbackMatchSchema = z.object({
+  issue_id: z.string(),
+  score: z.number().min(0).max(1),
+  signals: z.array(z.enum(['text', 'route', 'trace', 'session'])),
+  reason: z.string(),
+  matched_at: z.string().datetime(),
+  split_at: z.string().datetime().optional(),
+  split_by: z.string().optional(),
+});
+
 export const FeedbackPayloadSchema = z.object({
   category: z.enum(['bug', 'feature', 'feedback']),
   description: z.string().min(1),
@@ -67,6 +87,9 @@ export const EventSchema = z.object({
   fingerprint: z.string().optional(),
   attachment_refs: z.array(z.string()).optional(),
   request_metadata: RequestMetadataSchema.optional(),
+  repeat_count: z.number().int().min(1).optional(),
+  breadcrumbs: z.array(BreadcrumbSchema).optional(),
+  feedback_match: FeedbackMatchSchema.optional(),
 });
 
 export const EventInputSchema = z.object({
@@ -125,8 +148,19 @@ export const EventIngestionSchema = z.object({
     .optional(),
   payload: z.record(z.unknown()),
   attachments: z.array(AttachmentUploadSchema).optional(),
+  request_metadata: RequestMetadataSchema.optional(),
+  // Set by SDKs that collapse repeated errors and apply sampling locally
+  repeat_count: z.number().int().min(1).max(10000).optional(),
+  sample_rate: z.number().gt(0).max(1).optional(),
+  breadcrumbs: z.array(BreadcrumbSchema).max(100).optional(),
+});
+
+export const SdkInfoSchema = z.object({
+  name: z.string().min(1).max(64),
+  version: z.string().min(1).max(32),
 });
 
 export const IngestEventRequestSchema = z.object({
   events: z.array(EventIngestionSchema).min(1).max(100),
+  sdk: SdkInfoSchema.optional(),
 });
@@ -9,3 +9,4 @@ export * from './event.js';
 export * from './issue.js';
 export * from './audit.js';
 export * from './user.js';
+export * from './ai-analysis.js';
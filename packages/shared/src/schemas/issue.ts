@@ -9,11 +9,13 @@ import {
   IssueTypeSchema,
   SeveritySchema,
 } from './enums.js';
+import { TicketProviderTypeSchema } from './app.js';
 
 export const IssueCountsSchema = z.object({
   occurrences_total: z.number().int().min(0),
   occurrences_24h: z.number().int().min(0),
   unique_users_24h_est: z.number().int().min(0),
+  occurrences_prev_24h: z.number().int().min(0).optional(),
 });
 
 export const IssueTimestampsSchema = z.object({
@@ -21,10 +23,54 @@ export const IssueTimestampsSchema = z.object({
   last_seen_at: z.string().datetime(),
 });
 
+export const IssueRegressionSchema = z.object({
+  detected_at: z.string().datetime(),
+  version: z.string(),
+  resolved_version: z.string().optional(),
+  resolved_at: z.string().datetime().optional(),
+  resolved_by: z.string().optional(),
+  previous_severity: SeveritySchema,
+  count: z.number().int().min(1),
+});
+
+export const SnoozeConditionSchema = z
+  .object({
+    until: z.string().datetime().optional(),
+    occurrences_24h_above: z.number().int().min(0).optional(),
+    unique_users_24h_above: z.number().int().min(0).optional(),
+    new_version: z.boolean().optional(),
+  })
+  .refine(
+    (c) =>
+      c.until !== undefined ||
+      c.occurrences_24h_above !== undefined ||
+      c.unique_users_24h_above !== undefined ||
+      c.new_version === true,
+    { message: 'At least one wake condition is required' }
+  );
+
+export const IssueSnoozeSchema = z.object({
+  until: z.string().datetime().optional(),
+  occurrences_24h_above: z.number().int().min(0).optional(),
+  unique_users_24h_above: z.number().int().min(0).optional(),
+  new_version: z.boolean().optional(),
+  snoozed_at: z.string().datetime(),
+  snoozed_by: z.string(),
+  versions_at_snooze: z.array(z.string()).optional(),
+});
+
 export const IssueRoutingSchema = z.object({
   assigned_to: z.string().optional(),
 });
 
+export const ExternalTicketSchema = z.object({
+  provider: TicketProviderTypeSchema,
+  key: z.string(),
+  url: z.string().url(),
+  created_at: z.string().datetime(),
+  created_by: z.string(),
+});
+
 export const IssueSchema = z.object({
   issue_id: z.string(),
   app_id: z.string(),
@@ -41,6 +87,14 @@ export const IssueSchema = z.object({
   routing: IssueRoutingSchema.optional(),
   tags: z.array(z.string()).optional(),
   related_issue_ids: z.array(z.string()).optional(),
+  external_ticket: ExternalTicketSchema.optional(),
+  merged_into: z.string().optional(),
+  alternate_fingerprints: z.array(z.string()).optional(),
+  resolved_by: z.string().optional(),
+  regression: IssueRegressionSchema.optional(),
+  snooze: IssueSnoozeSchema.optional(),
+  versions: z.array(z.string()).optional(),
+  search_tokens: z.array(z.string()).optional(),
   priority_score: z.number().optional(),
 });
 
@@ -53,6 +107,7 @@ export const IssueInputSchema = z.object({
   severity: SeveritySchema.default('P2'),
   primary_fingerprint: z.string().optional(),
   initial_event_id: z.string(),
+  version: z.string().optional(),
   tags: z.array(z.string()).optional(),
 });
 
@@ -128,6 +183,7 @@ export const IssueSortOptionsSchema = z.object({
 export const IssueListQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   page_size: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
   sort_by: IssueSortFieldSchema.default('priority_score'),
   sort_dir: z.enum(['asc', 'desc']).default('desc'),
   ...IssueFiltersSchema.shape,
@@ -3,7 +3,8 @@
  * Based on Build Contract Section 4.9
  */
 
-import type { IssueType, NextAction, Severity } from './enums.js';
+import type { IssueStatus, IssueType, NextAction, Severity } from './enums.js';
+import type { AIInputCategory } from './app.js';
 
 /**
  * Evidence reference for AI claims
@@ -73,6 +74,20 @@ export interface AIAnalysis {
 
   // If more info needed
   additional_info_needed?: string[];
+
+  // Evidence categories the model was given, after the app's AI policy was applied
+  inputs_sent?: AIInputCategory[];
+
+  validation?: AnalysisValidation;
+}
+
+/**
+ * How a model response got through output validation
+ */
+export interface AnalysisValidation {
+  status: 'valid' | 'repaired'; // repaired: fields were coerced or the model had to be asked again
+  attempts: number; // model calls made, 2 when the first response was sent back with its errors
+  warnings: string[]; // repairs made and rule checks the stored analysis still fails
 }
 
 /**
@@ -85,17 +100,22 @@ export interface AIAnalysisInput {
   issue_type: IssueType;
   current_severity: Severity;
 
-  // Aggregated metrics
-  occurrences_total: number;
-  occurrences_24h: number;
-  unique_users_24h_est: number;
-  trend_direction: 'increasing' | 'stable' | 'decreasing';
+  // Aggregated metrics (omitted when the app's AI policy excludes metrics_summary)
+  occurrences_total?: number;
+  occurrences_24h?: number;
+  unique_users_24h_est?: number;
+  trend_direction?: 'increasing' | 'stable' | 'decreasing';
 
   // Sanitized evidence
   sanitized_feedback?: string[];
   sanitized_stack_traces?: string[];
   retrieved_code_excerpts?: CodeExcerpt[];
 
+  // Source event of each feedback item and stack trace, index for index;
+  // evidence_refs may only cite these
+  feedback_event_ids?: string[];
+  stack_trace_event_ids?: string[];
+
   // Context
   app_name: string;
   environment: string;
@@ -115,12 +135,153 @@ export interface CodeExcerpt {
   relevance: string; // why this code is relevant
 }
 
+/**
+ * Kind of request a piece of feedback makes
+ */
+export type FeedbackRequestType =
+  | 'feature_request'
+  | 'improvement'
+  | 'usability'
+  | 'bug_report'
+  | 'question'
+  | 'praise'
+  | 'complaint';
+
+export type FeedbackSentiment = 'positive' | 'neutral' | 'mixed' | 'negative';
+
+export type FeedbackUrgency = 'low' | 'medium' | 'high';
+
+/**
+ * Product-level follow-up proposed for feedback
+ */
+export type ProductNextAction =
+  | 'add_to_backlog'
+  | 'quick_win'
+  | 'needs_research'
+  | 'merge_with_existing'
+  | 'route_engineering'
+  | 'reply_to_user'
+  | 'no_action';
+
+/**
+ * Reports from users with one role (from event user.role)
+ */
+export interface UserSegment {
+  role: string; // 'unknown' when the SDK didn't send a role
+  reports: number;
+  users: number; // distinct user IDs seen with this role
+  share: number; // 0.0-1.0 of all reports
+}
+
+/**
+ * Existing issue the model linked to the feedback
+ */
+export interface RelatedIssueLink {
+  issue_id: string;
+  title: string;
+  relation: 'duplicate' | 'related' | 'underlying_bug';
+  rationale: string;
+}
+
+/**
+ * Feedback analysis
+ * Stored next to AIAnalysis for feedback and feature-request issues, where
+ * root causes and fix plans don't apply
+ */
+export interface FeedbackAnalysis {
+  analysis_id: string;
+  model_name: string;
+  generated_at: string; // ISO timestamp
+
+  request_type: FeedbackRequestType;
+  user_need_summary: string; // what the user is trying to achieve, not the solution they asked for
+  sentiment: FeedbackSentiment;
+  urgency: FeedbackUrgency;
+  urgency_rationale: string;
+
+  related_issues: RelatedIssueLink[]; // only issues from the candidates sent to the model
+  affected_segments: UserSegment[]; // counted from events, not generated
+  segment_summary: string;
+
+  product_next_action: ProductNextAction;
+  next_action_rationale: string;
+
+  confidence: number; // 0.0-1.0
+  assumptions: string[];
+  limitations: string[];
+
+  occurrences_at_analysis: number; // re-analysis waits for new reports
+  inputs_sent?: AIInputCategory[];
+  validation?: AnalysisValidation;
+}
+
+/**
+ * Candidate related issue offered to the model
+ */
+export interface RelatedIssueCandidate {
+  issue_id: string;
+  title: string;
+  issue_type: IssueType;
+  status: IssueStatus;
+  match_reason: string;
+}
+
+/**
+ * Feedback analysis input (context provided to the model)
+ */
+export interface FeedbackAnalysisInput {
+  issue_id: string;
+  issue_title: string;
+  issue_description: string; // sanitized
+  issue_type: IssueType;
+  app_name: string;
+  environment: string;
+
+  sanitized_feedback: string[];
+  affected_routes?: string[];
+
+  // Omitted when the app's AI policy excludes metrics_summary
+  reports_total?: number;
+  unique_users_24h_est?: number;
+  user_segments?: UserSegment[];
+
+  related_issue_candidates: RelatedIssueCandidate[];
+}
+
+/**
+ * Feedback triage response
+ */
+export interface FeedbackTriageResponse {
+  success: boolean;
+  analysis?: FeedbackAnalysis;
+  error?: string;
+  skipped_reason?: string;
+  usage?: AIUsage;
+}
+
+/**
+ * Which analysis to run: bug triage or feedback analysis
+ */
+export type TriageMode = 'bug' | 'feedback';
+
 /**
  * AI Triage request
  */
 export interface TriageRequest {
   issue_id: string;
   force?: boolean; // re-run even if analysis exists
+  mode?: TriageMode; // defaults to 'feedback' for non-bug issues
+}
+
+/**
+ * Tokens and estimated cost of one model call
+ */
+export interface AIUsage {
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
 }
 
 /**
@@ -131,4 +292,5 @@ export interface TriageResponse {
   analysis?: AIAnalysis;
   error?: string;
   skipped_reason?: string; // if not eligible for triage
+  usage?: AIUsage; // set whenever the model was called
 }
@@ -0,0 +1,65 @@
+/**
+ * AI triage job types
+ * Triage runs from a persistent queue so bursts are throttled, retried and costed
+ */
+
+import type { AIUsage, TriageMode } from './ai-analysis.js';
+
+export type AIJobStatus = 'queued' | 'running' | 'succeeded' | 'skipped' | 'failed';
+
+export type AIJobTrigger = 'ingest' | 'manual';
+
+/**
+ * A queued triage run for one issue
+ */
+export interface AITriageJob {
+  job_id: string;
+  app_id: string;
+  issue_id: string;
+  environment: string;
+  mode: TriageMode;
+  trigger: AIJobTrigger;
+  requested_by?: string; // user email for manual runs
+  force: boolean; // skip the eligibility thresholds
+
+  status: AIJobStatus;
+  attempts: number;
+  next_attempt_at?: string; // while queued
+  lease_expires_at?: string; // while running; expired leases are requeued
+  deferred_reason?: string; // why a queued job is waiting (e.g. a budget is used up)
+
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+
+  analysis_id?: string;
+  skipped_reason?: string;
+  error?: string;
+  usage?: AIUsage;
+}
+
+/**
+ * Latest job state, kept on the issue
+ */
+export interface IssueAIJob {
+  job_id: string;
+  mode: TriageMode;
+  status: AIJobStatus;
+  updated_at: string;
+  deferred_reason?: string;
+  skipped_reason?: string;
+  error?: string;
+}
+
+/**
+ * Model usage for one UTC day, for the whole deployment or one app
+ */
+export interface AIUsageDay {
+  date: string; // YYYY-MM-DD
+  app_id?: string; // absent on the deployment-wide total
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  updated_at: string;
+}
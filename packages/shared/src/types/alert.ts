@@ -0,0 +1,70 @@
+/**
+ * Alert rule types for real-time notifications
+ * Rules live on the app and are evaluated as events are ingested
+ */
+
+import type { Severity } from './enums.js';
+
+/**
+ * What an alert rule watches for
+ * - new_issue: a new issue is created at or above severity_min
+ * - occurrence_threshold: an issue occurs more than threshold times within window_minutes
+ * - error_rate_spike: errors in window_minutes exceed spike_multiplier times the baseline rate
+ * - regression: a resolved issue is reopened because its error came back
+ * - new_issue_route: a new issue is created from a route matching route_pattern
+ */
+export type AlertRuleType =
+  | 'new_issue'
+  | 'occurrence_threshold'
+  | 'error_rate_spike'
+  | 'regression'
+  | 'new_issue_route';
+
+export type AlertChannel = 'in_app' | 'email';
+
+export interface AlertRule {
+  rule_id: string;
+  name: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  environments?: string[]; // default: every environment
+  severity_min?: Severity; // new_issue, default: P0
+  threshold?: number; // occurrence_threshold: occurrences; error_rate_spike: minimum errors in the window
+  window_minutes?: number; // occurrence_threshold and error_rate_spike, default: 60
+  spike_multiplier?: number; // error_rate_spike, default: 3
+  baseline_hours?: number; // error_rate_spike, window the baseline rate is taken from, default: 24
+  route_pattern?: string; // new_issue_route, * wildcards as in sampling rules
+  cooldown_minutes: number; // the same rule stays quiet for the same issue (or app) this long
+  channels: AlertChannel[];
+  recipients?: string[]; // default: owners.po_emails
+}
+
+/**
+ * A recorded alert firing (stored in alert_firings)
+ */
+export interface AlertFiring {
+  firing_id: string;
+  app_id: string;
+  environment: string;
+  rule_id: string;
+  rule_name: string;
+  rule_type: AlertRuleType;
+  dedupe_key: string; // issue_id, or the environment for app-wide rules
+  issue_id?: string;
+  issue_title?: string;
+  message: string;
+  recipients: string[];
+  channels: AlertChannel[];
+  fired_at: string;
+}
+
+/**
+ * Defaults for optional rule settings
+ */
+export const DEFAULT_ALERT_RULE_SETTINGS = {
+  severity_min: 'P0' as Severity,
+  window_minutes: 60,
+  spike_multiplier: 3,
+  baseline_hours: 24,
+  threshold: 10,
+};
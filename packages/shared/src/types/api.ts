@@ -3,6 +3,9 @@
  * Based on Build Contract Section 5
  */
 
+import type { HealthThresholds, SamplingRule } from './app.js';
+import type { Breadcrumb } from './event.js';
+
 /**
  * Standard API error response
  */
@@ -41,7 +44,7 @@ export interface PaginatedResponse<T> {
 /**
  * API authentication types
  */
-export type AuthType = 'public_key' | 'server_key' | 'oauth';
+export type AuthType = 'public_key' | 'server_key' | 'oauth' | 'scheduler';
 
 /**
  * API request context (set by middleware)
@@ -62,6 +65,15 @@ export interface APIContext {
  */
 export interface IngestEventRequest {
   events: EventIngestion[];
+  sdk?: SdkInfo;
+}
+
+/**
+ * Client library identification sent with ingestion batches
+ */
+export interface SdkInfo {
+  name: string; // e.g., 'britepulse-js'
+  version: string;
 }
 
 export interface EventIngestion {
@@ -77,6 +89,7 @@ export interface EventIngestion {
   };
   payload: Record<string, unknown>;
   attachments?: AttachmentUpload[];
+  breadcrumbs?: Breadcrumb[];
 }
 
 export interface AttachmentUpload {
@@ -91,11 +104,52 @@ export interface AttachmentUpload {
  */
 export interface IngestEventResponse {
   accepted: number;
-  rejected: number;
+  rejected: number; // events that failed processing
+  dropped: number; // events the app's environment or telemetry policy filtered out
   event_ids: string[];
   errors?: Array<{
     index: number;
     error: string;
+    reason: string; // 'processing_failed'
+  }>;
+  drops?: Array<{
+    index: number;
+    reason: string; // e.g. 'environment_disabled', 'frontend_telemetry_disabled', 'sampled_out'
+    message: string;
+  }>;
+}
+
+/**
+ * Public SDK configuration (GET /events/config)
+ * Lets the SDK skip sending events the API would drop anyway
+ */
+export interface SdkConfigResponse {
+  environment: string;
+  enabled: boolean; // environment enabled for ingestion
+  frontend_enabled: boolean;
+  sampling_rules: SamplingRule[];
+}
+
+/**
+ * Source map upload request (POST /admin/apps/{app_id}/sourcemaps)
+ * `file` is the bundle's file name as it appears in stack traces (e.g. index-3f2a1b.js)
+ */
+export interface SourceMapUploadRequest {
+  version: string;
+  files: Array<{
+    file: string;
+    source_map: string | Record<string, unknown>;
+  }>;
+}
+
+/**
+ * Source map upload response
+ */
+export interface SourceMapUploadResponse {
+  version: string;
+  files: Array<{
+    file: string;
+    storage_path: string;
   }>;
 }
 
@@ -113,18 +167,31 @@ export interface HealthCheckResponse {
   };
 }
 
+/**
+ * Installation health status
+ * 'silent' = no events within the app's silent_after_hours threshold
+ */
+export type InstallationHealthStatus = 'healthy' | 'degraded' | 'silent';
+
 /**
  * App health response (Section 5.2 - GET /apps/{app_id}/health)
  */
 export interface AppHealthResponse {
   app_id: string;
   environment: string;
-  status: 'healthy' | 'degraded' | 'unhealthy' | 'no_data';
+  status: InstallationHealthStatus;
+  status_reasons: string[];
+  thresholds: HealthThresholds;
   metrics: {
     last_event_received?: string;
+    last_event_by_type: Record<string, string>; // event_type -> ISO timestamp
     events_24h: number;
+    rejected_24h: number;
+    redacted_24h: number;
     missing_version_rate: number; // 0.0-1.0
     missing_trace_rate: number; // 0.0-1.0
+    rejected_rate: number; // 0.0-1.0
+    sdk_versions: Array<{ sdk: string; last_seen_at: string }>;
     volume_anomaly?: {
       detected: boolean;
       expected_range: [number, number];
@@ -161,4 +228,5 @@ export const HTTP_STATUS = {
   CONFLICT: 409,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_ERROR: 500,
+  BAD_GATEWAY: 502,
 } as const;
@@ -4,6 +4,8 @@
  */
 
 import type { RedactionProfile, Severity, UserRole } from './enums.js';
+import type { AlertRule } from './alert.js';
+import type { WebhookSubscription } from './webhook.js';
 
 /**
  * Environment configuration (Section 4.2)
@@ -43,13 +45,27 @@ export interface AttachmentPolicy {
   restricted_roles: UserRole[]; // default: ['ReadOnly']
 }
 
+/**
+ * Categories of evidence that may be sent to the AI model
+ */
+export type AIInputCategory = 'sanitized_feedback' | 'sanitized_stack' | 'retrieved_code_excerpts' | 'metrics_summary';
+
+export const AI_INPUT_CATEGORIES: AIInputCategory[] = [
+  'sanitized_feedback',
+  'sanitized_stack',
+  'retrieved_code_excerpts',
+  'metrics_summary',
+];
+
 /**
  * AI triage policy configuration (Section 4.5)
  */
 export interface AIPolicy {
   eligible_severity_min: Severity; // default: P1
   eligible_recurrence_min: number; // default: 5 occurrences/day
-  model_allowed_inputs: string[]; // default: ['sanitized_feedback', 'sanitized_stack', 'retrieved_code_excerpts', 'metrics_summary']
+  model_allowed_inputs: AIInputCategory[]; // default: all of AI_INPUT_CATEGORIES
+  daily_token_budget?: number; // input + output tokens per UTC day; unset = no app limit
+  daily_cost_budget_usd?: number; // estimated spend per UTC day; unset = no app limit
 }
 
 /**
@@ -66,6 +82,55 @@ export interface SamplingRule {
   sample_rate: number; // 0.0 to 1.0
 }
 
+/**
+ * Data retention periods for an environment (Section 3.3)
+ */
+export interface RetentionPeriods {
+  raw_events_days: number;
+  issues_days: number; // applies to closed (resolved/wont_fix) issues only
+  attachments_days: number;
+}
+
+/**
+ * Installation health thresholds
+ * Status is 'silent' past silent_after_hours, 'degraded' when any rate is exceeded
+ */
+export interface HealthThresholds {
+  silent_after_hours: number; // default: 24
+  max_missing_version_rate: number; // 0.0-1.0, default: 0.5
+  max_missing_trace_rate: number; // 0.0-1.0, default: 0.8
+  max_rejected_rate: number; // 0.0-1.0, default: 0.2
+}
+
+/**
+ * Feedback grouping settings
+ * New feedback joins an open issue when its best match score reaches similarity_threshold
+ */
+export interface FeedbackGroupingPolicy {
+  enabled: boolean; // default: true
+  similarity_threshold: number; // 0.0-1.0, default: 0.6
+  lookback_days: number; // only issues seen within this window are candidates, default: 14
+}
+
+/**
+ * Near-duplicate error issue detection
+ * Issues whose fingerprints differ (e.g. one stack frame changed after a refactor) but look alike
+ */
+export interface DuplicateDetectionPolicy {
+  min_similarity: number; // 0.0-1.0, shown as possible duplicates at or above this, default: 0.7
+  auto_merge_enabled: boolean; // default: false
+  auto_merge_threshold: number; // 0.0-1.0, background job merges at or above this, default: 0.95
+  lookback_days: number; // only issues seen within this window are compared, default: 30
+}
+
+/**
+ * What happens when an event matches a resolved issue's fingerprint
+ */
+export interface RegressionPolicy {
+  reopen_status: 'triaged' | 'in_progress'; // must be an allowed transition from resolved, default: 'triaged'
+  severity_bump: number; // levels to raise severity by (P2 -> P1 is 1), default: 1
+}
+
 /**
  * Policy configuration (Section 4.5)
  */
@@ -74,6 +139,11 @@ export interface Policy {
   attachment_policy: AttachmentPolicy;
   ai_policy: AIPolicy;
   telemetry_policy: TelemetryPolicy;
+  retention_overrides?: Record<string, Partial<RetentionPeriods>>; // keyed by env_name, default: DEFAULT_RETENTION
+  health_thresholds?: Partial<HealthThresholds>; // default: DEFAULT_HEALTH_THRESHOLDS
+  feedback_grouping?: Partial<FeedbackGroupingPolicy>; // default: DEFAULT_FEEDBACK_GROUPING
+  duplicate_detection?: Partial<DuplicateDetectionPolicy>; // default: DEFAULT_DUPLICATE_DETECTION
+  regression_policy?: Partial<RegressionPolicy>; // default: DEFAULT_REGRESSION_POLICY
 }
 
 /**
@@ -93,6 +163,56 @@ export interface Schedule {
   brief_mode?: BriefMode; // 'daily' = always send, 'only_on_issues' = skip if no active issues
 }
 
+/**
+ * External ticketing system (create-ticket action)
+ */
+export type TicketProviderType = 'jira' | 'github' | 'webhook';
+
+/**
+ * Prefix every ticket credential env var name must start with
+ * Admins choose the name and the host it's sent to, so other server secrets must be out of reach
+ */
+export const TICKET_SECRET_ENV_PREFIX = 'BRITEPULSE_TICKET_';
+
+/**
+ * Jira Cloud project settings
+ * Credentials are read from the API's environment, never stored on the app
+ */
+export interface JiraTicketConfig {
+  base_url: string; // e.g., 'https://brite.atlassian.net'
+  project_key: string;
+  issue_type?: string; // default: 'Bug'
+  user_email: string;
+  api_token_env: string; // env var holding the Jira API token, e.g. BRITEPULSE_TICKET_JIRA_TOKEN
+}
+
+/**
+ * GitHub Issues repository settings
+ */
+export interface GitHubTicketConfig {
+  owner: string;
+  repo: string;
+  labels?: string[];
+  token_env: string; // env var holding the GitHub token
+  api_url?: string; // default: 'https://api.github.com'
+}
+
+/**
+ * Generic outbound webhook settings
+ * The receiver must respond with { key, url } for the created ticket
+ */
+export interface WebhookTicketConfig {
+  url: string;
+  secret_env?: string; // env var holding the HMAC signing secret
+}
+
+export interface TicketingConfig {
+  provider: TicketProviderType;
+  jira?: JiraTicketConfig;
+  github?: GitHubTicketConfig;
+  webhook?: WebhookTicketConfig;
+}
+
 /**
  * App owners configuration
  */
@@ -114,6 +234,9 @@ export interface App {
   repo_mapping?: RepoMapping[];
   policies?: Policy;
   schedules?: Schedule;
+  ticketing?: TicketingConfig;
+  alert_rules?: AlertRule[];
+  webhooks?: WebhookSubscription[];
   created_at?: string; // ISO timestamp
   updated_at?: string; // ISO timestamp
 }
@@ -130,12 +253,7 @@ export const DEFAULT_POLICY: Policy = {
   ai_policy: {
     eligible_severity_min: 'P1',
     eligible_recurrence_min: 5,
-    model_allowed_inputs: [
-      'sanitized_feedback',
-      'sanitized_stack',
-      'retrieved_code_excerpts',
-      'metrics_summary',
-    ],
+    model_allowed_inputs: [...AI_INPUT_CATEGORIES],
   },
   telemetry_policy: {
     frontend_enabled: true,
@@ -157,7 +275,7 @@ export const DEFAULT_SCHEDULE: Omit<Schedule, 'daily_brief_recipients'> = {
 /**
  * Default retention periods (Section 3.3)
  */
-export const DEFAULT_RETENTION = {
+export const DEFAULT_RETENTION: Record<'prod' | 'stage' | 'dev', RetentionPeriods> = {
   prod: {
     raw_events_days: 30,
     issues_days: 365,
@@ -174,3 +292,40 @@ export const DEFAULT_RETENTION = {
     attachments_days: 7,
   },
 };
+
+/**
+ * Default installation health thresholds
+ */
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  silent_after_hours: 24,
+  max_missing_version_rate: 0.5,
+  max_missing_trace_rate: 0.8,
+  max_rejected_rate: 0.2,
+};
+
+/**
+ * Default feedback grouping settings
+ */
+export const DEFAULT_FEEDBACK_GROUPING: FeedbackGroupingPolicy = {
+  enabled: true,
+  similarity_threshold: 0.6,
+  lookback_days: 14,
+};
+
+/**
+ * Default near-duplicate detection settings (auto-merge is opt-in)
+ */
+export const DEFAULT_DUPLICATE_DETECTION: DuplicateDetectionPolicy = {
+  min_similarity: 0.7,
+  auto_merge_enabled: false,
+  auto_merge_threshold: 0.95,
+  lookback_days: 30,
+};
+
+/**
+ * Default regression handling
+ */
+export const DEFAULT_REGRESSION_POLICY: RegressionPolicy = {
+  reopen_status: 'triaged',
+  severity_bump: 1,
+};
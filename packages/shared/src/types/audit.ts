@@ -17,6 +17,7 @@ export interface AuditLog {
   action: string; // e.g., 'view_issue', 'change_status', 'rotate_keys'
   target_type: AuditTargetType;
   target_id: string;
+  app_id?: string; // app the action relates to (for filtering)
   timestamp: string; // ISO timestamp
 
   // Additional context (sanitized)
@@ -72,6 +73,10 @@ export type AuditAction =
   | 'update_owners'
   | 'update_policies'
   | 'update_schedules'
+  | 'update_ticketing'
+  | 'update_alert_rules'
+  | 'update_webhooks'
+  | 'test_webhook'
   | 'rotate_keys'
   // Attachment access
   | 'view_attachment'
@@ -84,7 +89,9 @@ export type AuditAction =
   | 'view_ai_analysis'
   // Daily brief
   | 'preview_daily_brief'
-  | 'send_daily_brief';
+  | 'send_daily_brief'
+  // Data retention
+  | 'run_retention_sweep';
 
 /**
  * Audit log creation input
@@ -95,6 +102,7 @@ export interface AuditLogInput {
   action: AuditAction | string;
   target_type: AuditTargetType;
   target_id: string;
+  app_id?: string;
   metadata?: Partial<AuditMetadata>;
 }
 
@@ -107,6 +115,7 @@ export interface AuditLogFilters {
   action?: AuditAction | string;
   target_type?: AuditTargetType;
   target_id?: string;
+  app_id?: string;
   after?: string; // ISO timestamp
   before?: string; // ISO timestamp
 }
@@ -116,8 +125,10 @@ export interface AuditLogFilters {
  */
 export interface AuditLogListResponse {
   logs: AuditLog[];
-  total: number;
-  page: number;
-  page_size: number;
-  has_more: boolean;
+  next_cursor: string | null; // audit_id to pass as `cursor` for the next page
 }
+
+/**
+ * Audit log export formats
+ */
+export type AuditLogExportFormat = 'csv' | 'ndjson';
@@ -21,9 +21,39 @@ export interface RequestMetadata {
   request_id?: string;
   service_name?: string;
   revision?: string;
+  endpoint?: string;
+  http_method?: string;
   http_status?: number;
 }
 
+/**
+ * Something the user or app did before an event, recorded by the SDK
+ */
+export type BreadcrumbCategory = 'navigation' | 'click' | 'console' | 'fetch' | 'xhr';
+
+export interface Breadcrumb {
+  timestamp: string; // ISO timestamp
+  category: BreadcrumbCategory;
+  message: string;
+  level?: 'info' | 'warning' | 'error';
+  data?: Record<string, string | number | boolean>; // e.g. method, status_code, duration_ms
+}
+
+/**
+ * Why a feedback event was grouped into an existing issue
+ */
+export type FeedbackMatchSignal = 'text' | 'route' | 'trace' | 'session';
+
+export interface FeedbackMatch {
+  issue_id: string; // issue the event was attached to
+  score: number; // 0.0-1.0
+  signals: FeedbackMatchSignal[];
+  reason: string; // shown to POs, e.g. "Description 72% similar, same route /checkout"
+  matched_at: string; // ISO timestamp
+  split_at?: string; // set when a user split the event back out into its own issue
+  split_by?: string;
+}
+
 /**
  * Feedback event payload
  */
@@ -40,7 +70,8 @@ export interface FeedbackPayload {
 export interface FrontendErrorPayload {
   error_type: string;
   message: string; // sanitized
-  stack?: string; // sanitized
+  stack?: string; // sanitized, symbolicated when a source map was uploaded for the version
+  raw_stack?: string; // minified stack as received, kept when symbolicated
   component_stack?: string;
   source_file?: string;
   line_number?: number;
@@ -87,6 +118,9 @@ export interface Event {
   fingerprint?: string; // required for error types
   attachment_refs?: string[]; // references to stored attachments
   request_metadata?: RequestMetadata;
+  repeat_count?: number; // occurrences the SDK collapsed into this event (default 1)
+  breadcrumbs?: Breadcrumb[]; // oldest first, redacted
+  feedback_match?: FeedbackMatch; // set when feedback was grouped into an existing issue
 }
 
 /**
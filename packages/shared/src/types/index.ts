@@ -11,8 +11,11 @@ export * from './app.js';
 export * from './event.js';
 export * from './issue.js';
 export * from './ai-analysis.js';
+export * from './ai-job.js';
 export * from './audit.js';
 export * from './user.js';
 export * from './daily-brief.js';
 export * from './api.js';
 export * from './notification.js';
+export * from './alert.js';
+export * from './webhook.js';
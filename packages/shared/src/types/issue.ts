@@ -4,7 +4,9 @@
  */
 
 import type { Environment, IssueStatus, IssueType, Severity } from './enums.js';
-import type { AIAnalysis } from './ai-analysis.js';
+import type { AIAnalysis, FeedbackAnalysis } from './ai-analysis.js';
+import type { IssueAIJob } from './ai-job.js';
+import type { TicketProviderType } from './app.js';
 
 /**
  * Issue occurrence counts
@@ -13,6 +15,7 @@ export interface IssueCounts {
   occurrences_total: number;
   occurrences_24h: number; // rolling 24-hour count
   unique_users_24h_est: number; // estimated unique users in 24h
+  occurrences_prev_24h?: number; // rolling count for the 24h window before the current one
 }
 
 /**
@@ -25,6 +28,38 @@ export interface IssueTimestamps {
   wont_fix_at?: string; // ISO timestamp, set when status becomes 'wont_fix'
 }
 
+/**
+ * Set when a resolved error reappears (see the regression policy)
+ */
+export interface IssueRegression {
+  detected_at: string; // ISO timestamp
+  version: string; // app version the error reappeared in
+  resolved_version?: string; // latest version seen on the issue before it was resolved
+  resolved_at?: string;
+  resolved_by?: string;
+  previous_severity: Severity;
+  count: number; // times this issue has regressed
+}
+
+/**
+ * Conditions that end a snooze; the issue wakes when any one of them is met
+ */
+export interface SnoozeCondition {
+  until?: string; // ISO timestamp
+  occurrences_24h_above?: number;
+  unique_users_24h_above?: number;
+  new_version?: boolean; // wake when the issue is seen in a version it hadn't been seen in before
+}
+
+/**
+ * Set while an issue is snoozed; cleared when it leaves the snoozed status
+ */
+export interface IssueSnooze extends SnoozeCondition {
+  snoozed_at: string; // ISO timestamp
+  snoozed_by: string;
+  versions_at_snooze?: string[]; // baseline for new_version
+}
+
 /**
  * Issue routing/assignment information
  */
@@ -40,6 +75,17 @@ export interface IssueReporter {
   email?: string;
 }
 
+/**
+ * Ticket created in an external system for this issue
+ */
+export interface ExternalTicket {
+  provider: TicketProviderType;
+  key: string; // e.g., 'PULSE-123' or 'brite/app#45'
+  url: string;
+  created_at: string; // ISO timestamp
+  created_by: string; // actor email
+}
+
 /**
  * Issue entity (Section 4.8)
  * A deduped, grouped, triaged unit representing a bug or request
@@ -63,13 +109,37 @@ export interface Issue {
   routing?: IssueRouting;
   reported_by?: IssueReporter | null; // user who reported (from first event)
   ai_analysis?: AIAnalysis;
+  ai_feedback_analysis?: FeedbackAnalysis; // feedback and feature requests
+  ai_job?: IssueAIJob; // latest queued or finished triage job
   tags?: string[];
   related_issue_ids?: string[];
+  external_ticket?: ExternalTicket; // set once by the create-ticket action
+  external_ticket_pending_at?: string; // set while a create-ticket request is in flight
 
   resolution_note?: string; // note added when resolved or won't fix
+  resolved_by?: string; // email of the user who last resolved the issue
+  regression?: IssueRegression; // latest regression, kept after the issue is resolved again
+  merged_into?: string; // set on an issue resolved by merging it into another
+  alternate_fingerprints?: string[]; // fingerprints of issues merged into this one
+  snooze?: IssueSnooze; // wake conditions while status is 'snoozed'
 
-  // Computed for display (not stored)
-  priority_score?: number;
+  // Maintained on write for filtering and ordering GET /issues
+  versions?: string[]; // app versions the issue has been seen in
+  search_tokens?: string[]; // terms from title, description, error messages and comments
+  priority_score?: number; // stored; recomputed when counts or severity change
+}
+
+/**
+ * Open issue that may be a near-duplicate of another (GET /issues/{issue_id}/similar)
+ */
+export interface SimilarIssue {
+  issue_id: string;
+  title: string;
+  status: IssueStatus;
+  severity: Severity;
+  similarity: number; // 0.0-1.0 from computeSimilarity on representative events
+  occurrences_total: number;
+  last_seen_at: string;
 }
 
 /**
@@ -84,6 +154,7 @@ export interface IssueInput {
   severity?: Severity; // default: P2
   primary_fingerprint?: string;
   initial_event_id: string;
+  version?: string; // app version of the initial event
   reported_by?: IssueReporter | null;
   routing?: IssueRouting;
   tags?: string[];
@@ -97,8 +168,11 @@ export interface IssueUpdateInput {
   severity?: Severity;
   assigned_to?: string;
   resolution_note?: string;
+  resolved_by?: string;
+  snooze?: IssueSnooze; // only with status 'snoozed'
   tags?: string[];
   ai_analysis?: AIAnalysis; // updated when AI triage runs
+  ai_feedback_analysis?: FeedbackAnalysis; // updated when feedback analysis runs
   reason?: string; // required for audit (optional for AI updates)
 }
 
@@ -138,11 +212,11 @@ export interface IssueFilters {
   issue_type?: IssueType | IssueType[];
   assigned_to?: string;
   tag?: string;
-  version?: string;
+  version?: string; // exact version or a pattern with * wildcards, e.g. '1.4.*'
   created_after?: string;
   created_before?: string;
   last_seen_after?: string;
-  search?: string;
+  search?: string; // every word must appear in the title, description, an error message or a comment
 }
 
 /**
@@ -170,7 +244,7 @@ export interface IssueComment {
   author_email: string;
   author_name?: string;
   body: string;
-  source: 'console' | 'email';
+  source: 'console' | 'email' | 'ticket' | 'system'; // 'ticket': status synced from an external ticket; 'system': automated note
   created_at: string; // ISO timestamp
   mentions?: string[]; // email addresses @mentioned in body
   attachment_refs?: string[]; // attachment IDs for uploaded images
@@ -185,4 +259,5 @@ export interface IssueListResponse {
   page: number;
   page_size: number;
   has_more: boolean;
+  next_cursor: string | null; // pass as `cursor` to fetch the next page
 }
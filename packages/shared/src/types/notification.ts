@@ -2,16 +2,23 @@
  * Notification types for in-app notification feed
  */
 
-export type NotificationType = 'mention' | 'comment_on_thread';
+export type NotificationType =
+  | 'mention'
+  | 'comment_on_thread'
+  | 'silent_installation'
+  | 'regression'
+  | 'snooze_woken'
+  | 'alert';
 
 export interface Notification {
   notification_id: string;
   recipient_email: string;
   type: NotificationType;
-  issue_id: string;
-  issue_title: string;
+  issue_id?: string; // set for issue notifications
+  issue_title?: string;
   app_id: string;
-  comment_id: string;
+  environment?: string; // set for installation notifications
+  comment_id?: string;
   actor_email: string;
   actor_name?: string;
   body_preview: string;
@@ -0,0 +1,92 @@
+/**
+ * Outbound webhook types
+ * Apps subscribe URLs to issue and brief events; Slack and Teams URLs get chat-formatted messages
+ */
+
+import type { ProductNextAction, TriageMode } from './ai-analysis.js';
+
+export type WebhookEventType =
+  | 'issue.created'
+  | 'issue.status_changed'
+  | 'issue.severity_changed'
+  | 'issue.comment_added'
+  | 'issue.ai_analysis_ready'
+  | 'brief.sent';
+
+/**
+ * Payload format for a subscription
+ * - json: the event envelope, HMAC-signed when secret_env is set
+ * - slack / teams: an incoming-webhook message
+ */
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface WebhookSubscription {
+  subscription_id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[];
+  enabled: boolean;
+  environments?: string[]; // issue events only, default: every environment
+  secret_env?: string; // env var holding the HMAC signing secret, never stored on the app
+}
+
+/**
+ * Event envelope sent to json subscriptions (and rendered for slack/teams)
+ */
+export interface WebhookEvent {
+  event_id: string;
+  type: WebhookEventType | 'webhook.test';
+  created_at: string;
+  app: { app_id: string; name: string };
+  environment?: string;
+  actor?: string;
+  issue?: {
+    issue_id: string;
+    title: string;
+    severity: string;
+    status: string;
+    issue_type: string;
+    environment: string;
+    occurrences_24h: number;
+    occurrences_total: number;
+    unique_users_24h_est: number;
+    url: string;
+  };
+  changes?: { previous_value: string; new_value: string };
+  comment?: { comment_id: string; author: string; body_preview: string };
+  ai_analysis?: {
+    analysis_id: string;
+    mode: TriageMode;
+    impact_summary: string; // the user need summary for feedback analyses
+    root_cause_hypothesis?: string; // bug triage only
+    product_next_action?: ProductNextAction; // feedback analysis only
+    confidence: number;
+  };
+  brief?: { issues_selected: number; recipients_sent: number };
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One event sent to one subscription (stored in webhook_deliveries)
+ * body is kept so retries resend the same bytes
+ */
+export interface WebhookDelivery {
+  delivery_id: string;
+  app_id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: WebhookEvent['type'];
+  url: string;
+  format: WebhookFormat;
+  body: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at?: string; // set while pending
+  last_attempt_at?: string;
+  response_status?: number;
+  error?: string;
+  created_at: string;
+  delivered_at?: string;
+}